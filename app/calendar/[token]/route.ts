@@ -0,0 +1,32 @@
+// app/calendar/[token]/route.ts
+import { db } from '../../../firebase';
+import { CalendarFeed, getFeedDays } from '../../../lib/calendarFeeds';
+import { CalendarFeedRepository, createFirestoreCalendarFeedRepository } from '../../../lib/calendarFeedRepository';
+import { personalDaysToICalendar } from '../../../lib/personalSchedule';
+
+// --- iCalendar feed of one employee's shifts ('/calendar/{token}.ics'), for phone calendar subscriptions ---
+
+const calendarFeedRepository: CalendarFeedRepository = createFirestoreCalendarFeedRepository(db);
+
+// Calendar apps poll the URL; always answer with the latest stored days
+export const dynamic = 'force-dynamic';
+
+export const GET = async (_request: Request, { params }: { params: Promise<{ token: string }> }): Promise<Response> => {
+  const { token } = await params;
+  let feed: CalendarFeed | null;
+  try {
+    feed = await calendarFeedRepository.loadFeed(token.replace(/\.ics$/, ''));
+  } catch (error) {
+    console.error('Failed to load calendar feed', error);
+    return new Response('Calendar unavailable', { status: 503 });
+  }
+  if (!feed) return new Response('Calendar not found', { status: 404 });
+
+  return new Response(personalDaysToICalendar(feed.employeeId, feed.employeeName, getFeedDays(feed), new Date(feed.updatedAt)), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="shifts.ics"',
+      'Cache-Control': 'no-store',
+    },
+  });
+};
@@ -0,0 +1,156 @@
+"use client"; // Loads the signed-in user's data in the browser, like the main page
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+
+import { db } from '../../../firebase';
+import type { Employee, MonthData } from '../../../lib/types';
+import { toDateKey, toMonthKey } from '../../../lib/dates';
+import { ClinicConfig } from '../../../lib/clinicConfig';
+import { ConfigRepository, createFirestoreConfigRepository } from '../../../lib/configRepository';
+import { ScheduleRepository, createFirestoreScheduleRepository } from '../../../lib/scheduleRepository';
+import { CalendarFeedRepository, createFirestoreCalendarFeedRepository } from '../../../lib/calendarFeedRepository';
+import { CalendarFeed, createFeedToken, refreshCalendarFeed } from '../../../lib/calendarFeeds';
+import { PersonalDay, buildPersonalSchedule, findEmployeeInMonths } from '../../../lib/personalSchedule';
+import { UserProfile, ROLE_LABELS, canManageCalendarFeed, canViewPersonalSchedule, getShiftReadScope } from '../../../lib/roles';
+import AuthGate from '../../../components/AuthGate';
+import PersonalShiftList from '../../../components/PersonalShiftList';
+import CalendarFeedPanel from '../../../components/CalendarFeedPanel';
+
+// Repository used to load the months ('schedules/2025-06', ..., or a staff member's own copies)
+const scheduleRepository: ScheduleRepository = createFirestoreScheduleRepository(db);
+// Repository used to load the clinic-wide configuration ('config/clinic')
+const configRepository: ConfigRepository = createFirestoreConfigRepository(db);
+// Repository used to keep the calendar feeds ('calendarFeeds/{token}')
+const calendarFeedRepository: CalendarFeedRepository = createFirestoreCalendarFeedRepository(db);
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; config: ClinicConfig; months: Record<string, MonthData> };
+
+interface PersonalScheduleProps {
+  user: UserProfile;
+  employeeId: string;
+  onSignOut: () => void;
+}
+
+// --- One employee's upcoming shifts and calendar link ---
+const PersonalSchedule: React.FC<PersonalScheduleProps> = ({ user, employeeId, onSignOut }) => {
+  const [loadState, setLoadState] = useState<LoadState>({ status: 'loading' });
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const canManageFeed: boolean = canManageCalendarFeed(user, employeeId);
+
+  useEffect(() => {
+    if (!canViewPersonalSchedule(user, employeeId)) {
+      setLoadState({ status: 'error', message: 'คุณไม่มีสิทธิ์ดูตารางของพนักงานคนนี้' });
+      return;
+    }
+    let isCancelled: boolean = false;
+    const load = async (): Promise<void> => {
+      try {
+        const now: Date = new Date();
+        const config: ClinicConfig = await configRepository.loadConfig();
+        // From the previous month on, which is what the calendar feeds keep (staff load their own copies)
+        const months: Record<string, MonthData> = await scheduleRepository.loadMonthsFrom(toMonthKey(now.getFullYear(), now.getMonth() - 1), config.branches, getShiftReadScope(user));
+        let storedFeeds: CalendarFeed[] = canManageFeed ? await calendarFeedRepository.listFeeds(employeeId) : [];
+        // Bring the feeds up to date with what is stored now
+        storedFeeds = await Promise.all(storedFeeds.map(async (feed: CalendarFeed): Promise<CalendarFeed> => {
+          const refreshed: CalendarFeed | null = refreshCalendarFeed(feed, months, config.branches, config.shiftDefinitions, now);
+          if (!refreshed) return feed;
+          await calendarFeedRepository.saveFeed(refreshed);
+          return refreshed;
+        }));
+        if (isCancelled) return;
+        setFeeds(storedFeeds);
+        setLoadState({ status: 'ready', config, months });
+      } catch (error) {
+        console.error('Failed to load personal schedule', error);
+        if (!isCancelled) setLoadState({ status: 'error', message: 'ไม่สามารถโหลดตารางเวรได้ กรุณาลองใหม่อีกครั้ง' });
+      }
+    };
+    load();
+    return () => { isCancelled = true; };
+  }, [user, employeeId, canManageFeed]);
+
+  const employee: Employee | null = loadState.status === 'ready' ? findEmployeeInMonths(employeeId, loadState.months) : null;
+  const today: Date = new Date();
+  const days: PersonalDay[] = loadState.status === 'ready'
+    ? buildPersonalSchedule(employeeId, loadState.months, loadState.config.branches, loadState.config.shiftDefinitions, toDateKey(today.getFullYear(), today.getMonth(), today.getDate()))
+    : [];
+
+  const handleCreateFeed = async (): Promise<void> => {
+    if (loadState.status !== 'ready' || !employee) return;
+    const now: Date = new Date();
+    const feed: CalendarFeed = {
+      token: createFeedToken(),
+      employeeId,
+      employeeName: employee.name,
+      ownerUid: user.uid,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      months: {},
+    };
+    const filled: CalendarFeed = refreshCalendarFeed(feed, loadState.months, loadState.config.branches, loadState.config.shiftDefinitions, now) ?? feed;
+    try {
+      await calendarFeedRepository.saveFeed(filled);
+      setFeeds((prev: CalendarFeed[]) => [...prev, filled]);
+    } catch (error) {
+      console.error('Failed to create calendar feed', error);
+    }
+  };
+
+  const handleRevokeFeed = async (token: string): Promise<void> => {
+    try {
+      await calendarFeedRepository.deleteFeed(token);
+      setFeeds((prev: CalendarFeed[]) => prev.filter((feed: CalendarFeed) => feed.token !== token));
+    } catch (error) {
+      console.error('Failed to revoke calendar feed', error);
+    }
+  };
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex justify-between items-center text-sm text-gray-600">
+          <Link href="/" className="text-blue-600 hover:underline">← กลับไปตารางเวร</Link>
+          <span>
+            {user.email} ({ROLE_LABELS[user.role]})
+            <button onClick={onSignOut} className="ml-3 text-blue-600 hover:underline">ออกจากระบบ</button>
+          </span>
+        </div>
+
+        <h1 className="text-3xl font-extrabold text-gray-900">
+          {employee ? employee.name : 'ตารางเวรของพนักงาน'}
+          {employee && <span className="block text-base font-normal text-gray-600">{employee.position}{employee.type === 'part-time' ? ', พาร์ทไทม์' : ''}</span>}
+        </h1>
+
+        {loadState.status === 'loading' && <p className="text-gray-600">กำลังโหลด...</p>}
+        {loadState.status === 'error' && <p className="text-red-700">{loadState.message}</p>}
+        {loadState.status === 'ready' && !employee && <p className="text-gray-600">ไม่พบพนักงานนี้ในตารางเวรตั้งแต่เดือนที่แล้ว</p>}
+        {loadState.status === 'ready' && employee && (
+          <>
+            <PersonalShiftList days={days} shiftCatalog={loadState.config.shiftCatalog} />
+            {canManageFeed && (
+              <CalendarFeedPanel feeds={feeds} origin={window.location.origin} onCreate={handleCreateFeed} onRevoke={handleRevokeFeed} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Route '/employees/{employeeId}'
+const PersonalSchedulePage: React.FC = () => {
+  const params = useParams<{ employeeId: string }>();
+  const employeeId: string = decodeURIComponent(params.employeeId);
+  return (
+    <AuthGate>
+      {(user: UserProfile, onSignOut: () => void) => <PersonalSchedule key={user.uid} user={user} employeeId={employeeId} onSignOut={onSignOut} />}
+    </AuthGate>
+  );
+};
+
+export default PersonalSchedulePage;
@@ -1,5 +1,6 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorkerRegistration from "../components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,6 +18,11 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
+// Colour of the browser bar, same as the manifest (app/manifest.ts)
+export const viewport: Viewport = {
+  themeColor: "#2563EB",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -28,6 +34,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
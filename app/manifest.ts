@@ -0,0 +1,18 @@
+// app/manifest.ts
+import type { MetadataRoute } from 'next';
+
+// Web app manifest, so the timetable can be installed and opened like an app (served as /manifest.webmanifest)
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'ตารางเวรคลินิก',
+    short_name: 'ตารางเวร',
+    description: 'จัดตารางเวรพนักงานของทุกสาขา ใช้งานได้แม้ไม่มีอินเทอร์เน็ต',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#F9FAFB',
+    theme_color: '#2563EB',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+    ],
+  };
+}
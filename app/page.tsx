@@ -1,49 +1,122 @@
 "use client"; // This directive marks the component as a Client Component, allowing React Hooks like useState and useEffect to be used.
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
 
 import { db } from '../firebase';
-import { collection, getDocs } from 'firebase/firestore';
+import { Branch, BranchTransfer, Colleague, Employee, PartTimeAvailability, BaseShiftString, ShiftCode, ShiftEntry, MonthlySchedule, MonthData, RemovedEmployee, isWorkingShiftObject } from '../lib/types';
+import { parseDateKey, toDateKey, toMonthKey } from '../lib/dates';
+import { createBranchId, findBranchReferences, getActiveBranches, getBranchName } from '../lib/branches';
+import { DAY_NAMES, SHORT_DAY_NAMES, PART_TIME_BRANCH, DEFAULT_CLINIC_DAY_OFF } from '../lib/constants';
+import { BranchClosures, ClosureSettings, Holiday, getClosureReason, isBranchClosed } from '../lib/closures';
+import { StaffingRule, StaffingViolation, getBranchRules, describeStaffingRule } from '../lib/staffingRules';
+import { ClinicConfig, createDefaultClinicConfig } from '../lib/clinicConfig';
+import { generateMonthSchedule, GeneratorResult, StaffingShortfall } from '../lib/scheduleGenerator';
+import { validatePartTimeAssignment } from '../lib/partTimeDispatch';
+import { PlusIcon, TrashIcon, EditIcon, SaveIcon, ChevronLeftIcon, ChevronRightIcon } from '../components/icons';
+import StaffingRulesEditor from '../components/StaffingRulesEditor';
+import ViolationsPanel from '../components/ViolationsPanel';
+import { DEFAULT_WORK_LIMITS, ScheduleViolation, getBranchDayViolations, validateMonthSchedule } from '../lib/scheduleValidation';
+import ClosuresPanel from '../components/ClosuresPanel';
+import BranchAdminPanel from '../components/BranchAdminPanel';
+import BranchOverviewMatrix from '../components/BranchOverviewMatrix';
+import DispatchBoard from '../components/DispatchBoard';
+import AvailabilityPanel from '../components/AvailabilityPanel';
+import ImportPanel from '../components/ImportPanel';
+import { EmployeeImportRow, applyEmployeeImport } from '../lib/employeeImport';
+import { addTransfer, createEmployeeId, getHomeBranchOn, getHomeBranchesInMonth, isEmployedInMonth, isEmployedOn, removeTransfer, settleTransfers, validateEmployment } from '../lib/employees';
+import PositionCatalogPanel from '../components/PositionCatalogPanel';
+import { RosterChange, applyRosterImport, parseShiftCode } from '../lib/rosterImport';
+import { RosterTemplate } from '../lib/rosterTemplates';
+import RosterFillPanel from '../components/RosterFillPanel';
+import { getWorkingBranch, getWorkingShiftType, isSameEntry, isWorkingEntry } from '../lib/scheduleUtils';
+import { CellEdit, CellEditCheck, GridPosition, GridRange, checkCellEdit, fillGridRange, fillGridRangeFrom, gridRangeToText, isInGridRange, keepsOtherBranchBooking, moveGridPosition, pasteIntoGridRange, toGridRange } from '../lib/gridEditing';
+import { ScheduleRepository, createFirestoreScheduleRepository } from '../lib/scheduleRepository';
+import { ConfigRepository, createFirestoreConfigRepository } from '../lib/configRepository';
+import { pickMonthSchedule, replaceMonthSchedule } from '../lib/scheduleSchema';
+import { getShiftBackground, getShiftStyle } from '../lib/shiftStyles';
+import { ShiftType, countsTowardHeadcount, findShiftType } from '../lib/shiftCatalog';
+import ShiftCatalogPanel from '../components/ShiftCatalogPanel';
+import { BranchRoster, RosterInput, buildBranchRoster, rostersToCsv } from '../lib/rosterExport';
+import { buildRosterWorkbook } from '../lib/rosterWorkbook';
+import { downloadBlob } from '../lib/download';
+import ExportControls, { ExportFormat, ExportScope } from '../components/ExportControls';
+import PrintableRoster from '../components/PrintableRoster';
+import { UserRepository, createFirestoreUserRepository } from '../lib/userRepository';
+import { UserProfile, ROLE_LABELS, ShiftReadScope, canAdminister, canEditBranchSchedule, canViewEmployee, getShiftReadScope } from '../lib/roles';
+import { LeaveRequest, LeaveRequestDraft, LeaveStatus, applyLeaveToSchedule, findLeaveDaysAtOtherBranches, findLeaveStaffingWarnings, listLeaveMonths } from '../lib/leaveRequests';
+import { LeaveRepository, createFirestoreLeaveRepository } from '../lib/leaveRepository';
+import LeaveRequestPanel from '../components/LeaveRequestPanel';
+import { ShiftSwap, ShiftSwapDraft, ShiftSwapResult, applyShiftSwap, getShiftSwapMonth } from '../lib/shiftSwaps';
+import { ShiftSwapRepository, createFirestoreShiftSwapRepository, linkShiftSwapDecision } from '../lib/shiftSwapRepository';
+import ShiftSwapPanel from '../components/ShiftSwapPanel';
+import { LeaveEntitlement, LeaveUsage, applyLeaveChange, checkLeaveEntitlement, countYearLeaveUsage, isLeaveKind, leaveSummaryToCsv } from '../lib/leaveBalances';
+import LeaveEntitlementsEditor from '../components/LeaveEntitlementsEditor';
+import LeaveBalancePanel from '../components/LeaveBalancePanel';
+import { ShiftDefinition, ShiftDefinitions } from '../lib/shiftTimes';
+import { PayRates, PayrollRow, buildPayrollSummary, payrollToCsv } from '../lib/payroll';
+import ShiftTimesEditor from '../components/ShiftTimesEditor';
+import PayrollPanel from '../components/PayrollPanel';
+import { removeEmployee, restoreEmployee } from '../lib/removedEmployees';
+import { AuditChange, AuditEvent, AuditSource, combineAuditSources, diffMonthData, toAuditEvents } from '../lib/auditLog';
+import { AuditRepository, createFirestoreAuditRepository } from '../lib/auditRepository';
+import { CellValidator, MergeConflict, MergeResult, mergeMonthChanges, monthSnapshot } from '../lib/monthMerge';
+import AuditLogPanel from '../components/AuditLogPanel';
+import { PresenceEntry, PRESENCE_HEARTBEAT_MS, getActiveEditors } from '../lib/presence';
+import { PresenceRepository, createFirestorePresenceRepository } from '../lib/presenceRepository';
+import PresenceBar from '../components/PresenceBar';
+import { CalendarFeed, refreshCalendarFeed } from '../lib/calendarFeeds';
+import { CalendarFeedRepository, createFirestoreCalendarFeedRepository } from '../lib/calendarFeedRepository';
+import AuthGate from '../components/AuthGate';
+import UserRolesPanel from '../components/UserRolesPanel';
+import { OfflineStore, PendingMonthEdits, PendingQueue, UnreadablePendingEdits, createIndexedDbOfflineStore, isConnectionError } from '../lib/offlineStore';
+
+// Repository used to load and save the months ('schedules/2025-06' with its shifts, see lib/scheduleRepository.ts)
+const scheduleRepository: ScheduleRepository = createFirestoreScheduleRepository(db);
+// Repository used to load and save the clinic-wide configuration ('config/clinic')
+const configRepository: ConfigRepository = createFirestoreConfigRepository(db);
+// Repository used to load user profiles and roles ('users/{uid}')
+const userRepository: UserRepository = createFirestoreUserRepository(db);
+// Repository used to load and save leave requests ('leaveRequests/{id}')
+const leaveRepository: LeaveRepository = createFirestoreLeaveRepository(db);
+// Repository used to load and save shift swaps ('shiftSwaps/{id}')
+const shiftSwapRepository: ShiftSwapRepository = createFirestoreShiftSwapRepository(db);
+// Repository used to append and list audit events ('auditLog/{id}')
+const auditRepository: AuditRepository = createFirestoreAuditRepository(db);
+// Repository used to publish and watch who is editing ('presence/{uid}')
+const presenceRepository: PresenceRepository = createFirestorePresenceRepository(db);
+// Repository used to refresh the employees' calendar feeds ('calendarFeeds/{token}')
+const calendarFeedRepository: CalendarFeedRepository = createFirestoreCalendarFeedRepository(db);
+// Copy of the months and configuration kept in this browser, with the queue of edits waiting to be stored
+const offlineStore: OfflineStore = createIndexedDbOfflineStore();
+
+// Keep a version of a month confirmed by the server, so it can be opened offline. Best effort.
+const keepOfflineCopy = (keptMonthKey: string, data: MonthData): void => {
+  offlineStore.saveMonth(keptMonthKey, data).catch((error: unknown) => console.error('Failed to keep the month offline', error));
+};
 
+// Delay before unsaved changes are written back automatically
+const AUTOSAVE_DELAY_MS: number = 1500;
 
-// --- Type Definitions for a more robust application with TypeScript ---
+// How long a month waits for the server before the copy kept in this browser is shown
+const OFFLINE_LOAD_TIMEOUT_MS: number = 4000;
 
-// Define the structure of an Employee object
-interface Employee {
-  id: string; // Unique ID for the employee
-  name: string; // Employee's full name
-  position: string; // Employee's position (e.g., 'แพทย์แผนไทย', 'ผู้ช่วยแพทย์')
-  branch: string; // The branch the employee is assigned to, or 'พาร์ทไทม์' for part-time staff
-  type: 'full-time' | 'part-time'; // Employee type: full-time or part-time
-}
+// Delay between attempts to store queued edits while the browser reports a connection that does not work
+const OFFLINE_RETRY_DELAY_MS: number = 30000;
 
-// All possible string values for a shift, including empty string
-type BaseShiftString = 'เช้า' | 'บ่าย' | 'หยุด' | 'ลา' | 'ป่วย' | 'ปิด' | '';
+// Number of changes that can be undone
+const UNDO_LIMIT: number = 50;
 
-// For part-time employees working a shift in a specific branch
-interface WorkingShiftObject {
-  type: 'เช้า' | 'บ่าย'; // The type of shift
-  branch: string; // The branch where the part-timer is working on this day
-}
+// Refused cells of a bulk edit named in the message; the rest are only counted
+const MAX_LISTED_REFUSALS: number = 5;
 
-// A ShiftEntry can be a simple string (for full-time, or part-time non-working shifts)
-// OR it can be a WorkingShiftObject (for part-time working shifts)
-type ShiftEntry = BaseShiftString | WorkingShiftObject;
 
-// Type guard to check if a ShiftEntry is a WorkingShiftObject
-// This helps TypeScript understand when it's an object vs a string
-function isWorkingShiftObject(shift: ShiftEntry | undefined): shift is WorkingShiftObject {
-  return typeof shift === 'object' && shift !== null && 'type' in shift && 'branch' in shift;
-}
+// --- Type Definitions for a more robust application with TypeScript ---
+// Shared domain types (Employee, ShiftEntry, MonthlySchedule, ...) live in lib/types.ts
 
-// Define the structure of the monthly schedule
-// It's a record where keys are date strings (e.g., '2025-06-01')
-// And values are another record where keys are employee IDs and values are ShiftEntry
-interface MonthlySchedule {
-  [dateKey: string]: {
-    [employeeId: Employee['id']]: ShiftEntry;
-  };
-}
+// Status of the current month's data compared to what is stored in Firestore
+// ('offline': the edits are kept in the sync queue of this browser until the server can be reached)
+type SaveStatus = 'loading' | 'saved' | 'unsaved' | 'saving' | 'error' | 'offline';
 
 // Define the structure for the modal state
 interface ModalState {
@@ -85,48 +158,6 @@ const CustomModal: React.FC<ModalState> = ({ isOpen, title, message, onConfirm,
   );
 };
 
-// Icons (using inline SVG to avoid external dependencies like Lucide React for this demo)
-const PlusIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <line x1="12" y1="5" x2="12" y2="19"></line>
-    <line x1="5" y1="12" x2="19" y2="12"></line>
-  </svg>
-);
-
-const TrashIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <polyline points="3 6 5 6 21 6"></polyline>
-    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
-  </svg>
-);
-
-const EditIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
-    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
-  </svg>
-);
-
-const SaveIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 =0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path>
-    <polyline points="17 21 17 13 7 13 7 21"></polyline>
-    <polyline points="7 3 7 8 15 8"></polyline>
-  </svg>
-);
-
-const ChevronLeftIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <polyline points="15 18 9 12 15 6"></polyline>
-  </svg>
-);
-
-const ChevronRightIcon: React.FC = () => (
-  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-    <polyline points="9 18 15 12 9 6"></polyline>
-  </svg>
-);
-
 // --- Custom scrollbar for employee list ---
 const scrollbarStyles = `
   .scrollbar-thin::-webkit-scrollbar {
@@ -146,25 +177,21 @@ const scrollbarStyles = `
 `;
 
 
-// Main App Component
-const App: React.FC = () => {
-  // Initial branches for the clinic (9 branches as per prompt + new ones)
-  const initialBranches: string[] = [
-    'บึงทับช้าง', 'บัวใหญ่', 'โนนสูง', 'ขามสะแกแสง', 'หนองไข่น้ำ',
-    'พนมวันท์', 'วังน้ำเขียว', 'เคหะ', 'โนนไทย', // Replaced 'อโศก' with 'โนนไทย'
-    'จักราช' // Added 'จักราช'
-  ];
+interface ScheduleAppProps {
+  user: UserProfile; // The signed-in user; decides what can be edited
+  onSignOut: () => void;
+}
 
-  // Positions available in the clinic
-  const positions: string[] = ['แพทย์แผนไทย', 'ผู้ช่วยแพทย์', 'พนักงานนวด'];
+// Main App Component, shown once a user is signed in
+const ScheduleApp: React.FC<ScheduleAppProps> = ({ user, onSignOut }) => {
+  const isAdmin: boolean = canAdminister(user);
+  // Staff load the months with only their own shifts (the rules let them read nothing else)
+  const shiftReadScope: ShiftReadScope = getShiftReadScope(user);
 
   // State for employees (initially empty, no example employees)
   const [employees, setEmployees] = useState<Employee[]>([]);
 
-  // State for branches
-  const [branches, setBranches] = useState<string[]>(initialBranches);
-
-  // State for monthly schedule (date -> employeeId -> { shiftType: 'เช้า'/'บ่าย'/'หยุด'/'ลา'/'ป่วย'/'ปิด', assignedBranch?: 'สาขาที่จัดเวร' (for part-timers working shifts) })
+  // State for monthly schedule (date -> employeeId -> { shiftType: catalog code ('เช้า', 'บ่าย', ...)/'หยุด'/'ลา'/'ป่วย'/'ปิด', assignedBranch?: 'สาขาที่จัดเวร' (for part-timers working shifts) })
   // For full-time employees, shiftType is a string. For part-time working shifts, it's an object with type and branch.
   // For part-time non-working shifts ('หยุด', 'ลา', 'ป่วย', ''), it's a string.
   const [monthlySchedule, setMonthlySchedule] = useState<MonthlySchedule>({});
@@ -173,50 +200,97 @@ const App: React.FC = () => {
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
 
   // State for selected branch to view schedule
-  const [selectedBranch, setSelectedBranch] = useState<string>(initialBranches[0]); // Default to the first branch
+  const [selectedBranch, setSelectedBranch] = useState<string>(''); // Branch ID, set to the first branch once branches are known
 
   // State for managing employee edit mode
   const [editingEmployeeId, setEditingEmployeeId] = useState<string | null>(null);
   const [editedEmployee, setEditedEmployee] = useState<Employee>({ id: '', name: '', position: '', branch: '', type: 'full-time' });
+  const [newTransfer, setNewTransfer] = useState<BranchTransfer>({ date: '', branch: '' }); // Transfer being added in edit mode
 
   // State for new employee form
-  const [newEmployee, setNewEmployee] = useState<Omit<Employee, 'id'>>({ name: '', position: '', branch: initialBranches[0], type: 'full-time' }); // Default to full-time, first branch
+  const [newEmployee, setNewEmployee] = useState<Omit<Employee, 'id'>>({ name: '', position: '', branch: '', type: 'full-time' }); // Default to full-time, branch chosen in the form
 
   // State for modal (for alerts/confirmations)
   const [modal, setModal] = useState<ModalState>({ isOpen: false, title: '', message: '', onConfirm: () => {}, onCancel: () => {}, showCancel: false });
 
-  // Day names for clinic day off selection, including 'ไม่มี'
-  const dayNames: string[] = ['อาทิตย์', 'จันทร์', 'อังคาร', 'พุธ', 'พฤหัสบดี', 'ศุกร์', 'เสาร์', 'ไม่มี' ];
   // State for clinic-wide day off
-  const [clinicDayOff, setClinicDayOff] = useState<string>('อาทิตย์'); // Default Sunday
+  const [clinicDayOff, setClinicDayOff] = useState<string>(DEFAULT_CLINIC_DAY_OFF); // Default Sunday
 
-  useEffect(() => {
-    const loadScheduleFromFirestore = async () => {
-      const querySnapshot = await getDocs(collection(db, 'schedules'));
-      const schedules = querySnapshot.docs.map(doc => doc.data());
-
-      if (schedules.length > 0) {
-        const latest = schedules[0]; // ใช้เอกสารล่าสุดหรือเอกสารแรก
-        setEmployees(Array.isArray(latest.employees) ? latest.employees : []);
-        const scheduleMap = {} as MonthlySchedule;
-
-        if (latest.schedule) {
-          Object.entries(latest.schedule).forEach(([empId, days]: any) => {
-            Object.entries(days).forEach(([day, shift]) => {
-              const date = latest.date;
-              if (!scheduleMap[date]) scheduleMap[date] = {};
-              scheduleMap[date][empId] = shift as ShiftEntry;
-            });
-          });
-        }
+  // Employees deleted from the displayed month, restorable with their shifts
+  const [removedEmployees, setRemovedEmployees] = useState<RemovedEmployee[]>([]);
 
-        setMonthlySchedule(scheduleMap);
-      }
-    };
+  // The other employees of the displayed month, by name; staff only load themselves into `employees`
+  const [colleagues, setColleagues] = useState<Colleague[]>([]);
 
-    loadScheduleFromFirestore();
-  }, []);
+  // State for clinic-wide configuration (staffing rules, ...) and its persistence status
+  const [clinicConfig, setClinicConfig] = useState<ClinicConfig>(createDefaultClinicConfig());
+  const [configStatus, setConfigStatus] = useState<SaveStatus>('loading');
+  const isConfigLoaded: boolean = configStatus !== 'loading';
 
+  // Branches: the full list (including archived) for names and history, and the active branch IDs for scheduling
+  const allBranches: Branch[] = clinicConfig.branches;
+  const activeBranches: Branch[] = useMemo(() => getActiveBranches(allBranches), [allBranches]);
+  const branches: string[] = useMemo(() => activeBranches.map((b: Branch) => b.id), [activeBranches]);
+  const branchesRef = useRef<Branch[]>(allBranches); // Latest branch list, read when a month is loaded
+  branchesRef.current = allBranches;
+  const branchName = (branchId: string): string => getBranchName(allBranches, branchId);
+
+  // Keep the selected branch pointing at an active branch (e.g. after loading or archiving);
+  // a manager starts on their own branch
+  useEffect(() => {
+    if (branches.length > 0 && !branches.includes(selectedBranch)) {
+      setSelectedBranch(user.branchId !== null && branches.includes(user.branchId) ? user.branchId : branches[0]);
+    }
+  }, [branches, selectedBranch, user.branchId]);
+
+  // User profiles, listed for admins so they can assign roles
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  useEffect(() => {
+    if (!isAdmin) return;
+    userRepository.listUsers()
+      .then(setUsers)
+      .catch((error: unknown) => console.error('Failed to load users', error));
+  }, [isAdmin]);
+
+  // Leave requests: staff only load their own, managers and admins every request
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  useEffect(() => {
+    if (user.role === 'staff' && user.employeeId === null) return;
+    leaveRepository.listRequests(user.role === 'staff' ? user.employeeId : null)
+      .then(setLeaveRequests)
+      .catch((error: unknown) => console.error('Failed to load leave requests', error));
+  }, [user.role, user.employeeId]);
+
+  // Shift swaps: staff only load the ones they are part of, managers and admins every swap
+  const [shiftSwaps, setShiftSwaps] = useState<ShiftSwap[]>([]);
+  useEffect(() => {
+    if (user.role === 'staff' && user.employeeId === null) return;
+    shiftSwapRepository.listSwaps(user.role === 'staff' ? user.employeeId : null)
+      .then(setShiftSwaps)
+      .catch((error: unknown) => console.error('Failed to load shift swaps', error));
+  }, [user.role, user.employeeId]);
+
+  // Everything that decides when a branch is closed
+  const closures: ClosureSettings = useMemo(() => ({
+    clinicDayOff,
+    branchClosures: clinicConfig.branchClosures,
+    holidays: clinicConfig.holidays,
+  }), [clinicDayOff, clinicConfig]);
+
+  // Day highlighted in the grid after jumping from the violations panel or the overview
+  const [highlightedDay, setHighlightedDay] = useState<number | null>(null);
+  // Employee whose cell on the highlighted day is outlined (a violation about one employee)
+  const [highlightedEmployeeId, setHighlightedEmployeeId] = useState<string | null>(null);
+
+  // 'branch' shows the editable grid of one branch, 'overview' the headcount of every branch
+  const [viewMode, setViewMode] = useState<'branch' | 'overview'>('branch');
+  // Whether the branch grid lists every part-timer, or only those working at the branch this month
+  const [showAllPartTimers, setShowAllPartTimers] = useState<boolean>(false);
+
+  // Cell selection of the branch grid: the active cell and the corner the range was started from
+  const [gridSelection, setGridSelection] = useState<{ anchor: GridPosition; focus: GridPosition } | null>(null);
+  const isDraggingSelectionRef = useRef<boolean>(false);
+  const gridRef = useRef<HTMLDivElement>(null);
 
   // Get days in current month
   const getDaysInMonth = (year: number, month: number): number => {
@@ -227,83 +301,909 @@ const App: React.FC = () => {
   const currentMonth: number = currentDate.getMonth(); // 0-indexed
   const daysInMonth: number = getDaysInMonth(currentYear, currentMonth);
   const daysArray: number[] = Array.from({ length: daysInMonth }, (_, i) => i + 1);
+  const monthKey: string = toMonthKey(currentYear, currentMonth); // Firestore document ID, e.g. '2025-06'
+
+  // State for persistence status of the displayed month
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('loading');
+  const savedSnapshotRef = useRef<string | null>(null); // Serialized month data as last loaded/saved (null = take current state as baseline)
+  const currentSnapshotRef = useRef<string>(''); // Serialized month data as currently shown
+  const monthKeyRef = useRef<string>(monthKey); // Month currently displayed, used to ignore results for a month we already left
+  // Stored version the displayed month is based on; local edits are merged onto newer versions from it
+  const syncedRef = useRef<MonthData | null>(null);
+  const currentDataRef = useRef<MonthData | null>(null); // Month data as currently shown
+  // Handles versions of the month stored after the first one (set further down, once everything it uses exists)
+  const remoteMonthHandlerRef = useRef<(data: MonthData) => void>(() => {});
+
+  // Serialize the month being displayed, exactly as it would be written to the repository
+  const buildMonthData = useCallback((): MonthData => ({
+    employees,
+    monthlySchedule: pickMonthSchedule(monthlySchedule, monthKey),
+    clinicDayOff,
+    removedEmployees,
+  }), [employees, monthlySchedule, monthKey, clinicDayOff, removedEmployees]);
+
+  // Put a whole version of the displayed month on screen (undo/redo, removing and restoring employees)
+  const applyMonthData = useCallback((data: MonthData): void => {
+    setEmployees(data.employees);
+    setMonthlySchedule((prevSchedule: MonthlySchedule) => replaceMonthSchedule(prevSchedule, data.monthlySchedule, monthKey));
+    setClinicDayOff(data.clinicDayOff);
+    setRemovedEmployees(data.removedEmployees);
+  }, [monthKey]);
+
+  // Watch the month matching currentDate whenever the month changes (staff watch their own copy)
+  // (once the configuration is known, since the document refers to branches by ID).
+  // The first version is the load; later ones are edits stored by other users (or our own saves).
+  // The copy kept in this browser is read alongside: edits still in the sync queue are put on top of the
+  // server version, and the copy is shown when the server does not answer (see lib/offlineStore.ts).
+  useEffect(() => {
+    if (!isConfigLoaded) return;
+    let isLoaded: boolean = false;
+    let isCancelled: boolean = false;
+    let serverData: MonthData | null | undefined; // First version from the server; undefined until it answers
+    let kept: { copy: MonthData | null; pending: PendingMonthEdits | null } | null = null; // null until read
+    let useKeptCopy: boolean = !navigator.onLine; // Show the kept copy without waiting for the server
+    let isMissingReported: boolean = false;
+    monthKeyRef.current = monthKey;
+    syncedRef.current = null;
+    currentDataRef.current = null;
+    setSaveStatus('loading');
+
+    // Put the month on screen: `shown` is displayed, `synced` the server version it is based on
+    const finishLoading = (synced: MonthData | null, shown: MonthData | null): void => {
+      isLoaded = true;
+      setColleagues(shown?.colleagues ?? []);
+      if (shown) {
+        setEmployees(shown.employees);
+        // Replace this month's days with the stored ones, keep other months as they are
+        setMonthlySchedule((prevSchedule: MonthlySchedule) => replaceMonthSchedule(prevSchedule, shown.monthlySchedule, monthKey));
+        setClinicDayOff(shown.clinicDayOff);
+        setRemovedEmployees(shown.removedEmployees);
+        syncedRef.current = synced;
+      } else {
+        // Transfers in effect by the first of the month become the home branch
+        setEmployees((prev: Employee[]) => prev.map((employee: Employee) => settleTransfers(employee, monthKey)));
+        setRemovedEmployees([]);
+      }
+      // A month that was never saved keeps the current employees and settings and starts empty
+      savedSnapshotRef.current = null;
+      // Queued edits are saved right away (or queued again while offline)
+      setSaveStatus(shown && synced && monthSnapshot(shown) !== monthSnapshot(synced) ? 'unsaved' : 'saved');
+    };
 
-  // Function to handle shift change
-  const handleShiftChange = useCallback((employeeId: Employee['id'], day: number, value: string) => { // 'value' from select is always string
-    const employee: Employee | undefined = employees.find(e => e.id === employeeId);
-    if (!employee) return; // Should not happen
+    const tryLoading = (): void => {
+      if (isLoaded || kept === null) return;
+      const { copy, pending } = kept;
+      if (serverData !== undefined) {
+        const synced: MonthData | null = serverData ?? pending?.base ?? null;
+        finishLoading(synced, pending && synced ? mergeMonthChanges(pending.base, pending.local, synced).data : serverData);
+        if (serverData) keepOfflineCopy(monthKey, serverData);
+      } else if (useKeptCopy && (pending || copy)) {
+        finishLoading(pending?.base ?? copy, pending?.local ?? copy);
+      } else if (useKeptCopy && !isMissingReported) {
+        isMissingReported = true;
+        setModal({
+          isOpen: true,
+          title: 'ไม่มีข้อมูลในเครื่อง',
+          message: 'ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้ และยังไม่เคยเปิดตารางเวรเดือนนี้บนเครื่องนี้ ตารางจะแสดงเมื่อกลับมาออนไลน์',
+          onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+          onCancel: () => {},
+          showCancel: false,
+        });
+      }
+    };
 
-    const dateKey: string = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-    const isClinicDayOffCell: boolean = dayNames[dayOfWeek] === clinicDayOff && clinicDayOff !== 'ไม่มี';
+    Promise.all([offlineStore.loadMonth(monthKey, branchesRef.current), offlineStore.loadPending(monthKey, branchesRef.current)])
+      .catch((error: unknown): [MonthData | null, PendingMonthEdits | null] => {
+        console.error('Failed to read the offline copy', error);
+        return [null, null];
+      })
+      .then(([copy, pending]: [MonthData | null, PendingMonthEdits | null]) => {
+        if (isCancelled) return;
+        kept = { copy, pending };
+        tryLoading();
+      });
+    const offlineTimer = setTimeout(() => {
+      useKeptCopy = true;
+      tryLoading();
+    }, OFFLINE_LOAD_TIMEOUT_MS);
+
+    const unsubscribe = scheduleRepository.watchMonth(monthKey, branchesRef.current, shiftReadScope, (data: MonthData | null) => {
+      if (isLoaded) {
+        if (data) remoteMonthHandlerRef.current(data);
+        return;
+      }
+      serverData = data;
+      tryLoading();
+    }, (error: unknown) => {
+      console.error('Failed to load schedule', error);
+      setSaveStatus('error');
+      setModal({
+        isOpen: true,
+        title: 'โหลดข้อมูลไม่สำเร็จ',
+        message: 'ไม่สามารถโหลดตารางเวรของเดือนนี้ได้ กรุณาตรวจสอบการเชื่อมต่อแล้วลองใหม่',
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+    });
+    return () => {
+      isCancelled = true;
+      clearTimeout(offlineTimer);
+      unsubscribe();
+    };
+  }, [monthKey, isConfigLoaded]);
+
+  // Stored months of the displayed year, for the leave balances. Reloaded on every month change so
+  // the month just left is counted as it was saved.
+  const [yearMonths, setYearMonths] = useState<Record<string, MonthData>>({});
+  const reloadYearMonths = useCallback(async (): Promise<void> => {
+    try {
+      setYearMonths(await scheduleRepository.loadMonthsBetween(toMonthKey(currentYear, 0), toMonthKey(currentYear, 11), branchesRef.current, shiftReadScope));
+    } catch (error) {
+      console.error('Failed to load the months of the year', error);
+    }
+  }, [currentYear]);
+  useEffect(() => {
+    if (!isConfigLoaded) return;
+    reloadYearMonths();
+  }, [isConfigLoaded, monthKey, reloadYearMonths]);
+
+  // Leave days used this year per employee: stored months, with the displayed month as it is on screen
+  const yearLeaveUsage: Record<string, LeaveUsage> = useMemo(() => {
+    const otherMonths: MonthlySchedule[] = Object.entries(yearMonths)
+      .filter(([key]: [string, MonthData]) => key !== monthKey)
+      .map(([, data]: [string, MonthData]) => data.monthlySchedule);
+    return countYearLeaveUsage([...otherMonths, pickMonthSchedule(monthlySchedule, monthKey)], currentYear);
+  }, [yearMonths, monthlySchedule, monthKey, currentYear]);
+
+  // Load the clinic configuration once; offline, the copy kept in this browser is used
+  useEffect(() => {
+    let isCancelled: boolean = false;
+    configRepository.loadConfig()
+      .then((config: ClinicConfig) => {
+        if (isCancelled) return;
+        setClinicConfig(config);
+        setConfigStatus('saved');
+        offlineStore.saveConfig(config).catch((error: unknown) => console.error('Failed to keep the configuration offline', error));
+      })
+      .catch(async (error: unknown) => {
+        const keptConfig: ClinicConfig | null = await offlineStore.loadConfig().catch(() => null);
+        if (isCancelled) return;
+        if (keptConfig) {
+          setClinicConfig(keptConfig);
+          setConfigStatus('saved');
+          return;
+        }
+        console.error('Failed to load clinic configuration', error);
+        setConfigStatus('error');
+      });
+    return () => { isCancelled = true; };
+  }, []);
 
-    setMonthlySchedule((prevSchedule: MonthlySchedule) => {
-      const newSchedule: MonthlySchedule = { ...prevSchedule };
-      if (!newSchedule[dateKey]) {
-        newSchedule[dateKey] = {};
+  // Replace the staffing rules of one branch
+  const handleStaffingRulesChange = (branch: string, rules: StaffingRule[]): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, staffingRules: { ...prev.staffingRules, [branch]: rules } }));
+    setConfigStatus('unsaved');
+  };
+
+  // Replace the closing days of one branch (null = follow the clinic-wide day off)
+  const handleBranchClosuresChange = (branch: string, branchClosures: BranchClosures | null): void => {
+    setClinicConfig((prev: ClinicConfig) => {
+      const nextClosures: Record<string, BranchClosures> = { ...prev.branchClosures };
+      if (branchClosures === null) {
+        delete nextClosures[branch];
+      } else {
+        nextClosures[branch] = branchClosures;
       }
+      return { ...prev, branchClosures: nextClosures };
+    });
+    setConfigStatus('unsaved');
+  };
 
-      // Pre-check for Clinic Day Off
-      if (isClinicDayOffCell) { // Only apply if a specific day off is set (not 'ไม่มี')
-        if (value !== 'ปิด') { // Trying to set something other than 'ปิด' on a day off
-          setModal({
-            isOpen: true,
-            title: 'วันหยุดคลินิก',
-            message: `คลินิกปิดทำการในวัน${dayNames[dayOfWeek]} ไม่สามารถจัดเวรได้`,
-            onConfirm: () => setModal({ ...modal, isOpen: false }),
-            onCancel: () => {}, // No cancel for this message
-            showCancel: false,
-          });
-          return prevSchedule; // Prevent update
-        } else { // User selected 'ปิด'
-          newSchedule[dateKey][employeeId] = 'ปิด';
-          return newSchedule;
-        }
+  // Replace the yearly leave entitlements
+  const handleLeaveEntitlementsChange = (leaveEntitlements: LeaveEntitlement[]): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, leaveEntitlements }));
+    setConfigStatus('unsaved');
+  };
+
+  // Replace the shift times and the part-timer pay rates
+  const handleShiftDefinitionsChange = (shiftDefinitions: ShiftDefinitions): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, shiftDefinitions }));
+    setConfigStatus('unsaved');
+  };
+
+  const handlePayRatesChange = (payRates: PayRates): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, payRates }));
+    setConfigStatus('unsaved');
+  };
+
+  // Replace the rotation templates
+  const handleRosterTemplatesChange = (rosterTemplates: RosterTemplate[]): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, rosterTemplates }));
+    setConfigStatus('unsaved');
+  };
+
+  // Replace the public holiday list
+  const handleHolidaysChange = (holidays: Holiday[]): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, holidays }));
+    setConfigStatus('unsaved');
+  };
+
+  // Branch administration. Data refers to branches by ID, so renaming only changes the display name.
+  const handleAddBranch = (name: string): void => {
+    setClinicConfig((prev: ClinicConfig) => ({
+      ...prev,
+      branches: [...prev.branches, { id: createBranchId(prev.branches), name, archived: false }],
+    }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleRenameBranch = (branchId: string, name: string): void => {
+    setClinicConfig((prev: ClinicConfig) => ({
+      ...prev,
+      branches: prev.branches.map((b: Branch) => (b.id === branchId ? { ...b, name } : b)),
+    }));
+    setConfigStatus('unsaved');
+  };
+
+  const setBranchArchived = (branchId: string, archived: boolean): void => {
+    setClinicConfig((prev: ClinicConfig) => ({
+      ...prev,
+      branches: prev.branches.map((b: Branch) => (b.id === branchId ? { ...b, archived } : b)),
+    }));
+    setConfigStatus('unsaved');
+  };
+
+  // Position catalog. Employees keep their position text, so a position still in use cannot be removed.
+  const handleAddPosition = (position: string): void => {
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, positions: [...prev.positions, position] }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleRemovePosition = (position: string): void => {
+    const holders: Employee[] = employees.filter((e: Employee) => e.position === position);
+    const isInRules: boolean = Object.values(clinicConfig.staffingRules).some((rules: StaffingRule[]) => rules.some((rule: StaffingRule) => rule.position === position))
+      || clinicConfig.leaveEntitlements.some((entitlement: LeaveEntitlement) => entitlement.position === position);
+    if (holders.length > 0 || isInRules) {
+      const reasons: string[] = [];
+      if (holders.length > 0) reasons.push(`พนักงานในตำแหน่งนี้: ${holders.map((e: Employee) => e.name).join(', ')}`);
+      if (isInRules) reasons.push('ยังมีกฎจำนวนพนักงานหรือสิทธิ์วันลาที่ใช้ตำแหน่งนี้');
+      setModal({ isOpen: true, title: 'ลบตำแหน่งไม่ได้', message: reasons.join(' และ '), onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })), onCancel: () => {}, showCancel: false });
+      return;
+    }
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, positions: prev.positions.filter((p: string) => p !== position) }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleMovePosition = (position: string, offset: -1 | 1): void => {
+    setClinicConfig((prev: ClinicConfig) => {
+      const index: number = prev.positions.indexOf(position);
+      const target: number = index + offset;
+      if (index === -1 || target < 0 || target >= prev.positions.length) return prev;
+      const positions: string[] = [...prev.positions];
+      [positions[index], positions[target]] = [positions[target], positions[index]];
+      return { ...prev, positions };
+    });
+    setConfigStatus('unsaved');
+  };
+
+  // Shift catalog. A new shift gets clinic-wide times; a shift still used by the rules, templates,
+  // availability or the displayed month cannot be removed. Older months keep showing a removed code.
+  const handleAddShiftType = (shiftType: ShiftType, definition: ShiftDefinition): void => {
+    setClinicConfig((prev: ClinicConfig) => ({
+      ...prev,
+      shiftCatalog: [...prev.shiftCatalog, shiftType],
+      shiftDefinitions: { ...prev.shiftDefinitions, clinic: { ...prev.shiftDefinitions.clinic, [shiftType.code]: definition } },
+    }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleUpdateShiftType = (code: ShiftCode, changes: Partial<Omit<ShiftType, 'code'>>): void => {
+    setClinicConfig((prev: ClinicConfig) => ({
+      ...prev,
+      shiftCatalog: prev.shiftCatalog.map((shiftType: ShiftType) => (shiftType.code === code ? { ...shiftType, ...changes } : shiftType)),
+    }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleRemoveShiftType = (code: ShiftCode): void => {
+    const reasons: string[] = [];
+    if (clinicConfig.shiftCatalog.length <= 1) reasons.push('ต้องมีกะอย่างน้อยหนึ่งกะ');
+    if (Object.values(clinicConfig.staffingRules).some((rules: StaffingRule[]) => rules.some((rule: StaffingRule) => rule.shift === code))) {
+      reasons.push('ยังมีกฎจำนวนพนักงานที่ใช้กะนี้');
+    }
+    const templates: RosterTemplate[] = clinicConfig.rosterTemplates.filter((template: RosterTemplate) =>
+      Object.values(template.shifts).some((entries: ShiftEntry[]) => entries.some((entry: ShiftEntry) => getWorkingShiftType(entry) === code))
+    );
+    if (templates.length > 0) reasons.push(`แม่แบบที่ใช้กะนี้: ${templates.map((template: RosterTemplate) => template.name).join(', ')}`);
+    const available: Employee[] = employees.filter((e: Employee) => e.availability?.shifts.includes(code));
+    if (available.length > 0) reasons.push(`พาร์ทไทม์ที่สะดวกกะนี้: ${available.map((e: Employee) => e.name).join(', ')}`);
+    const isInMonth: boolean = Object.values(monthlySchedule).some((dayShifts: { [employeeId: string]: ShiftEntry }) =>
+      Object.values(dayShifts).some((entry: ShiftEntry) => getWorkingShiftType(entry) === code)
+    );
+    if (isInMonth) reasons.push('ตารางเดือนนี้ยังมีเวรกะนี้');
+    if (reasons.length > 0) {
+      setModal({ isOpen: true, title: 'ลบกะไม่ได้', message: reasons.join(' และ '), onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })), onCancel: () => {}, showCancel: false });
+      return;
+    }
+    // The times stay in the shift definitions so older months keep their hours and pay
+    setClinicConfig((prev: ClinicConfig) => ({ ...prev, shiftCatalog: prev.shiftCatalog.filter((shiftType: ShiftType) => shiftType.code !== code) }));
+    setConfigStatus('unsaved');
+  };
+
+  const handleMoveShiftType = (code: ShiftCode, offset: -1 | 1): void => {
+    setClinicConfig((prev: ClinicConfig) => {
+      const index: number = prev.shiftCatalog.findIndex((shiftType: ShiftType) => shiftType.code === code);
+      const target: number = index + offset;
+      if (index === -1 || target < 0 || target >= prev.shiftCatalog.length) return prev;
+      const shiftCatalog: ShiftType[] = [...prev.shiftCatalog];
+      [shiftCatalog[index], shiftCatalog[target]] = [shiftCatalog[target], shiftCatalog[index]];
+      return { ...prev, shiftCatalog };
+    });
+    setConfigStatus('unsaved');
+  };
+
+  // Archive a branch, unless staff or shifts from today on still point at it
+  const handleArchiveBranch = async (branchId: string): Promise<void> => {
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    const today: Date = new Date();
+    const todayKey: string = toDateKey(today.getFullYear(), today.getMonth(), today.getDate());
+
+    // Stored months from this month on, with the displayed month replaced by what is on screen (possibly unsaved)
+    let months: Record<string, MonthData>;
+    try {
+      months = await scheduleRepository.loadMonthsFrom(toMonthKey(today.getFullYear(), today.getMonth()), allBranches, 'all');
+    } catch (error) {
+      console.error('Failed to check branch usage', error);
+      setModal({ isOpen: true, title: 'ตรวจสอบไม่สำเร็จ', message: 'ไม่สามารถตรวจสอบตารางเวรล่วงหน้าได้ กรุณาลองใหม่อีกครั้ง', onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+      return;
+    }
+    months[monthKey] = buildMonthData();
+
+    const homeEmployees: Employee[] = findBranchReferences(branchId, employees, {}, todayKey).employees;
+    const shiftDates: string[] = Object.values(months)
+      .flatMap((data: MonthData) => findBranchReferences(branchId, data.employees, data.monthlySchedule, todayKey).shiftDates);
+
+    if (homeEmployees.length > 0 || shiftDates.length > 0) {
+      const reasons: string[] = [];
+      if (homeEmployees.length > 0) reasons.push(`มีพนักงานประจำสาขานี้ ${homeEmployees.length} คน (${homeEmployees.map((e: Employee) => e.name).join(', ')})`);
+      if (shiftDates.length > 0) reasons.push(`มีเวรตั้งแต่วันนี้เป็นต้นไป ${shiftDates.length} วัน (เริ่ม ${[...shiftDates].sort()[0]})`);
+      setModal({
+        isOpen: true,
+        title: 'ไม่สามารถเก็บถาวรสาขาได้',
+        message: `สาขา "${branchName(branchId)}" ยังถูกใช้งานอยู่: ${reasons.join(' และ ')} กรุณาย้ายพนักงานและเวรออกก่อน`,
+        onConfirm: closeModal,
+        onCancel: () => {},
+        showCancel: false,
+      });
+      return;
+    }
+    setBranchArchived(branchId, true);
+  };
+
+  // Write the clinic configuration back to the repository
+  const saveClinicConfig = async (): Promise<void> => {
+    setConfigStatus('saving');
+    try {
+      await configRepository.saveConfig(clinicConfig);
+      setConfigStatus('saved');
+      offlineStore.saveConfig(clinicConfig).catch((error: unknown) => console.error('Failed to keep the configuration offline', error));
+    } catch (error) {
+      console.error('Failed to save clinic configuration', error);
+      setConfigStatus('error');
+      setModal({
+        isOpen: true,
+        title: 'บันทึกไม่สำเร็จ',
+        message: 'ไม่สามารถบันทึกการตั้งค่าคลินิกได้ กรุณาลองใหม่อีกครั้ง',
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+    }
+  };
+
+  // Presence: managers and admins publish which month and branch they are on, and see everyone else's.
+  // The heartbeat also refreshes `presenceNow`, so entries that stopped beating drop out of the list.
+  const isEditor: boolean = user.role !== 'staff';
+  const [presenceEntries, setPresenceEntries] = useState<PresenceEntry[]>([]);
+  const [presenceNow, setPresenceNow] = useState<number>(() => Date.now());
+  const presenceBranch: string | null = viewMode === 'overview' ? null : selectedBranch || null;
+  useEffect(() => {
+    if (!isEditor) return;
+    const beat = (): void => {
+      setPresenceNow(Date.now());
+      presenceRepository.setPresence({ uid: user.uid, email: user.email, monthKey, branch: presenceBranch, updatedAt: new Date().toISOString() })
+        .catch((error: unknown) => console.error('Failed to publish presence', error));
+    };
+    beat();
+    const timer = setInterval(beat, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [isEditor, user.uid, user.email, monthKey, presenceBranch]);
+  useEffect(() => {
+    if (!isEditor) return;
+    return presenceRepository.watchPresence(monthKey, setPresenceEntries, (error: unknown) => console.error('Failed to watch presence', error));
+  }, [isEditor, monthKey]);
+  useEffect(() => {
+    if (!isEditor) return;
+    const clearPresence = (): void => { presenceRepository.clearPresence(user.uid).catch(() => {}); };
+    window.addEventListener('pagehide', clearPresence);
+    return () => window.removeEventListener('pagehide', clearPresence);
+  }, [isEditor, user.uid]);
+  const otherEditors: PresenceEntry[] = getActiveEditors(presenceEntries, user.uid, presenceNow);
+
+  // Remove the presence entry while still signed in (the rules refuse it afterwards)
+  const handleSignOut = async (): Promise<void> => {
+    if (isEditor) {
+      await presenceRepository.clearPresence(user.uid).catch((error: unknown) => console.error('Failed to clear presence', error));
+    }
+    onSignOut();
+  };
+
+  // Audit events of the displayed month, newest first (admins and managers)
+  const canViewAuditLog: boolean = user.role !== 'staff';
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  useEffect(() => {
+    if (!canViewAuditLog) return;
+    let isCancelled: boolean = false;
+    setAuditEvents([]);
+    auditRepository.listEvents(monthKey)
+      .then((events: AuditEvent[]) => {
+        if (isCancelled) return;
+        // Keep events recorded while the list was loading
+        const loadedIds: Set<string> = new Set(events.map((e: AuditEvent) => e.id));
+        setAuditEvents((prev: AuditEvent[]) => [...prev.filter((e: AuditEvent) => !loadedIds.has(e.id)), ...events]);
+      })
+      .catch((error: unknown) => console.error('Failed to load audit log', error));
+    return () => { isCancelled = true; };
+  }, [canViewAuditLog, monthKey]);
+
+  // Append the changes of one month to the audit log. Recording is best effort and never blocks editing.
+  const recordAuditChanges = useCallback((changes: AuditChange[], source: AuditSource, changedMonthKey: string): void => {
+    if (changes.length === 0) return;
+    const events: Omit<AuditEvent, 'id'>[] = toAuditEvents(changes, { userId: user.uid, userEmail: user.email, source, monthKey: changedMonthKey, at: new Date().toISOString() });
+    auditRepository.appendEvents(events)
+      .then((created: AuditEvent[]) => {
+        if (monthKeyRef.current === changedMonthKey) setAuditEvents((prev: AuditEvent[]) => [...created, ...prev]);
+      })
+      .catch((error: unknown) => console.error('Failed to record audit events', error));
+  }, [user.uid, user.email]);
+
+  // Copy a stored month into the calendar feeds (see lib/calendarFeeds.ts). Best effort like the audit log:
+  // a feed that could not be refreshed catches up with the next save or when its owner opens their page.
+  const publishCalendarFeeds = useCallback((savedMonthKey: string, data: MonthData): void => {
+    const now: Date = new Date();
+    calendarFeedRepository.listFeeds(null)
+      .then((feeds: CalendarFeed[]) => Promise.all(feeds.map((feed: CalendarFeed) => {
+        const refreshed: CalendarFeed | null = refreshCalendarFeed(feed, { [savedMonthKey]: data }, allBranches, clinicConfig.shiftDefinitions, now);
+        return refreshed ? calendarFeedRepository.saveFeed(refreshed) : Promise.resolve();
+      })))
+      .catch((error: unknown) => console.error('Failed to refresh calendar feeds', error));
+  }, [allBranches, clinicConfig.shiftDefinitions]);
+
+  // Undo/redo of the displayed month: earlier (and undone) versions of it, cleared whenever a month is loaded
+  const [undoStack, setUndoStack] = useState<MonthData[]>([]);
+  const [redoStack, setRedoStack] = useState<MonthData[]>([]);
+  const historyBaselineRef = useRef<{ monthKey: string; data: MonthData; snapshot: string } | null>(null); // Version the next change is compared with
+  // Set by undo/redo and bulk edits for the change they are about to make; 'remote' for versions stored by others,
+  // which are neither undone nor recorded here (their author recorded them)
+  const historySourceRef = useRef<AuditSource | 'remote'>('edit');
+  // How the changes not stored yet were made; the audit events of a save carry it (see combineAuditSources)
+  const unsavedSourcesRef = useRef<Set<AuditSource>>(new Set());
+
+  // Track whether the displayed month differs from what was last loaded/saved, and turn every change into an
+  // undo step. Audit events are recorded by the save, from what was actually stored (see saveCurrentMonth).
+  useEffect(() => {
+    if (saveStatus === 'loading') return;
+    const data: MonthData = buildMonthData();
+    const snapshot: string = monthSnapshot(data);
+    currentSnapshotRef.current = snapshot;
+    currentDataRef.current = data;
+
+    if (savedSnapshotRef.current === null) {
+      savedSnapshotRef.current = snapshot; // Freshly loaded month is the baseline
+      syncedRef.current = syncedRef.current ?? data; // A month never saved is based on what is shown
+      historyBaselineRef.current = { monthKey, data, snapshot };
+      unsavedSourcesRef.current = new Set();
+      setUndoStack([]);
+      setRedoStack([]);
+      return;
+    }
+
+    // Ignore the render between switching months and the new month being loaded
+    const baseline = historyBaselineRef.current;
+    if (baseline !== null && baseline.monthKey === monthKey && baseline.snapshot !== snapshot) {
+      const source: AuditSource | 'remote' = historySourceRef.current;
+      historySourceRef.current = 'edit';
+      if (source === 'edit' || source === 'bulk') {
+        setUndoStack((prev: MonthData[]) => [...prev, baseline.data].slice(-UNDO_LIMIT));
+        setRedoStack([]);
       }
+      if (source !== 'remote') unsavedSourcesRef.current.add(source);
+      historyBaselineRef.current = { monthKey, data, snapshot };
+    }
 
-      // If not a clinic day off
-      if (employee.type === 'part-time') {
-        // Scenario 1: User is assigning a working shift ('เช้า' or 'บ่าย') to a part-timer.
-        if (value === 'เช้า' || value === 'บ่าย') {
-          // Check if this part-time employee is already assigned to a working shift in a DIFFERENT branch on this day
-          let isWorkingElsewhere: boolean = false;
-          for (const branch of branches) {
-            if (branch === selectedBranch) continue; // Skip current branch
-
-            const otherBranchDateKey: string = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-            const otherBranchShiftEntry: ShiftEntry | undefined = monthlySchedule[otherBranchDateKey]?.[employee.id];
-
-            // Use the type guard here
-            if (isWorkingShiftObject(otherBranchShiftEntry)) {
-                isWorkingElsewhere = true;
-                setModal({
-                    isOpen: true,
-                    title: 'ข้อจำกัดพนักงานพาร์ทไทม์',
-                    message: `พนักงานพาร์ทไทม์คนนี้ถูกจัดเวรในสาขา "${otherBranchShiftEntry.branch}" อยู่แล้วในวันนี้ ไม่สามารถจัดเวรในสาขา "${selectedBranch}" ได้`,
-                    onConfirm: () => setModal({ ...modal, isOpen: false }),
-                    onCancel: () => {}, // No cancel for this message
-                    showCancel: false,
-                });
-                return prevSchedule; // Block assignment
-            }
-          }
+    if ((saveStatus === 'saved' || saveStatus === 'offline') && snapshot !== savedSnapshotRef.current) {
+      setSaveStatus('unsaved');
+    }
+  }, [buildMonthData, saveStatus, monthKey]);
+
+  // Step back to the previous version of the month, or forward again
+  const handleUndo = useCallback((): void => {
+    const previous: MonthData | undefined = undoStack[undoStack.length - 1];
+    if (!previous || saveStatus === 'loading') return;
+    historySourceRef.current = 'undo';
+    setUndoStack(undoStack.slice(0, -1));
+    setRedoStack([...redoStack, buildMonthData()]);
+    applyMonthData(previous);
+  }, [undoStack, redoStack, saveStatus, buildMonthData, applyMonthData]);
+
+  const handleRedo = useCallback((): void => {
+    const next: MonthData | undefined = redoStack[redoStack.length - 1];
+    if (!next || saveStatus === 'loading') return;
+    historySourceRef.current = 'redo';
+    setRedoStack(redoStack.slice(0, -1));
+    setUndoStack([...undoStack, buildMonthData()].slice(-UNDO_LIMIT));
+    applyMonthData(next);
+  }, [undoStack, redoStack, saveStatus, buildMonthData, applyMonthData]);
+
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z), except while typing in a text field
+  useEffect(() => {
+    if (user.role === 'staff') return;
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key: string = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [user.role, handleUndo, handleRedo]);
+
+  // Show a newer version of the month on screen, keeping local edits on top of it. `from` is the local
+  // version the edits (and the undo/redo steps) were made against, `to` what replaces it.
+  const rebaseOnto = useCallback((from: MonthData, to: MonthData): void => {
+    if (monthSnapshot(from) === monthSnapshot(to)) return;
+    // Undo steps only revert this user's own edits, never what others stored in between
+    const rebase = (stack: MonthData[]): MonthData[] => stack.map((step: MonthData) => mergeMonthChanges(from, step, to).data);
+    setUndoStack(rebase);
+    setRedoStack(rebase);
+    historySourceRef.current = 'remote';
+    applyMonthData(to);
+  }, [applyMonthData]);
+
+  // Tell the editor which of their cells were not written
+  const showMergeConflicts = (conflicts: MergeConflict[]): void => {
+    if (conflicts.length === 0) return;
+    const details: string = conflicts
+      .map((c: MergeConflict) => `${c.dateKey} ${c.employeeName}: ${c.reason ?? 'มีผู้อื่นแก้ไขช่องนี้ไปก่อนแล้ว'}`)
+      .join(', ');
+    setModal({
+      isOpen: true,
+      title: 'บางช่องไม่ได้ถูกบันทึก',
+      message: `${details} ตารางแสดงค่าล่าสุดที่บันทึกไว้แล้ว`,
+      onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+      onCancel: () => {},
+      showCancel: false,
+    });
+  };
 
-          if (!isWorkingElsewhere) {
-            // Assign the working shift with branch context for the current selectedBranch
-            newSchedule[dateKey][employeeId] = { type: value as 'เช้า' | 'บ่าย', branch: selectedBranch }; // Explicitly cast value
-          }
-        } else {
-          // Scenario 2: User is assigning a non-working shift ('หยุด', 'ลา', 'ป่วย', '') or clearing the shift ('') to a part-timer.
-          // These shifts are global and override any working shifts for the day.
-          newSchedule[dateKey][employeeId] = value as BaseShiftString; // Explicitly cast to BaseShiftString
-        }
-      } else { // Full-time employee
-        newSchedule[dateKey][employeeId] = value as BaseShiftString; // Explicitly cast to BaseShiftString
+  // Queued edits that no longer decode cannot be stored. The user is told once per visit and decides whether
+  // to discard them; kept ones stay queued (and are not cleared by saving their month) until the next visit asks again.
+  const unreadableQueueRef = useRef<Set<string>>(new Set());
+  const reportUnreadableQueue = (entries: UnreadablePendingEdits[]): void => {
+    const unreported: UnreadablePendingEdits[] = entries.filter((e: UnreadablePendingEdits) => !unreadableQueueRef.current.has(e.monthKey));
+    if (unreported.length === 0) return;
+    unreported.forEach((e: UnreadablePendingEdits) => unreadableQueueRef.current.add(e.monthKey));
+    const details: string = unreported
+      .map((e: UnreadablePendingEdits) => `${e.monthKey}${e.queuedAt ? ` (แก้ไขเมื่อ ${new Date(e.queuedAt).toLocaleString('th-TH')})` : ''}: ${e.errors.slice(0, 3).join(', ')}`)
+      .join(' | ');
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    const discard = async (): Promise<void> => {
+      closeModal();
+      try {
+        await Promise.all(unreported.map((e: UnreadablePendingEdits) => offlineStore.removePending(e.monthKey)));
+        unreported.forEach((e: UnreadablePendingEdits) => unreadableQueueRef.current.delete(e.monthKey));
+      } catch (error) {
+        console.error('Failed to discard the unreadable queued edits', error);
+      }
+    };
+    setModal({
+      isOpen: true,
+      title: 'การแก้ไขที่รอบันทึกอ่านไม่ได้',
+      message: `การแก้ไขที่เก็บไว้ในเครื่องนี้ขณะออฟไลน์อ่านไม่ได้แล้ว จึงบันทึกขึ้นเซิร์ฟเวอร์ไม่ได้: ${details} ต้องการลบทิ้งหรือไม่? (ยกเลิกเพื่อเก็บไว้ในเครื่องนี้ก่อน)`,
+      onConfirm: () => { discard(); },
+      onCancel: closeModal,
+      showCancel: true,
+    });
+  };
+
+  // Checked inside the save transaction against the latest stored month: closing days and availability
+  // may have changed since the cell was picked. Two editors booking the same part-timer on the same day
+  // write the same cell, which the merge already reports as a conflict. Also used for queued months
+  // other than the displayed one, so the month is read from the date.
+  const validateMergedCell: CellValidator = useCallback((remote: MonthData, dateKey: string, employee: Employee, entry: ShiftEntry): string | null => {
+    if (!isWorkingShiftObject(entry)) return null;
+    const { [employee.id]: _current, ...otherShifts } = remote.monthlySchedule[dateKey] ?? {};
+    const date: Date = parseDateKey(dateKey);
+    return validatePartTimeAssignment(
+      employee,
+      { ...remote.monthlySchedule, [dateKey]: otherShifts },
+      { ...closures, clinicDayOff: remote.clinicDayOff },
+      allBranches,
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      entry.type,
+      entry.branch,
+    );
+  }, [closures, allBranches]);
+
+  // Store the queued months other than the displayed one (the displayed month is saved like any edit),
+  // each merged onto the latest stored version. Cells someone else changed in the meantime keep their value and are reported.
+  const isSyncingQueueRef = useRef<boolean>(false);
+  const syncQueuedMonths = useCallback(async (): Promise<void> => {
+    if (isSyncingQueueRef.current || !navigator.onLine) return;
+    isSyncingQueueRef.current = true;
+    const conflicts: MergeConflict[] = [];
+    let unreadable: UnreadablePendingEdits[] = [];
+    try {
+      const queue: PendingQueue = await offlineStore.listPending(allBranches);
+      unreadable = queue.unreadable;
+      for (const edits of queue.pending.filter((e: PendingMonthEdits) => e.monthKey !== monthKeyRef.current)) {
+        let monthConflicts: MergeConflict[] = [];
+        let stored: MonthData = edits.base;
+        const written: MonthData = await scheduleRepository.updateMonth(edits.monthKey, allBranches, (latest: MonthData | null) => {
+          stored = latest ?? edits.base;
+          const result: MergeResult = mergeMonthChanges(edits.base, edits.local, stored, validateMergedCell);
+          monthConflicts = result.conflicts;
+          return result.data;
+        });
+        conflicts.push(...monthConflicts);
+        recordAuditChanges(diffMonthData(stored, written, allBranches), 'edit', edits.monthKey);
+        await offlineStore.removePending(edits.monthKey);
+        keepOfflineCopy(edits.monthKey, written);
+        publishCalendarFeeds(edits.monthKey, written);
+      }
+    } catch (error) {
+      console.error('Failed to store the queued edits', error);
+    } finally {
+      isSyncingQueueRef.current = false;
+    }
+    showMergeConflicts(conflicts);
+    if (conflicts.length === 0) reportUnreadableQueue(unreadable); // Otherwise asked on the next sync, not over the conflicts
+  }, [allBranches, validateMergedCell, publishCalendarFeeds, recordAuditChanges]);
+
+  // Write the edits of the displayed month. The changed cells are merged onto the latest stored month
+  // inside a transaction, so edits others stored in the meantime are kept. Without a connection the edits
+  // go to the sync queue instead and are stored once it is back. Resolves to false if they were not kept.
+  // The audit log gets what the transaction changed, so unsaved edits and cells lost to a conflict are never recorded.
+  const saveCurrentMonth = useCallback(async (): Promise<boolean> => {
+    const savingMonthKey: string = monthKey;
+    const local: MonthData = buildMonthData();
+    const base: MonthData = syncedRef.current ?? local;
+    let conflicts: MergeConflict[] = [];
+    // Taken for this save; given back when the edits are not stored yet
+    const sources: AuditSource[] = [...unsavedSourcesRef.current];
+    unsavedSourcesRef.current = new Set();
+    const keepSources = (): void => {
+      if (monthKeyRef.current === savingMonthKey) sources.forEach((source: AuditSource) => unsavedSourcesRef.current.add(source));
+    };
+
+    const queueEdits = async (): Promise<boolean> => {
+      keepSources();
+      try {
+        await offlineStore.savePending({ monthKey: savingMonthKey, base, local, queuedAt: new Date().toISOString() });
+      } catch (error) {
+        console.error('Failed to queue the edits offline', error);
+        if (monthKeyRef.current === savingMonthKey) setSaveStatus('error');
+        return false;
+      }
+      if (monthKeyRef.current === savingMonthKey) {
+        savedSnapshotRef.current = monthSnapshot(local);
+        setSaveStatus(currentSnapshotRef.current === savedSnapshotRef.current ? 'offline' : 'unsaved');
+      }
+      return true;
+    };
+    if (!navigator.onLine) return queueEdits();
+
+    setSaveStatus('saving');
+    try {
+      let stored: MonthData = base;
+      const written: MonthData = await scheduleRepository.updateMonth(savingMonthKey, allBranches, (latest: MonthData | null) => {
+        stored = latest ?? base;
+        const result: MergeResult = mergeMonthChanges(base, local, stored, validateMergedCell);
+        conflicts = result.conflicts;
+        return result.data;
+      });
+      recordAuditChanges(diffMonthData(stored, written, allBranches), combineAuditSources(sources), savingMonthKey);
+      publishCalendarFeeds(savingMonthKey, written);
+      keepOfflineCopy(savingMonthKey, written);
+      if (!unreadableQueueRef.current.has(savingMonthKey)) {
+        offlineStore.removePending(savingMonthKey).catch((error: unknown) => console.error('Failed to clear the sync queue', error));
+      }
+      syncQueuedMonths(); // The server can be reached: store what other months still have queued
+      if (monthKeyRef.current === savingMonthKey) {
+        syncedRef.current = written;
+        savedSnapshotRef.current = monthSnapshot(written);
+        // Edits made while the request was in flight are kept on top of what was written
+        const current: MonthData = currentDataRef.current ?? local;
+        const rebased: MonthData = mergeMonthChanges(local, current, written).data;
+        rebaseOnto(current, rebased);
+        setSaveStatus(monthSnapshot(rebased) === savedSnapshotRef.current ? 'saved' : 'unsaved');
+        showMergeConflicts(conflicts);
+      }
+      return true;
+    } catch (error) {
+      if (isConnectionError(error)) return queueEdits();
+      console.error('Failed to save schedule', error);
+      keepSources();
+      if (monthKeyRef.current === savingMonthKey) {
+        setSaveStatus('error');
       }
+      return false;
+    }
+  }, [monthKey, buildMonthData, allBranches, validateMergedCell, rebaseOnto, publishCalendarFeeds, syncQueuedMonths, recordAuditChanges]);
+
+  // A newer version of the month was stored, by someone else or by our own save. Unsaved local edits
+  // stay on top of it (a cell changed on both sides shows the stored value) and are saved as usual.
+  // The version is also kept in this browser for opening the month offline.
+  remoteMonthHandlerRef.current = (remote: MonthData): void => {
+    const synced: MonthData | null = syncedRef.current;
+    const current: MonthData | null = currentDataRef.current;
+    if (synced === null || current === null) return; // Still loading; the baseline is taken from the first version
+    setColleagues(remote.colleagues ?? []);
+    const remoteSnapshot: string = monthSnapshot(remote);
+    if (remoteSnapshot === monthSnapshot(synced)) return;
+
+    const result: MergeResult = mergeMonthChanges(synced, current, remote);
+    syncedRef.current = remote;
+    savedSnapshotRef.current = remoteSnapshot;
+    keepOfflineCopy(monthKey, remote);
+    rebaseOnto(current, result.data);
+    // A save in flight decides the status (and reports its conflicts) once it is written. Otherwise a cell
+    // edited here and changed by someone else shows their value, e.g. for edits queued while offline.
+    if (saveStatus !== 'saving') showMergeConflicts(result.conflicts);
+    setSaveStatus((prev: SaveStatus) => (prev === 'saving' ? prev : monthSnapshot(result.data) === remoteSnapshot ? 'saved' : 'unsaved'));
+  };
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    if (saveStatus !== 'unsaved') return;
+    const timer = setTimeout(() => { saveCurrentMonth(); }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [saveStatus, saveCurrentMonth]);
 
-      return newSchedule;
+  // Connection state of the browser. Coming back online retries the displayed month and the rest of the queue.
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+  useEffect(() => {
+    const handleOnline = (): void => {
+      setIsOnline(true);
+      setSaveStatus((prev: SaveStatus) => (prev === 'offline' ? 'unsaved' : prev));
+      syncQueuedMonths();
+    };
+    const handleOffline = (): void => setIsOnline(false);
+    setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueuedMonths]);
+
+  // Edits queued in an earlier visit are stored once the configuration is known
+  useEffect(() => {
+    if (isConfigLoaded) syncQueuedMonths();
+  }, [isConfigLoaded, syncQueuedMonths]);
+
+  // A connection can be up without reaching the server (no 'online' event then): retry the queue every so often
+  useEffect(() => {
+    if (saveStatus !== 'offline' || !isOnline) return;
+    const timer = setTimeout(() => {
+      setSaveStatus((prev: SaveStatus) => (prev === 'offline' ? 'unsaved' : prev));
+      syncQueuedMonths();
+    }, OFFLINE_RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [saveStatus, isOnline, syncQueuedMonths]);
+
+  // Warn before closing the tab while changes are not yet stored
+  useEffect(() => {
+    if (saveStatus !== 'unsaved' && saveStatus !== 'saving' && saveStatus !== 'error') return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent): void => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [saveStatus]);
+
+
+  // Write cell edits of the grid in one change (one undo step). Every cell goes through the same checks;
+  // cells the user may not edit are left alone, refused cells are reported together.
+  const applyShiftEdits = useCallback((edits: CellEdit[]): void => {
+    const refusals: { title: string; message: string; label: string }[] = [];
+    const leaveWarnings: Record<string, string> = {}; // First warning per employee and leave kind
+    let nextSchedule: MonthlySchedule = monthlySchedule;
+    // Leave counted so far, including the cells of this edit already accepted
+    const leaveUsage: Record<string, LeaveUsage> = { ...yearLeaveUsage };
+
+    edits.forEach((edit: CellEdit) => {
+      const employee: Employee | undefined = employees.find((e: Employee) => e.id === edit.employeeId);
+      if (!employee) return;
+      const dateKey: string = toDateKey(currentYear, currentMonth, edit.day);
+      // Full-timers work at their home branch of the day, part-timers at the branch being viewed
+      const cellBranch: string = employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : selectedBranch;
+      if (!canEditBranchSchedule(user, cellBranch)) return; // The grid disables these cells; never write them anyway
+      if (!isEmployedOn(employee, dateKey)) return; // Outside the employment window, likewise
+      if (employee.type === 'full-time' && cellBranch !== selectedBranch) return; // Another branch's day of a transferred full-timer
+      if (edits.length > 1 && isBranchClosed(closures, cellBranch, currentYear, currentMonth, edit.day)) return; // Bulk edits pass over closing days
+      if (keepsOtherBranchBooking(employee, nextSchedule[dateKey]?.[employee.id], edit.value, cellBranch, edits.length === 1)) return;
+
+      const check: CellEditCheck = checkCellEdit(employee, edit.day, edit.value, cellBranch, nextSchedule, closures, allBranches, currentYear, currentMonth);
+      if (!check.ok) {
+        refusals.push({ title: check.title, message: check.message, label: `วันที่ ${edit.day} ${employee.name}` });
+        return;
+      }
+      const current: ShiftEntry | undefined = nextSchedule[dateKey]?.[employee.id];
+      if (isWorkingShiftObject(current) && !canEditBranchSchedule(user, current.branch)) {
+        // Replacing a booking changes that branch's shifts, which the rules only let its manager or an admin write
+        refusals.push({
+          title: 'จองไว้ที่สาขาอื่น',
+          message: `${employee.name} มีกะที่สาขา${getBranchName(allBranches, current.branch)} เฉพาะผู้จัดการสาขานั้นหรือผู้ดูแลระบบที่เปลี่ยนได้`,
+          label: `วันที่ ${edit.day} ${employee.name}`,
+        });
+        return;
+      }
+      if (isSameEntry(current, check.entry)) return;
+      // Leave beyond the yearly entitlement is still written, but the manager is told
+      const leaveWarning: string | null = isLeaveKind(edit.value)
+        ? checkLeaveEntitlement(employee, edit.value, leaveUsage[employee.id], clinicConfig.leaveEntitlements)
+        : null;
+      const warningKey: string = `${employee.id}/${edit.value}`;
+      if (leaveWarning !== null && leaveWarnings[warningKey] === undefined) leaveWarnings[warningKey] = leaveWarning;
+      leaveUsage[employee.id] = applyLeaveChange(leaveUsage[employee.id], current, check.entry);
+      nextSchedule = { ...nextSchedule, [dateKey]: { ...nextSchedule[dateKey], [employee.id]: check.entry } };
     });
-  }, [currentYear, currentMonth, employees, selectedBranch, clinicDayOff, dayNames, branches, monthlySchedule, modal]);
+
+    if (nextSchedule !== monthlySchedule) {
+      if (edits.length > 1) historySourceRef.current = 'bulk';
+      setMonthlySchedule(nextSchedule);
+    }
+
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    if (refusals.length > 0) {
+      setModal({
+        isOpen: true,
+        title: edits.length === 1 ? refusals[0].title : `ข้าม ${refusals.length} ช่อง`,
+        message: edits.length === 1
+          ? refusals[0].message
+          : refusals.slice(0, MAX_LISTED_REFUSALS).map((r) => `${r.label}: ${r.message}`).join(' | ') + (refusals.length > MAX_LISTED_REFUSALS ? ` | และอีก ${refusals.length - MAX_LISTED_REFUSALS} ช่อง` : ''),
+        onConfirm: closeModal,
+        onCancel: () => {},
+        showCancel: false,
+      });
+    } else if (Object.keys(leaveWarnings).length > 0) {
+      setModal({
+        isOpen: true,
+        title: 'เกินสิทธิ์วันลา',
+        message: Object.values(leaveWarnings).join(' | '),
+        onConfirm: closeModal,
+        onCancel: () => {},
+        showCancel: false,
+      });
+    }
+  }, [currentYear, currentMonth, employees, selectedBranch, closures, allBranches, user, monthlySchedule, yearLeaveUsage, clinicConfig.leaveEntitlements]);
+
+  // Function to handle shift change
+  const handleShiftChange = useCallback((employeeId: Employee['id'], day: number, value: string) => { // 'value' from select is always string
+    applyShiftEdits([{ employeeId, day, value: value as BaseShiftString }]);
+  }, [applyShiftEdits]);
 
 
   // Function to get shift value for a specific employee and day, considering part-time branch assignments
@@ -312,10 +1212,9 @@ const App: React.FC = () => {
     if (!employee) return '';
 
     const dateKey: string = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-    const isClinicDayOffCell: boolean = dayNames[dayOfWeek] === clinicDayOff && clinicDayOff !== 'ไม่มี';
+    const cellBranch: string = employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : selectedBranch;
 
-    if (isClinicDayOffCell) {
+    if (isBranchClosed(closures, cellBranch, currentYear, currentMonth, day)) {
       return 'ปิด';
     }
 
@@ -326,8 +1225,8 @@ const App: React.FC = () => {
       return (typeof shiftEntry === 'string' ? shiftEntry : '') as BaseShiftString;
     } else { // Part-time employee
       if (isWorkingShiftObject(shiftEntry)) { // Use the type guard
-        if (shiftEntry.branch === selectedBranch) {
-          return shiftEntry.type; // This will be 'เช้า' or 'บ่าย' which is part of BaseShiftString
+        if (shiftEntry.branch === selectedBranch || user.role === 'staff') { // Staff see their own shifts wherever they work
+          return shiftEntry.type; // A shift code, which is part of BaseShiftString
         } else {
           // This part-timer is working in a DIFFERENT branch, so they appear available (empty) in this view
           return '';
@@ -336,30 +1235,462 @@ const App: React.FC = () => {
         return (shiftEntry || '') as BaseShiftString;
       }
     }
-  }, [currentYear, currentMonth, monthlySchedule, employees, selectedBranch, clinicDayOff, dayNames]);
-
-
-  // Navigate month
-  const changeMonth = (direction: number): void => {
+  }, [currentYear, currentMonth, monthlySchedule, employees, selectedBranch, closures, user.role]);
+
+
+  // Navigate month (pending changes of the month being left are saved first)
+  const changeMonth = async (direction: number): Promise<void> => {
+    if (saveStatus === 'unsaved' || saveStatus === 'error') {
+      const isSaved: boolean = await saveCurrentMonth();
+      if (!isSaved) {
+        setModal({
+          isOpen: true,
+          title: 'บันทึกไม่สำเร็จ',
+          message: 'ไม่สามารถบันทึกตารางเวรของเดือนนี้ได้ กรุณาลองบันทึกอีกครั้งก่อนเปลี่ยนเดือน',
+          onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+          onCancel: () => {},
+          showCancel: false,
+        });
+        return;
+      }
+    }
     setCurrentDate(prevDate => {
       const newDate: Date = new Date(prevDate.getFullYear(), prevDate.getMonth() + direction, 1);
       return newDate;
     });
   };
 
+  // Fill every empty cell of the month for all branches (manual entries such as 'ลา'/'ป่วย' are kept)
+  const handleAutoFillMonth = (): void => {
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    setModal({
+      isOpen: true,
+      title: 'จัดเวรอัตโนมัติ',
+      message: 'ระบบจะเติมเวรในช่องที่ยังว่างของทุกสาขาในเดือนนี้ โดยไม่แก้ไขช่องที่จัดไว้แล้ว ต้องการดำเนินการต่อหรือไม่?',
+      showCancel: true,
+      onCancel: closeModal,
+      onConfirm: () => {
+        const result: GeneratorResult = generateMonthSchedule({
+          year: currentYear,
+          month: currentMonth,
+          employees,
+          branches,
+          schedule: monthlySchedule,
+          closures,
+          staffingRules: clinicConfig.staffingRules,
+          shiftCatalog: clinicConfig.shiftCatalog,
+        });
+        setMonthlySchedule(result.schedule);
+
+        // Summarize the days that still miss the target, per branch
+        const shortfallsByBranch: Record<string, number> = {};
+        result.shortfalls.forEach((shortfall: StaffingShortfall) => {
+          shortfallsByBranch[shortfall.branch] = (shortfallsByBranch[shortfall.branch] ?? 0) + 1;
+        });
+        const shortfallSummary: string = Object.entries(shortfallsByBranch)
+          .map(([branch, days]) => `${branchName(branch)} ${days} วัน`)
+          .join(', ');
+
+        setModal({
+          isOpen: true,
+          title: 'จัดเวรอัตโนมัติเรียบร้อย',
+          message: `จัดเวร ${result.assignedCount} ช่อง` + (shortfallSummary ? ` | พนักงานยังไม่ถึงเป้าหมาย: ${shortfallSummary}` : ' | ทุกสาขาได้ตามเป้าหมาย'),
+          onConfirm: closeModal,
+          onCancel: () => {},
+          showCancel: false,
+        });
+      },
+    });
+  };
+
+  // Assign a part-timer from the dispatch board, after the same checks as the grid
+  const handleAssignPartTimer = (employeeId: string, day: number, shift: ShiftCode, branch: string): void => {
+    const employee: Employee | undefined = employees.find(e => e.id === employeeId);
+    if (!employee || !canEditBranchSchedule(user, branch)) return;
+    const assignmentError: string | null = validatePartTimeAssignment(employee, monthlySchedule, closures, allBranches, currentYear, currentMonth, day, shift, branch);
+    if (assignmentError !== null) {
+      setModal({
+        isOpen: true,
+        title: 'ข้อจำกัดพนักงานพาร์ทไทม์',
+        message: assignmentError,
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+      return;
+    }
+    const dateKey: string = toDateKey(currentYear, currentMonth, day);
+    setMonthlySchedule((prevSchedule: MonthlySchedule) => ({
+      ...prevSchedule,
+      [dateKey]: { ...prevSchedule[dateKey], [employeeId]: { type: shift, branch } },
+    }));
+  };
+
+  // Store a new leave request. Resolves to false if it could not be stored.
+  const handleSubmitLeave = async (draft: LeaveRequestDraft): Promise<boolean> => {
+    try {
+      const created: LeaveRequest = await leaveRepository.createRequest({
+        ...draft,
+        requestedBy: user.uid,
+        status: 'pending',
+        createdAt: new Date().toISOString(),
+        decidedBy: null,
+        decidedAt: null,
+        decisionNote: '',
+      });
+      setLeaveRequests((prev: LeaveRequest[]) => [created, ...prev]);
+      return true;
+    } catch (error) {
+      console.error('Failed to submit leave request', error);
+      setModal({
+        isOpen: true,
+        title: 'ส่งคำขอไม่สำเร็จ',
+        message: 'ไม่สามารถส่งคำขอลาได้ กรุณาลองใหม่อีกครั้ง',
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+      return false;
+    }
+  };
+
+  // Approve or reject a leave request. Approving writes the leave into every month it covers:
+  // the displayed month through the usual autosave, other months straight to the repository.
+  const handleDecideLeave = async (request: LeaveRequest, status: Exclude<LeaveStatus, 'pending'>, note: string): Promise<void> => {
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    const showError = (message: string): void => setModal({ isOpen: true, title: 'ดำเนินการไม่สำเร็จ', message, onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+    const decided: LeaveRequest = { ...request, status, decidedBy: user.uid, decidedAt: new Date().toISOString(), decisionNote: note };
+
+    const saveDecision = async (): Promise<boolean> => {
+      try {
+        await leaveRepository.saveRequest(decided);
+        setLeaveRequests((prev: LeaveRequest[]) => prev.map((r: LeaveRequest) => (r.id === decided.id ? decided : r)));
+        return true;
+      } catch (error) {
+        console.error('Failed to save leave decision', error);
+        showError('ไม่สามารถบันทึกผลการพิจารณาคำขอลาได้ กรุณาลองใหม่อีกครั้ง');
+        return false;
+      }
+    };
+    if (status === 'rejected') {
+      await saveDecision();
+      return;
+    }
+
+    const employee: Employee | undefined = employees.find((e: Employee) => e.id === request.employeeId);
+    if (!employee) {
+      showError('ไม่พบข้อมูลพนักงานของคำขอนี้ในเดือนที่แสดงอยู่');
+      return;
+    }
+    // A manager writes only their own branch's shifts, so leave over a transfer to or from it is left to an admin
+    if (user.role === 'manager') {
+      const elsewhere: string[] = findLeaveDaysAtOtherBranches(request, employee, user.branchId ?? '');
+      if (elsewhere.length > 0) {
+        showError(`${employee.name} สังกัดสาขาอื่นในวันที่ ${elsewhere.join(', ')} จึงไม่สามารถบันทึกวันลาลงตารางเวรของสาขานั้นได้ กรุณาให้ผู้ดูแลระบบอนุมัติคำขอนี้`);
+        return;
+      }
+    }
+
+    // Month data of every month the leave covers (the displayed one as it is on screen)
+    const months: Record<string, MonthData> = {};
+    try {
+      for (const leaveMonthKey of listLeaveMonths(request)) {
+        months[leaveMonthKey] = leaveMonthKey === monthKey
+          ? buildMonthData()
+          : (await scheduleRepository.loadMonth(leaveMonthKey, allBranches, 'all')) ?? { employees, monthlySchedule: {}, clinicDayOff, removedEmployees: [] };
+      }
+    } catch (error) {
+      console.error('Failed to load months for leave approval', error);
+      showError('ไม่สามารถโหลดตารางเวรของช่วงที่ลาได้ กรุณาลองใหม่อีกครั้ง');
+      return;
+    }
+    const monthClosures = (data: MonthData): ClosureSettings => ({ ...closures, clinicDayOff: data.clinicDayOff });
+
+    const approve = async (): Promise<void> => {
+      closeModal();
+      try {
+        for (const [leaveMonthKey, data] of Object.entries(months)) {
+          if (leaveMonthKey === monthKey) continue;
+          // Written onto the latest stored version, in case someone edited that month since it was loaded
+          let stored: MonthData = data;
+          const updated: MonthData = await scheduleRepository.updateMonth(leaveMonthKey, allBranches, (latest: MonthData | null) => {
+            stored = latest ?? data;
+            return { ...stored, monthlySchedule: applyLeaveToSchedule(stored.monthlySchedule, decided, employee, monthClosures(stored), leaveMonthKey) };
+          });
+          // The displayed month is recorded when it is saved, other months here
+          recordAuditChanges(diffMonthData(stored, updated, allBranches), 'edit', leaveMonthKey);
+          publishCalendarFeeds(leaveMonthKey, updated);
+        }
+      } catch (error) {
+        console.error('Failed to write approved leave', error);
+        showError('ไม่สามารถบันทึกวันลาลงตารางเวรได้ กรุณาลองใหม่อีกครั้ง');
+        return;
+      }
+      if (!(await saveDecision())) return;
+      if (months[monthKey]) {
+        setMonthlySchedule((prev: MonthlySchedule) => applyLeaveToSchedule(prev, decided, employee, closures, monthKey));
+      }
+      reloadYearMonths(); // Other months of the year may have changed
+    };
+
+    // Warn when the leave leaves a branch short of its staffing rules
+    const warnings: StaffingViolation[] = Object.entries(months).flatMap(([leaveMonthKey, data]: [string, MonthData]) =>
+      findLeaveStaffingWarnings(decided, employee, data.employees, data.monthlySchedule, clinicConfig.staffingRules, monthClosures(data), leaveMonthKey, clinicConfig.shiftCatalog)
+    );
+    if (warnings.length === 0) {
+      await approve();
+      return;
+    }
+    const details: string = warnings
+      .map((v: StaffingViolation) => `${v.dateKey} ${branchName(v.branch)}: ${describeStaffingRule(v.rule, SHORT_DAY_NAMES)} (เหลือ ${v.count} คน)`)
+      .join(', ');
+    setModal({
+      isOpen: true,
+      title: 'พนักงานจะไม่ถึงเป้าหมาย',
+      message: `หากอนุมัติการลาของ ${employee.name} จะทำให้ ${details} ต้องการอนุมัติหรือไม่?`,
+      onConfirm: () => { approve(); },
+      onCancel: closeModal,
+      showCancel: true,
+    });
+  };
+
+  // Propose a swap. Within the displayed month it is checked first, so a swap that could never be
+  // approved is explained right away instead of after the counterpart has accepted. Staff have only their
+  // own shifts loaded, so their proposals are checked when a manager approves them.
+  const handleProposeSwap = async (draft: ShiftSwapDraft): Promise<boolean> => {
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    if (shiftReadScope === 'all' && getShiftSwapMonth(draft) === monthKey) {
+      const result: ShiftSwapResult = applyShiftSwap(draft, employees, monthlySchedule, closures, clinicConfig.staffingRules, allBranches, clinicConfig.shiftCatalog);
+      if (!result.ok) {
+        setModal({ isOpen: true, title: 'ไม่สามารถแลกเวรได้', message: result.error, onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+        return false;
+      }
+    }
+    try {
+      const created: ShiftSwap = await shiftSwapRepository.createSwap({
+        ...draft,
+        requestedBy: user.uid,
+        status: 'proposed',
+        createdAt: new Date().toISOString(),
+        respondedBy: null,
+        respondedAt: null,
+        decidedBy: null,
+        decidedAt: null,
+        decisionNote: '',
+      });
+      setShiftSwaps((prev: ShiftSwap[]) => [created, ...prev]);
+      return true;
+    } catch (error) {
+      console.error('Failed to propose shift swap', error);
+      setModal({ isOpen: true, title: 'ส่งคำขอไม่สำเร็จ', message: 'ไม่สามารถส่งคำขอแลกเวรได้ กรุณาลองใหม่อีกครั้ง', onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+      return false;
+    }
+  };
+
+  // Store a new status of a swap (answer of the counterpart, cancellation, decision)
+  const saveShiftSwap = async (swap: ShiftSwap): Promise<boolean> => {
+    try {
+      await shiftSwapRepository.saveSwap(swap);
+      setShiftSwaps((prev: ShiftSwap[]) => prev.map((s: ShiftSwap) => (s.id === swap.id ? swap : s)));
+      return true;
+    } catch (error) {
+      console.error('Failed to save shift swap', error);
+      setModal({
+        isOpen: true,
+        title: 'ดำเนินการไม่สำเร็จ',
+        message: 'ไม่สามารถบันทึกคำขอแลกเวรได้ กรุณาลองใหม่อีกครั้ง',
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+      return false;
+    }
+  };
+
+  const handleRespondSwap = (swap: ShiftSwap, status: 'accepted' | 'declined'): void => {
+    saveShiftSwap({ ...swap, status, respondedBy: user.uid, respondedAt: new Date().toISOString() });
+  };
+
+  const handleCancelSwap = (swap: ShiftSwap): void => {
+    saveShiftSwap({ ...swap, status: 'cancelled' });
+  };
+
+  // Approve or reject an accepted swap. Approving exchanges both cells and stores the decision in one transaction
+  // on the latest stored month, and only while the swap is still accepted, so a second approval never swaps them
+  // back; if the swap is no longer allowed there, it is rejected with the reason as its note.
+  const handleDecideSwap = async (swap: ShiftSwap, status: 'approved' | 'rejected', note: string): Promise<void> => {
+    const closeModal = (): void => setModal((prev: ModalState) => ({ ...prev, isOpen: false }));
+    const decide = (decidedStatus: 'approved' | 'rejected', decisionNote: string): ShiftSwap => ({
+      ...swap, status: decidedStatus, decidedBy: user.uid, decidedAt: new Date().toISOString(), decisionNote,
+    });
+    if (status === 'rejected') {
+      await saveShiftSwap(decide('rejected', note));
+      return;
+    }
+
+    const approved: ShiftSwap = decide('approved', note);
+    const swapMonthKey: string = getShiftSwapMonth(swap);
+    let refusal: string | null = null;
+    let isStale: boolean = false;
+    let storedSwap: ShiftSwap | null = null;
+    let stored: MonthData | null = null;
+    let updated: MonthData;
+    try {
+      updated = await scheduleRepository.updateMonth(swapMonthKey, allBranches, (latest: MonthData | null) => {
+        stored = latest;
+        if (latest === null) {
+          refusal = 'ยังไม่มีตารางเวรของเดือนนี้';
+          throw new Error(refusal);
+        }
+        const result: ShiftSwapResult = applyShiftSwap(swap, latest.employees, latest.monthlySchedule, { ...closures, clinicDayOff: latest.clinicDayOff }, clinicConfig.staffingRules, allBranches, clinicConfig.shiftCatalog);
+        if (!result.ok) {
+          refusal = result.error;
+          throw new Error(refusal);
+        }
+        return { ...latest, monthlySchedule: result.schedule };
+      }, linkShiftSwapDecision(approved, (current: ShiftSwap | null) => {
+        isStale = true;
+        storedSwap = current;
+      }));
+    } catch (error) {
+      if (isStale) {
+        const current = storedSwap as ShiftSwap | null; // Set by the callback, which the compiler does not follow
+        setShiftSwaps((prev: ShiftSwap[]) => (current
+          ? prev.map((s: ShiftSwap) => (s.id === current.id ? current : s))
+          : prev.filter((s: ShiftSwap) => s.id !== swap.id)));
+        setModal({ isOpen: true, title: 'ไม่สามารถอนุมัติได้', message: 'คำขอแลกเวรนี้ถูกดำเนินการไปแล้ว หรือไม่ได้รออนุมัติอีกต่อไป', onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+        return;
+      }
+      if (refusal !== null) {
+        if (await saveShiftSwap(decide('rejected', refusal))) {
+          setModal({ isOpen: true, title: 'ไม่สามารถแลกเวรได้', message: `${refusal} คำขอนี้จึงถูกปฏิเสธ`, onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+        }
+        return;
+      }
+      console.error('Failed to apply shift swap', error);
+      setModal({ isOpen: true, title: 'ดำเนินการไม่สำเร็จ', message: 'ไม่สามารถบันทึกการแลกเวรลงตารางได้ กรุณาลองใหม่อีกครั้ง', onConfirm: closeModal, onCancel: () => {}, showCancel: false });
+      return;
+    }
+    setShiftSwaps((prev: ShiftSwap[]) => prev.map((s: ShiftSwap) => (s.id === approved.id ? approved : s)));
+    // The displayed month picks up the change through the live watch, which does not record it; record it here
+    if (stored) recordAuditChanges(diffMonthData(stored, updated, allBranches), 'edit', swapMonthKey);
+    publishCalendarFeeds(swapMonthKey, updated);
+  };
+
+  // Save a user's role right away (admins only)
+  const handleUserChange = async (changed: UserProfile): Promise<void> => {
+    try {
+      await userRepository.saveUser(changed);
+      setUsers((prev: UserProfile[]) => prev.map((u: UserProfile) => (u.uid === changed.uid ? changed : u)));
+    } catch (error) {
+      console.error('Failed to save user', error);
+      setModal({
+        isOpen: true,
+        title: 'บันทึกสิทธิ์ไม่สำเร็จ',
+        message: `ไม่สามารถบันทึกสิทธิ์ของ ${changed.email} ได้ กรุณาลองใหม่อีกครั้ง`,
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+    }
+  };
+
+  // Export the displayed month for the selected branch or for every active branch
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [printRosters, setPrintRosters] = useState<BranchRoster[]>([]);
+
+  const handleExport = async (format: ExportFormat, scope: ExportScope): Promise<void> => {
+    const rosterInput: RosterInput = {
+      year: currentYear,
+      month: currentMonth,
+      monthTitle: currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' }),
+      employees,
+      schedule: monthlySchedule,
+      branches: allBranches,
+      closures,
+      shiftCatalog: clinicConfig.shiftCatalog,
+    };
+    const rosters: BranchRoster[] = (scope === 'all' ? branches : [selectedBranch]).map((branchId: string) => buildBranchRoster(rosterInput, branchId));
+    const fileName: string = `ตารางเวร-${scope === 'all' ? 'ทุกสาขา' : branchName(selectedBranch)}-${monthKey}`;
+
+    if (format === 'csv') {
+      downloadBlob(new Blob([rostersToCsv(rosters)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+    } else if (format === 'xlsx') {
+      setIsExporting(true);
+      try {
+        downloadBlob(await buildRosterWorkbook(rosters), `${fileName}.xlsx`);
+      } catch (error) {
+        console.error('Failed to build the Excel file', error);
+        setModal({
+          isOpen: true,
+          title: 'ส่งออกไม่สำเร็จ',
+          message: 'ไม่สามารถสร้างไฟล์ Excel ได้ กรุณาลองใหม่อีกครั้ง',
+          onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+          onCancel: () => {},
+          showCancel: false,
+        });
+      } finally {
+        setIsExporting(false);
+      }
+    } else {
+      setPrintRosters(rosters); // Printed by the effect below once the layout has rendered
+    }
+  };
+
+  useEffect(() => {
+    if (printRosters.length > 0) window.print();
+  }, [printRosters]);
+
+  // Store what a part-timer declared; the month document keeps it with the employee
+  const handleAvailabilityChange = (employeeId: string, availability: PartTimeAvailability | undefined): void => {
+    setEmployees((prev: Employee[]) => prev.map((employee: Employee) => {
+      if (employee.id !== employeeId) return employee;
+      const { availability: _previous, ...rest } = employee;
+      return availability ? { ...rest, availability } : rest;
+    }));
+  };
+
+  // Apply a previewed import; rows and cells with problems were already left out by the preview
+  const handleImportEmployees = (rows: EmployeeImportRow[]): void => {
+    setEmployees((prev: Employee[]) => applyEmployeeImport(prev, rows));
+  };
+
+  const handleImportRoster = (changes: RosterChange[]): void => {
+    if (changes.length === 0) return;
+    historySourceRef.current = 'bulk';
+    setMonthlySchedule((prev: MonthlySchedule) => applyRosterImport(prev, changes));
+  };
+
+  // Shifts of the month before the displayed one, for copying forward (null when it was never saved)
+  const loadPreviousMonthSchedule = async (): Promise<MonthlySchedule | null> => {
+    const previous: Date = new Date(currentYear, currentMonth - 1, 1);
+    const data: MonthData | null = await scheduleRepository.loadMonth(toMonthKey(previous.getFullYear(), previous.getMonth()), allBranches, 'all');
+    return data === null ? null : data.monthlySchedule;
+  };
+
+  // A filled cell may only touch branches the user edits: the branch it works at before and after,
+  // and a full-timer's home branch of the day
+  const isRosterChangeAllowed = (change: RosterChange): boolean => {
+    const employee: Employee | undefined = employees.find((e: Employee) => e.id === change.employeeId);
+    if (!employee) return false;
+    const touched: (string | null)[] = [
+      getWorkingBranch(employee, change.next, change.dateKey),
+      getWorkingBranch(employee, change.previous, change.dateKey),
+      employee.type === 'full-time' ? getHomeBranchOn(employee, change.dateKey) : null,
+    ];
+    return touched.every((branch: string | null) => branch === null || canEditBranchSchedule(user, branch));
+  };
+
   // Employee management functions
   const handleAddEmployee = (): void => {
-    if (newEmployee.name.trim() && newEmployee.position.trim() && (newEmployee.type === 'part-time' || newEmployee.branch.trim())) {
-      const idPrefix: string = newEmployee.type === 'full-time' ? 'emp' : 'pte';
-      // Calculate a unique ID based on the type and existing count
-      const newId: string = idPrefix + (employees.filter(e => e.type === newEmployee.type).length + 1);
-      setEmployees([...employees, { id: newId, ...newEmployee, branch: newEmployee.type === 'part-time' ? 'พาร์ทไทม์' : newEmployee.branch }]);
-      setNewEmployee({ name: '', position: '', branch: initialBranches[0], type: 'full-time' }); // Reset with default branch
+    if (newEmployee.name.trim() && clinicConfig.positions.includes(newEmployee.position) && (newEmployee.type === 'part-time' || newEmployee.branch.trim())) {
+      setEmployees([...employees, toSavedEmployee({ id: createEmployeeId(newEmployee.type), ...newEmployee })]);
+      setNewEmployee({ name: '', position: '', branch: '', type: 'full-time' }); // Reset the form
     } else {
       setModal({
         isOpen: true,
         title: 'ข้อมูลไม่ครบถ้วน',
-        message: 'กรุณากรอกชื่อ, ตำแหน่ง และสาขา (สำหรับ Full-time) หรือประเภทพนักงาน (สำหรับ Part-time)',
+        message: 'กรุณากรอกชื่อ, เลือกตำแหน่ง และสาขา (สำหรับ Full-time) หรือประเภทพนักงาน (สำหรับ Part-time)',
         onConfirm: () => setModal({ ...modal, isOpen: false }),
         onCancel: () => {}, // No cancel for this message
         showCancel: false,
@@ -367,36 +1698,41 @@ const App: React.FC = () => {
     }
   };
 
+  // Soft-delete: the employee and their shifts of this month move to the removed list and can be restored
   const handleDeleteEmployee = (id: Employee['id']): void => {
     setModal({
       isOpen: true,
       title: 'ยืนยันการลบ',
-      message: 'คุณแน่ใจหรือไม่ที่ต้องการลบพนักงานคนนี้? ตารางเวรที่เกี่ยวข้องอาจหายไป',
+      message: 'คุณแน่ใจหรือไม่ที่ต้องการลบพนักงานคนนี้? เวรของเดือนนี้จะถูกเก็บไว้และกู้คืนพร้อมพนักงานได้',
       showCancel: true,
       onConfirm: () => {
-        setEmployees(employees.filter(emp => emp.id !== id));
-        // Also clean up schedule for this employee
-        setMonthlySchedule((prevSchedule: MonthlySchedule) => {
-          const newSchedule: MonthlySchedule = { ...prevSchedule };
-          Object.keys(newSchedule).forEach((dateKey: string) => {
-            if (newSchedule[dateKey]) {
-              delete newSchedule[dateKey][id];
-              if (Object.keys(newSchedule[dateKey]).length === 0) {
-                delete newSchedule[dateKey];
-              }
-            }
-          });
-          return newSchedule;
-        });
+        applyMonthData(removeEmployee(buildMonthData(), id, user.uid, new Date().toISOString()));
         setModal({ ...modal, isOpen: false, title: '', message: '', onConfirm: () => {}, onCancel: () => {}, showCancel: false });
       },
       onCancel: () => setModal({ ...modal, isOpen: false, title: '', message: '', onConfirm: () => {}, onCancel: () => {}, showCancel: false }),
     });
   };
 
+  const handleRestoreEmployee = (id: Employee['id']): void => {
+    const restored: MonthData | null = restoreEmployee(buildMonthData(), id);
+    if (restored === null) {
+      setModal({
+        isOpen: true,
+        title: 'กู้คืนไม่สำเร็จ',
+        message: 'มีพนักงานคนอื่นใช้รหัสเดียวกันอยู่แล้วในเดือนนี้ จึงไม่สามารถกู้คืนได้',
+        onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+        onCancel: () => {},
+        showCancel: false,
+      });
+      return;
+    }
+    applyMonthData(restored);
+  };
+
   const startEditEmployee = (employee: Employee): void => {
     setEditingEmployeeId(employee.id);
     setEditedEmployee({ ...employee });
+    setNewTransfer({ date: '', branch: '' });
   };
 
   const handleEditEmployeeChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>): void => {
@@ -404,32 +1740,286 @@ const App: React.FC = () => {
     setEditedEmployee(prev => ({ ...prev, [name]: value }));
   };
 
+  // Part-timers have no home branch or transfers, full-timers no availability; cleared dates are left out
+  const toSavedEmployee = (employee: Employee): Employee => {
+    const { startDate, endDate, ...rest } = employee;
+    const saved: Employee = { ...rest, ...(startDate ? { startDate } : {}), ...(endDate ? { endDate } : {}) };
+    if (saved.type === 'part-time') {
+      const { transfers: _transfers, ...partTimer } = saved;
+      return { ...partTimer, branch: PART_TIME_BRANCH };
+    }
+    const { availability: _availability, ...fullTimer } = saved;
+    return fullTimer;
+  };
+
+  // Add the transfer typed in edit mode; it takes effect within the displayed month
+  const handleAddTransfer = (): void => {
+    if (!newTransfer.branch || !newTransfer.date.startsWith(`${monthKey}-`)) {
+      setModal({ isOpen: true, title: 'ย้ายสาขาไม่ได้', message: 'กรุณาเลือกสาขาใหม่และวันที่มีผลภายในเดือนที่แสดงอยู่', onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })), onCancel: () => {}, showCancel: false });
+      return;
+    }
+    setEditedEmployee((prev: Employee) => addTransfer(prev, newTransfer));
+    setNewTransfer({ date: '', branch: '' });
+  };
+
   const saveEditEmployee = (): void => {
+    const saved: Employee = toSavedEmployee(editedEmployee);
+    const validationError: string | null = validateEmployment(saved);
+    if (validationError !== null) {
+      setModal({ isOpen: true, title: 'ข้อมูลการจ้างไม่ถูกต้อง', message: validationError, onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })), onCancel: () => {}, showCancel: false });
+      return;
+    }
     setEmployees(employees.map(emp =>
-      emp.id === editingEmployeeId ? { ...editedEmployee, branch: editedEmployee.type === 'part-time' ? 'พาร์ทไทม์' : editedEmployee.branch } : emp
+      emp.id === editingEmployeeId ? saved : emp
     ));
     setEditingEmployeeId(null);
   };
 
-  // Helper to get background color for shifts
+  // Helpers to get the colours of shifts (same colours as the exports, see lib/shiftStyles.ts).
+  // Statuses come as a class, working shifts as an inline background in their catalog colour.
   const getShiftBgColor = (shiftType: BaseShiftString): string => { // Now accepts BaseShiftString for consistent display
-    switch (shiftType) {
-      case 'เช้า': return 'bg-blue-100 text-blue-800';
-      case 'บ่าย': return 'bg-green-100 text-green-800';
-      case 'หยุด': return 'bg-gray-200 text-gray-700';
-      case 'ลา': return 'bg-yellow-200 text-yellow-800 font-semibold';
-      case 'ป่วย': return 'bg-red-200 text-red-800 font-semibold';
-      case 'ปิด': return 'bg-purple-200 text-purple-800 font-semibold'; // For clinic day off
-      default: return 'bg-white text-gray-700';
+    return getShiftStyle(clinicConfig.shiftCatalog, shiftType).className;
+  };
+
+  const getShiftBgStyle = (shiftType: BaseShiftString): React.CSSProperties | undefined => {
+    return getShiftBackground(clinicConfig.shiftCatalog, shiftType);
+  };
+
+  // Helpers to display the save status of the current month
+  const getSaveStatusLabel = (status: SaveStatus): string => {
+    switch (status) {
+      case 'loading': return 'กำลังโหลด...';
+      case 'saved': return 'บันทึกแล้ว';
+      case 'unsaved': return 'ยังไม่บันทึก';
+      case 'saving': return 'กำลังบันทึก...';
+      case 'error': return 'บันทึกไม่สำเร็จ';
+      case 'offline': return 'เก็บไว้ในเครื่อง รอซิงก์';
     }
   };
 
+  const getSaveStatusStyle = (status: SaveStatus): string => {
+    switch (status) {
+      case 'saved': return 'bg-green-100 text-green-800';
+      case 'unsaved': return 'bg-yellow-100 text-yellow-800';
+      case 'error': return 'bg-red-100 text-red-800';
+      case 'offline': return 'bg-orange-100 text-orange-800';
+      default: return 'bg-gray-100 text-gray-600';
+    }
+  };
+
+  // Everything wrong with the displayed month, all branches
+  const monthViolations: ScheduleViolation[] = useMemo(
+    () => validateMonthSchedule({
+      year: currentYear,
+      month: currentMonth,
+      employees,
+      schedule: monthlySchedule,
+      closures,
+      staffingRules: clinicConfig.staffingRules,
+      shiftDefinitions: clinicConfig.shiftDefinitions,
+      shiftCatalog: clinicConfig.shiftCatalog,
+      branches: allBranches,
+      limits: DEFAULT_WORK_LIMITS,
+    }),
+    [employees, monthlySchedule, clinicConfig, allBranches, currentYear, currentMonth, closures]
+  );
+
+  // Part-timers with at least one shift at the selected branch this month
+  const partTimersAtBranch: Set<string> = useMemo(() => {
+    const ids: Set<string> = new Set();
+    Object.values(monthlySchedule).forEach((dayShifts: { [employeeId: string]: ShiftEntry }) => {
+      Object.entries(dayShifts).forEach(([employeeId, entry]: [string, ShiftEntry]) => {
+        if (isWorkingShiftObject(entry) && entry.branch === selectedBranch) ids.add(employeeId);
+      });
+    });
+    return ids;
+  }, [monthlySchedule, selectedBranch]);
+
+  // Whether a full-timer belongs to the selected branch on some day of the displayed month (transfers included)
+  const isHomeAtSelectedBranch = (employee: Employee): boolean => getHomeBranchesInMonth(employee, monthKey).includes(selectedBranch);
+
   // Filter employees for the currently selected branch view
-  const displayedEmployees: Employee[] = employees.filter(employee =>
-    employee.type === 'part-time' || employee.branch === selectedBranch
+  // (staff only ever see their own row, in whichever branch they work).
+  // People not employed on any day of the month are hidden; past months still list them.
+  const displayedEmployees: Employee[] = employees.filter(employee => {
+    if (!isEmployedInMonth(employee, monthKey)) return false;
+    if (user.role === 'staff') return canViewEmployee(user, employee);
+    return employee.type === 'part-time'
+      ? showAllPartTimers || partTimersAtBranch.has(employee.id)
+      : isHomeAtSelectedBranch(employee);
+  });
+
+  // Hours and pay of every employee for the displayed month (admins only)
+  const payrollRows: PayrollRow[] = useMemo(
+    () => (isAdmin ? buildPayrollSummary({
+      year: currentYear,
+      month: currentMonth,
+      employees,
+      schedule: monthlySchedule,
+      closures,
+      shiftDefinitions: clinicConfig.shiftDefinitions,
+      payRates: clinicConfig.payRates,
+    }) : []),
+    [isAdmin, currentYear, currentMonth, employees, monthlySchedule, closures, clinicConfig]
   );
 
-  // Calculate daily staff count for the *currently displayed* employees on 'เช้า'/'บ่าย' shifts
+  const handleExportPayroll = (): void => {
+    const monthTitle: string = currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' });
+    const csv: string = payrollToCsv(payrollRows, allBranches, `สรุปชั่วโมงและค่าจ้าง ${monthTitle}`);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `ค่าจ้าง-${monthKey}.csv`);
+  };
+
+  // Employees in the leave balances: the user's own row for staff, otherwise the staff of the selected branch
+  const balanceEmployees: Employee[] = user.role === 'staff'
+    ? displayedEmployees
+    : employees.filter((e: Employee) => (e.type === 'part-time' ? partTimersAtBranch.has(e.id) : isHomeAtSelectedBranch(e)));
+
+  // Year-end leave summary for HR
+  const handleExportLeaveSummary = (scope: ExportScope): void => {
+    const csv: string = leaveSummaryToCsv(scope === 'all' ? employees : balanceEmployees, yearLeaveUsage, clinicConfig.leaveEntitlements, allBranches, currentYear);
+    const fileName: string = `สรุปวันลา-${scope === 'all' ? 'ทุกสาขา' : branchName(selectedBranch)}-${currentYear}.csv`;
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName);
+  };
+
+  // Drill into one branch/day from the overview
+  const handleSelectOverviewCell = (branchId: string, day: number): void => {
+    setSelectedBranch(branchId);
+    setHighlightedDay(day);
+    setHighlightedEmployeeId(null);
+    setViewMode('branch');
+  };
+
+  // Jump from the violations panel to the offending cell, or to the branch/day for staffing
+  const handleSelectViolation = (violation: ScheduleViolation): void => {
+    if (violation.branch === null) return;
+    setSelectedBranch(violation.branch);
+    setHighlightedDay(violation.day);
+    setHighlightedEmployeeId(violation.employeeId);
+    setViewMode('branch');
+  };
+
+  // Bring the highlighted cell into view once the grid shows it
+  useEffect(() => {
+    if (highlightedDay === null || viewMode !== 'branch') return;
+    const cellId: string = highlightedEmployeeId !== null ? `cell-${highlightedEmployeeId}-${highlightedDay}` : `count-${highlightedDay}`;
+    document.getElementById(cellId)?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, [highlightedDay, highlightedEmployeeId, viewMode, selectedBranch]);
+
+  // --- Spreadsheet-style editing of the branch grid (see lib/gridEditing.ts) ---
+  const gridRowIds: string[] = displayedEmployees.map((e: Employee) => e.id);
+  const gridRange: GridRange | null = gridSelection ? toGridRange(gridSelection.anchor, gridSelection.focus) : null;
+
+  // A selection belongs to the rows and days it was made on
+  useEffect(() => {
+    setGridSelection(null);
+  }, [monthKey, selectedBranch, viewMode, showAllPartTimers]);
+
+  // Click selects a cell (the dropdown still opens), shift-click or dragging from the cell border selects a range
+  const handleGridCellMouseDown = (e: React.MouseEvent<HTMLTableCellElement>, row: number, day: number): void => {
+    if (!isEditor) return;
+    const position: GridPosition = { row, day };
+    if (e.shiftKey && gridSelection) {
+      e.preventDefault();
+      setGridSelection({ anchor: gridSelection.anchor, focus: position });
+      gridRef.current?.focus();
+      return;
+    }
+    setGridSelection({ anchor: position, focus: position });
+    if ((e.target as HTMLElement).tagName !== 'SELECT') {
+      e.preventDefault();
+      isDraggingSelectionRef.current = true;
+      gridRef.current?.focus();
+    }
+  };
+
+  const handleGridCellMouseEnter = (row: number, day: number): void => {
+    if (!isDraggingSelectionRef.current) return;
+    setGridSelection((prev) => (prev ? { anchor: prev.anchor, focus: { row, day } } : prev));
+  };
+
+  useEffect(() => {
+    const handleMouseUp = (): void => { isDraggingSelectionRef.current = false; };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, []);
+
+  const fillSelection = (direction: 'right' | 'down'): void => {
+    if (gridRange) applyShiftEdits(fillGridRangeFrom(gridRange, gridRowIds, direction, getShiftValue));
+  };
+
+  const applyToSelection = (value: BaseShiftString): void => {
+    if (gridRange) applyShiftEdits(fillGridRange(gridRange, gridRowIds, value));
+  };
+
+  // Arrows move (shift extends the range), a shift code or Delete applies to every selected cell,
+  // Ctrl+R / Ctrl+D fill right / down. Handled before a focused dropdown reacts to the key.
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (!isEditor || !gridSelection || gridRowIds.length === 0) return;
+    const steps: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+    if (steps[e.key]) {
+      e.preventDefault();
+      const focus: GridPosition = moveGridPosition(gridSelection.focus, steps[e.key][0], steps[e.key][1], gridRowIds.length, daysInMonth);
+      setGridSelection({ anchor: e.shiftKey ? gridSelection.anchor : focus, focus });
+      gridRef.current?.focus();
+      document.getElementById(`cell-${gridRowIds[focus.row]}-${focus.day}`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      const key: string = e.key.toLowerCase();
+      if (key === 'r' || key === 'd') {
+        e.preventDefault();
+        fillSelection(key === 'r' ? 'right' : 'down');
+      }
+      return; // Copy and paste arrive as clipboard events, undo and redo are handled for the whole page
+    }
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      applyToSelection('');
+      return;
+    }
+    const value: BaseShiftString | undefined = e.key.length === 1 ? parseShiftCode(e.key, clinicConfig.shiftCatalog) : undefined;
+    if (value !== undefined && value !== '' && value !== 'ปิด') {
+      e.preventDefault();
+      applyToSelection(value);
+    }
+  };
+
+  // Copy the selection as tab-separated text and paste blocks (from the grid or from Excel). The events are
+  // taken from the document, as a focused dropdown is not where the browser sends them.
+  useEffect(() => {
+    if (!isEditor || gridRange === null) return;
+    const isGridFocused = (): boolean => gridRef.current !== null && gridRef.current.contains(document.activeElement);
+    const handleCopy = (e: ClipboardEvent): void => {
+      if (!isGridFocused() || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', gridRangeToText(gridRange, gridRowIds, getShiftValue));
+    };
+    const handlePaste = (e: ClipboardEvent): void => {
+      if (!isGridFocused() || !e.clipboardData) return;
+      e.preventDefault();
+      const { edits, invalid } = pasteIntoGridRange(e.clipboardData.getData('text/plain'), gridRange, gridRowIds, daysInMonth, clinicConfig.shiftCatalog);
+      if (invalid.length > 0) {
+        setModal({
+          isOpen: true,
+          title: 'รหัสกะไม่ถูกต้อง',
+          message: `ไม่รู้จักรหัสกะ ${invalid.slice(0, MAX_LISTED_REFUSALS).map((code: string) => `"${code}"`).join(', ')} จึงไม่ได้วางข้อมูล`,
+          onConfirm: () => setModal((prev: ModalState) => ({ ...prev, isOpen: false })),
+          onCancel: () => {},
+          showCancel: false,
+        });
+        return;
+      }
+      applyShiftEdits(edits);
+    };
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [isEditor, gridRange, gridRowIds, daysInMonth, getShiftValue, applyShiftEdits, clinicConfig.shiftCatalog]);
+
+  // Calculate daily staff count for the *currently displayed* employees on shifts that count toward headcount
   const getDailyStaffCount = (day: number): number => {
     const dateKey: string = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
     let count: number = 0;
@@ -437,24 +2027,22 @@ const App: React.FC = () => {
     employees.forEach((employee: Employee) => {
       const shiftEntry: ShiftEntry | undefined = monthlySchedule[dateKey]?.[employee.id];
 
-      const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-      const isClinicDayOffCell: boolean = dayNames[dayOfWeek] === clinicDayOff && clinicDayOff !== 'ไม่มี';
-      if (isClinicDayOffCell) {
-        return; // Clinic is closed, no staff counted for this day
+      if (isBranchClosed(closures, selectedBranch, currentYear, currentMonth, day)) {
+        return; // Branch is closed, no staff counted for this day
       }
 
       if (employee.type === 'full-time') {
-        // Only count if the full-time employee belongs to the selected branch
-        if (employee.branch === selectedBranch) {
+        // Only count if the full-time employee belongs to the selected branch that day
+        if (getHomeBranchOn(employee, dateKey) === selectedBranch) {
           // Use type guard for string literal comparison
-          if (typeof shiftEntry === 'string' && (shiftEntry === 'เช้า' || shiftEntry === 'บ่าย')) {
+          if (typeof shiftEntry === 'string' && isWorkingEntry(shiftEntry) && countsTowardHeadcount(clinicConfig.shiftCatalog, shiftEntry)) {
             count++;
           }
         }
       } else { // Part-time employee
         // Only count if the part-timer is assigned to *this* selected branch for a working shift
         // Use type guard to ensure it's a WorkingShiftObject
-        if (isWorkingShiftObject(shiftEntry) && shiftEntry.branch === selectedBranch && (shiftEntry.type === 'เช้า' || shiftEntry.type === 'บ่าย')) {
+        if (isWorkingShiftObject(shiftEntry) && shiftEntry.branch === selectedBranch && countsTowardHeadcount(clinicConfig.shiftCatalog, shiftEntry.type)) {
           count++;
         }
       }
@@ -463,14 +2051,22 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="font-sans min-h-screen bg-gray-50 flex flex-col p-4 md:p-8">
+    <>
+    <div className="font-sans min-h-screen bg-gray-50 flex flex-col p-4 md:p-8 print:hidden">
       <style>{scrollbarStyles}</style> {/* Apply custom scrollbar styles */}
 
-      <h1 className="text-3xl md:text-4xl font-extrabold text-center text-gray-800 mb-8 mt-4">
+      <h1 className="text-3xl md:text-4xl font-extrabold text-center text-gray-800 mb-2 mt-4">
         <span className="bg-gradient-to-r from-blue-600 to-purple-600 text-transparent bg-clip-text">
           ระบบจัดตารางเวร
         </span> คลินิกชีวาดี
       </h1>
+      <div className="flex justify-center items-center gap-3 mb-8 text-sm text-gray-600">
+        <span>{user.email} ({ROLE_LABELS[user.role]}{user.role === 'manager' && user.branchId ? ` ${branchName(user.branchId)}` : ''})</span>
+        {user.employeeId !== null && (
+          <Link href={`/employees/${encodeURIComponent(user.employeeId)}`} className="text-blue-600 hover:underline">เวรของฉันและปฏิทิน</Link>
+        )}
+        <button onClick={() => { handleSignOut(); }} className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors">ออกจากระบบ</button>
+      </div>
 
       <CustomModal
         isOpen={modal.isOpen}
@@ -482,7 +2078,8 @@ const App: React.FC = () => {
       />
 
       <div className="flex flex-col lg:flex-row gap-8 w-full max-w-7xl mx-auto">
-        {/* Employee Management Panel */}
+        {/* Employee Management Panel (admins only) */}
+        {isAdmin && (
         <div className="w-full lg:w-1/3 bg-white p-6 rounded-xl shadow-lg border border-gray-100">
           <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center">
             <span className="mr-2">🧑‍⚕️</span> การจัดการพนักงาน
@@ -498,17 +2095,29 @@ const App: React.FC = () => {
                 value={newEmployee.name}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewEmployee({ ...newEmployee, name: e.target.value })}
               />
-              <input
-                type="text"
-                placeholder="ตำแหน่ง (เช่น แพทย์แผนไทย, ผู้ช่วยแพทย์)"
-                className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              <select
+                className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-white"
                 value={newEmployee.position}
-                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewEmployee({ ...newEmployee, position: e.target.value })}
-              />
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewEmployee({ ...newEmployee, position: e.target.value })}
+              >
+                <option value="">เลือกตำแหน่ง</option>
+                {clinicConfig.positions.map((position: string) => (
+                  <option key={position} value={position}>{position}</option>
+                ))}
+              </select>
+              <label className="block text-sm text-gray-600">
+                วันเริ่มงาน (ไม่ระบุ = ทำงานอยู่แล้ว)
+                <input
+                  type="date"
+                  className="w-full mt-1 p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                  value={newEmployee.startDate ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewEmployee({ ...newEmployee, startDate: e.target.value })}
+                />
+              </label>
               <select
                 className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-white"
                 value={newEmployee.type}
-                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewEmployee({ ...newEmployee, type: e.target.value as 'full-time' | 'part-time', branch: e.target.value === 'part-time' ? 'พาร์ทไทม์' : initialBranches[0] })}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewEmployee({ ...newEmployee, type: e.target.value as 'full-time' | 'part-time', branch: e.target.value === 'part-time' ? PART_TIME_BRANCH : '' })}
               >
                 <option value="full-time">Full-time (พนักงานประจำ)</option>
                 <option value="part-time">Part-time (พนักงานสำรอง)</option>
@@ -520,8 +2129,8 @@ const App: React.FC = () => {
                   onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewEmployee({ ...newEmployee, branch: e.target.value })}
                 >
                   <option value="">เลือกสาขาประจำ</option>
-                  {branches.map((branch: string) => (
-                    <option key={branch} value={branch}>{branch}</option>
+                  {activeBranches.map((branch: Branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
                   ))}
                 </select>
               )}
@@ -554,13 +2163,19 @@ const App: React.FC = () => {
                           onChange={handleEditEmployeeChange}
                           className="w-full p-2 border border-gray-300 rounded-md text-sm"
                         />
-                        <input
-                          type="text"
+                        <select
                           name="position"
                           value={editedEmployee.position}
                           onChange={handleEditEmployeeChange}
-                          className="w-full p-2 border border-gray-300 rounded-md text-sm"
-                        />
+                          className="w-full p-2 border border-gray-300 rounded-md text-sm bg-white"
+                        >
+                          {!clinicConfig.positions.includes(editedEmployee.position) && (
+                            <option value={editedEmployee.position}>{editedEmployee.position} (ไม่อยู่ในรายการ)</option>
+                          )}
+                          {clinicConfig.positions.map((position: string) => (
+                            <option key={position} value={position}>{position}</option>
+                          ))}
+                        </select>
                         <select
                           name="type"
                           value={editedEmployee.type}
@@ -577,11 +2192,53 @@ const App: React.FC = () => {
                             onChange={handleEditEmployeeChange}
                             className="w-full p-2 border border-gray-300 rounded-md text-sm bg-white"
                           >
-                            {branches.map((branch: string) => (
-                              <option key={branch} value={branch}>{branch}</option>
+                            {activeBranches.map((branch: Branch) => (
+                              <option key={branch.id} value={branch.id}>{branch.name}</option>
                             ))}
                           </select>
                         )}
+                        <div className="grid grid-cols-2 gap-2">
+                          <label className="text-xs text-gray-600">
+                            วันเริ่มงาน
+                            <input type="date" name="startDate" value={editedEmployee.startDate ?? ''} onChange={handleEditEmployeeChange} className="w-full mt-1 p-2 border border-gray-300 rounded-md text-sm" />
+                          </label>
+                          <label className="text-xs text-gray-600">
+                            วันสิ้นสุดการจ้าง
+                            <input type="date" name="endDate" value={editedEmployee.endDate ?? ''} onChange={handleEditEmployeeChange} className="w-full mt-1 p-2 border border-gray-300 rounded-md text-sm" />
+                          </label>
+                        </div>
+                        {editedEmployee.type === 'full-time' && (
+                          <div className="border-t border-gray-200 pt-2 space-y-1">
+                            <p className="text-xs font-semibold text-gray-600">ย้ายสาขา</p>
+                            {(editedEmployee.transfers ?? []).map((transfer: BranchTransfer) => (
+                              <div key={transfer.date} className="flex items-center gap-2 text-xs text-gray-700">
+                                <span className="flex-grow">ตั้งแต่ {transfer.date} ไป {branchName(transfer.branch)}</span>
+                                <button onClick={() => setEditedEmployee((prev: Employee) => removeTransfer(prev, transfer.date))} className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600">ลบ</button>
+                              </div>
+                            ))}
+                            <div className="flex gap-2">
+                              <input
+                                type="date"
+                                min={`${monthKey}-01`}
+                                max={toDateKey(currentYear, currentMonth, daysInMonth)}
+                                value={newTransfer.date}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewTransfer({ ...newTransfer, date: e.target.value })}
+                                className="flex-grow p-1 border border-gray-300 rounded-md text-xs"
+                              />
+                              <select
+                                value={newTransfer.branch}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setNewTransfer({ ...newTransfer, branch: e.target.value })}
+                                className="flex-grow p-1 border border-gray-300 rounded-md text-xs bg-white"
+                              >
+                                <option value="">สาขาใหม่</option>
+                                {activeBranches.map((branch: Branch) => (
+                                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                                ))}
+                              </select>
+                              <button onClick={handleAddTransfer} className="px-2 py-1 bg-blue-500 text-white text-xs rounded-md hover:bg-blue-600">เพิ่ม</button>
+                            </div>
+                          </div>
+                        )}
                         <div className="flex space-x-2 mt-2">
                           <button
                             onClick={saveEditEmployee}
@@ -603,14 +2260,30 @@ const App: React.FC = () => {
                         <p className="text-sm text-gray-600">{employee.position} (<span className="font-medium text-blue-600">{employee.type === 'full-time' ? 'ประจำ' : 'สำรอง'}</span>)</p>
                         {employee.type === 'full-time' && (
                            <p className="text-xs text-gray-500">
-                             สาขา: <span className="font-medium text-gray-700">{employee.branch}</span>
+                             สาขา: <span className="font-medium text-gray-700">{branchName(employee.branch)}</span>
+                             {(employee.transfers ?? []).map((transfer: BranchTransfer) => (
+                               <span key={transfer.date}> → {branchName(transfer.branch)} ({transfer.date})</span>
+                             ))}
                            </p>
                         )}
+                        {(employee.startDate !== undefined || employee.endDate !== undefined) && (
+                          <p className={`text-xs ${isEmployedInMonth(employee, monthKey) ? 'text-gray-500' : 'text-red-600'}`}>
+                            ทำงาน {employee.startDate ?? '-'} ถึง {employee.endDate ?? 'ปัจจุบัน'}
+                            {!isEmployedInMonth(employee, monthKey) && ' (ไม่อยู่ในตารางเดือนนี้)'}
+                          </p>
+                        )}
                       </div>
                     )}
                     <div className="flex space-x-2 ml-0 sm:ml-auto">
                       {editingEmployeeId !== employee.id && (
                         <>
+                          <Link
+                            href={`/employees/${encodeURIComponent(employee.id)}`}
+                            className="p-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+                            title="เวรที่จะถึงของพนักงาน"
+                          >
+                            🗓️
+                          </Link>
                           <button
                             onClick={() => startEditEmployee(employee)}
                             className="p-2 bg-yellow-400 text-white rounded-md hover:bg-yellow-500 transition-colors"
@@ -633,14 +2306,46 @@ const App: React.FC = () => {
               )}
             </div>
           </div>
+
+          {removedEmployees.length > 0 && (
+            <div className="mt-8 border-t pt-6 border-gray-200">
+              <h3 className="text-xl font-semibold text-gray-700 mb-4">พนักงานที่ถูกลบ ({removedEmployees.length} คน)</h3>
+              <div className="space-y-2 max-h-64 overflow-y-auto pr-2 scrollbar-thin">
+                {removedEmployees.map((removed: RemovedEmployee) => (
+                  <div key={removed.employee.id} className="flex items-center gap-2 bg-gray-50 p-3 rounded-lg border border-gray-200 text-sm">
+                    <div className="flex-grow">
+                      <p className="font-medium text-gray-500 line-through">{removed.employee.name}</p>
+                      <p className="text-xs text-gray-500">
+                        เวร {Object.keys(removed.shifts).length} วัน | ลบเมื่อ {new Date(removed.removedAt).toLocaleString('th-TH')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleRestoreEmployee(removed.employee.id)}
+                      className="px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+                    >
+                      กู้คืน
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
+        )}
+
         {/* Monthly Schedule Panel */}
-        <div className="w-full lg:w-2/3 bg-white p-6 rounded-xl shadow-lg border border-gray-100 flex flex-col">
+        <div className={`w-full ${isAdmin ? 'lg:w-2/3' : ''} bg-white p-6 rounded-xl shadow-lg border border-gray-100 flex flex-col`}>
           <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center">
             <span className="mr-2">🗓️</span> ตารางเวรประจำเดือน
           </h2>
 
+          {!isOnline && (
+            <div className="mb-4 mx-4 px-3 py-2 rounded-md bg-orange-50 border border-orange-200 text-sm text-orange-800">
+              ออฟไลน์: แสดงตารางเวรที่ซิงก์ไว้ล่าสุดบนเครื่องนี้ การแก้ไขจะถูกเก็บไว้ในเครื่องและซิงก์เมื่อกลับมาออนไลน์
+            </div>
+          )}
+
           {/* Month & Branch & Clinic Day Off Navigation/Selection */}
           <div className="flex flex-col sm:flex-row justify-between items-center mb-6 px-4 gap-4">
             {/* Month Navigation */}
@@ -664,8 +2369,58 @@ const App: React.FC = () => {
               </button>
             </div>
 
-            {/* Branch Selector */}
+            {/* Save Status */}
             <div className="flex items-center space-x-2">
+              <span className={`text-xs font-medium px-2 py-1 rounded-full whitespace-nowrap ${getSaveStatusStyle(saveStatus)}`}>
+                {getSaveStatusLabel(saveStatus)}
+              </span>
+              <button
+                onClick={() => { saveCurrentMonth(); }}
+                disabled={saveStatus !== 'unsaved' && saveStatus !== 'error' && saveStatus !== 'offline'}
+                className="flex items-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                <SaveIcon /> <span className="ml-1">บันทึก</span>
+              </button>
+              {user.role !== 'staff' && (
+                <>
+                  <button
+                    onClick={handleUndo}
+                    disabled={undoStack.length === 0 || saveStatus === 'loading'}
+                    title="ย้อนกลับ (Ctrl+Z)"
+                    className="px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ↶ ย้อนกลับ
+                  </button>
+                  <button
+                    onClick={handleRedo}
+                    disabled={redoStack.length === 0 || saveStatus === 'loading'}
+                    title="ทำซ้ำ (Ctrl+Y)"
+                    className="px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ↷ ทำซ้ำ
+                  </button>
+                </>
+              )}
+            </div>
+
+            {/* View Mode Toggle */}
+            <div className={`flex rounded-md ${user.role === 'staff' ? 'hidden' : ''} border border-gray-300 overflow-hidden text-sm`}>
+              <button
+                onClick={() => setViewMode('branch')}
+                className={`px-3 py-2 ${viewMode === 'branch' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                รายสาขา
+              </button>
+              <button
+                onClick={() => setViewMode('overview')}
+                className={`px-3 py-2 border-l border-gray-300 ${viewMode === 'overview' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                ภาพรวมทุกสาขา
+              </button>
+            </div>
+
+            {/* Branch Selector */}
+            <div className={`flex items-center space-x-2 ${viewMode === 'overview' || user.role === 'staff' ? 'invisible' : ''}`}>
               <label htmlFor="branch-select" className="text-gray-700 font-medium whitespace-nowrap">เลือกสาขา:</label>
               <select
                 id="branch-select"
@@ -673,8 +2428,8 @@ const App: React.FC = () => {
                 onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedBranch(e.target.value)}
                 className="p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 bg-white"
               >
-                {branches.map((branch: string) => (
-                  <option key={branch} value={branch}>{branch}</option>
+                {activeBranches.map((branch: Branch) => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
                 ))}
               </select>
             </div>
@@ -686,17 +2441,96 @@ const App: React.FC = () => {
                 id="clinic-day-off"
                 value={clinicDayOff}
                 onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setClinicDayOff(e.target.value)}
+                disabled={!isAdmin}
                 className="p-2 border border-gray-300 rounded-md focus:ring-purple-500 focus:border-purple-500 bg-white"
               >
-                {dayNames.map((day: string) => (
+                {DAY_NAMES.map((day: string) => (
                   <option key={day} value={day}>{day}</option>
                 ))}
               </select>
             </div>
           </div>
 
-          {/* Schedule Table */}
-          <div className="overflow-x-auto rounded-lg border border-gray-200">
+          {/* Other users editing this month */}
+          <PresenceBar editors={otherEditors} branches={allBranches} selectedBranch={presenceBranch} />
+
+          {/* Schedule Actions */}
+          <div className="flex justify-between items-center mb-4 px-4">
+            {user.role === 'staff' ? (
+              <p className="text-sm text-gray-600">{displayedEmployees.length === 0 ? 'บัญชีนี้ยังไม่ได้ผูกกับพนักงาน กรุณาติดต่อผู้ดูแลระบบ' : 'ตารางเวรของคุณ (ดูได้อย่างเดียว)'}</p>
+            ) : viewMode === 'branch' ? (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showAllPartTimers}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setShowAllPartTimers(e.target.checked)}
+                />
+                <span>แสดงพาร์ทไทม์ทั้งหมด (เพื่อจัดเวรให้สาขานี้)</span>
+              </label>
+            ) : (
+              <p className="text-sm text-gray-600">
+                แต่ละช่องแสดงจำนวนคนของแต่ละกะ ตามสีในรายการกะ | ชี้เพื่อดูรายชื่อ คลิกเพื่อไปยังสาขาและวันนั้น
+              </p>
+            )}
+            <button
+              onClick={handleAutoFillMonth}
+              disabled={saveStatus === 'loading' || !isAdmin}
+              className="flex items-center px-4 py-2 bg-gradient-to-r from-purple-500 to-purple-600 text-white text-sm font-semibold rounded-lg shadow-md hover:from-purple-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50"
+            >
+              <span className="mr-2">✨</span> จัดเวรอัตโนมัติทั้งเดือน
+            </button>
+          </div>
+
+          {/* Export */}
+          {user.role !== 'staff' && (
+            <div className="flex justify-end mb-4 px-4">
+              <ExportControls branchName={branchName(selectedBranch)} onExport={(format: ExportFormat, scope: ExportScope) => { handleExport(format, scope); }} isExporting={isExporting} />
+            </div>
+          )}
+
+          {viewMode === 'overview' ? (
+            <BranchOverviewMatrix
+              branches={activeBranches}
+              shiftCatalog={clinicConfig.shiftCatalog}
+              employees={employees}
+              schedule={monthlySchedule}
+              staffingRules={clinicConfig.staffingRules}
+              closures={closures}
+              year={currentYear}
+              month={currentMonth}
+              onSelectCell={handleSelectOverviewCell}
+            />
+          ) : (
+          /* Schedule Table */
+          <>
+          {isEditor && (
+            <div className="flex flex-wrap items-center gap-2 mb-2 px-4 text-xs text-gray-600">
+              <span>
+                {gridRange
+                  ? `เลือก ${(gridRange.bottom - gridRange.top + 1) * (gridRange.right - gridRange.left + 1)} ช่อง`
+                  : 'คลิกขอบช่องแล้วลากเพื่อเลือกหลายช่อง'}
+              </span>
+              <select
+                value=""
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => applyToSelection(e.target.value as BaseShiftString)}
+                disabled={!gridRange}
+                className="p-1 border border-gray-300 rounded-md bg-white disabled:opacity-50"
+              >
+                <option value="" disabled>ใช้กับช่องที่เลือก...</option>
+                {clinicConfig.shiftCatalog.map((shiftType: ShiftType) => (
+                  <option key={shiftType.code} value={shiftType.code}>{shiftType.code}</option>
+                ))}
+                <option value="หยุด">หยุด</option>
+                <option value="ลา">ลา</option>
+                <option value="ป่วย">ป่วย</option>
+              </select>
+              <button onClick={() => fillSelection('right')} disabled={!gridRange} className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50">เติมขวา →</button>
+              <button onClick={() => fillSelection('down')} disabled={!gridRange} className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50">เติมลง ↓</button>
+              <button onClick={() => applyToSelection('')} disabled={!gridRange} className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:opacity-50">ล้าง</button>
+              <span className="text-gray-400">พิมพ์ ช/บ/ห/ล/ป หรืออักษรแรกของรหัสกะ | ลูกศรเลื่อน (Shift ขยาย) | Ctrl+R เติมขวา, Ctrl+D เติมลง | Ctrl+C/Ctrl+V คัดลอกและวางจาก Excel</span>
+            </div>
+          )}
+          <div ref={gridRef} tabIndex={-1} onKeyDown={handleGridKeyDown} className="overflow-x-auto rounded-lg border border-gray-200 focus:outline-none">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50 sticky top-0 z-10">
                 <tr>
@@ -704,11 +2538,12 @@ const App: React.FC = () => {
                     พนักงาน / วันที่
                   </th>
                   {daysArray.map((day: number) => {
-                    const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-                    const isClinicDayOffColumn: boolean = dayNames[dayOfWeek] === clinicDayOff;
+                    const closureReason: string | null = getClosureReason(closures, selectedBranch, currentYear, currentMonth, day);
+                    const isClinicDayOffColumn: boolean = closureReason !== null;
                     return (
                       <th
                         key={day}
+                        title={closureReason ?? undefined}
                         className={`px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider border-l border-gray-100 ${isClinicDayOffColumn ? 'bg-purple-100 text-purple-800' : ''}`}
                       >
                         {day}
@@ -720,17 +2555,20 @@ const App: React.FC = () => {
                 <tr>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider sticky left-0 bg-gray-100 z-20 w-40 min-w-[160px] border-r border-gray-200">
                     <span className="text-blue-700">พนักงานทำงาน / วัน</span>
-                    <p className="text-[10px] text-gray-500 font-normal mt-1">(เป้าหมาย 3-4 คน)</p>
+                    <p className="text-[10px] text-gray-500 font-normal mt-1">(ตามกฎจำนวนพนักงานของสาขา)</p>
                   </th>
                   {daysArray.map((day: number) => {
                     const count: number = getDailyStaffCount(day);
-                    const isCountAlert: boolean = count < 3 || count > 4; // Alert if not 3 or 4
-                    const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-                    const isClinicDayOffColumn: boolean = dayNames[dayOfWeek] === clinicDayOff;
+                    // Alert if any staffing rule of the branch is not met on this day
+                    const dayViolations: ScheduleViolation[] = getBranchDayViolations(monthViolations, selectedBranch, day);
+                    const isCountAlert: boolean = dayViolations.length > 0;
+                    const isClinicDayOffColumn: boolean = isBranchClosed(closures, selectedBranch, currentYear, currentMonth, day);
                     return (
                       <th
                         key={`count-${day}`}
-                        className={`px-3 py-3 text-center text-sm font-bold ${isCountAlert && !isClinicDayOffColumn ? 'bg-red-100 text-red-700' : 'text-gray-800'} ${isClinicDayOffColumn ? 'bg-purple-100 text-purple-800' : ''} border-l border-gray-100`}
+                        id={`count-${day}`}
+                        title={dayViolations.map((v: ScheduleViolation) => v.message).join('\n')}
+                        className={`px-3 py-3 text-center text-sm font-bold ${isCountAlert && !isClinicDayOffColumn ? 'bg-red-100 text-red-700' : 'text-gray-800'} ${isClinicDayOffColumn ? 'bg-purple-100 text-purple-800' : ''} ${highlightedDay === day ? 'ring-2 ring-inset ring-orange-400' : ''} border-l border-gray-100`}
                       >
                         {isClinicDayOffColumn ? 'ปิด' : count}
                       </th>
@@ -746,18 +2584,33 @@ const App: React.FC = () => {
                     </td>
                   </tr>
                 ) : (
-                  displayedEmployees.map((employee: Employee) => (
+                  displayedEmployees.map((employee: Employee, row: number) => (
                     <tr key={employee.id}>
                       <td className="px-4 py-3 whitespace-nowrap sticky left-0 bg-white z-10 w-40 min-w-[160px] border-r border-gray-200">
                         <div className="text-sm font-medium text-gray-900">{employee.name}</div>
                         <div className="text-xs text-gray-500">{employee.position}</div>
                         <div className="text-xs text-blue-600">
-                          {employee.type === 'full-time' ? `(${employee.branch})` : '(พาร์ทไทม์)'}
+                          {employee.type === 'full-time' ? `(${getHomeBranchesInMonth(employee, monthKey).map(branchName).join(' → ')})` : '(พาร์ทไทม์)'}
                         </div>
                       </td>
                       {daysArray.map((day: number) => {
-                        const dayOfWeek: number = new Date(currentYear, currentMonth, day).getDay();
-                        const isClinicDayOffCell: boolean = dayNames[dayOfWeek] === clinicDayOff;
+                        const dateKey: string = toDateKey(currentYear, currentMonth, day);
+                        const cellBranch: string = employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : selectedBranch;
+                        // Days outside the employment window, or before/after a transfer to or from this branch, are not part of this row
+                        if (!isEmployedOn(employee, dateKey) || (user.role !== 'staff' && cellBranch !== selectedBranch)) {
+                          return (
+                            <td
+                              key={day}
+                              id={`cell-${employee.id}-${day}`}
+                              onMouseDown={(e: React.MouseEvent<HTMLTableCellElement>) => handleGridCellMouseDown(e, row, day)}
+                              onMouseEnter={() => handleGridCellMouseEnter(row, day)}
+                              className={`px-2 py-1 text-center border-l border-gray-100 bg-gray-100 text-xs text-gray-400 ${gridRange && isInGridRange(gridRange, row, day) ? 'outline-2 -outline-offset-2 outline-blue-500' : ''}`}
+                            >
+                              –
+                            </td>
+                          );
+                        }
+                        const isClinicDayOffCell: boolean = isBranchClosed(closures, cellBranch, currentYear, currentMonth, day);
                         const currentShift: BaseShiftString = getShiftValue(employee.id, day); // Now guaranteed to be BaseShiftString
 
                         // Determine the displayed value and disabled state for the select
@@ -768,7 +2621,14 @@ const App: React.FC = () => {
                         const cellBgColor: string = isClinicDayOffCell ? 'bg-purple-50' : getShiftBgColor(displayShiftValue);
 
                         return (
-                          <td key={day} className={`px-2 py-1 text-center border-l border-gray-100 ${cellBgColor}`}>
+                          <td
+                            key={day}
+                            id={`cell-${employee.id}-${day}`}
+                            onMouseDown={(e: React.MouseEvent<HTMLTableCellElement>) => handleGridCellMouseDown(e, row, day)}
+                            onMouseEnter={() => handleGridCellMouseEnter(row, day)}
+                            style={isClinicDayOffCell ? undefined : getShiftBgStyle(displayShiftValue)}
+                            className={`px-2 py-1 text-center border-l border-gray-100 ${cellBgColor} ${highlightedDay === day ? (highlightedEmployeeId === employee.id ? 'ring-4 ring-inset ring-red-500' : 'ring-2 ring-inset ring-orange-400') : ''} ${gridRange && isInGridRange(gridRange, row, day) ? `outline-2 -outline-offset-2 ${gridSelection?.focus.row === row && gridSelection.focus.day === day ? 'outline-blue-700' : 'outline-blue-400'}` : ''}`}
+                          >
                             <select
                               value={displayShiftValue}
                               onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -776,16 +2636,22 @@ const App: React.FC = () => {
                                   handleShiftChange(employee.id, day, e.target.value); // Passed value as string
                                 }
                               }}
+                              style={getShiftBgStyle(displayShiftValue)}
                               className={`w-full p-1 border border-transparent rounded-md text-xs focus:ring-blue-500 focus:border-blue-500 transition-colors ${getShiftBgColor(displayShiftValue)} bg-opacity-70`}
-                              disabled={isDisabled}
+                              disabled={isDisabled || !canEditBranchSchedule(user, cellBranch)}
                             >
                               {isDisabled ? (
                                 <option value="ปิด">ปิด</option> // Only 'ปิด' option if clinic is off
                               ) : (
                                 <>
                                   <option value="">-</option>
-                                  <option value="เช้า">เช้า</option>
-                                  <option value="บ่าย">บ่าย</option>
+                                  {clinicConfig.shiftCatalog.map((shiftType: ShiftType) => (
+                                    <option key={shiftType.code} value={shiftType.code}>{shiftType.code}</option>
+                                  ))}
+                                  {/* A shift removed from the catalog stays visible where it was entered */}
+                                  {isWorkingEntry(displayShiftValue) && !findShiftType(clinicConfig.shiftCatalog, displayShiftValue) && (
+                                    <option value={displayShiftValue}>{displayShiftValue}</option>
+                                  )}
                                   <option value="หยุด">หยุด</option>
                                   <option value="ลา">ลา</option>
                                   <option value="ป่วย">ป่วย</option>
@@ -801,13 +2667,266 @@ const App: React.FC = () => {
               </tbody>
             </table>
           </div>
-          <p className="mt-4 text-sm text-gray-600 text-right pr-2">
+          </>
+          )}
+          {/* Legend: the colours of the catalog shifts and the statuses */}
+          <div className="mt-4 flex flex-wrap items-center gap-2 px-2 text-xs text-gray-700">
+            {clinicConfig.shiftCatalog.map((shiftType: ShiftType) => (
+              <span key={shiftType.code} className="px-2 py-1 rounded-md" style={{ backgroundColor: shiftType.color }}>
+                {shiftType.code} = {shiftType.label}{shiftType.countsTowardHeadcount ? '' : ' (ไม่นับจำนวนคน)'}
+              </span>
+            ))}
+            {(['หยุด', 'ลา', 'ป่วย', 'ปิด'] as BaseShiftString[]).map((status: BaseShiftString) => (
+              <span key={status} className={`px-2 py-1 rounded-md ${getShiftBgColor(status)}`}>{status}</span>
+            ))}
+          </div>
+          <p className="mt-2 text-sm text-gray-600 text-right pr-2">
             💡 เลือก 'ลา' หรือ 'ป่วย' เพื่อระบุการหยุดงานของพนักงาน | สถานะ 'ปิด' สำหรับวันหยุดคลินิก
           </p>
         </div>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 w-full max-w-7xl mx-auto mt-8">
+        {/* Leave Requests Panel (staff see and submit their own) */}
+        <LeaveRequestPanel
+          user={user}
+          employees={employees}
+          requests={leaveRequests}
+          onSubmit={handleSubmitLeave}
+          onDecide={(request: LeaveRequest, status: Exclude<LeaveStatus, 'pending'>, note: string) => { handleDecideLeave(request, status, note); }}
+        />
+
+        {/* Shift Swap Panel (staff propose and answer their own) */}
+        <ShiftSwapPanel
+          user={user}
+          monthKey={monthKey}
+          employees={employees}
+          colleagues={colleagues}
+          schedule={monthlySchedule}
+          branches={allBranches}
+          swaps={shiftSwaps}
+          onPropose={handleProposeSwap}
+          onRespond={handleRespondSwap}
+          onCancel={handleCancelSwap}
+          onDecide={(swap: ShiftSwap, status: 'approved' | 'rejected', note: string) => { handleDecideSwap(swap, status, note); }}
+        />
+
+        {/* Leave Balance Panel */}
+        <LeaveBalancePanel
+          year={currentYear}
+          branch={user.role === 'staff' ? null : branchName(selectedBranch)}
+          employees={balanceEmployees}
+          usage={yearLeaveUsage}
+          entitlements={clinicConfig.leaveEntitlements}
+          canExportAll={isAdmin}
+          onExport={user.role === 'staff' ? null : handleExportLeaveSummary}
+        />
+
+        {isAdmin && (
+        <>
+        {/* User Roles Panel */}
+        <UserRolesPanel
+          users={users}
+          currentUid={user.uid}
+          branches={activeBranches}
+          employees={employees}
+          onChange={(changed: UserProfile) => { handleUserChange(changed); }}
+        />
+
+        {/* Branch Administration Panel */}
+        <BranchAdminPanel
+          branches={allBranches}
+          onAdd={handleAddBranch}
+          onRename={handleRenameBranch}
+          onArchive={(branchId: string) => { handleArchiveBranch(branchId); }}
+          onRestore={(branchId: string) => setBranchArchived(branchId, false)}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Position Catalog Panel */}
+        <PositionCatalogPanel
+          positions={clinicConfig.positions}
+          onAdd={handleAddPosition}
+          onRemove={handleRemovePosition}
+          onMove={handleMovePosition}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Shift Catalog Panel */}
+        <ShiftCatalogPanel
+          shiftCatalog={clinicConfig.shiftCatalog}
+          onAdd={handleAddShiftType}
+          onUpdate={handleUpdateShiftType}
+          onRemove={handleRemoveShiftType}
+          onMove={handleMoveShiftType}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Staffing Rules Panel */}
+        <StaffingRulesEditor
+          positions={clinicConfig.positions}
+          shiftCatalog={clinicConfig.shiftCatalog}
+          branch={branchName(selectedBranch)}
+          rules={getBranchRules(clinicConfig.staffingRules, selectedBranch)}
+          onChange={(rules: StaffingRule[]) => handleStaffingRulesChange(selectedBranch, rules)}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Leave Entitlements Panel */}
+        <LeaveEntitlementsEditor
+          positions={clinicConfig.positions}
+          entitlements={clinicConfig.leaveEntitlements}
+          onChange={handleLeaveEntitlementsChange}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Shift Times and Pay Rates Panel */}
+        <ShiftTimesEditor
+          positions={clinicConfig.positions}
+          shiftCatalog={clinicConfig.shiftCatalog}
+          branchId={selectedBranch}
+          branchName={branchName(selectedBranch)}
+          definitions={clinicConfig.shiftDefinitions}
+          payRates={clinicConfig.payRates}
+          onDefinitionsChange={handleShiftDefinitionsChange}
+          onPayRatesChange={handlePayRatesChange}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        {/* Payroll Summary Panel */}
+        <PayrollPanel
+          monthTitle={currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' })}
+          rows={payrollRows}
+          branches={allBranches}
+          onExport={handleExportPayroll}
+        />
+
+        {/* Closing Days Panel */}
+        <ClosuresPanel
+          branch={branchName(selectedBranch)}
+          clinicDayOff={clinicDayOff}
+          closures={clinicConfig.branchClosures[selectedBranch] ?? null}
+          holidays={clinicConfig.holidays}
+          onClosuresChange={(branchClosures: BranchClosures | null) => handleBranchClosuresChange(selectedBranch, branchClosures)}
+          onHolidaysChange={handleHolidaysChange}
+          onSave={saveClinicConfig}
+          isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+          isSaving={configStatus === 'saving'}
+        />
+
+        </>
+        )}
+
+        {/* Part-timer Dispatch Board (managers only see the gaps of their branch) */}
+        {user.role !== 'staff' && (
+        <DispatchBoard
+          branches={allBranches}
+          shiftCatalog={clinicConfig.shiftCatalog}
+          activeBranchIds={isAdmin ? branches : branches.filter((b: string) => canEditBranchSchedule(user, b))}
+          employees={employees}
+          schedule={monthlySchedule}
+          staffingRules={clinicConfig.staffingRules}
+          closures={closures}
+          year={currentYear}
+          month={currentMonth}
+          onAssign={handleAssignPartTimer}
+        />
+        )}
+
+        {/* Template and Copy-forward Panel (managers only fill the cells of their branch) */}
+        {user.role !== 'staff' && (
+          <RosterFillPanel
+            key={monthKey}
+            branches={allBranches}
+            employees={employees}
+            schedule={monthlySchedule}
+            closures={closures}
+            year={currentYear}
+            month={currentMonth}
+            monthTitle={currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' })}
+            templates={clinicConfig.rosterTemplates}
+            canManageTemplates={isAdmin}
+            isChangeAllowed={isRosterChangeAllowed}
+            loadPreviousMonth={loadPreviousMonthSchedule}
+            onApply={handleImportRoster}
+            onTemplatesChange={handleRosterTemplatesChange}
+            onSaveTemplates={saveClinicConfig}
+            isDirty={configStatus === 'unsaved' || configStatus === 'error'}
+            isSaving={configStatus === 'saving'}
+          />
+        )}
+
+        {/* Part-timer Availability Panel */}
+        {isAdmin && (
+          <AvailabilityPanel
+            partTimers={employees.filter((e: Employee) => e.type === 'part-time')}
+            shiftCatalog={clinicConfig.shiftCatalog}
+            branches={activeBranches}
+            onChange={handleAvailabilityChange}
+          />
+        )}
+
+        {/* Import Panel */}
+        {isAdmin && (
+          <ImportPanel
+            branches={allBranches}
+            shiftCatalog={clinicConfig.shiftCatalog}
+            employees={employees}
+            positions={clinicConfig.positions}
+            schedule={monthlySchedule}
+            closures={closures}
+            year={currentYear}
+            month={currentMonth}
+            monthTitle={currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' })}
+            selectedBranch={selectedBranch}
+            onApplyEmployees={handleImportEmployees}
+            onApplyRoster={handleImportRoster}
+          />
+        )}
+
+        {/* Audit Log Panel (managers start on their own branch) */}
+        {canViewAuditLog && (
+          <AuditLogPanel
+            key={monthKey}
+            monthTitle={currentDate.toLocaleDateString('th-TH', { month: 'long', year: 'numeric' })}
+            events={auditEvents}
+            branches={allBranches}
+            initialBranch={user.role === 'manager' ? user.branchId : null}
+          />
+        )}
+
+        {/* Violations Panel */}
+        {user.role !== 'staff' && (
+        <ViolationsPanel
+          violations={monthViolations}
+          branches={allBranches}
+          onSelect={handleSelectViolation}
+        />
+        )}
+      </div>
     </div>
+    <PrintableRoster rosters={printRosters} />
+    </>
   );
 };
 
+// Root component: asks for a login, then shows the timetable with the user's role
+const App: React.FC = () => (
+  <AuthGate>
+    {(user: UserProfile, onSignOut: () => void) => <ScheduleApp key={user.uid} user={user} onSignOut={onSignOut} />}
+  </AuthGate>
+);
+
 export default App;
\ No newline at end of file
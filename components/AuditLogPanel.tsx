@@ -0,0 +1,93 @@
+// components/AuditLogPanel.tsx
+import React, { useMemo, useState } from 'react';
+import type { Branch } from '../lib/types';
+import { AuditEvent, AuditFilter, AUDIT_FIELD_LABELS, AUDIT_SOURCE_LABELS, filterAuditEvents } from '../lib/auditLog';
+
+interface AuditLogPanelProps {
+  monthTitle: string;
+  events: AuditEvent[]; // Events of the displayed month, newest first
+  branches: Branch[]; // Every branch, for names and the filter
+  initialBranch: string | null; // Branch filter to start with (a manager's own branch)
+}
+
+// --- History of the changes made to the displayed month, filterable by branch, employee and date ---
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ monthTitle, events, branches, initialBranch }) => {
+  const [filter, setFilter] = useState<AuditFilter>({ branch: initialBranch, employeeId: null, dateKey: null });
+
+  // Employees that appear in the log, by their latest recorded name
+  const employeeOptions: [string, string][] = useMemo(() => {
+    const names: Map<string, string> = new Map();
+    events.forEach((event: AuditEvent) => {
+      if (event.employeeId !== null && !names.has(event.employeeId)) names.set(event.employeeId, event.employeeName ?? event.employeeId);
+    });
+    return [...names.entries()].sort((a: [string, string], b: [string, string]) => a[1].localeCompare(b[1], 'th'));
+  }, [events]);
+
+  const shown: AuditEvent[] = filterAuditEvents(events, filter);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">📜</span> ประวัติการแก้ไข
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">{monthTitle} | {shown.length} จาก {events.length} รายการ</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-4">
+        <select
+          value={filter.branch ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter({ ...filter, branch: e.target.value || null })}
+          className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+          aria-label="สาขา"
+        >
+          <option value="">ทุกสาขา</option>
+          {branches.map((branch: Branch) => (
+            <option key={branch.id} value={branch.id}>{branch.name}</option>
+          ))}
+        </select>
+        <select
+          value={filter.employeeId ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter({ ...filter, employeeId: e.target.value || null })}
+          className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+          aria-label="พนักงาน"
+        >
+          <option value="">ทุกคน</option>
+          {employeeOptions.map(([id, name]: [string, string]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filter.dateKey ?? ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter({ ...filter, dateKey: e.target.value || null })}
+          className="p-2 border border-gray-300 rounded-md text-sm"
+          aria-label="วันที่ของกะ"
+        />
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ไม่มีการแก้ไข</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {shown.map((event: AuditEvent) => (
+            <li key={event.id} className="p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+              <div className="flex justify-between gap-2 text-xs text-gray-500">
+                <span>{new Date(event.at).toLocaleString('th-TH')} | {event.userEmail}</span>
+                {event.source !== 'edit' && <span className="px-2 rounded-full bg-yellow-100 text-yellow-800">{AUDIT_SOURCE_LABELS[event.source]}</span>}
+              </div>
+              <p className="text-gray-800">
+                <span className="font-medium">{event.employeeName ?? 'ทั้งเดือน'}</span>
+                {' '}{AUDIT_FIELD_LABELS[event.field]}
+                {event.dateKey !== null && <span className="text-gray-600"> วันที่ {Number(event.dateKey.slice(8))}</span>}
+              </p>
+              <p className="text-xs text-gray-600">
+                <span className="line-through">{event.before || '-'}</span> → <span className="font-medium text-gray-800">{event.after || '-'}</span>
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
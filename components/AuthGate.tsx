@@ -0,0 +1,66 @@
+// components/AuthGate.tsx
+import React, { useEffect, useState } from 'react';
+import { db, auth } from '../firebase';
+import { onAuthStateChanged, signInWithEmailAndPassword, signOut, type User } from 'firebase/auth';
+import { UserProfile, createNewUserProfile } from '../lib/roles';
+import { UserRepository, createFirestoreUserRepository } from '../lib/userRepository';
+import { OfflineStore, createIndexedDbOfflineStore } from '../lib/offlineStore';
+import LoginForm from './LoginForm';
+
+// Repository used to load user profiles and roles ('users/{uid}')
+const userRepository: UserRepository = createFirestoreUserRepository(db);
+// Profiles signed in on this browser, so a signed-in user can open the timetable offline
+const offlineStore: OfflineStore = createIndexedDbOfflineStore();
+
+// Sign-in state: Firebase Auth user plus the role profile stored in Firestore
+type AuthState =
+  | { status: 'loading' }
+  | { status: 'signedOut' }
+  | { status: 'signedIn'; user: UserProfile };
+
+interface AuthGateProps {
+  children: (user: UserProfile, onSignOut: () => void) => React.ReactNode; // Rendered once signed in
+}
+
+// --- Asks for a login, then renders the page with the user's role ---
+const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const [authState, setAuthState] = useState<AuthState>({ status: 'loading' });
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, async (firebaseUser: User | null) => {
+      if (!firebaseUser) {
+        setAuthState({ status: 'signedOut' });
+        return;
+      }
+      try {
+        let profile: UserProfile | null = await userRepository.loadUser(firebaseUser.uid);
+        if (!profile) {
+          // First sign-in: register as staff until an admin assigns a role
+          profile = createNewUserProfile(firebaseUser.uid, firebaseUser.email ?? '');
+          await userRepository.saveUser(profile);
+        }
+        offlineStore.saveUser(profile).catch((error: unknown) => console.error('Failed to keep the profile offline', error));
+        setAuthState({ status: 'signedIn', user: profile });
+      } catch (error) {
+        // Offline: use the profile kept from the last sign-in (the server rules still decide what can be stored)
+        const keptProfile: UserProfile | null = await offlineStore.loadUser(firebaseUser.uid).catch(() => null);
+        if (keptProfile) {
+          setAuthState({ status: 'signedIn', user: keptProfile });
+          return;
+        }
+        console.error('Failed to load user profile', error);
+        await signOut(auth);
+      }
+    });
+  }, []);
+
+  if (authState.status === 'loading') {
+    return <div className="font-sans min-h-screen bg-gray-50 flex items-center justify-center text-gray-600">กำลังโหลด...</div>;
+  }
+  if (authState.status === 'signedOut') {
+    return <LoginForm onSignIn={async (email: string, password: string) => { await signInWithEmailAndPassword(auth, email, password); }} />;
+  }
+  return <>{children(authState.user, () => { signOut(auth); })}</>;
+};
+
+export default AuthGate;
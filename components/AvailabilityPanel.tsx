@@ -0,0 +1,74 @@
+// components/AvailabilityPanel.tsx
+import React from 'react';
+import type { Branch, Employee, PartTimeAvailability } from '../lib/types';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+import type { ShiftType } from '../lib/shiftCatalog';
+
+interface AvailabilityPanelProps {
+  partTimers: Employee[];
+  branches: Branch[]; // Active branches a part-timer can travel to
+  shiftCatalog: ShiftType[]; // Shifts a part-timer can pick
+  onChange: (employeeId: string, availability: PartTimeAvailability | undefined) => void; // undefined = no restriction
+}
+
+// Add or remove a value from a list, keeping it sorted
+const toggle = <T,>(list: T[], value: T): T[] => {
+  return list.includes(value) ? list.filter((v: T) => v !== value) : [...list, value].sort();
+};
+
+// --- Editor for the days, shifts and branches each part-timer can work ---
+const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({ partTimers, branches, shiftCatalog, onChange }) => {
+  const chipClass = (isOn: boolean): string =>
+    `px-2 py-1 text-xs rounded-md border transition-colors ${isOn ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`;
+
+  // Drop the availability altogether once nothing is restricted
+  const update = (employeeId: string, availability: PartTimeAvailability): void => {
+    const isUnrestricted: boolean = availability.weekdays.length === 0 && availability.shifts.length === 0 && availability.branches.length === 0;
+    onChange(employeeId, isUnrestricted ? undefined : availability);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">🕒</span> วันและสาขาที่พาร์ทไทม์สะดวก
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">ไม่เลือกเลย = สะดวกทั้งหมด</p>
+      {partTimers.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ยังไม่มีพนักงานพาร์ทไทม์</p>
+      ) : (
+        <ul className="space-y-4 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {partTimers.map((employee: Employee) => {
+            const availability: PartTimeAvailability = employee.availability ?? { weekdays: [], shifts: [], branches: [] };
+            return (
+              <li key={employee.id} className="p-3 rounded-lg border bg-gray-50 border-gray-200">
+                <p className="text-sm font-medium text-gray-800 mb-2">{employee.name} <span className="text-xs text-gray-500">{employee.position}</span></p>
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {SHORT_DAY_NAMES.map((dayName: string, weekday: number) => (
+                    <button key={weekday} onClick={() => update(employee.id, { ...availability, weekdays: toggle(availability.weekdays, weekday) })} className={chipClass(availability.weekdays.includes(weekday))}>
+                      {dayName}
+                    </button>
+                  ))}
+                  <span className="mx-1 border-l border-gray-300" />
+                  {shiftCatalog.map(({ code }: ShiftType) => (
+                    <button key={code} onClick={() => update(employee.id, { ...availability, shifts: toggle(availability.shifts, code) })} className={chipClass(availability.shifts.includes(code))}>
+                      {code}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {branches.map((branch: Branch) => (
+                    <button key={branch.id} onClick={() => update(employee.id, { ...availability, branches: toggle(availability.branches, branch.id) })} className={chipClass(availability.branches.includes(branch.id))}>
+                      {branch.name}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AvailabilityPanel;
@@ -0,0 +1,114 @@
+// components/BranchAdminPanel.tsx
+import React, { useState } from 'react';
+import type { Branch } from '../lib/types';
+import { validateBranchName } from '../lib/branches';
+import { PlusIcon, EditIcon, SaveIcon } from './icons';
+
+interface BranchAdminPanelProps {
+  branches: Branch[]; // Every branch, including archived ones
+  onAdd: (name: string) => void;
+  onRename: (branchId: string, name: string) => void;
+  onArchive: (branchId: string) => void; // May be refused by the page when the branch is still in use
+  onRestore: (branchId: string) => void;
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean;
+  isSaving: boolean;
+}
+
+// --- Branch administration: add, rename, archive and restore branches ---
+const BranchAdminPanel: React.FC<BranchAdminPanelProps> = ({ branches, onAdd, onRename, onArchive, onRestore, onSave, isDirty, isSaving }) => {
+  const [newBranchName, setNewBranchName] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleAdd = (): void => {
+    const validationError: string | null = validateBranchName(branches, newBranchName, null);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAdd(newBranchName.trim());
+    setNewBranchName('');
+    setError('');
+  };
+
+  const handleRename = (branchId: string): void => {
+    const validationError: string | null = validateBranchName(branches, renameValue, branchId);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onRename(branchId, renameValue.trim());
+    setRenamingId(null);
+    setError('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🏥</span> การจัดการสาขา
+      </h2>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          placeholder="ชื่อสาขาใหม่"
+          value={newBranchName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewBranchName(e.target.value)}
+          className="flex-grow p-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button onClick={handleAdd} className="flex items-center px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors">
+          <PlusIcon /> <span className="ml-1">เพิ่มสาขา</span>
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700 mb-2">{error}</p>}
+
+      <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+        {branches.map((branch: Branch) => (
+          <li key={branch.id} className={`flex items-center gap-2 p-2 rounded-lg border ${branch.archived ? 'bg-gray-100 border-gray-200' : 'bg-gray-50 border-gray-200'}`}>
+            {renamingId === branch.id ? (
+              <>
+                <input
+                  type="text"
+                  value={renameValue}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRenameValue(e.target.value)}
+                  className="flex-grow p-1 border border-gray-300 rounded-md text-sm"
+                />
+                <button onClick={() => handleRename(branch.id)} className="px-2 py-1 bg-green-500 text-white text-xs rounded-md hover:bg-green-600">ตกลง</button>
+                <button onClick={() => { setRenamingId(null); setError(''); }} className="px-2 py-1 bg-gray-400 text-white text-xs rounded-md hover:bg-gray-500">ยกเลิก</button>
+              </>
+            ) : (
+              <>
+                <span className={`flex-grow text-sm ${branch.archived ? 'text-gray-400 line-through' : 'text-gray-800 font-medium'}`}>{branch.name}</span>
+                {branch.archived && <span className="text-xs text-gray-500">เก็บถาวร</span>}
+                <button
+                  onClick={() => { setRenamingId(branch.id); setRenameValue(branch.name); }}
+                  className="p-1 bg-yellow-400 text-white rounded-md hover:bg-yellow-500 transition-colors"
+                  aria-label={`เปลี่ยนชื่อ ${branch.name}`}
+                >
+                  <EditIcon />
+                </button>
+                {branch.archived ? (
+                  <button onClick={() => onRestore(branch.id)} className="px-2 py-1 bg-blue-500 text-white text-xs rounded-md hover:bg-blue-600">กู้คืน</button>
+                ) : (
+                  <button onClick={() => onArchive(branch.id)} className="px-2 py-1 bg-red-500 text-white text-xs rounded-md hover:bg-red-600">เก็บถาวร</button>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <button
+        onClick={onSave}
+        disabled={!isDirty || isSaving}
+        className="w-full mt-4 flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกสาขา'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default BranchAdminPanel;
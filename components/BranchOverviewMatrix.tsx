@@ -0,0 +1,90 @@
+// components/BranchOverviewMatrix.tsx
+import React from 'react';
+import type { Branch, Employee, MonthlySchedule, ShiftCode } from '../lib/types';
+import { BranchStaffingRules, StaffingViolation, evaluateBranchDay, listBranchStaff, describeStaffingRule } from '../lib/staffingRules';
+import { ClosureSettings, getClosureReason } from '../lib/closures';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+import { toDateKey } from '../lib/dates';
+import { ShiftType, getShiftCodes } from '../lib/shiftCatalog';
+import { getShiftBackground } from '../lib/shiftStyles';
+
+interface BranchOverviewMatrixProps {
+  branches: Branch[]; // Active branches, one row each
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  staffingRules: BranchStaffingRules;
+  closures: ClosureSettings;
+  shiftCatalog: ShiftType[]; // One count per shift, in catalog order
+  year: number;
+  month: number; // 0-indexed
+  onSelectCell: (branchId: string, day: number) => void; // Drill into a branch/day
+}
+
+// --- Whole-network view of a month: rows are branches, columns are days ---
+const BranchOverviewMatrix: React.FC<BranchOverviewMatrixProps> = ({ branches, employees, schedule, staffingRules, closures, shiftCatalog, year, month, onSelectCell }) => {
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const days: number[] = Array.from({ length: daysInMonth }, (_, i) => i + 1);
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50 sticky top-0 z-10">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider sticky left-0 bg-gray-50 z-20 w-40 min-w-[160px] border-r border-gray-200">
+              สาขา / วันที่
+            </th>
+            {days.map((day: number) => (
+              <th key={day} className="px-2 py-3 text-center text-xs font-medium text-gray-500 border-l border-gray-100">
+                {day}
+                <div className="text-[10px] font-normal">{SHORT_DAY_NAMES[new Date(year, month, day).getDay()]}</div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {branches.map((branch: Branch) => (
+            <tr key={branch.id}>
+              <td className="px-4 py-3 whitespace-nowrap sticky left-0 bg-white z-10 w-40 min-w-[160px] border-r border-gray-200 text-sm font-medium text-gray-900">
+                {branch.name}
+              </td>
+              {days.map((day: number) => {
+                const closureReason: string | null = getClosureReason(closures, branch.id, year, month, day);
+                if (closureReason !== null) {
+                  return (
+                    <td key={day} title={closureReason} className="px-2 py-2 text-center text-xs bg-purple-100 text-purple-800 border-l border-gray-100">
+                      ปิด
+                    </td>
+                  );
+                }
+
+                const staff: Record<ShiftCode, Employee[]> = listBranchStaff(employees, schedule[toDateKey(year, month, day)], toDateKey(year, month, day), branch.id);
+                // Catalog shifts, then codes removed from the catalog that are still in this month
+                const shiftCodes: ShiftCode[] = [...getShiftCodes(shiftCatalog), ...Object.keys(staff).filter((code: ShiftCode) => !getShiftCodes(shiftCatalog).includes(code))];
+                const violations: StaffingViolation[] = evaluateBranchDay(employees, schedule, staffingRules, branch.id, year, month, day, shiftCatalog);
+                const isUnder: boolean = violations.some((v: StaffingViolation) => v.kind === 'under');
+                const isOver: boolean = violations.some((v: StaffingViolation) => v.kind === 'over');
+                const cellColor: string = isUnder ? 'bg-red-100 hover:bg-red-200' : isOver ? 'bg-orange-100 hover:bg-orange-200' : 'hover:bg-gray-100';
+                const title: string = [
+                  ...shiftCodes.map((code: ShiftCode) => `${code}: ${(staff[code] ?? []).map((e: Employee) => e.name).join(', ') || '-'}`),
+                  ...violations.map((v: StaffingViolation) => `${v.kind === 'under' ? 'ขาด' : 'เกิน'}: ${describeStaffingRule(v.rule, SHORT_DAY_NAMES)}`),
+                ].join('\n');
+
+                return (
+                  <td key={day} className={`p-0 text-center border-l border-gray-100 ${cellColor}`}>
+                    <button onClick={() => onSelectCell(branch.id, day)} title={title} className="w-full px-2 py-2 text-xs">
+                      {shiftCodes.map((code: ShiftCode) => (
+                        <div key={code} className="rounded text-gray-800" style={getShiftBackground(shiftCatalog, code)}>{staff[code]?.length ?? 0}</div>
+                      ))}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BranchOverviewMatrix;
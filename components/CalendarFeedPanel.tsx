@@ -0,0 +1,95 @@
+// components/CalendarFeedPanel.tsx
+import React, { useState } from 'react';
+import type { CalendarFeed } from '../lib/calendarFeeds';
+
+interface CalendarFeedPanelProps {
+  feeds: CalendarFeed[]; // Existing links of the employee
+  origin: string; // 'https://host' the app is served from
+  onCreate: () => Promise<void>;
+  onRevoke: (token: string) => Promise<void>;
+}
+
+// --- Calendar subscription links (.ics) of one employee ---
+const CalendarFeedPanel: React.FC<CalendarFeedPanelProps> = ({ feeds, origin, onCreate, onRevoke }) => {
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>): Promise<void> => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async (token: string, url: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedToken(token);
+    } catch (error) {
+      console.error('Failed to copy calendar link', error);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">📱</span> ปฏิทินในโทรศัพท์
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        สมัครรับลิงก์นี้ในแอปปฏิทิน (Google Calendar, Apple Calendar) แล้วเวรและวันลาจะแสดงและอัปเดตเองเมื่อมีการแก้ไขตาราง
+        ผู้ที่มีลิงก์จะเห็นตารางของคุณได้โดยไม่ต้องเข้าสู่ระบบ
+      </p>
+
+      {feeds.map((feed: CalendarFeed) => {
+        const url: string = `${origin}/calendar/${feed.token}.ics`;
+        return (
+          <div key={feed.token} className="p-3 mb-3 rounded-lg border bg-gray-50 border-gray-200 text-sm space-y-2">
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+              className="w-full p-2 border border-gray-300 rounded-md bg-white text-xs"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => { handleCopy(feed.token, url); }}
+                className="px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+              >
+                {copiedToken === feed.token ? 'คัดลอกแล้ว' : 'คัดลอกลิงก์'}
+              </button>
+              <a
+                href={url.replace(/^https?:/, 'webcal:')}
+                className="px-3 py-2 bg-gray-100 text-gray-700 text-sm rounded-md hover:bg-gray-200 transition-colors"
+              >
+                เปิดในแอปปฏิทิน
+              </a>
+              <button
+                onClick={() => { run(() => onRevoke(feed.token)); }}
+                disabled={isBusy}
+                className="px-3 py-2 bg-red-500 text-white text-sm rounded-md hover:bg-red-600 transition-colors disabled:opacity-50"
+              >
+                ยกเลิกลิงก์
+              </button>
+              <span className="text-xs text-gray-500">อัปเดตล่าสุด {new Date(feed.updatedAt).toLocaleString('th-TH')}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      {feeds.length === 0 && (
+        <button
+          onClick={() => { run(onCreate); }}
+          disabled={isBusy}
+          className="w-full px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300"
+        >
+          สร้างลิงก์ปฏิทิน
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CalendarFeedPanel;
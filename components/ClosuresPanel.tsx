@@ -0,0 +1,178 @@
+// components/ClosuresPanel.tsx
+import React, { useState } from 'react';
+import { BranchClosures, Holiday, mergeHolidays } from '../lib/closures';
+import { parseICalendarHolidays } from '../lib/icalendar';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+import { PlusIcon, TrashIcon, SaveIcon } from './icons';
+
+interface ClosuresPanelProps {
+  branch: string; // Branch whose closing days are edited
+  clinicDayOff: string; // Clinic-wide day off, used while the branch has no weekly days of its own
+  closures: BranchClosures | null; // Closing rules of the branch (null = not configured)
+  holidays: Holiday[]; // Public holidays of every branch
+  onClosuresChange: (closures: BranchClosures | null) => void;
+  onHolidaysChange: (holidays: Holiday[]) => void;
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean;
+  isSaving: boolean;
+}
+
+// --- Editor for branch closing days and the public holiday calendar ---
+const ClosuresPanel: React.FC<ClosuresPanelProps> = ({ branch, clinicDayOff, closures, holidays, onClosuresChange, onHolidaysChange, onSave, isDirty, isSaving }) => {
+  const [newClosingDate, setNewClosingDate] = useState<string>('');
+  const [newHoliday, setNewHoliday] = useState<Holiday>({ date: '', name: '' });
+  const [importMessage, setImportMessage] = useState<string>('');
+
+  const current: BranchClosures = closures ?? { weekdays: null, dates: [] };
+  const usesClinicDayOff: boolean = current.weekdays === null;
+
+  const toggleWeekday = (weekday: number): void => {
+    const weekdays: number[] = current.weekdays ?? [];
+    onClosuresChange({
+      ...current,
+      weekdays: weekdays.includes(weekday) ? weekdays.filter((d: number) => d !== weekday) : [...weekdays, weekday].sort(),
+    });
+  };
+
+  const addClosingDate = (): void => {
+    if (!newClosingDate || current.dates.includes(newClosingDate)) return;
+    onClosuresChange({ ...current, dates: [...current.dates, newClosingDate].sort() });
+    setNewClosingDate('');
+  };
+
+  const addHoliday = (): void => {
+    if (!newHoliday.date || !newHoliday.name.trim()) return;
+    onHolidaysChange(mergeHolidays(holidays, [{ date: newHoliday.date, name: newHoliday.name.trim() }]));
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  // Import holidays from an iCalendar (.ics) file
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    const imported: Holiday[] = parseICalendarHolidays(await file.text());
+    if (imported.length === 0) {
+      setImportMessage('ไม่พบวันหยุดในไฟล์');
+      return;
+    }
+    onHolidaysChange(mergeHolidays(holidays, imported));
+    setImportMessage(`นำเข้าวันหยุด ${imported.length} วัน`);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">📅</span> วันปิดทำการ
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">สาขา <span className="font-medium text-blue-600">{branch}</span></p>
+
+      {/* Weekly closing days */}
+      <div className="mb-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mb-2">
+          <input
+            type="checkbox"
+            checked={usesClinicDayOff}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onClosuresChange(e.target.checked ? (current.dates.length > 0 ? { ...current, weekdays: null } : null) : { ...current, weekdays: [] })}
+          />
+          <span>ใช้วันหยุดคลินิก ({clinicDayOff})</span>
+        </label>
+        {!usesClinicDayOff && (
+          <div className="flex flex-wrap gap-1">
+            {SHORT_DAY_NAMES.map((dayName: string, weekday: number) => (
+              <button
+                key={weekday}
+                onClick={() => toggleWeekday(weekday)}
+                className={`px-2 py-1 text-xs rounded-md border transition-colors ${current.weekdays?.includes(weekday) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+              >
+                {dayName}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* One-off closing dates */}
+      <div className="mb-4 border-t pt-4 border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">ปิดเฉพาะวัน</h3>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="date"
+            value={newClosingDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewClosingDate(e.target.value)}
+            className="flex-grow p-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button onClick={addClosingDate} className="p-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors" aria-label="เพิ่มวันปิด">
+            <PlusIcon />
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {current.dates.map((date: string) => (
+            <span key={date} className="flex items-center text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded-full">
+              {date}
+              <button
+                onClick={() => onClosuresChange({ ...current, dates: current.dates.filter((d: string) => d !== date) })}
+                className="ml-1 font-bold hover:text-purple-900"
+                aria-label={`ลบ ${date}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Public holidays */}
+      <div className="border-t pt-4 border-gray-200">
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">วันหยุดนักขัตฤกษ์ (ทุกสาขา)</h3>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="date"
+            value={newHoliday.date}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+            className="p-2 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            placeholder="ชื่อวันหยุด"
+            value={newHoliday.name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+            className="flex-grow p-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button onClick={addHoliday} className="p-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors" aria-label="เพิ่มวันหยุด">
+            <PlusIcon />
+          </button>
+        </div>
+        <label className="block text-xs text-gray-600 mb-2">
+          นำเข้าจากไฟล์ iCalendar (.ics):
+          <input type="file" accept=".ics,text/calendar" onChange={handleImportFile} className="block mt-1 text-xs" />
+        </label>
+        {importMessage && <p className="text-xs text-green-700 mb-2">{importMessage}</p>}
+        <ul className="space-y-1 max-h-48 overflow-y-auto pr-2 scrollbar-thin">
+          {holidays.map((holiday: Holiday) => (
+            <li key={holiday.date} className="flex items-center justify-between text-sm bg-gray-50 px-2 py-1 rounded-md">
+              <span><span className="font-medium text-gray-800">{holiday.date}</span> <span className="text-gray-600">{holiday.name}</span></span>
+              <button
+                onClick={() => onHolidaysChange(holidays.filter((h: Holiday) => h.date !== holiday.date))}
+                className="p-1 text-red-500 hover:text-red-700"
+                aria-label={`ลบ ${holiday.name}`}
+              >
+                <TrashIcon />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <button
+        onClick={onSave}
+        disabled={!isDirty || isSaving}
+        className="w-full mt-4 flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกวันปิดทำการ'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ClosuresPanel;
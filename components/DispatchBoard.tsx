@@ -0,0 +1,89 @@
+// components/DispatchBoard.tsx
+import React, { useMemo } from 'react';
+import type { Branch, Employee, MonthlySchedule, ShiftCode } from '../lib/types';
+import { BranchStaffingRules, describeStaffingRule } from '../lib/staffingRules';
+import { ClosureSettings } from '../lib/closures';
+import { getBranchName } from '../lib/branches';
+import { StaffingGap, DispatchSuggestion, findStaffingGaps, suggestPartTimers } from '../lib/partTimeDispatch';
+import type { ShiftType } from '../lib/shiftCatalog';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+
+interface DispatchBoardProps {
+  branches: Branch[]; // Every branch, for names
+  activeBranchIds: string[]; // Branches that take shifts
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  staffingRules: BranchStaffingRules;
+  closures: ClosureSettings;
+  shiftCatalog: ShiftType[];
+  year: number;
+  month: number; // 0-indexed
+  onAssign: (employeeId: string, day: number, shift: ShiftCode, branch: string) => void;
+}
+
+// Most suggestions shown per gap
+const MAX_SUGGESTIONS: number = 5;
+
+// --- Open gaps of every branch, day by day, with part-timers who can fill them ---
+const DispatchBoard: React.FC<DispatchBoardProps> = ({ branches, activeBranchIds, employees, schedule, staffingRules, closures, shiftCatalog, year, month, onAssign }) => {
+  const gapsByDay: [number, StaffingGap[]][] = useMemo(() => {
+    const grouped: Map<number, StaffingGap[]> = new Map();
+    findStaffingGaps(employees, schedule, staffingRules, activeBranchIds, year, month, closures, shiftCatalog).forEach((gap: StaffingGap) => {
+      grouped.set(gap.day, [...(grouped.get(gap.day) ?? []), gap]);
+    });
+    return Array.from(grouped.entries());
+  }, [employees, schedule, staffingRules, activeBranchIds, year, month, closures, shiftCatalog]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🚗</span> จัดส่งพนักงานพาร์ทไทม์
+      </h2>
+      {gapsByDay.length === 0 ? (
+        <p className="text-green-700 text-center py-4">ไม่มีสาขาที่ขาดพนักงานในเดือนนี้</p>
+      ) : (
+        <div className="space-y-4 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {gapsByDay.map(([day, gaps]: [number, StaffingGap[]]) => (
+            <div key={day}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                วันที่ {day} <span className="text-gray-500 font-normal">({SHORT_DAY_NAMES[new Date(year, month, day).getDay()]})</span>
+              </h3>
+              <ul className="space-y-2">
+                {gaps.map((gap: StaffingGap) => {
+                  const suggestions: DispatchSuggestion[] = suggestPartTimers(employees, schedule, closures, branches, year, month, gap, shiftCatalog);
+                  return (
+                    <li key={`${gap.branch}-${gap.rule.id}`} className="p-3 rounded-lg border bg-red-50 border-red-200 text-sm">
+                      <p>
+                        <span className="font-medium text-blue-600">{getBranchName(branches, gap.branch)}</span>
+                        <span className="text-red-700"> ขาด {gap.missing} คน</span>
+                        <span className="text-gray-500"> | {describeStaffingRule(gap.rule, SHORT_DAY_NAMES)}</span>
+                      </p>
+                      {suggestions.length === 0 ? (
+                        <p className="text-xs text-gray-500 mt-1">ไม่มีพนักงานพาร์ทไทม์ที่ว่าง</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {suggestions.slice(0, MAX_SUGGESTIONS).map((suggestion: DispatchSuggestion) => (
+                            <button
+                              key={suggestion.employee.id}
+                              onClick={() => onAssign(suggestion.employee.id, gap.day, suggestion.shift, gap.branch)}
+                              title={`ทำงานแล้ว ${suggestion.workedDays} วันในเดือนนี้`}
+                              className="px-2 py-1 text-xs rounded-md bg-white border border-blue-300 text-blue-700 hover:bg-blue-50 transition-colors"
+                            >
+                              + {suggestion.employee.name} ({suggestion.shift})
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DispatchBoard;
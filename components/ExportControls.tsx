@@ -0,0 +1,36 @@
+// components/ExportControls.tsx
+import React, { useState } from 'react';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'print';
+export type ExportScope = 'branch' | 'all';
+
+interface ExportControlsProps {
+  branchName: string; // Branch exported with the 'branch' scope
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+  isExporting: boolean;
+}
+
+// --- Export of the displayed month: CSV, Excel or print, for one branch or all ---
+const ExportControls: React.FC<ExportControlsProps> = ({ branchName, onExport, isExporting }) => {
+  const [scope, setScope] = useState<ExportScope>('branch');
+  const buttonClass: string = 'px-3 py-2 bg-white border border-gray-300 text-gray-700 text-sm rounded-md hover:bg-gray-100 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={scope}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setScope(e.target.value as ExportScope)}
+        className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+        aria-label="ขอบเขตการส่งออก"
+      >
+        <option value="branch">สาขา{branchName}</option>
+        <option value="all">ทุกสาขา</option>
+      </select>
+      <button onClick={() => onExport('csv', scope)} disabled={isExporting} className={buttonClass}>CSV</button>
+      <button onClick={() => onExport('xlsx', scope)} disabled={isExporting} className={buttonClass}>Excel</button>
+      <button onClick={() => onExport('print', scope)} disabled={isExporting} className={buttonClass}>🖨️ พิมพ์ / PDF</button>
+    </div>
+  );
+};
+
+export default ExportControls;
@@ -0,0 +1,205 @@
+// components/ImportPanel.tsx
+import React, { useMemo, useState } from 'react';
+import type { Branch, Employee, MonthlySchedule } from '../lib/types';
+import { ClosureSettings } from '../lib/closures';
+import { readSpreadsheetFile } from '../lib/spreadsheetReader';
+import {
+  EmployeeColumnMapping, EmployeeField, EmployeeImportRow, EMPLOYEE_FIELDS, EMPLOYEE_FIELD_LABELS,
+  guessEmployeeMapping, previewEmployeeImport,
+} from '../lib/employeeImport';
+import { RosterChange, RosterImportPreview, describeRosterEntry, previewRosterImport } from '../lib/rosterImport';
+import { getBranchName } from '../lib/branches';
+import type { ShiftType } from '../lib/shiftCatalog';
+
+type ImportMode = 'employees' | 'roster';
+
+interface ImportPanelProps {
+  branches: Branch[]; // Every branch, for names and lookups
+  employees: Employee[];
+  positions: string[]; // Position catalog; imported employees must use one of them
+  schedule: MonthlySchedule;
+  closures: ClosureSettings;
+  year: number;
+  month: number; // 0-indexed, the month a roster is imported into
+  monthTitle: string;
+  selectedBranch: string; // Default branch of an imported roster
+  shiftCatalog: ShiftType[]; // Shift codes a roster cell may hold
+  onApplyEmployees: (rows: EmployeeImportRow[]) => void;
+  onApplyRoster: (changes: RosterChange[]) => void;
+}
+
+const STATUS_LABELS: Record<EmployeeImportRow['status'], string> = {
+  new: 'เพิ่มใหม่',
+  update: 'แก้ไข',
+  unchanged: 'ไม่เปลี่ยน',
+  error: 'ข้าม',
+};
+
+const STATUS_STYLES: Record<EmployeeImportRow['status'], string> = {
+  new: 'text-green-700',
+  update: 'text-blue-700',
+  unchanged: 'text-gray-500',
+  error: 'text-red-700',
+};
+
+// --- Bulk import of employees and rosters from CSV/XLSX, with a preview before anything changes ---
+const ImportPanel: React.FC<ImportPanelProps> = ({ branches, employees, positions, schedule, closures, year, month, monthTitle, selectedBranch, shiftCatalog, onApplyEmployees, onApplyRoster }) => {
+  const [mode, setMode] = useState<ImportMode>('employees');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [fileName, setFileName] = useState<string>('');
+  const [readError, setReadError] = useState<string>('');
+  const [mapping, setMapping] = useState<EmployeeColumnMapping>({ name: null, position: null, type: null, branch: null });
+  const [targetBranch, setTargetBranch] = useState<string>(selectedBranch);
+
+  const reset = (): void => {
+    setRows([]);
+    setFileName('');
+    setReadError('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    try {
+      const read: string[][] = await readSpreadsheetFile(file);
+      setRows(read);
+      setFileName(file.name);
+      setReadError('');
+      setMapping(guessEmployeeMapping(read[0] ?? []));
+      setTargetBranch(selectedBranch);
+    } catch (error) {
+      console.error('Failed to read spreadsheet', error);
+      reset();
+      setReadError('อ่านไฟล์ไม่ได้ รองรับเฉพาะ .csv และ .xlsx');
+    }
+  };
+
+  const employeePreview: EmployeeImportRow[] = useMemo(
+    () => (mode === 'employees' && rows.length > 0 ? previewEmployeeImport(rows, mapping, branches, positions, employees) : []),
+    [mode, rows, mapping, branches, positions, employees]
+  );
+  const rosterPreview: RosterImportPreview | null = useMemo(
+    () => (mode === 'roster' && rows.length > 0 ? previewRosterImport(rows, year, month, targetBranch, employees, schedule, branches, closures, shiftCatalog) : null),
+    [mode, rows, year, month, targetBranch, employees, schedule, branches, closures, shiftCatalog]
+  );
+
+  const importableEmployees: number = employeePreview.filter((r: EmployeeImportRow) => r.status === 'new' || r.status === 'update').length;
+  const header: string[] = rows[0] ?? [];
+  const employeeName = (employeeId: string): string => employees.find((e: Employee) => e.id === employeeId)?.name ?? employeeId;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">📥</span> นำเข้าจากไฟล์
+      </h2>
+
+      <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm mb-4 w-fit">
+        {(['employees', 'roster'] as ImportMode[]).map((m: ImportMode) => (
+          <button
+            key={m}
+            onClick={() => { setMode(m); reset(); }}
+            className={`px-3 py-2 ${m === 'roster' ? 'border-l border-gray-300' : ''} ${mode === m ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {m === 'employees' ? 'รายชื่อพนักงาน' : `ตารางเวร (${monthTitle})`}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-xs text-gray-600 mb-2">
+        {mode === 'employees'
+          ? 'ไฟล์ .csv หรือ .xlsx ที่แถวแรกเป็นหัวคอลัมน์ (ชื่อ, ตำแหน่ง, ประเภท, สาขา)'
+          : 'ไฟล์ตารางเวรรูปแบบเดียวกับที่ส่งออก: คอลัมน์แรกเป็นชื่อพนักงาน คอลัมน์ถัดไปเป็นวันที่ 1-31 (พาร์ทไทม์ระบุสาขาอื่นได้ เช่น เช้า@บัวใหญ่)'}
+        <input type="file" accept=".csv,.xlsx" onChange={handleFile} className="block mt-1 text-xs" />
+      </label>
+      {readError && <p className="text-xs text-red-700 mb-2">{readError}</p>}
+
+      {/* Employees: column mapping and row preview */}
+      {mode === 'employees' && rows.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {EMPLOYEE_FIELDS.map((field: EmployeeField) => (
+              <label key={field} className="text-xs text-gray-700">
+                {EMPLOYEE_FIELD_LABELS[field]}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="block w-full mt-1 p-1 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">{field === 'type' ? '(ไม่มี = ประจำ)' : '(ไม่มี)'}</option>
+                  {header.map((cell: string, index: number) => (
+                    <option key={index} value={index}>{cell || `คอลัมน์ ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <ul className="space-y-1 max-h-64 overflow-y-auto pr-2 scrollbar-thin text-xs mb-3">
+            {employeePreview.map((row: EmployeeImportRow) => (
+              <li key={row.rowNumber} className="flex gap-2 bg-gray-50 px-2 py-1 rounded-md">
+                <span className="text-gray-400 w-8">#{row.rowNumber}</span>
+                <span className={`w-16 font-medium ${STATUS_STYLES[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                <span className="flex-grow text-gray-800">
+                  {row.employee
+                    ? `${row.employee.name} | ${row.employee.position} | ${row.employee.type === 'part-time' ? 'พาร์ทไทม์' : getBranchName(branches, row.employee.branch)}`
+                    : row.issues.join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => { onApplyEmployees(employeePreview); reset(); }}
+            disabled={importableEmployees === 0}
+            className="w-full px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            นำเข้า {importableEmployees} คน ({fileName})
+          </button>
+        </>
+      )}
+
+      {/* Roster: target branch, issues and the list of changed cells */}
+      {mode === 'roster' && rosterPreview && (
+        <>
+          <label className="block text-xs text-gray-700 mb-3">
+            ตารางนี้เป็นของสาขา
+            <select
+              value={targetBranch}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTargetBranch(e.target.value)}
+              className="block w-full mt-1 p-1 border border-gray-300 rounded-md bg-white"
+            >
+              {branches.filter((b: Branch) => !b.archived).map((branch: Branch) => (
+                <option key={branch.id} value={branch.id}>{branch.name}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-700 mb-2">
+            พบพนักงาน {rosterPreview.matchedEmployees} คน | เปลี่ยน {rosterPreview.changes.length} ช่อง | ปัญหา {rosterPreview.issues.length} รายการ
+          </p>
+          {rosterPreview.issues.length > 0 && (
+            <ul className="space-y-1 max-h-32 overflow-y-auto pr-2 scrollbar-thin text-xs mb-2">
+              {rosterPreview.issues.map((issue, index: number) => (
+                <li key={index} className="text-red-700 bg-red-50 px-2 py-1 rounded-md">แถว {issue.rowNumber}: {issue.message}</li>
+              ))}
+            </ul>
+          )}
+          <ul className="space-y-1 max-h-48 overflow-y-auto pr-2 scrollbar-thin text-xs mb-3">
+            {rosterPreview.changes.map((change: RosterChange) => (
+              <li key={`${change.dateKey}-${change.employeeId}`} className="bg-gray-50 px-2 py-1 rounded-md">
+                วันที่ {change.day} {employeeName(change.employeeId)}: {describeRosterEntry(change.previous, branches)} → {describeRosterEntry(change.next, branches)}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => { onApplyRoster(rosterPreview.changes); reset(); }}
+            disabled={rosterPreview.changes.length === 0}
+            className="w-full px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            นำเข้า {rosterPreview.changes.length} ช่อง ({fileName})
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
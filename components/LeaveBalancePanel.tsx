@@ -0,0 +1,85 @@
+// components/LeaveBalancePanel.tsx
+import React from 'react';
+import type { Employee } from '../lib/types';
+import { LeaveBalance, LeaveEntitlement, LeaveKind, LeaveUsage, LEAVE_KINDS, getLeaveBalances } from '../lib/leaveBalances';
+import type { ExportScope } from './ExportControls';
+
+interface LeaveBalancePanelProps {
+  year: number;
+  branch: string | null; // Display name of the branch listed, null when the list is the user's own row
+  employees: Employee[]; // Employees whose balances are shown
+  usage: Record<string, LeaveUsage>; // Days used this year, per employee
+  entitlements: LeaveEntitlement[];
+  canExportAll: boolean; // Admins can export the summary of every branch at once
+  onExport: ((scope: ExportScope) => void) | null; // null = no year-end export for this user
+}
+
+// --- Leave used and left this year, with the year-end summary export for HR ---
+const LeaveBalancePanel: React.FC<LeaveBalancePanelProps> = ({ year, branch, employees, usage, entitlements, canExportAll, onExport }) => {
+  const cellText = (balance: LeaveBalance): string => (balance.entitled === null ? `${balance.used}` : `${balance.used}/${balance.entitled}`);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">📊</span> วันลาคงเหลือ ปี {year}
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {branch !== null && <>สาขา <span className="font-medium text-blue-600">{branch}</span> | </>}ใช้ไป/สิทธิ์ต่อปี นับจากตารางเวรที่บันทึกไว้ทุกเดือน
+      </p>
+
+      {employees.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ไม่มีพนักงาน</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1 pr-2">พนักงาน</th>
+                {LEAVE_KINDS.map((kind: LeaveKind) => (
+                  <th key={kind} className="py-1 px-2 text-center">{kind}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {employees.map((employee: Employee) => (
+                <tr key={employee.id} className="border-b border-gray-100">
+                  <td className="py-1 pr-2 text-gray-800">{employee.name}</td>
+                  {getLeaveBalances(employee, usage[employee.id], entitlements).map((balance: LeaveBalance) => (
+                    <td
+                      key={balance.kind}
+                      className={`py-1 px-2 text-center ${balance.remaining !== null && balance.remaining < 0 ? 'text-red-700 font-bold' : 'text-gray-700'}`}
+                      title={balance.remaining === null ? 'ไม่จำกัด' : `คงเหลือ ${balance.remaining} วัน`}
+                    >
+                      {cellText(balance)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {onExport && (
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={() => onExport('branch')}
+            className="flex-grow px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors"
+          >
+            สรุปประจำปีของสาขา (CSV)
+          </button>
+          {canExportAll && (
+            <button
+              onClick={() => onExport('all')}
+              className="flex-grow px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors"
+            >
+              สรุปประจำปีทุกสาขา (CSV)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaveBalancePanel;
@@ -0,0 +1,112 @@
+// components/LeaveEntitlementsEditor.tsx
+import React from 'react';
+import type { Employee } from '../lib/types';
+import { LeaveEntitlement, LeaveKind, LEAVE_KINDS, LEAVE_KIND_LABELS } from '../lib/leaveBalances';
+import { PlusIcon, TrashIcon, SaveIcon } from './icons';
+
+interface LeaveEntitlementsEditorProps {
+  entitlements: LeaveEntitlement[];
+  positions: string[]; // Position catalog of the clinic
+  onChange: (entitlements: LeaveEntitlement[]) => void; // Called with the full new list on every edit
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean; // Whether there are edits that were not saved yet
+  isSaving: boolean;
+}
+
+// Parse a number input; empty means "no limit"
+const parseDays = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed: number = Math.max(0, Math.floor(Number(value)));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// --- Editor for the yearly leave days per employee type and position ---
+const LeaveEntitlementsEditor: React.FC<LeaveEntitlementsEditorProps> = ({ entitlements, positions, onChange, onSave, isDirty, isSaving }) => {
+  const updateEntitlement = (id: string, changes: Partial<LeaveEntitlement>): void => {
+    onChange(entitlements.map((entitlement: LeaveEntitlement) => (entitlement.id === id ? { ...entitlement, ...changes } : entitlement)));
+  };
+
+  const addEntitlement = (): void => {
+    onChange([...entitlements, { id: `leave-${Date.now()}`, employeeType: null, position: null, days: { 'ลา': null, 'ป่วย': null, 'หยุด': null } }]);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">🗂️</span> สิทธิ์วันลาต่อปี
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">กฎที่ระบุทั้งประเภทและตำแหน่งมีผลก่อน (เว้นว่าง = ไม่จำกัด)</p>
+
+      <div className="space-y-3">
+        {entitlements.length === 0 && (
+          <p className="text-gray-500 text-center py-4">ยังไม่มีสิทธิ์วันลา (ไม่จำกัดทุกคน)</p>
+        )}
+        {entitlements.map((entitlement: LeaveEntitlement) => (
+          <div key={entitlement.id} className="p-3 rounded-lg border border-gray-200 bg-gray-50 space-y-2">
+            <div className="flex flex-wrap gap-2 items-center">
+              <select
+                value={entitlement.employeeType ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateEntitlement(entitlement.id, { employeeType: (e.target.value || null) as Employee['type'] | null })}
+                className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+              >
+                <option value="">ทุกประเภท</option>
+                <option value="full-time">ประจำ</option>
+                <option value="part-time">พาร์ทไทม์</option>
+              </select>
+              <select
+                value={entitlement.position ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateEntitlement(entitlement.id, { position: e.target.value || null })}
+                className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+              >
+                <option value="">ทุกตำแหน่ง</option>
+                {positions.map((position: string) => (
+                  <option key={position} value={position}>{position}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(entitlements.filter((e: LeaveEntitlement) => e.id !== entitlement.id))}
+                className="p-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors ml-auto"
+                aria-label="ลบสิทธิ์"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {LEAVE_KINDS.map((kind: LeaveKind) => (
+                <label key={kind} className="text-xs text-gray-600">
+                  {LEAVE_KIND_LABELS[kind]}
+                  <input
+                    type="number"
+                    min={0}
+                    placeholder="ไม่จำกัด"
+                    value={entitlement.days[kind] ?? ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateEntitlement(entitlement.id, { days: { ...entitlement.days, [kind]: parseDays(e.target.value) } })}
+                    className="block w-24 mt-1 p-2 border border-gray-300 rounded-md text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={addEntitlement}
+          className="flex-grow flex items-center justify-center px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+        >
+          <PlusIcon /> <span className="ml-1">เพิ่มสิทธิ์</span>
+        </button>
+        <button
+          onClick={onSave}
+          disabled={!isDirty || isSaving}
+          className="flex-grow flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกสิทธิ์'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LeaveEntitlementsEditor;
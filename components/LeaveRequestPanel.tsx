@@ -0,0 +1,206 @@
+// components/LeaveRequestPanel.tsx
+import React, { useState } from 'react';
+import type { Employee } from '../lib/types';
+import { UserProfile, canApproveLeave, canRequestLeave } from '../lib/roles';
+import {
+  LeaveRequest, LeaveRequestDraft, LeaveAttachment, LeaveStatus, LeaveType, LEAVE_TYPES, LEAVE_TYPE_LABELS, LEAVE_STATUS_LABELS,
+  MAX_ATTACHMENT_BYTES, validateLeaveDraft,
+} from '../lib/leaveRequests';
+
+interface LeaveRequestPanelProps {
+  user: UserProfile;
+  employees: Employee[];
+  requests: LeaveRequest[];
+  onSubmit: (draft: LeaveRequestDraft) => Promise<boolean>; // Resolves to false when it could not be stored
+  onDecide: (request: LeaveRequest, status: Exclude<LeaveStatus, 'pending'>, note: string) => void;
+}
+
+const STATUS_STYLES: Record<LeaveStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Read a chosen file into a data: URL
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader: FileReader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// --- Leave requests: a form to ask for leave and the list of requests with approve/reject for managers ---
+const LeaveRequestPanel: React.FC<LeaveRequestPanelProps> = ({ user, employees, requests, onSubmit, onDecide }) => {
+  const requestableEmployees: Employee[] = employees.filter((e: Employee) => canRequestLeave(user, e));
+  const emptyDraft = (): LeaveRequestDraft => ({
+    employeeId: '',
+    type: 'ลา',
+    startDate: '',
+    endDate: '',
+    reason: '',
+    attachment: null,
+  });
+  const [draft, setDraft] = useState<LeaveRequestDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [notes, setNotes] = useState<Record<string, string>>({}); // Decision note being typed, per request
+
+  const employeeById = (id: string): Employee | undefined => employees.find((e: Employee) => e.id === id);
+  // Requests about employees no longer in the list are only shown to admins
+  const visibleRequests: LeaveRequest[] = requests
+    .filter((r: LeaveRequest) => {
+      const employee: Employee | undefined = employeeById(r.employeeId);
+      return employee ? canRequestLeave(user, employee) : user.role === 'admin';
+    })
+    .sort((a: LeaveRequest, b: LeaveRequest) => Number(b.status === 'pending') - Number(a.status === 'pending'));
+
+  const handleAttachment = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file: File | undefined = e.target.files?.[0];
+    if (!file) {
+      setDraft({ ...draft, attachment: null });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      e.target.value = '';
+      setFormError(`ไฟล์แนบต้องมีขนาดไม่เกิน ${MAX_ATTACHMENT_BYTES / 1024} KB`);
+      return;
+    }
+    const attachment: LeaveAttachment = { name: file.name, dataUrl: await readAsDataUrl(file) };
+    setDraft({ ...draft, attachment });
+    setFormError('');
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    // Without a choice to make (e.g. staff asking for themselves) the request is for the only employee
+    const submitted: LeaveRequestDraft = requestableEmployees.length === 1 ? { ...draft, employeeId: requestableEmployees[0].id } : draft;
+    const error: string | null = validateLeaveDraft(submitted);
+    if (error !== null) {
+      setFormError(error);
+      return;
+    }
+    setIsSubmitting(true);
+    const isStored: boolean = await onSubmit({ ...submitted, reason: submitted.reason.trim() });
+    setIsSubmitting(false);
+    if (isStored) {
+      setDraft(emptyDraft());
+      setFormError('');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">📝</span> คำขอลา
+      </h2>
+
+      {requestableEmployees.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">บัญชีนี้ยังไม่ได้เชื่อมกับข้อมูลพนักงาน กรุณาติดต่อผู้ดูแลระบบ</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+          {requestableEmployees.length > 1 && (
+            <select
+              value={draft.employeeId}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, employeeId: e.target.value })}
+              className="col-span-2 p-2 border border-gray-300 rounded-md bg-white"
+            >
+              <option value="">เลือกพนักงาน</option>
+              {requestableEmployees.map((employee: Employee) => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={draft.type}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+              const type: LeaveType = e.target.value as LeaveType;
+              setDraft({ ...draft, type, attachment: type === 'ป่วย' ? draft.attachment : null });
+            }}
+            className="col-span-2 p-2 border border-gray-300 rounded-md bg-white"
+          >
+            {LEAVE_TYPES.map((type: LeaveType) => (
+              <option key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <label className="text-xs text-gray-600">
+            ตั้งแต่วันที่
+            <input type="date" value={draft.startDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, startDate: e.target.value, endDate: draft.endDate || e.target.value })} className="block w-full mt-1 p-2 border border-gray-300 rounded-md" />
+          </label>
+          <label className="text-xs text-gray-600">
+            ถึงวันที่
+            <input type="date" value={draft.endDate} min={draft.startDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, endDate: e.target.value })} className="block w-full mt-1 p-2 border border-gray-300 rounded-md" />
+          </label>
+          <input
+            type="text"
+            placeholder="เหตุผล"
+            value={draft.reason}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, reason: e.target.value })}
+            className="col-span-2 p-2 border border-gray-300 rounded-md"
+          />
+          {draft.type === 'ป่วย' && (
+            <label className="col-span-2 text-xs text-gray-600">
+              ใบรับรองแพทย์ (ไม่บังคับ)
+              <input type="file" accept="image/*,.pdf" onChange={handleAttachment} className="block mt-1 text-xs" />
+            </label>
+          )}
+          {formError && <p className="col-span-2 text-xs text-red-700">{formError}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="col-span-2 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'กำลังส่ง...' : 'ส่งคำขอลา'}
+          </button>
+        </div>
+      )}
+
+      {visibleRequests.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ยังไม่มีคำขอลา</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {visibleRequests.map((request: LeaveRequest) => {
+            const employee: Employee | undefined = employeeById(request.employeeId);
+            const canDecide: boolean = request.status === 'pending' && employee !== undefined && canApproveLeave(user, employee);
+            return (
+              <li key={request.id} className="p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="font-medium text-gray-800">
+                    {employee?.name ?? request.employeeId} <span className="text-xs text-gray-500">{LEAVE_TYPE_LABELS[request.type]}</span>
+                  </p>
+                  <span className={`px-2 py-0.5 rounded-md text-xs ${STATUS_STYLES[request.status]}`}>{LEAVE_STATUS_LABELS[request.status]}</span>
+                </div>
+                <p className="text-xs text-gray-600">
+                  {request.startDate === request.endDate ? request.startDate : `${request.startDate} ถึง ${request.endDate}`} | {request.reason}
+                </p>
+                {request.attachment && (
+                  <a href={request.attachment.dataUrl} download={request.attachment.name} className="text-xs text-blue-700 underline">
+                    📎 {request.attachment.name}
+                  </a>
+                )}
+                {request.decisionNote && <p className="text-xs text-gray-500 mt-1">หมายเหตุ: {request.decisionNote}</p>}
+                {canDecide && (
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      placeholder="หมายเหตุ (ไม่บังคับ)"
+                      value={notes[request.id] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes({ ...notes, [request.id]: e.target.value })}
+                      className="flex-grow p-1 text-xs border border-gray-300 rounded-md"
+                    />
+                    <button onClick={() => onDecide(request, 'approved', (notes[request.id] ?? '').trim())} className="px-2 py-1 text-xs bg-green-500 text-white rounded-md hover:bg-green-600 transition-colors">
+                      อนุมัติ
+                    </button>
+                    <button onClick={() => onDecide(request, 'rejected', (notes[request.id] ?? '').trim())} className="px-2 py-1 text-xs bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors">
+                      ไม่อนุมัติ
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LeaveRequestPanel;
@@ -0,0 +1,64 @@
+// components/LoginForm.tsx
+import React, { useState } from 'react';
+
+interface LoginFormProps {
+  onSignIn: (email: string, password: string) => Promise<void>; // Rejects when the credentials are wrong
+}
+
+// --- Email/password sign-in shown before anything else ---
+const LoginForm: React.FC<LoginFormProps> = ({ onSignIn }) => {
+  const [email, setEmail] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [isSigningIn, setIsSigningIn] = useState<boolean>(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>): Promise<void> => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError('');
+    try {
+      await onSignIn(email.trim(), password);
+    } catch (signInError) {
+      console.error('Sign-in failed', signInError);
+      setError('อีเมลหรือรหัสผ่านไม่ถูกต้อง');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="font-sans min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white p-8 rounded-xl shadow-lg border border-gray-100 w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-extrabold text-center text-gray-800">
+          <span className="bg-gradient-to-r from-blue-600 to-purple-600 text-transparent bg-clip-text">ระบบจัดตารางเวร</span> คลินิกชีวาดี
+        </h1>
+        <input
+          type="email"
+          placeholder="อีเมล"
+          value={email}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          required
+        />
+        <input
+          type="password"
+          placeholder="รหัสผ่าน"
+          value={password}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          required
+        />
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSigningIn ? 'กำลังเข้าสู่ระบบ...' : 'เข้าสู่ระบบ'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginForm;
@@ -0,0 +1,62 @@
+// components/PayrollPanel.tsx
+import React from 'react';
+import type { Branch } from '../lib/types';
+import { PayrollRow, describeShiftsByBranch } from '../lib/payroll';
+
+interface PayrollPanelProps {
+  monthTitle: string;
+  rows: PayrollRow[];
+  branches: Branch[]; // Every branch, for names
+  onExport: () => void; // Download the summary as CSV
+}
+
+const formatBaht = (amount: number): string => amount.toLocaleString('th-TH', { maximumFractionDigits: 2 });
+
+// --- Hours, leave and part-timer pay of every employee for the displayed month ---
+const PayrollPanel: React.FC<PayrollPanelProps> = ({ monthTitle, rows, branches, onExport }) => {
+  const totalWages: number = rows.reduce((sum: number, row: PayrollRow) => sum + (row.wage ?? 0), 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">💰</span> สรุปชั่วโมงและค่าจ้าง
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">{monthTitle} | ค่าจ้างพาร์ทไทม์รวม {formatBaht(totalWages)} บาท</p>
+
+      {rows.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ไม่มีพนักงาน</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {rows.map((row: PayrollRow) => (
+            <li key={row.employee.id} className="p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+              <div className="flex justify-between gap-2">
+                <p className="font-medium text-gray-800">
+                  {row.employee.name} <span className="text-xs text-gray-500">{row.employee.position}{row.employee.type === 'part-time' ? ', พาร์ทไทม์' : ''}</span>
+                </p>
+                <p className="text-gray-800 whitespace-nowrap">
+                  {row.totalShifts} กะ | {row.totalHours} ชม.{row.wage !== null && <> | <span className="font-semibold">{formatBaht(row.wage)} บาท</span></>}
+                </p>
+              </div>
+              <p className="text-xs text-gray-600">{describeShiftsByBranch(row, branches) || 'ไม่มีกะทำงาน'}</p>
+              <p className="text-xs text-gray-500">
+                ลา {row.leaveDays} | ป่วย {row.sickDays}
+                {row.closedDaysWorked > 0 && <span className="text-red-700"> | ทำงานวันปิด {row.closedDaysWorked}</span>}
+                {row.employee.type === 'part-time' && row.hourlyRate === null && <span className="text-yellow-700"> | ยังไม่ได้กำหนดค่าจ้างของตำแหน่งนี้</span>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={onExport}
+        disabled={rows.length === 0}
+        className="w-full mt-4 px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        ส่งออกสำหรับทำเงินเดือน (CSV)
+      </button>
+    </div>
+  );
+};
+
+export default PayrollPanel;
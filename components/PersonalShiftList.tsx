@@ -0,0 +1,64 @@
+// components/PersonalShiftList.tsx
+import React from 'react';
+import { PersonalDay } from '../lib/personalSchedule';
+import { LEAVE_KIND_LABELS, isLeaveKind } from '../lib/leaveBalances';
+import { parseDateKey } from '../lib/dates';
+import { getShiftBackground, getShiftStyle } from '../lib/shiftStyles';
+import { ShiftType, findShiftType } from '../lib/shiftCatalog';
+
+interface PersonalShiftListProps {
+  days: PersonalDay[]; // Upcoming shifts and leave days, by date
+  shiftCatalog: ShiftType[]; // Colours of the working shifts
+}
+
+// --- One employee's upcoming shifts at every branch, plus their leave days ---
+const PersonalShiftList: React.FC<PersonalShiftListProps> = ({ days, shiftCatalog }) => {
+  // Days grouped by month, in order
+  const months: [string, PersonalDay[]][] = [];
+  days.forEach((day: PersonalDay) => {
+    const monthKey: string = day.dateKey.slice(0, 7);
+    const last: [string, PersonalDay[]] | undefined = months[months.length - 1];
+    if (last && last[0] === monthKey) last[1].push(day);
+    else months.push([monthKey, [day]]);
+  });
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🗓️</span> เวรที่จะถึง
+      </h2>
+      {months.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ยังไม่มีเวรหรือวันลาที่จะถึง</p>
+      ) : (
+        <div className="space-y-6">
+          {months.map(([monthKey, monthDays]: [string, PersonalDay[]]) => (
+            <div key={monthKey}>
+              <h3 className="text-lg font-semibold text-gray-700 mb-2">
+                {parseDateKey(`${monthKey}-01`).toLocaleDateString('th-TH', { month: 'long', year: 'numeric' })}
+              </h3>
+              <ul className="space-y-2">
+                {monthDays.map((day: PersonalDay) => (
+                  <li key={day.dateKey} className="flex items-center gap-3 p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+                    <span className="w-36 text-gray-800">
+                      {parseDateKey(day.dateKey).toLocaleDateString('th-TH', { weekday: 'short', day: 'numeric', month: 'short' })}
+                    </span>
+                    <span className={`px-2 py-1 rounded-md text-xs ${getShiftStyle(shiftCatalog, day.shift).className}`} style={getShiftBackground(shiftCatalog, day.shift)}>
+                      {isLeaveKind(day.shift) ? LEAVE_KIND_LABELS[day.shift] : findShiftType(shiftCatalog, day.shift)?.label ?? `กะ${day.shift}`}
+                    </span>
+                    {day.branch !== null && (
+                      <span className="text-gray-700">
+                        {day.branchName} <span className="text-gray-500">{day.start}-{day.end}</span>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonalShiftList;
@@ -0,0 +1,94 @@
+// components/PositionCatalogPanel.tsx
+import React, { useState } from 'react';
+import { validatePositionName } from '../lib/employees';
+import { PlusIcon, SaveIcon, TrashIcon } from './icons';
+
+interface PositionCatalogPanelProps {
+  positions: string[]; // Position catalog of the clinic
+  onAdd: (position: string) => void;
+  onRemove: (position: string) => void; // May be refused by the page when the position is still in use
+  onMove: (position: string, offset: -1 | 1) => void; // Move up/down in the display order
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean;
+  isSaving: boolean;
+}
+
+// --- Position catalog: the positions employees can be hired into ---
+const PositionCatalogPanel: React.FC<PositionCatalogPanelProps> = ({ positions, onAdd, onRemove, onMove, onSave, isDirty, isSaving }) => {
+  const [newPosition, setNewPosition] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleAdd = (): void => {
+    const validationError: string | null = validatePositionName(positions, newPosition);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAdd(newPosition.trim());
+    setNewPosition('');
+    setError('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🩺</span> ตำแหน่งงาน
+      </h2>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          placeholder="ชื่อตำแหน่งใหม่"
+          value={newPosition}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPosition(e.target.value)}
+          className="flex-grow p-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button onClick={handleAdd} className="flex items-center px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors">
+          <PlusIcon /> <span className="ml-1">เพิ่มตำแหน่ง</span>
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700 mb-2">{error}</p>}
+
+      <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+        {positions.map((position: string, index: number) => (
+          <li key={position} className="flex items-center gap-2 p-2 rounded-lg border bg-gray-50 border-gray-200">
+            <span className="flex-grow text-sm text-gray-800 font-medium">{position}</span>
+            <button
+              onClick={() => onMove(position, -1)}
+              disabled={index === 0}
+              className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-md hover:bg-gray-300 disabled:opacity-40"
+              aria-label={`เลื่อน ${position} ขึ้น`}
+            >
+              ▲
+            </button>
+            <button
+              onClick={() => onMove(position, 1)}
+              disabled={index === positions.length - 1}
+              className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-md hover:bg-gray-300 disabled:opacity-40"
+              aria-label={`เลื่อน ${position} ลง`}
+            >
+              ▼
+            </button>
+            <button
+              onClick={() => onRemove(position)}
+              className="p-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+              aria-label={`ลบ ${position}`}
+            >
+              <TrashIcon />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        onClick={onSave}
+        disabled={!isDirty || isSaving}
+        className="w-full mt-4 flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกตำแหน่ง'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default PositionCatalogPanel;
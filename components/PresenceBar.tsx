@@ -0,0 +1,36 @@
+// components/PresenceBar.tsx
+import React from 'react';
+import type { Branch } from '../lib/types';
+import type { PresenceEntry } from '../lib/presence';
+import { getBranchName } from '../lib/branches';
+
+interface PresenceBarProps {
+  editors: PresenceEntry[]; // Other users active in the displayed month
+  branches: Branch[]; // Every branch, for names
+  selectedBranch: string | null; // Branch this user is looking at, null in the overview
+}
+
+// --- Who else is editing the displayed month, and at which branch ---
+const PresenceBar: React.FC<PresenceBarProps> = ({ editors, branches, selectedBranch }) => {
+  if (editors.length === 0) return null;
+  const sameBranch: PresenceEntry[] = selectedBranch === null ? [] : editors.filter((e: PresenceEntry) => e.branch === selectedBranch);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 px-4 text-xs">
+      <span className="text-gray-600">กำลังใช้งานเดือนนี้:</span>
+      {editors.map((editor: PresenceEntry) => (
+        <span
+          key={editor.uid}
+          className={`px-2 py-1 rounded-full ${editor.branch !== null && editor.branch === selectedBranch ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700'}`}
+        >
+          ● {editor.email} ({editor.branch === null ? 'ภาพรวม' : getBranchName(branches, editor.branch)})
+        </span>
+      ))}
+      {sameBranch.length > 0 && (
+        <span className="text-orange-700">มีผู้อื่นกำลังแก้ไขสาขานี้ การแก้ไขจะรวมกันทีละช่องเมื่อบันทึก</span>
+      )}
+    </div>
+  );
+};
+
+export default PresenceBar;
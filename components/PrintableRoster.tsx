@@ -0,0 +1,62 @@
+// components/PrintableRoster.tsx
+import React from 'react';
+import type { BaseShiftString } from '../lib/types';
+import { BranchRoster, RosterRow, STAFF_COUNT_LABEL } from '../lib/rosterExport';
+import { SHIFT_STYLES, getShiftBackground, getShiftStyle } from '../lib/shiftStyles';
+
+interface PrintableRosterProps {
+  rosters: BranchRoster[]; // One A4 landscape page per branch
+}
+
+// Page setup for printing (or "Save as PDF"); colours are kept when printing
+const printStyles: string = `
+  @page { size: A4 landscape; margin: 8mm; }
+  @media print {
+    body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+// --- Print layout of the roster, hidden on screen ---
+const PrintableRoster: React.FC<PrintableRosterProps> = ({ rosters }) => {
+  return (
+    <div className="hidden print:block">
+      <style>{printStyles}</style>
+      {rosters.map((roster: BranchRoster, index: number) => (
+        <section key={roster.branchId} className={index < rosters.length - 1 ? 'break-after-page' : ''}>
+          <h1 className="text-lg font-bold text-center mb-2">{roster.title}</h1>
+          <table className="w-full border-collapse text-[9px]">
+            <thead>
+              <tr>
+                <th className="border border-gray-400 px-1 text-left">พนักงาน / วันที่</th>
+                {roster.days.map((day: number, i: number) => (
+                  <th key={day} className="border border-gray-400 px-0.5 font-medium">
+                    {day}
+                    <div className="font-normal">{roster.weekdayLabels[i]}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {roster.rows.map((row: RosterRow) => (
+                <tr key={row.employee.id}>
+                  <td className="border border-gray-400 px-1 whitespace-nowrap">{row.label}</td>
+                  {row.shifts.map((shift: BaseShiftString, i: number) => (
+                    <td key={i} className={`border border-gray-400 text-center ${getShiftStyle(roster.shiftCatalog, shift).className}`} style={getShiftBackground(roster.shiftCatalog, shift)}>{shift}</td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className="border border-gray-400 px-1 whitespace-nowrap">{STAFF_COUNT_LABEL}</td>
+                {roster.staffCounts.map((count: number | null, i: number) => (
+                  <td key={i} className={`border border-gray-400 text-center ${count === null ? SHIFT_STYLES['ปิด'].className : ''}`}>{count ?? 'ปิด'}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default PrintableRoster;
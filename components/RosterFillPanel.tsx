@@ -0,0 +1,266 @@
+// components/RosterFillPanel.tsx
+import React, { useMemo, useState } from 'react';
+import type { Branch, Employee, MonthlySchedule } from '../lib/types';
+import { ClosureSettings } from '../lib/closures';
+import { toDateKey, toMonthKey } from '../lib/dates';
+import { RosterChange, describeRosterEntry } from '../lib/rosterImport';
+import {
+  RosterFillMode, RosterFillPlan, RosterSkipReason, RosterTemplate, ROSTER_SKIP_REASON_LABELS,
+  createRosterTemplate, planRosterFill, projectPreviousMonth, projectTemplate, validateTemplateDraft,
+} from '../lib/rosterTemplates';
+import { TrashIcon } from './icons';
+
+// Where the proposed shifts come from: a template ID, or the month before
+type FillSource = { kind: 'template'; templateId: string } | { kind: 'previousMonth' };
+
+interface RosterFillPanelProps {
+  branches: Branch[]; // Every branch, for names and lookups
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  closures: ClosureSettings;
+  year: number;
+  month: number; // 0-indexed, the month being filled
+  monthTitle: string;
+  templates: RosterTemplate[];
+  canManageTemplates: boolean; // Templates live in the clinic configuration (admins only)
+  isChangeAllowed: (change: RosterChange) => boolean; // Cells outside the user's branches are left out
+  loadPreviousMonth: () => Promise<MonthlySchedule | null>; // null when the previous month was never saved
+  onApply: (changes: RosterChange[]) => void;
+  onTemplatesChange: (templates: RosterTemplate[]) => void;
+  onSaveTemplates: () => void;
+  isDirty: boolean;
+  isSaving: boolean;
+}
+
+const FILL_MODE_LABELS: Record<RosterFillMode, string> = {
+  fillEmpty: 'เติมเฉพาะช่องว่าง',
+  overwrite: 'เขียนทับเวรเดิม',
+};
+
+// --- Fill the month from a rotation template or from the previous month, with a preview of every changed cell ---
+const RosterFillPanel: React.FC<RosterFillPanelProps> = ({
+  branches, employees, schedule, closures, year, month, monthTitle, templates, canManageTemplates,
+  isChangeAllowed, loadPreviousMonth, onApply, onTemplatesChange, onSaveTemplates, isDirty, isSaving,
+}) => {
+  const [source, setSource] = useState<FillSource | null>(null);
+  const [mode, setMode] = useState<RosterFillMode>('fillEmpty');
+  const [previousMonth, setPreviousMonth] = useState<MonthlySchedule | null>(null);
+  const [loadError, setLoadError] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  // Capturing a new template from the weeks of the displayed month
+  const mondays: number[] = useMemo(() => {
+    const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+    return Array.from({ length: daysInMonth }, (_, i: number) => i + 1).filter((day: number) => new Date(year, month, day).getDay() === 1);
+  }, [year, month]);
+  const [templateName, setTemplateName] = useState<string>('');
+  const [templateStart, setTemplateStart] = useState<number>(mondays[0] ?? 1);
+  const [templateWeeks, setTemplateWeeks] = useState<number>(1);
+  const [templateError, setTemplateError] = useState<string>('');
+
+  const handleChooseSource = async (value: string): Promise<void> => {
+    setLoadError('');
+    if (value === '') {
+      setSource(null);
+      return;
+    }
+    if (value !== 'previousMonth') {
+      setSource({ kind: 'template', templateId: value });
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const loaded: MonthlySchedule | null = await loadPreviousMonth();
+      if (loaded === null) {
+        setSource(null);
+        setLoadError('เดือนก่อนหน้ายังไม่เคยบันทึกตารางเวร');
+      } else {
+        setPreviousMonth(loaded);
+        setSource({ kind: 'previousMonth' });
+      }
+    } catch (error) {
+      console.error('Failed to load the previous month', error);
+      setSource(null);
+      setLoadError('โหลดตารางเวรเดือนก่อนหน้าไม่สำเร็จ');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const plan: RosterFillPlan | null = useMemo(() => {
+    if (source === null) return null;
+    let proposal: MonthlySchedule | null = null;
+    if (source.kind === 'previousMonth') {
+      proposal = previousMonth === null ? null : projectPreviousMonth(previousMonth, year, month);
+    } else {
+      const template: RosterTemplate | undefined = templates.find((t: RosterTemplate) => t.id === source.templateId);
+      proposal = template ? projectTemplate(template, year, month) : null;
+    }
+    return proposal === null ? null : planRosterFill(proposal, employees, schedule, closures, branches, year, month, mode);
+  }, [source, previousMonth, templates, employees, schedule, closures, branches, year, month, mode]);
+
+  const allowedChanges: RosterChange[] = plan ? plan.changes.filter(isChangeAllowed) : [];
+  const notAllowedCount: number = plan ? plan.changes.length - allowedChanges.length : 0;
+  const skippedSummary: string = plan
+    ? (Object.entries(plan.skipped) as [RosterSkipReason, number][])
+      .filter(([, count]) => count > 0)
+      .map(([reason, count]) => `${ROSTER_SKIP_REASON_LABELS[reason]} ${count}`)
+      .join(', ')
+    : '';
+  const employeeName = (employeeId: string): string => employees.find((e: Employee) => e.id === employeeId)?.name ?? employeeId;
+
+  const handleCaptureTemplate = (): void => {
+    const startDate: string = toDateKey(year, month, templateStart);
+    const validationError: string | null = validateTemplateDraft(templateName, startDate, templateWeeks, toMonthKey(year, month));
+    if (validationError) {
+      setTemplateError(validationError);
+      return;
+    }
+    const template: RosterTemplate = createRosterTemplate(`template-${Date.now()}`, templateName, employees, schedule, startDate, templateWeeks);
+    if (Object.keys(template.shifts).length === 0) {
+      setTemplateError('ช่วงที่เลือกยังไม่มีเวรให้เก็บเป็นแม่แบบ');
+      return;
+    }
+    onTemplatesChange([...templates, template]);
+    setTemplateName('');
+    setTemplateError('');
+  };
+
+  const handleDeleteTemplate = (templateId: string): void => {
+    onTemplatesChange(templates.filter((t: RosterTemplate) => t.id !== templateId));
+    if (source?.kind === 'template' && source.templateId === templateId) setSource(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🔁</span> จัดเวรจากแม่แบบ
+      </h2>
+
+      <label className="block text-xs text-gray-700 mb-3">
+        เติมเวรเดือน {monthTitle} จาก
+        <select
+          value={source === null ? '' : source.kind === 'previousMonth' ? 'previousMonth' : source.templateId}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => { handleChooseSource(e.target.value); }}
+          disabled={isLoading}
+          className="block w-full mt-1 p-1 border border-gray-300 rounded-md bg-white"
+        >
+          <option value="">-- เลือก --</option>
+          <option value="previousMonth">คัดลอกจากเดือนก่อนหน้า (ตรงตามวันในสัปดาห์)</option>
+          {templates.map((template: RosterTemplate) => (
+            <option key={template.id} value={template.id}>แม่แบบ: {template.name} ({template.weeks} สัปดาห์)</option>
+          ))}
+        </select>
+      </label>
+      {isLoading && <p className="text-xs text-gray-500 mb-2">กำลังโหลดเดือนก่อนหน้า...</p>}
+      {loadError && <p className="text-xs text-red-700 mb-2">{loadError}</p>}
+
+      <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm mb-3 w-fit">
+        {(['fillEmpty', 'overwrite'] as RosterFillMode[]).map((m: RosterFillMode) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-3 py-2 ${m === 'overwrite' ? 'border-l border-gray-300' : ''} ${mode === m ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+          >
+            {FILL_MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {plan && (
+        <>
+          <p className="text-xs text-gray-700 mb-2">
+            เปลี่ยน {allowedChanges.length} ช่อง
+            {notAllowedCount > 0 && ` | นอกสาขาที่ดูแล ${notAllowedCount} ช่อง`}
+            {skippedSummary && ` | ข้าม: ${skippedSummary}`}
+          </p>
+          <ul className="space-y-1 max-h-48 overflow-y-auto pr-2 scrollbar-thin text-xs mb-3">
+            {allowedChanges.map((change: RosterChange) => (
+              <li key={`${change.dateKey}-${change.employeeId}`} className="bg-gray-50 px-2 py-1 rounded-md">
+                วันที่ {change.day} {employeeName(change.employeeId)}: {describeRosterEntry(change.previous, branches)} → {describeRosterEntry(change.next, branches)}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => { onApply(allowedChanges); setSource(null); }}
+            disabled={allowedChanges.length === 0}
+            className="w-full px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            ใช้เวร {allowedChanges.length} ช่อง
+          </button>
+        </>
+      )}
+
+      {/* Templates: captured from weeks of the displayed month, stored with the clinic settings */}
+      {canManageTemplates && (
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">แม่แบบตารางเวร</h3>
+          <ul className="space-y-2 mb-3">
+            {templates.map((template: RosterTemplate) => (
+              <li key={template.id} className="flex items-center gap-2 p-2 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+                <span className="flex-grow text-gray-800">
+                  {template.name} <span className="text-xs text-gray-500">({template.weeks} สัปดาห์ เริ่ม {template.startDate}, {Object.keys(template.shifts).length} คน)</span>
+                </span>
+                <button
+                  onClick={() => handleDeleteTemplate(template.id)}
+                  className="p-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                  aria-label={`ลบแม่แบบ ${template.name}`}
+                >
+                  <TrashIcon />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-3 gap-2 text-xs mb-2">
+            <input
+              type="text"
+              placeholder="ชื่อแม่แบบ"
+              value={templateName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTemplateName(e.target.value)}
+              className="col-span-3 p-2 border border-gray-300 rounded-md text-sm"
+            />
+            <label className="col-span-2 text-gray-700">
+              เริ่มวันจันทร์ที่
+              <select
+                value={templateStart}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setTemplateStart(Number(e.target.value))}
+                className="block w-full mt-1 p-1 border border-gray-300 rounded-md bg-white"
+              >
+                {mondays.map((day: number) => <option key={day} value={day}>{day}</option>)}
+              </select>
+            </label>
+            <label className="text-gray-700">
+              จำนวนสัปดาห์
+              <input
+                type="number"
+                min={1}
+                max={4}
+                value={templateWeeks}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTemplateWeeks(Number(e.target.value))}
+                className="block w-full mt-1 p-1 border border-gray-300 rounded-md"
+              />
+            </label>
+          </div>
+          {templateError && <p className="text-xs text-red-700 mb-2">{templateError}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={handleCaptureTemplate}
+              className="flex-1 px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+            >
+              เก็บสัปดาห์ที่เลือกเป็นแม่แบบ
+            </button>
+            <button
+              onClick={onSaveTemplates}
+              disabled={!isDirty || isSaving}
+              className="flex-1 px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'กำลังบันทึก...' : 'บันทึกแม่แบบ'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RosterFillPanel;
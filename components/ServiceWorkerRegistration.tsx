@@ -0,0 +1,16 @@
+// components/ServiceWorkerRegistration.tsx
+'use client';
+import React, { useEffect } from 'react';
+
+// --- Registers public/sw.js, which keeps the app shell for offline use ---
+// Production builds only: in development the cached files would hide changes being worked on.
+const ServiceWorkerRegistration: React.FC = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js')
+      .catch((error: unknown) => console.error('Failed to register the service worker', error));
+  }, []);
+  return null;
+};
+
+export default ServiceWorkerRegistration;
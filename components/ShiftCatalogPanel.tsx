@@ -0,0 +1,165 @@
+// components/ShiftCatalogPanel.tsx
+import React, { useState } from 'react';
+import type { ShiftCode } from '../lib/types';
+import { ShiftType, DEFAULT_NEW_SHIFT_DEFINITION, validateShiftType } from '../lib/shiftCatalog';
+import { ShiftDefinition, validateShiftDefinition } from '../lib/shiftTimes';
+import { PlusIcon, SaveIcon, TrashIcon } from './icons';
+
+interface ShiftCatalogPanelProps {
+  shiftCatalog: ShiftType[];
+  onAdd: (shiftType: ShiftType, definition: ShiftDefinition) => void; // A new shift with its clinic-wide times
+  onUpdate: (code: ShiftCode, changes: Partial<Omit<ShiftType, 'code'>>) => void;
+  onRemove: (code: ShiftCode) => void; // May be refused by the page when the shift is still in use
+  onMove: (code: ShiftCode, offset: -1 | 1) => void; // Move up/down in the display order
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean;
+  isSaving: boolean;
+}
+
+const EMPTY_DRAFT: ShiftType = { code: '', label: '', color: '#FDE68A', countsTowardHeadcount: true };
+
+// --- Shift catalog: the working shifts the grid offers, their colours and whether they count toward headcount ---
+const ShiftCatalogPanel: React.FC<ShiftCatalogPanelProps> = ({ shiftCatalog, onAdd, onUpdate, onRemove, onMove, onSave, isDirty, isSaving }) => {
+  const [draft, setDraft] = useState<ShiftType>(EMPTY_DRAFT);
+  const [draftTimes, setDraftTimes] = useState<ShiftDefinition>(DEFAULT_NEW_SHIFT_DEFINITION);
+  const [error, setError] = useState<string>('');
+
+  const handleAdd = (): void => {
+    const shiftType: ShiftType = { ...draft, code: draft.code.trim(), label: draft.label.trim() };
+    const validationError: string | null = validateShiftType(shiftCatalog, shiftType) ?? validateShiftDefinition(draftTimes);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAdd(shiftType, draftTimes);
+    setDraft(EMPTY_DRAFT);
+    setDraftTimes(DEFAULT_NEW_SHIFT_DEFINITION);
+    setError('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">🎨</span> ประเภทกะ
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">รหัสกะคือข้อความที่แสดงในตาราง เปลี่ยนไม่ได้หลังสร้าง | แก้เวลากะได้ที่ &quot;เวลากะและค่าจ้าง&quot;</p>
+
+      <ul className="space-y-2 mb-4 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+        {shiftCatalog.map((shiftType: ShiftType, index: number) => (
+          <li key={shiftType.code} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border bg-gray-50 border-gray-200">
+            <input
+              type="color"
+              value={shiftType.color}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdate(shiftType.code, { color: e.target.value.toUpperCase() })}
+              className="w-8 h-8 border border-gray-300 rounded-md"
+              aria-label={`สีของกะ ${shiftType.code}`}
+            />
+            <span className="px-2 py-1 rounded-md text-xs font-medium text-gray-800" style={{ backgroundColor: shiftType.color }}>{shiftType.code}</span>
+            <input
+              type="text"
+              value={shiftType.label}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdate(shiftType.code, { label: e.target.value })}
+              className="flex-grow min-w-0 p-1 border border-gray-300 rounded-md text-sm"
+              aria-label={`ชื่อของกะ ${shiftType.code}`}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={shiftType.countsTowardHeadcount}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdate(shiftType.code, { countsTowardHeadcount: e.target.checked })}
+              />
+              นับจำนวนคน
+            </label>
+            <button
+              onClick={() => onMove(shiftType.code, -1)}
+              disabled={index === 0}
+              className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-md hover:bg-gray-300 disabled:opacity-40"
+              aria-label={`เลื่อน ${shiftType.code} ขึ้น`}
+            >
+              ▲
+            </button>
+            <button
+              onClick={() => onMove(shiftType.code, 1)}
+              disabled={index === shiftCatalog.length - 1}
+              className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded-md hover:bg-gray-300 disabled:opacity-40"
+              aria-label={`เลื่อน ${shiftType.code} ลง`}
+            >
+              ▼
+            </button>
+            <button
+              onClick={() => onRemove(shiftType.code)}
+              className="p-1 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+              aria-label={`ลบ ${shiftType.code}`}
+            >
+              <TrashIcon />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">เพิ่มกะใหม่</h3>
+      <div className="p-2 rounded-lg border border-gray-200 bg-gray-50 space-y-2 mb-2">
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            type="text"
+            placeholder="รหัส เช่น ดึก"
+            value={draft.code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, code: e.target.value })}
+            className="w-28 p-1 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="text"
+            placeholder="ชื่อ เช่น กะดึก"
+            value={draft.label}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, label: e.target.value })}
+            className="flex-grow min-w-0 p-1 border border-gray-300 rounded-md text-sm"
+          />
+          <input
+            type="color"
+            value={draft.color}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, color: e.target.value.toUpperCase() })}
+            className="w-8 h-8 border border-gray-300 rounded-md"
+            aria-label="สีของกะใหม่"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <input type="time" value={draftTimes.start} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftTimes({ ...draftTimes, start: e.target.value })} className="p-1 border border-gray-300 rounded-md text-sm" aria-label="เวลาเริ่ม" />
+          <span className="text-gray-500">-</span>
+          <input type="time" value={draftTimes.end} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftTimes({ ...draftTimes, end: e.target.value })} className="p-1 border border-gray-300 rounded-md text-sm" aria-label="เวลาสิ้นสุด" />
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={draftTimes.paidHours}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftTimes({ ...draftTimes, paidHours: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-20 p-1 border border-gray-300 rounded-md text-sm"
+            aria-label="ชั่วโมงที่จ่าย"
+          />
+          <span className="text-xs text-gray-500">ชม.</span>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={draft.countsTowardHeadcount}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, countsTowardHeadcount: e.target.checked })}
+            />
+            นับจำนวนคน
+          </label>
+        </div>
+        <button onClick={handleAdd} className="flex items-center px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors">
+          <PlusIcon /> <span className="ml-1">เพิ่มกะ</span>
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700 mb-2">{error}</p>}
+
+      <button
+        onClick={onSave}
+        disabled={!isDirty || isSaving}
+        className="w-full mt-2 flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกประเภทกะ'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ShiftCatalogPanel;
@@ -0,0 +1,242 @@
+// components/ShiftSwapPanel.tsx
+import React, { useState } from 'react';
+import type { Branch, Colleague, Employee, MonthlySchedule } from '../lib/types';
+import { UserProfile, canApproveShiftSwap, canProposeShiftSwap, canRespondToShiftSwap, canViewEmployee } from '../lib/roles';
+import {
+  ShiftSwap, ShiftSwapDraft, ShiftSwapStatus, SHIFT_SWAP_STATUS_LABELS,
+  describeSwapEntry, getShiftSwapBranches, getShiftSwapMonth, validateShiftSwapDraft,
+} from '../lib/shiftSwaps';
+
+interface ShiftSwapPanelProps {
+  user: UserProfile;
+  monthKey: string; // Displayed month; new swaps are proposed within it
+  employees: Employee[];
+  colleagues: Colleague[]; // The others of the month, for staff who only have themselves in `employees`
+  schedule: MonthlySchedule;
+  branches: Branch[]; // Every branch, for names
+  swaps: ShiftSwap[];
+  onPropose: (draft: ShiftSwapDraft) => Promise<boolean>; // Resolves to false when it was not stored
+  onRespond: (swap: ShiftSwap, status: 'accepted' | 'declined') => void;
+  onCancel: (swap: ShiftSwap) => void;
+  onDecide: (swap: ShiftSwap, status: 'approved' | 'rejected', note: string) => void;
+}
+
+const STATUS_STYLES: Record<ShiftSwapStatus, string> = {
+  proposed: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-blue-100 text-blue-800',
+  declined: 'bg-gray-200 text-gray-700',
+  cancelled: 'bg-gray-200 text-gray-700',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Swaps still waiting for someone come first
+const isOpen = (swap: ShiftSwap): boolean => swap.status === 'proposed' || swap.status === 'accepted';
+
+// --- Shift swaps: propose a trade, let the counterpart answer and a manager approve ---
+const ShiftSwapPanel: React.FC<ShiftSwapPanelProps> = ({ user, monthKey, employees, colleagues, schedule, branches, swaps, onPropose, onRespond, onCancel, onDecide }) => {
+  const requesters: Employee[] = employees.filter((e: Employee) => canProposeShiftSwap(user, e));
+  const emptyDraft = (): ShiftSwapDraft => ({
+    requesterId: '',
+    requesterDate: '',
+    counterpartId: '',
+    counterpartDate: '',
+    reason: '',
+  });
+  const [draft, setDraft] = useState<ShiftSwapDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [notes, setNotes] = useState<Record<string, string>>({}); // Decision note being typed, per swap
+
+  // Without a choice to make (e.g. staff asking for themselves) the swap is for the only employee
+  const requesterId: string = requesters.length === 1 ? requesters[0].id : draft.requesterId;
+
+  const employeeById = (id: string): Employee | undefined => employees.find((e: Employee) => e.id === id);
+  // Everyone a swap can be proposed to or shown with
+  const people: Colleague[] = [...employees, ...colleagues];
+  const nameOf = (id: string): string => people.find((person: Colleague) => person.id === id)?.name ?? id;
+  const daysInMonth: number = new Date(Number(monthKey.slice(0, 4)), Number(monthKey.slice(5, 7)), 0).getDate();
+  const firstDate: string = `${monthKey}-01`;
+  const lastDate: string = `${monthKey}-${String(daysInMonth).padStart(2, '0')}`;
+
+  // Cell of an employee as it is now, e.g. 'เช้า (บัวใหญ่)'. Staff only have their own shifts loaded.
+  const describeCell = (employeeId: string, dateKey: string): string => {
+    const employee: Employee | undefined = employeeById(employeeId);
+    if (!employee || !dateKey || !canViewEmployee(user, employee)) return '-';
+    return describeSwapEntry(employee, schedule[dateKey]?.[employeeId], dateKey, branches);
+  };
+
+  // Managers see the swaps of their full-timers and of part-timers, who may work at their branch
+  const visibleSwaps: ShiftSwap[] = swaps
+    .filter((swap: ShiftSwap) => {
+      if (user.role !== 'manager') return true;
+      return [swap.requesterId, swap.counterpartId].some((id: string) => {
+        const employee: Employee | undefined = employeeById(id);
+        return employee !== undefined && (employee.type === 'part-time' || employee.branch === user.branchId);
+      });
+    })
+    .sort((a: ShiftSwap, b: ShiftSwap) => Number(isOpen(b)) - Number(isOpen(a)));
+
+  const handleSubmit = async (): Promise<void> => {
+    const submitted: ShiftSwapDraft = { ...draft, requesterId };
+    const error: string | null = validateShiftSwapDraft(submitted);
+    if (error !== null) {
+      setFormError(error);
+      return;
+    }
+    setIsSubmitting(true);
+    const isStored: boolean = await onPropose({ ...submitted, reason: submitted.reason.trim() });
+    setIsSubmitting(false);
+    if (isStored) {
+      setDraft(emptyDraft());
+      setFormError('');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">🔁</span> แลกเวร
+      </h2>
+
+      {requesters.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">ขอแลกเวรได้เฉพาะพนักงานที่มีชื่อในตารางเวรเดือนนี้</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 mb-4 text-sm">
+          {requesters.length > 1 && (
+            <select
+              value={draft.requesterId}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, requesterId: e.target.value })}
+              className="col-span-2 p-2 border border-gray-300 rounded-md bg-white"
+            >
+              <option value="">ผู้ขอแลก</option>
+              {requesters.map((employee: Employee) => (
+                <option key={employee.id} value={employee.id}>{employee.name}</option>
+              ))}
+            </select>
+          )}
+          <label className="text-xs text-gray-600">
+            เวรที่จะให้ (วันที่)
+            <input
+              type="date"
+              min={firstDate}
+              max={lastDate}
+              value={draft.requesterDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, requesterDate: e.target.value, counterpartDate: draft.counterpartDate || e.target.value })}
+              className="block w-full mt-1 p-2 border border-gray-300 rounded-md"
+            />
+            <span className="block mt-1 text-gray-500">ตอนนี้: {describeCell(requesterId, draft.requesterDate)}</span>
+          </label>
+          <label className="text-xs text-gray-600">
+            เวรที่จะรับ (วันที่)
+            <input
+              type="date"
+              min={firstDate}
+              max={lastDate}
+              value={draft.counterpartDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, counterpartDate: e.target.value })}
+              className="block w-full mt-1 p-2 border border-gray-300 rounded-md"
+            />
+            <span className="block mt-1 text-gray-500">ตอนนี้: {describeCell(draft.counterpartId, draft.counterpartDate)}</span>
+          </label>
+          <select
+            value={draft.counterpartId}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, counterpartId: e.target.value })}
+            className="col-span-2 p-2 border border-gray-300 rounded-md bg-white"
+          >
+            <option value="">แลกกับ</option>
+            {people.filter((person: Colleague) => person.id !== requesterId).map((person: Colleague) => (
+              <option key={person.id} value={person.id}>{person.name} ({person.position})</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="เหตุผล (ไม่บังคับ)"
+            value={draft.reason}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, reason: e.target.value })}
+            className="col-span-2 p-2 border border-gray-300 rounded-md"
+          />
+          {formError && <p className="col-span-2 text-xs text-red-700">{formError}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="col-span-2 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'กำลังส่ง...' : 'ขอแลกเวร'}
+          </button>
+        </div>
+      )}
+
+      {visibleSwaps.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">ยังไม่มีคำขอแลกเวร</p>
+      ) : (
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+          {visibleSwaps.map((swap: ShiftSwap) => {
+            const isDisplayedMonth: boolean = getShiftSwapMonth(swap) === monthKey;
+            const canRespond: boolean = swap.status === 'proposed' && canRespondToShiftSwap(user, swap.counterpartId);
+            const canCancel: boolean = isOpen(swap) && (swap.requestedBy === user.uid || user.employeeId === swap.requesterId);
+            const canDecide: boolean = swap.status === 'accepted' && isDisplayedMonth
+              && canApproveShiftSwap(user, getShiftSwapBranches(swap, employees, schedule));
+            return (
+              <li key={swap.id} className="p-3 rounded-lg border bg-gray-50 border-gray-200 text-sm">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="font-medium text-gray-800">
+                    {nameOf(swap.requesterId)} ⇄ {nameOf(swap.counterpartId)}
+                  </p>
+                  <span className={`px-2 py-0.5 rounded-md text-xs ${STATUS_STYLES[swap.status]}`}>{SHIFT_SWAP_STATUS_LABELS[swap.status]}</span>
+                </div>
+                <p className="text-xs text-gray-600">
+                  ให้ {swap.requesterDate}{isDisplayedMonth && ` (${describeCell(swap.requesterId, swap.requesterDate)})`}
+                  {' '}| รับ {swap.counterpartDate}{isDisplayedMonth && ` (${describeCell(swap.counterpartId, swap.counterpartDate)})`}
+                  {swap.reason && ` | ${swap.reason}`}
+                </p>
+                {swap.decisionNote && <p className="text-xs text-gray-500 mt-1">หมายเหตุ: {swap.decisionNote}</p>}
+                {swap.status === 'accepted' && !isDisplayedMonth && user.role !== 'staff' && (
+                  <p className="text-xs text-gray-500 mt-1">เปิดตารางเดือน {getShiftSwapMonth(swap)} เพื่อพิจารณา</p>
+                )}
+                {(canRespond || canCancel) && (
+                  <div className="flex gap-2 mt-2">
+                    {canRespond && (
+                      <>
+                        <button onClick={() => onRespond(swap, 'accepted')} className="px-2 py-1 text-xs bg-green-500 text-white rounded-md hover:bg-green-600 transition-colors">
+                          ยินดีแลก
+                        </button>
+                        <button onClick={() => onRespond(swap, 'declined')} className="px-2 py-1 text-xs bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors">
+                          ปฏิเสธ
+                        </button>
+                      </>
+                    )}
+                    {canCancel && (
+                      <button onClick={() => onCancel(swap)} className="px-2 py-1 text-xs bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 transition-colors">
+                        ยกเลิกคำขอ
+                      </button>
+                    )}
+                  </div>
+                )}
+                {canDecide && (
+                  <div className="flex gap-2 mt-2">
+                    <input
+                      type="text"
+                      placeholder="หมายเหตุ (ไม่บังคับ)"
+                      value={notes[swap.id] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes({ ...notes, [swap.id]: e.target.value })}
+                      className="flex-grow p-1 text-xs border border-gray-300 rounded-md"
+                    />
+                    <button onClick={() => onDecide(swap, 'approved', (notes[swap.id] ?? '').trim())} className="px-2 py-1 text-xs bg-green-500 text-white rounded-md hover:bg-green-600 transition-colors">
+                      อนุมัติ
+                    </button>
+                    <button onClick={() => onDecide(swap, 'rejected', (notes[swap.id] ?? '').trim())} className="px-2 py-1 text-xs bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors">
+                      ไม่อนุมัติ
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShiftSwapPanel;
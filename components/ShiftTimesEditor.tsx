@@ -0,0 +1,143 @@
+// components/ShiftTimesEditor.tsx
+import React from 'react';
+import type { ShiftCode } from '../lib/types';
+import { ShiftDefinition, ShiftDefinitions, getShiftDefinition, validateShiftDefinition } from '../lib/shiftTimes';
+import type { ShiftType } from '../lib/shiftCatalog';
+import type { PayRates } from '../lib/payroll';
+import { SaveIcon } from './icons';
+
+interface ShiftTimesEditorProps {
+  branchId: string; // Branch whose overrides are edited
+  branchName: string;
+  definitions: ShiftDefinitions;
+  shiftCatalog: ShiftType[]; // Shifts whose times are edited
+  payRates: PayRates;
+  positions: string[]; // Position catalog of the clinic (part-timers are paid per position)
+  onDefinitionsChange: (definitions: ShiftDefinitions) => void;
+  onPayRatesChange: (payRates: PayRates) => void;
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean; // Whether there are edits that were not saved yet
+  isSaving: boolean;
+}
+
+// Parse a non-negative number input; empty means "not set"
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed: number = Math.max(0, Number(value));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// --- Editor for shift times, paid hours (clinic-wide and per branch) and part-timer pay rates ---
+const ShiftTimesEditor: React.FC<ShiftTimesEditorProps> = ({ branchId, branchName, definitions, shiftCatalog, payRates, positions, onDefinitionsChange, onPayRatesChange, onSave, isDirty, isSaving }) => {
+  const branchOverrides: Partial<Record<ShiftCode, ShiftDefinition>> = definitions.branches[branchId] ?? {};
+
+  const setClinicShift = (shift: ShiftCode, definition: ShiftDefinition): void => {
+    onDefinitionsChange({ ...definitions, clinic: { ...definitions.clinic, [shift]: definition } });
+  };
+
+  // Set or remove (null) the override of one shift at the branch
+  const setBranchShift = (shift: ShiftCode, definition: ShiftDefinition | null): void => {
+    const overrides: Partial<Record<ShiftCode, ShiftDefinition>> = { ...branchOverrides };
+    if (definition === null) delete overrides[shift];
+    else overrides[shift] = definition;
+    const branches: ShiftDefinitions['branches'] = { ...definitions.branches, [branchId]: overrides };
+    if (Object.keys(overrides).length === 0) delete branches[branchId];
+    onDefinitionsChange({ ...definitions, branches });
+  };
+
+  const setPayRate = (position: string, rate: number | null): void => {
+    const next: PayRates = { ...payRates };
+    if (rate === null) delete next[position];
+    else next[position] = rate;
+    onPayRatesChange(next);
+  };
+
+  const renderDefinition = (definition: ShiftDefinition, onChange: (definition: ShiftDefinition) => void) => {
+    const error: string | null = validateShiftDefinition(definition);
+    return (
+      <>
+        <div className="flex flex-wrap gap-2 items-center">
+          <input type="time" value={definition.start} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...definition, start: e.target.value })} className="p-1 border border-gray-300 rounded-md text-sm" aria-label="เวลาเริ่ม" />
+          <span className="text-gray-500">-</span>
+          <input type="time" value={definition.end} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...definition, end: e.target.value })} className="p-1 border border-gray-300 rounded-md text-sm" aria-label="เวลาสิ้นสุด" />
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={definition.paidHours}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...definition, paidHours: parseAmount(e.target.value) ?? 0 })}
+            className="w-20 p-1 border border-gray-300 rounded-md text-sm"
+            aria-label="ชั่วโมงที่จ่าย"
+          />
+          <span className="text-xs text-gray-500">ชม.</span>
+        </div>
+        {error && <p className="text-xs text-red-700">{error}</p>}
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">⏰</span> เวลากะและค่าจ้าง
+      </h2>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">เวลากะของทุกสาขา</h3>
+      <div className="space-y-2 mb-4">
+        {shiftCatalog.map(({ code: shift, label }: ShiftType) => (
+          <div key={shift} className="p-2 rounded-lg border border-gray-200 bg-gray-50">
+            <p className="text-xs text-gray-600 mb-1">{label}</p>
+            {renderDefinition(definitions.clinic[shift], (definition: ShiftDefinition) => setClinicShift(shift, definition))}
+          </div>
+        ))}
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">เวลาเฉพาะสาขา <span className="text-blue-600">{branchName}</span></h3>
+      <div className="space-y-2 mb-4">
+        {shiftCatalog.map(({ code: shift, label }: ShiftType) => {
+          const override: ShiftDefinition | undefined = branchOverrides[shift];
+          return (
+            <div key={shift} className="p-2 rounded-lg border border-gray-200 bg-gray-50">
+              <label className="flex items-center gap-2 text-xs text-gray-600 mb-1">
+                <input
+                  type="checkbox"
+                  checked={override !== undefined}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBranchShift(shift, e.target.checked ? getShiftDefinition(definitions, branchId, shift) : null)}
+                />
+                {label} ใช้เวลาของสาขานี้
+              </label>
+              {override && renderDefinition(override, (definition: ShiftDefinition) => setBranchShift(shift, definition))}
+            </div>
+          );
+        })}
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">ค่าจ้างพาร์ทไทม์ (บาท/ชั่วโมง)</h3>
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        {positions.map((position: string) => (
+          <label key={position} className="text-xs text-gray-600">
+            {position}
+            <input
+              type="number"
+              min={0}
+              placeholder="ไม่ระบุ"
+              value={payRates[position] ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayRate(position, parseAmount(e.target.value))}
+              className="block w-full mt-1 p-1 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={onSave}
+        disabled={!isDirty || isSaving}
+        className="w-full flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกเวลากะและค่าจ้าง'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default ShiftTimesEditor;
@@ -0,0 +1,143 @@
+// components/StaffingRulesEditor.tsx
+import React from 'react';
+import { StaffingRule, RuleShift } from '../lib/staffingRules';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+import { ShiftType, findShiftType } from '../lib/shiftCatalog';
+import { PlusIcon, TrashIcon, SaveIcon } from './icons';
+
+interface StaffingRulesEditorProps {
+  branch: string; // Branch whose rules are edited
+  rules: StaffingRule[]; // Current rules of the branch
+  positions: string[]; // Position catalog of the clinic
+  shiftCatalog: ShiftType[]; // Shifts a rule can be limited to
+  onChange: (rules: StaffingRule[]) => void; // Called with the full new list on every edit
+  onSave: () => void; // Persist the clinic configuration
+  isDirty: boolean; // Whether there are edits that were not saved yet
+  isSaving: boolean;
+}
+
+// Parse a number input; empty means "no limit"
+const parseLimit = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed: number = Math.max(0, Math.floor(Number(value)));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// --- Editor for the staffing rules of one branch ---
+const StaffingRulesEditor: React.FC<StaffingRulesEditorProps> = ({ branch, rules, positions, shiftCatalog, onChange, onSave, isDirty, isSaving }) => {
+  const updateRule = (id: string, changes: Partial<StaffingRule>): void => {
+    onChange(rules.map((rule: StaffingRule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleWeekday = (rule: StaffingRule, weekday: number): void => {
+    const weekdays: number[] = rule.weekdays.includes(weekday)
+      ? rule.weekdays.filter((d: number) => d !== weekday)
+      : [...rule.weekdays, weekday].sort();
+    updateRule(rule.id, { weekdays });
+  };
+
+  const addRule = (): void => {
+    onChange([...rules, { id: `rule-${Date.now()}`, shift: 'all', position: null, weekdays: [], min: 1, max: null }]);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">📏</span> กฎจำนวนพนักงาน
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">สาขา <span className="font-medium text-blue-600">{branch}</span> (ไม่เลือกวัน = ใช้ทุกวัน, เว้นว่าง = ไม่จำกัด)</p>
+
+      <div className="space-y-3">
+        {rules.length === 0 && (
+          <p className="text-gray-500 text-center py-4">ยังไม่มีกฎสำหรับสาขานี้</p>
+        )}
+        {rules.map((rule: StaffingRule) => {
+          const isInvalid: boolean = rule.min !== null && rule.max !== null && rule.min > rule.max;
+          return (
+            <div key={rule.id} className={`p-3 rounded-lg border ${isInvalid ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50'} space-y-2`}>
+              <div className="flex flex-wrap gap-2 items-center">
+                <select
+                  value={rule.shift}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateRule(rule.id, { shift: e.target.value as RuleShift })}
+                  className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+                >
+                  <option value="all">ทั้งวัน</option>
+                  {shiftCatalog.map((shiftType: ShiftType) => (
+                    <option key={shiftType.code} value={shiftType.code}>{shiftType.label}</option>
+                  ))}
+                  {rule.shift !== 'all' && !findShiftType(shiftCatalog, rule.shift) && <option value={rule.shift}>กะ{rule.shift} (ไม่มีในรายการกะแล้ว)</option>}
+                </select>
+                <select
+                  value={rule.position ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateRule(rule.id, { position: e.target.value || null })}
+                  className="p-2 border border-gray-300 rounded-md text-sm bg-white"
+                >
+                  <option value="">ทุกตำแหน่ง</option>
+                  {positions.map((position: string) => (
+                    <option key={position} value={position}>{position}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="ขั้นต่ำ"
+                  value={rule.min ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRule(rule.id, { min: parseLimit(e.target.value) })}
+                  className="w-20 p-2 border border-gray-300 rounded-md text-sm"
+                  aria-label="จำนวนขั้นต่ำ"
+                />
+                <span className="text-gray-500">-</span>
+                <input
+                  type="number"
+                  min={0}
+                  placeholder="สูงสุด"
+                  value={rule.max ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRule(rule.id, { max: parseLimit(e.target.value) })}
+                  className="w-20 p-2 border border-gray-300 rounded-md text-sm"
+                  aria-label="จำนวนสูงสุด"
+                />
+                <button
+                  onClick={() => onChange(rules.filter((r: StaffingRule) => r.id !== rule.id))}
+                  className="p-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors ml-auto"
+                  aria-label="ลบกฎ"
+                >
+                  <TrashIcon />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {SHORT_DAY_NAMES.map((dayName: string, weekday: number) => (
+                  <button
+                    key={weekday}
+                    onClick={() => toggleWeekday(rule, weekday)}
+                    className={`px-2 py-1 text-xs rounded-md border transition-colors ${rule.weekdays.includes(weekday) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+                  >
+                    {dayName}
+                  </button>
+                ))}
+              </div>
+              {isInvalid && <p className="text-xs text-red-700">จำนวนขั้นต่ำมากกว่าจำนวนสูงสุด</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={addRule}
+          className="flex-grow flex items-center justify-center px-3 py-2 bg-blue-500 text-white text-sm rounded-md hover:bg-blue-600 transition-colors"
+        >
+          <PlusIcon /> <span className="ml-1">เพิ่มกฎ</span>
+        </button>
+        <button
+          onClick={onSave}
+          disabled={!isDirty || isSaving}
+          className="flex-grow flex items-center justify-center px-3 py-2 bg-green-500 text-white text-sm rounded-md hover:bg-green-600 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          <SaveIcon /> <span className="ml-1">{isSaving ? 'กำลังบันทึก...' : 'บันทึกกฎ'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StaffingRulesEditor;
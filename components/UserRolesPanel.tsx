@@ -0,0 +1,78 @@
+// components/UserRolesPanel.tsx
+import React from 'react';
+import type { Branch, Employee } from '../lib/types';
+import { Role, ROLES, ROLE_LABELS, UserProfile } from '../lib/roles';
+
+interface UserRolesPanelProps {
+  users: UserProfile[]; // Everyone who has signed in at least once
+  currentUid: string; // The admin using the panel, who cannot demote themselves
+  branches: Branch[]; // Active branches a manager can be given
+  employees: Employee[]; // Employees a staff account can be linked to
+  onChange: (user: UserProfile) => void; // Saved right away
+}
+
+// --- Admin panel for assigning roles, branches and employee records to users ---
+const UserRolesPanel: React.FC<UserRolesPanelProps> = ({ users, currentUid, branches, employees, onChange }) => {
+  const selectClass: string = 'p-1 border border-gray-300 rounded-md text-xs bg-white';
+
+  const changeRole = (user: UserProfile, role: Role): void => {
+    // A role only keeps the link that belongs to it
+    onChange({
+      ...user,
+      role,
+      branchId: role === 'manager' ? user.branchId ?? branches[0]?.id ?? null : null,
+      employeeId: role === 'staff' ? user.employeeId : null,
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2 flex items-center">
+        <span className="mr-2">🔑</span> ผู้ใช้และสิทธิ์
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">ผู้ใช้ใหม่จะเป็น "พนักงาน" จนกว่าผู้ดูแลระบบจะกำหนดสิทธิ์</p>
+      <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+        {users.map((user: UserProfile) => (
+          <li key={user.uid} className="flex flex-wrap items-center gap-2 p-2 rounded-lg border bg-gray-50 border-gray-200">
+            <span className="flex-grow text-sm text-gray-800">{user.email}</span>
+            <select
+              value={user.role}
+              disabled={user.uid === currentUid}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => changeRole(user, e.target.value as Role)}
+              className={selectClass}
+            >
+              {ROLES.map((role: Role) => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            {user.role === 'manager' && (
+              <select
+                value={user.branchId ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange({ ...user, branchId: e.target.value || null })}
+                className={selectClass}
+              >
+                {branches.map((branch: Branch) => (
+                  <option key={branch.id} value={branch.id}>{branch.name}</option>
+                ))}
+              </select>
+            )}
+            {user.role === 'staff' && (
+              <select
+                value={user.employeeId ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange({ ...user, employeeId: e.target.value || null })}
+                className={selectClass}
+              >
+                <option value="">ยังไม่ผูกกับพนักงาน</option>
+                {employees.map((employee: Employee) => (
+                  <option key={employee.id} value={employee.id}>{employee.name}</option>
+                ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UserRolesPanel;
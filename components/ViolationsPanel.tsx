@@ -0,0 +1,68 @@
+// components/ViolationsPanel.tsx
+import React, { useState } from 'react';
+import type { Branch } from '../lib/types';
+import { ScheduleViolation, ViolationKind, VIOLATION_KINDS, VIOLATION_KIND_LABELS } from '../lib/scheduleValidation';
+import { getBranchName } from '../lib/branches';
+import { SHORT_DAY_NAMES } from '../lib/constants';
+import { parseDateKey } from '../lib/dates';
+
+interface ViolationsPanelProps {
+  violations: ScheduleViolation[]; // Violations of the displayed month, all branches
+  branches: Branch[]; // Used to show branch names
+  onSelect: (violation: ScheduleViolation) => void; // Jump to the cell (or branch/day) of a violation
+}
+
+// --- Report of everything wrong with this month's schedule ---
+const ViolationsPanel: React.FC<ViolationsPanelProps> = ({ violations, branches, onSelect }) => {
+  const [kindFilter, setKindFilter] = useState<ViolationKind | 'all'>('all');
+
+  const countOf = (kind: ViolationKind): number => violations.filter((v: ScheduleViolation) => v.kind === kind).length;
+  const shown: ScheduleViolation[] = kindFilter === 'all' ? violations : violations.filter((v: ScheduleViolation) => v.kind === kindFilter);
+  const errorCount: number = violations.filter((v: ScheduleViolation) => v.severity === 'error').length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-100">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center">
+        <span className="mr-2">⚠️</span> ตรวจสอบตารางเวร ({violations.length})
+      </h2>
+      {violations.length === 0 ? (
+        <p className="text-green-700 text-center py-4">ตารางเวรเดือนนี้เป็นไปตามกฎทั้งหมด</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <span className="text-gray-600">ผิดพลาด {errorCount} | คำเตือน {violations.length - errorCount}</span>
+            <select
+              value={kindFilter}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setKindFilter(e.target.value as ViolationKind | 'all')}
+              className="ml-auto p-2 border border-gray-300 rounded-md"
+            >
+              <option value="all">ทุกประเภท</option>
+              {VIOLATION_KINDS.filter((kind: ViolationKind) => countOf(kind) > 0).map((kind: ViolationKind) => (
+                <option key={kind} value={kind}>{VIOLATION_KIND_LABELS[kind]} ({countOf(kind)})</option>
+              ))}
+            </select>
+          </div>
+          <ul className="space-y-2 max-h-96 overflow-y-auto pr-2 scrollbar-thin">
+            {shown.map((violation: ScheduleViolation, index: number) => (
+              <li key={`${violation.kind}-${violation.dateKey}-${violation.branch}-${violation.employeeId}-${index}`}>
+                <button
+                  onClick={() => onSelect(violation)}
+                  disabled={violation.branch === null}
+                  className={`w-full text-left p-3 rounded-lg border text-sm transition-colors ${violation.severity === 'error' ? 'bg-red-50 border-red-200 hover:bg-red-100' : 'bg-orange-50 border-orange-200 hover:bg-orange-100'}`}
+                >
+                  <span className="font-semibold text-gray-800">วันที่ {violation.day}</span>
+                  <span className="text-gray-500"> ({SHORT_DAY_NAMES[parseDateKey(violation.dateKey).getDay()]})</span>
+                  {violation.branch !== null && <span className="font-medium text-blue-600"> {getBranchName(branches, violation.branch)}</span>}
+                  <span className="text-xs text-gray-500"> · {VIOLATION_KIND_LABELS[violation.kind]}</span>
+                  <p className={violation.severity === 'error' ? 'text-red-700' : 'text-orange-700'}>{violation.message}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ViolationsPanel;
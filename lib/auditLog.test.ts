@@ -0,0 +1,45 @@
+// lib/auditLog.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, MonthData } from './types';
+import { AuditChange, combineAuditSources, diffMonthData } from './auditLog';
+import { mergeMonthChanges } from './monthMerge';
+
+const branches: Branch[] = [
+  { id: 'branch-1', name: 'บึงทับช้าง', archived: false },
+  { id: 'branch-2', name: 'บัวใหญ่', archived: false },
+];
+
+const month = (shifts: Record<string, Record<string, string>>): MonthData => ({
+  employees: [
+    { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' },
+    { id: 'e2', name: 'สมศรี', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' },
+  ],
+  monthlySchedule: shifts,
+  clinicDayOff: 'อาทิตย์',
+  removedEmployees: [],
+});
+
+describe('audit events of a save', () => {
+  it('lists only the cells the save wrote, not the ones that lost to a stored change', () => {
+    const base: MonthData = month({ '2025-06-02': { e1: 'เช้า', e2: 'เช้า' } });
+    const local: MonthData = month({ '2025-06-02': { e1: 'บ่าย', e2: 'ลา' } });
+    const stored: MonthData = month({ '2025-06-02': { e1: 'เช้า', e2: 'ป่วย' } }); // Someone else changed e2 first
+
+    const written: MonthData = mergeMonthChanges(base, local, stored).data;
+    const changes: AuditChange[] = diffMonthData(stored, written, branches);
+    assert.deepEqual(changes.map((c: AuditChange) => [c.employeeId, c.dateKey, c.before, c.after, c.branch]), [['e1', '2025-06-02', 'เช้า', 'บ่าย', 'branch-1']]);
+  });
+
+  it('records a change and its undo in one save as nothing', () => {
+    const stored: MonthData = month({ '2025-06-02': { e1: 'เช้า' } });
+    assert.deepEqual(diffMonthData(stored, mergeMonthChanges(stored, stored, stored).data, branches), []);
+  });
+
+  it('keeps the way the changes were made when there was only one', () => {
+    assert.equal(combineAuditSources(['bulk', 'bulk']), 'bulk');
+    assert.equal(combineAuditSources(['undo']), 'undo');
+    assert.equal(combineAuditSources(['bulk', 'undo']), 'edit');
+    assert.equal(combineAuditSources([]), 'edit');
+  });
+});
@@ -0,0 +1,236 @@
+// lib/auditLog.ts
+import type { Branch, BranchTransfer, Employee, MonthData, PartTimeAvailability, RemovedEmployee, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { getBranchName } from './branches';
+import { SHORT_DAY_NAMES } from './constants';
+import { getHomeBranchOn } from './employees';
+
+// --- Audit log: one event per changed cell, employee field or month setting ---
+// Events are computed by comparing the month before and after a change, so every way of
+// editing (grid, dispatch board, import, auto-fill, undo/redo) is recorded the same way.
+// Values are stored as the text shown at the time, branch names included.
+
+// How the change was made
+export type AuditSource = 'edit' | 'bulk' | 'undo' | 'redo';
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  edit: 'แก้ไข',
+  bulk: 'แก้ไขหลายช่อง',
+  undo: 'ย้อนกลับ',
+  redo: 'ทำซ้ำ',
+};
+
+// Source of a save that stores changes made in several ways: that way when there was only one, otherwise 'edit'
+export const combineAuditSources = (sources: AuditSource[]): AuditSource => {
+  return new Set(sources).size === 1 ? sources[0] : 'edit';
+};
+
+export type AuditTarget = 'shift' | 'employee' | 'month';
+
+// Employee fields and actions that are recorded
+export type AuditField = 'shift' | 'added' | 'removed' | 'restored' | 'name' | 'position' | 'type' | 'branch' | 'transfers' | 'employment' | 'availability' | 'clinicDayOff';
+
+export const AUDIT_FIELD_LABELS: Record<AuditField, string> = {
+  shift: 'กะ',
+  added: 'เพิ่มพนักงาน',
+  removed: 'ลบพนักงาน',
+  restored: 'กู้คืนพนักงาน',
+  name: 'ชื่อ',
+  position: 'ตำแหน่ง',
+  type: 'ประเภท',
+  branch: 'สาขาประจำ',
+  transfers: 'ย้ายสาขา',
+  employment: 'ช่วงการจ้าง',
+  availability: 'วันที่สะดวกทำงาน',
+  clinicDayOff: 'วันหยุดคลินิก',
+};
+
+// Stored in 'auditLog/{id}'
+export interface AuditEvent {
+  id: string;
+  at: string; // ISO timestamp
+  userId: string;
+  userEmail: string;
+  source: AuditSource;
+  monthKey: string; // Month document the change belongs to
+  target: AuditTarget;
+  employeeId: string | null; // null for month settings
+  employeeName: string | null;
+  branch: string | null; // Branch ID the change concerns, used for filtering; null when there is none
+  dateKey: string | null; // Shift date, null for employee and month changes
+  field: AuditField;
+  before: string;
+  after: string;
+}
+
+// One difference between two versions of a month, before it is stamped with who/when
+export type AuditChange = Pick<AuditEvent, 'target' | 'employeeId' | 'employeeName' | 'branch' | 'dateKey' | 'field' | 'before' | 'after'>;
+
+// Who made the changes, and how
+export interface AuditContext {
+  userId: string;
+  userEmail: string;
+  source: AuditSource;
+  monthKey: string;
+  at: string; // ISO timestamp
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const AUDIT_FIELDS: AuditField[] = Object.keys(AUDIT_FIELD_LABELS) as AuditField[];
+
+// Validate a stored event; null when it cannot be used
+export const decodeAuditEvent = (id: string, raw: unknown): AuditEvent | null => {
+  if (!isRecord(raw)) return null;
+  const { at, userId, userEmail, source, monthKey, target, employeeId, employeeName, branch, dateKey, field, before, after } = raw;
+  const isNullableString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+  if (typeof at !== 'string' || typeof userId !== 'string' || typeof userEmail !== 'string' || typeof monthKey !== 'string') return null;
+  if (!Object.keys(AUDIT_SOURCE_LABELS).includes(source as string) || !AUDIT_FIELDS.includes(field as AuditField)) return null;
+  if (target !== 'shift' && target !== 'employee' && target !== 'month') return null;
+  if (!isNullableString(employeeId) || !isNullableString(employeeName) || !isNullableString(branch) || !isNullableString(dateKey)) return null;
+  if (typeof before !== 'string' || typeof after !== 'string') return null;
+  return {
+    id, at, userId, userEmail, source: source as AuditSource, monthKey, target,
+    employeeId, employeeName, branch, dateKey, field: field as AuditField, before, after,
+  };
+};
+
+// Text of a shift entry, e.g. 'เช้า' or 'บ่าย (บัวใหญ่)'; empty for no shift
+const describeShift = (entry: ShiftEntry | undefined, branches: Branch[]): string => {
+  if (isWorkingShiftObject(entry)) return `${entry.type} (${getBranchName(branches, entry.branch)})`;
+  return entry ?? '';
+};
+
+const describeAvailability = (availability: PartTimeAvailability | undefined, branches: Branch[]): string => {
+  if (!availability) return 'ไม่จำกัด';
+  const parts: string[] = [];
+  if (availability.weekdays.length > 0) parts.push(`วัน ${availability.weekdays.map((d: number) => SHORT_DAY_NAMES[d]).join(' ')}`);
+  if (availability.shifts.length > 0) parts.push(`กะ ${availability.shifts.join(' ')}`);
+  if (availability.branches.length > 0) parts.push(`สาขา ${availability.branches.map((b: string) => getBranchName(branches, b)).join(' ')}`);
+  return parts.length > 0 ? parts.join(', ') : 'ไม่จำกัด';
+};
+
+// Short text of the employment window, e.g. '2025-06-01 ถึง ปัจจุบัน'
+const describeEmployment = (employee: Employee): string => {
+  return `${employee.startDate ?? 'ไม่ระบุ'} ถึง ${employee.endDate ?? 'ปัจจุบัน'}`;
+};
+
+// Short text of the transfers, e.g. '2025-06-16 ไป บัวใหญ่'
+const describeTransfers = (transfers: BranchTransfer[] | undefined, branches: Branch[]): string => {
+  if (!transfers || transfers.length === 0) return 'ไม่มี';
+  return transfers.map((t: BranchTransfer) => `${t.date} ไป ${getBranchName(branches, t.branch)}`).join(', ');
+};
+
+// Short text of a whole employee, for additions and removals
+const describeEmployee = (employee: Employee, branches: Branch[]): string => {
+  return employee.type === 'full-time'
+    ? `${employee.position}, ประจำ ${getBranchName(branches, employee.branch)}`
+    : `${employee.position}, พาร์ทไทม์`;
+};
+
+// Branch a change of an employee belongs to (their home branch; none for part-timers)
+const employeeBranch = (employee: Employee): string | null => (employee.type === 'full-time' ? employee.branch : null);
+
+// Branch a shift change belongs to: the home branch of a full-timer that day, the branch a part-timer works at
+const shiftBranch = (employee: Employee, dateKey: string, before: ShiftEntry | undefined, after: ShiftEntry | undefined): string | null => {
+  if (employee.type === 'full-time') return getHomeBranchOn(employee, dateKey);
+  if (isWorkingShiftObject(after)) return after.branch;
+  if (isWorkingShiftObject(before)) return before.branch;
+  return null;
+};
+
+// Every difference between two versions of the same month. Shifts of employees who were
+// added or removed in the same change are not listed one by one: they move with the employee.
+export const diffMonthData = (before: MonthData, after: MonthData, branches: Branch[]): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  const beforeById: Map<string, Employee> = new Map(before.employees.map((e: Employee) => [e.id, e]));
+  const afterById: Map<string, Employee> = new Map(after.employees.map((e: Employee) => [e.id, e]));
+  const wasRemoved: Set<string> = new Set(before.removedEmployees.map((r: RemovedEmployee) => r.employee.id));
+  const isRemoved: Set<string> = new Set(after.removedEmployees.map((r: RemovedEmployee) => r.employee.id));
+
+  const employeeChange = (employee: Employee, field: AuditField, beforeText: string, afterText: string, branch: string | null = employeeBranch(employee)): void => {
+    changes.push({ target: 'employee', employeeId: employee.id, employeeName: employee.name, branch, dateKey: null, field, before: beforeText, after: afterText });
+  };
+
+  if (before.clinicDayOff !== after.clinicDayOff) {
+    changes.push({ target: 'month', employeeId: null, employeeName: null, branch: null, dateKey: null, field: 'clinicDayOff', before: before.clinicDayOff, after: after.clinicDayOff });
+  }
+
+  // Employees added, restored or changed
+  after.employees.forEach((employee: Employee) => {
+    const previous: Employee | undefined = beforeById.get(employee.id);
+    if (!previous) {
+      employeeChange(employee, wasRemoved.has(employee.id) ? 'restored' : 'added', '', describeEmployee(employee, branches));
+      return;
+    }
+    if (previous.name !== employee.name) employeeChange(employee, 'name', previous.name, employee.name);
+    if (previous.position !== employee.position) employeeChange(employee, 'position', previous.position, employee.position);
+    if (previous.type !== employee.type) {
+      employeeChange(employee, 'type', previous.type === 'full-time' ? 'ประจำ' : 'พาร์ทไทม์', employee.type === 'full-time' ? 'ประจำ' : 'พาร์ทไทม์');
+    }
+    if (previous.type === 'full-time' && employee.type === 'full-time' && previous.branch !== employee.branch) {
+      // Listed under the new branch; the old one is in the text
+      employeeChange(employee, 'branch', getBranchName(branches, previous.branch), getBranchName(branches, employee.branch));
+    }
+    const previousTransfers: string = describeTransfers(previous.transfers, branches);
+    const transfers: string = describeTransfers(employee.transfers, branches);
+    if (previousTransfers !== transfers) employeeChange(employee, 'transfers', previousTransfers, transfers);
+    if (describeEmployment(previous) !== describeEmployment(employee)) employeeChange(employee, 'employment', describeEmployment(previous), describeEmployment(employee));
+    const previousAvailability: string = describeAvailability(previous.availability, branches);
+    const availability: string = describeAvailability(employee.availability, branches);
+    if (previousAvailability !== availability) employeeChange(employee, 'availability', previousAvailability, availability);
+  });
+
+  // Employees removed (soft-deleted, or taken out again by undoing their addition)
+  before.employees.forEach((employee: Employee) => {
+    if (afterById.has(employee.id)) return;
+    employeeChange(employee, 'removed', describeEmployee(employee, branches), isRemoved.has(employee.id) ? 'กู้คืนได้' : '');
+  });
+
+  // Shift cells of employees present on both sides
+  const dateKeys: string[] = [...new Set([...Object.keys(before.monthlySchedule), ...Object.keys(after.monthlySchedule)])].sort();
+  after.employees.forEach((employee: Employee) => {
+    if (!beforeById.has(employee.id)) return;
+    dateKeys.forEach((dateKey: string) => {
+      const beforeEntry: ShiftEntry | undefined = before.monthlySchedule[dateKey]?.[employee.id];
+      const afterEntry: ShiftEntry | undefined = after.monthlySchedule[dateKey]?.[employee.id];
+      const beforeText: string = describeShift(beforeEntry, branches);
+      const afterText: string = describeShift(afterEntry, branches);
+      if (beforeText === afterText) return;
+      changes.push({
+        target: 'shift',
+        employeeId: employee.id,
+        employeeName: employee.name,
+        branch: shiftBranch(employee, dateKey, beforeEntry, afterEntry),
+        dateKey,
+        field: 'shift',
+        before: beforeText,
+        after: afterText,
+      });
+    });
+  });
+
+  return changes;
+};
+
+// Stamp the changes with who made them; the repository assigns the IDs
+export const toAuditEvents = (changes: AuditChange[], context: AuditContext): Omit<AuditEvent, 'id'>[] => {
+  return changes.map((change: AuditChange) => ({ ...context, ...change }));
+};
+
+// Filters of the history panel (null = any)
+export interface AuditFilter {
+  branch: string | null;
+  employeeId: string | null;
+  dateKey: string | null; // Shift date
+}
+
+export const filterAuditEvents = (events: AuditEvent[], filter: AuditFilter): AuditEvent[] => {
+  return events.filter((event: AuditEvent) =>
+    (filter.branch === null || event.branch === filter.branch)
+    && (filter.employeeId === null || event.employeeId === filter.employeeId)
+    && (filter.dateKey === null || event.dateKey === filter.dateKey)
+  );
+};
@@ -0,0 +1,64 @@
+// lib/auditRepository.ts
+import { collection, doc, getDocs, query, where, writeBatch, type Firestore } from 'firebase/firestore';
+import { AuditEvent, decodeAuditEvent } from './auditLog';
+
+// --- Persistence of the audit log ('auditLog/{id}') ---
+// Events are only ever appended; the Firestore rules refuse updates and deletes.
+
+export interface AuditRepository {
+  listEvents: (monthKey: string) => Promise<AuditEvent[]>; // Events of one month document, newest first
+  appendEvents: (events: Omit<AuditEvent, 'id'>[]) => Promise<AuditEvent[]>;
+}
+
+export const AUDIT_LOG_COLLECTION = 'auditLog';
+
+// Firestore accepts at most 500 writes per batch
+const BATCH_SIZE: number = 500;
+
+// Newest first
+const byAtDesc = (a: AuditEvent, b: AuditEvent): number => b.at.localeCompare(a.at);
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreAuditRepository = (db: Firestore): AuditRepository => ({
+  listEvents: async (monthKey: string): Promise<AuditEvent[]> => {
+    const snapshot = await getDocs(query(collection(db, AUDIT_LOG_COLLECTION), where('monthKey', '==', monthKey)));
+    const result: AuditEvent[] = [];
+    snapshot.forEach((eventDoc) => {
+      const event: AuditEvent | null = decodeAuditEvent(eventDoc.id, eventDoc.data());
+      if (event) result.push(event);
+      else console.warn(`Skipped invalid audit event ${eventDoc.id}`);
+    });
+    return result.sort(byAtDesc);
+  },
+
+  appendEvents: async (events: Omit<AuditEvent, 'id'>[]): Promise<AuditEvent[]> => {
+    const created: AuditEvent[] = [];
+    for (let start = 0; start < events.length; start += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      events.slice(start, start + BATCH_SIZE).forEach((event: Omit<AuditEvent, 'id'>) => {
+        const eventRef = doc(collection(db, AUDIT_LOG_COLLECTION));
+        batch.set(eventRef, event);
+        created.push({ id: eventRef.id, ...event });
+      });
+      await batch.commit();
+    }
+    return created;
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryAuditRepository = (initial: AuditEvent[] = []): AuditRepository => {
+  const stored: AuditEvent[] = [...initial];
+  let nextId: number = stored.length + 1;
+  return {
+    listEvents: async (monthKey: string): Promise<AuditEvent[]> => {
+      return stored.filter((event: AuditEvent) => event.monthKey === monthKey).sort(byAtDesc);
+    },
+
+    appendEvents: async (events: Omit<AuditEvent, 'id'>[]): Promise<AuditEvent[]> => {
+      const created: AuditEvent[] = events.map((event: Omit<AuditEvent, 'id'>) => ({ id: `audit-${nextId++}`, ...event }));
+      stored.push(...created);
+      return created;
+    },
+  };
+};
@@ -0,0 +1,76 @@
+// lib/branches.ts
+import type { Branch, BranchTransfer, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { INITIAL_BRANCHES } from './constants';
+import { getHomeBranchOn } from './employees';
+import { isWorkingEntry } from './scheduleUtils';
+
+// --- Branch list helpers ---
+
+// Branches the clinic starts with; IDs follow the order of INITIAL_BRANCHES so migrated data maps the same way everywhere
+export const createInitialBranches = (): Branch[] => {
+  return INITIAL_BRANCHES.map((name: string, index: number) => ({ id: `branch-${index + 1}`, name, archived: false }));
+};
+
+// A new branch ID that is not used yet
+export const createBranchId = (branches: Branch[]): string => {
+  const usedIds: Set<string> = new Set(branches.map((b: Branch) => b.id));
+  let next: number = branches.length + 1;
+  while (usedIds.has(`branch-${next}`)) next++;
+  return `branch-${next}`;
+};
+
+// Branches that can take shifts
+export const getActiveBranches = (branches: Branch[]): Branch[] => {
+  return branches.filter((b: Branch) => !b.archived);
+};
+
+// Display name of a branch ID (the ID itself if the branch is unknown)
+export const getBranchName = (branches: Branch[], branchId: string): string => {
+  return branches.find((b: Branch) => b.id === branchId)?.name ?? branchId;
+};
+
+// Resolve a stored branch reference, which may be an ID or (in data written before IDs existed) a display name
+export const resolveBranchId = (branches: Branch[], reference: string): string | null => {
+  const byId: Branch | undefined = branches.find((b: Branch) => b.id === reference);
+  if (byId) return byId.id;
+  const byName: Branch | undefined = branches.find((b: Branch) => b.name === reference);
+  return byName ? byName.id : null;
+};
+
+// Check a new or changed branch name; returns an error message or null when it can be used
+export const validateBranchName = (branches: Branch[], name: string, branchId: string | null): string | null => {
+  const trimmed: string = name.trim();
+  if (!trimmed) return 'กรุณากรอกชื่อสาขา';
+  if (branches.some((b: Branch) => b.id !== branchId && b.name === trimmed)) return `มีสาขาชื่อ "${trimmed}" อยู่แล้ว`;
+  return null;
+};
+
+// What still points at a branch: full-time employees assigned to it and working shifts on or after a date
+export interface BranchReferences {
+  employees: Employee[]; // Full-timers whose home branch it is, now or after a transfer
+  shiftDates: string[]; // Dates (>= fromDateKey) with at least one working shift at the branch
+}
+
+export const findBranchReferences = (
+  branchId: string,
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  fromDateKey: string,
+): BranchReferences => {
+  const homeEmployees: Employee[] = employees.filter((e: Employee) =>
+    e.type === 'full-time' && (e.branch === branchId || (e.transfers ?? []).some((t: BranchTransfer) => t.branch === branchId))
+  );
+  const employeesById: Map<string, Employee> = new Map(employees.map((e: Employee) => [e.id, e]));
+
+  const shiftDates: string[] = Object.keys(schedule)
+    .filter((dateKey: string) => dateKey >= fromDateKey)
+    .filter((dateKey: string) => Object.entries(schedule[dateKey]).some(([employeeId, entry]: [string, ShiftEntry]) => {
+      if (isWorkingShiftObject(entry)) return entry.branch === branchId;
+      const employee: Employee | undefined = employeesById.get(employeeId);
+      return employee !== undefined && isWorkingEntry(entry) && getHomeBranchOn(employee, dateKey) === branchId;
+    }))
+    .sort();
+
+  return { employees: homeEmployees, shiftDates };
+};
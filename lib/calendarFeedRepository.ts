@@ -0,0 +1,72 @@
+// lib/calendarFeedRepository.ts
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, where, type Firestore } from 'firebase/firestore';
+import { CalendarFeed, decodeCalendarFeed } from './calendarFeeds';
+
+// --- Persistence of calendar feeds ('calendarFeeds/{token}') ---
+
+export interface CalendarFeedRepository {
+  loadFeed: (token: string) => Promise<CalendarFeed | null>; // null when the link does not exist (any more)
+  listFeeds: (employeeId: string | null) => Promise<CalendarFeed[]>; // null = every feed (managers and admins)
+  saveFeed: (feed: CalendarFeed) => Promise<void>;
+  deleteFeed: (token: string) => Promise<void>;
+}
+
+export const CALENDAR_FEEDS_COLLECTION = 'calendarFeeds';
+
+// Fields stored in the document (the token is the document ID)
+const encodeCalendarFeed = (feed: CalendarFeed): Omit<CalendarFeed, 'token'> => {
+  const { token: _token, ...fields } = feed;
+  return fields;
+};
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreCalendarFeedRepository = (db: Firestore): CalendarFeedRepository => ({
+  loadFeed: async (token: string): Promise<CalendarFeed | null> => {
+    const snapshot = await getDoc(doc(db, CALENDAR_FEEDS_COLLECTION, token));
+    return snapshot.exists() ? decodeCalendarFeed(token, snapshot.data()) : null;
+  },
+
+  listFeeds: async (employeeId: string | null): Promise<CalendarFeed[]> => {
+    const feeds = collection(db, CALENDAR_FEEDS_COLLECTION);
+    // Staff may only list the feeds of their own employee record, so they must ask for exactly those
+    const snapshot = await getDocs(employeeId === null ? feeds : query(feeds, where('employeeId', '==', employeeId)));
+    const result: CalendarFeed[] = [];
+    snapshot.forEach((feedDoc) => {
+      const feed: CalendarFeed | null = decodeCalendarFeed(feedDoc.id, feedDoc.data());
+      if (feed) result.push(feed);
+      else console.warn(`Skipped invalid calendar feed ${feedDoc.id}`);
+    });
+    return result;
+  },
+
+  saveFeed: async (feed: CalendarFeed): Promise<void> => {
+    await setDoc(doc(db, CALENDAR_FEEDS_COLLECTION, feed.token), encodeCalendarFeed(feed));
+  },
+
+  deleteFeed: async (token: string): Promise<void> => {
+    await deleteDoc(doc(db, CALENDAR_FEEDS_COLLECTION, token));
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryCalendarFeedRepository = (): CalendarFeedRepository => {
+  const stored: Map<string, CalendarFeed> = new Map();
+  return {
+    loadFeed: async (token: string): Promise<CalendarFeed | null> => {
+      const feed: CalendarFeed | undefined = stored.get(token);
+      return feed ? { ...feed } : null;
+    },
+
+    listFeeds: async (employeeId: string | null): Promise<CalendarFeed[]> => {
+      return [...stored.values()].filter((feed: CalendarFeed) => employeeId === null || feed.employeeId === employeeId);
+    },
+
+    saveFeed: async (feed: CalendarFeed): Promise<void> => {
+      stored.set(feed.token, { ...feed });
+    },
+
+    deleteFeed: async (token: string): Promise<void> => {
+      stored.delete(token);
+    },
+  };
+};
@@ -0,0 +1,32 @@
+// lib/calendarFeeds.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCalendarFeed } from './calendarFeeds';
+
+const stored = {
+  employeeId: 'e1',
+  employeeName: 'สมชาย',
+  ownerUid: 'uid-1',
+  createdAt: '2025-06-01T02:00:00.000Z',
+  updatedAt: '2025-06-10T02:00:00.000Z',
+  months: {
+    '2025-06': [
+      { dateKey: '2025-06-02', shift: 'เช้า', branch: 'branch-1', branchName: 'บึงทับช้าง', start: '09:00', end: '17:00' },
+      { dateKey: '2025-06-03', shift: 'ปิด', branch: null, branchName: null, start: null, end: null },
+    ],
+  },
+};
+
+describe('decodeCalendarFeed', () => {
+  it('keeps readable days and drops the rest', () => {
+    const feed = decodeCalendarFeed('token-1', stored);
+    assert.equal(feed?.token, 'token-1');
+    assert.deepEqual(feed?.months['2025-06'].map((day) => day.dateKey), ['2025-06-02']);
+  });
+
+  it('rejects a feed whose timestamps cannot be read', () => {
+    assert.equal(decodeCalendarFeed('token-1', { ...stored, updatedAt: 'เมื่อวาน' }), null);
+    assert.equal(decodeCalendarFeed('token-1', { ...stored, createdAt: '' }), null);
+    assert.equal(decodeCalendarFeed('token-1', { ...stored, updatedAt: 1718000000000 }), null);
+  });
+});
@@ -0,0 +1,100 @@
+// lib/calendarFeeds.ts
+import type { Branch, Employee, MonthData } from './types';
+import { toMonthKey } from './dates';
+import { isLeaveKind } from './leaveBalances';
+import { PersonalDay, buildPersonalDays, findEmployeeInMonths } from './personalSchedule';
+import { ShiftDefinitions, TIME_PATTERN } from './shiftTimes';
+import { isStatusShift } from './shiftCatalog';
+
+// --- Calendar subscriptions ('calendarFeeds/{token}') ---
+// Calendar apps fetch the .ics URL without signing in, so the feed cannot read the schedules itself.
+// Instead each feed document keeps a copy of the employee's days, refreshed whenever an editor saves a
+// month and whenever the personal page is opened. The random token in the URL is what grants access.
+
+export interface CalendarFeed {
+  token: string; // Document ID
+  employeeId: string;
+  employeeName: string;
+  ownerUid: string; // User who created the link
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp of the last refresh
+  months: Record<string, PersonalDay[]>; // Month key -> days of that month
+}
+
+// Months before the previous one are dropped from the feed when it is refreshed
+const KEPT_PAST_MONTHS: number = 1;
+
+// Random token for a new feed (128 bits, hex)
+export const createFeedToken = (): string => {
+  const bytes: Uint8Array = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte: number) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const decodePersonalDay = (raw: unknown): PersonalDay | null => {
+  if (!isRecord(raw)) return null;
+  const { dateKey, shift, branch, branchName, start, end } = raw;
+  if (typeof dateKey !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) return null;
+  if (typeof shift !== 'string' || (isStatusShift(shift) && !isLeaveKind(shift))) return null;
+  const optionalText = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+  const time = (value: unknown): string | null => (typeof value === 'string' && TIME_PATTERN.test(value) ? value : null);
+  return { dateKey, shift, branch: optionalText(branch), branchName: optionalText(branchName), start: time(start), end: time(end) };
+};
+
+// Validate a stored feed; null when it cannot be used. Unreadable days are dropped.
+export const decodeCalendarFeed = (token: string, raw: unknown): CalendarFeed | null => {
+  if (!isRecord(raw)) return null;
+  const { employeeId, employeeName, ownerUid, createdAt, updatedAt, months } = raw;
+  if (typeof employeeId !== 'string' || typeof employeeName !== 'string' || typeof ownerUid !== 'string') return null;
+  // The feed's DTSTAMP is written from updatedAt, so an unreadable time would break the .ics response
+  const isTimestamp = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+  if (!isTimestamp(createdAt) || !isTimestamp(updatedAt)) return null;
+  const decodedMonths: Record<string, PersonalDay[]> = {};
+  if (isRecord(months)) {
+    Object.entries(months).forEach(([monthKey, days]: [string, unknown]) => {
+      if (!Array.isArray(days)) return;
+      decodedMonths[monthKey] = days.map(decodePersonalDay).filter((day: PersonalDay | null): day is PersonalDay => day !== null);
+    });
+  }
+  return { token, employeeId, employeeName, ownerUid, createdAt, updatedAt, months: decodedMonths };
+};
+
+// Every day of the feed, by date
+export const getFeedDays = (feed: CalendarFeed): PersonalDay[] => {
+  return Object.keys(feed.months).sort().flatMap((monthKey: string) => feed.months[monthKey]);
+};
+
+// The feed with the employee's days of the given months replaced, or null when nothing changed
+export const refreshCalendarFeed = (
+  feed: CalendarFeed,
+  months: Record<string, MonthData>,
+  branches: Branch[],
+  shiftDefinitions: ShiftDefinitions,
+  now: Date
+): CalendarFeed | null => {
+  const oldestMonthKey: string = toMonthKey(now.getFullYear(), now.getMonth() - KEPT_PAST_MONTHS);
+  const refreshed: Record<string, PersonalDay[]> = {};
+  Object.entries(feed.months).forEach(([monthKey, days]: [string, PersonalDay[]]) => {
+    if (monthKey >= oldestMonthKey) refreshed[monthKey] = days;
+  });
+  Object.entries(months).forEach(([monthKey, data]: [string, MonthData]) => {
+    if (monthKey < oldestMonthKey) return;
+    const days: PersonalDay[] = buildPersonalDays(feed.employeeId, monthKey, data, branches, shiftDefinitions);
+    if (days.length > 0) refreshed[monthKey] = days;
+    else delete refreshed[monthKey];
+  });
+  const employee: Employee | null = findEmployeeInMonths(feed.employeeId, months);
+  const employeeName: string = employee?.name ?? feed.employeeName;
+
+  if (employeeName === feed.employeeName && JSON.stringify(sortMonths(refreshed)) === JSON.stringify(sortMonths(feed.months))) return null;
+  return { ...feed, employeeName, months: refreshed, updatedAt: now.toISOString() };
+};
+
+// Same months in key order, for comparisons
+const sortMonths = (months: Record<string, PersonalDay[]>): [string, PersonalDay[]][] => {
+  return Object.entries(months).sort(([a]: [string, PersonalDay[]], [b]: [string, PersonalDay[]]) => a.localeCompare(b));
+};
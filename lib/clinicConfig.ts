@@ -0,0 +1,335 @@
+// lib/clinicConfig.ts
+import type { StaffingRule, BranchStaffingRules, RuleShift } from './staffingRules';
+import type { BranchClosures, Holiday } from './closures';
+import type { Branch } from './types';
+import { createInitialBranches, resolveBranchId } from './branches';
+import { LeaveEntitlement, LeaveKind, LEAVE_KINDS, createDefaultLeaveEntitlements } from './leaveBalances';
+import { ShiftDefinition, ShiftDefinitions, TIME_PATTERN, createDefaultShiftDefinitions } from './shiftTimes';
+import { ShiftType, COLOR_PATTERN, DEFAULT_SHIFT_CATALOG, DEFAULT_NEW_SHIFT_DEFINITION, findShiftType, getShiftCodes, isShiftCodeText } from './shiftCatalog';
+import type { PayRates } from './payroll';
+import { POSITIONS } from './constants';
+import type { RosterTemplate } from './rosterTemplates';
+import type { ShiftCode, ShiftEntry } from './types';
+
+// --- Clinic-wide configuration, stored once (not per month) in 'config/clinic' ---
+//
+// Version history:
+//   1           { schemaVersion: 1, staffingRules }
+//   2           { schemaVersion: 2, staffingRules, branchClosures, holidays } - keyed by branch name
+//   3           { schemaVersion: 3, branches, staffingRules, branchClosures, holidays } - keyed by branch ID
+//   4           { schemaVersion: 4, branches, staffingRules, branchClosures, holidays, leaveEntitlements }
+//   5           { schemaVersion: 5, ..., leaveEntitlements, shiftDefinitions, payRates }
+//   6           { schemaVersion: 6, ..., payRates, positions }
+//   7           { schemaVersion: 7, ..., positions, rosterTemplates }
+//   8 (current) { schemaVersion: 8, ..., rosterTemplates, shiftCatalog } - shift times keyed by the catalog's codes
+
+export const CURRENT_CONFIG_VERSION = 8;
+
+export interface ClinicConfig {
+  branches: Branch[]; // Every branch, including archived ones
+  staffingRules: BranchStaffingRules; // Branch ID -> staffing rules (missing branch = default 3-4 target)
+  branchClosures: Record<string, BranchClosures>; // Branch ID -> closing days (missing branch = clinic-wide day off)
+  holidays: Holiday[]; // Public holidays, closing every branch
+  leaveEntitlements: LeaveEntitlement[]; // Yearly leave days per employee type / position
+  shiftDefinitions: ShiftDefinitions; // Times and paid hours of the working shifts
+  payRates: PayRates; // Part-timer hourly rate per position
+  positions: string[]; // Positions employees are hired into, in display order
+  rosterTemplates: RosterTemplate[]; // Rotation patterns a month can be filled from
+  shiftCatalog: ShiftType[]; // Working shifts the clinic runs, in display order
+}
+
+// The configuration document as it is stored in Firestore
+export interface ClinicConfigDocumentV8 extends ClinicConfig {
+  schemaVersion: 8;
+}
+
+// Configuration used before anything was saved
+export const createDefaultClinicConfig = (): ClinicConfig => ({
+  branches: createInitialBranches(),
+  staffingRules: {},
+  branchClosures: {},
+  holidays: [],
+  leaveEntitlements: createDefaultLeaveEntitlements(),
+  shiftDefinitions: createDefaultShiftDefinitions(),
+  payRates: {},
+  positions: [...POSITIONS],
+  rosterTemplates: [],
+  shiftCatalog: DEFAULT_SHIFT_CATALOG.map((shiftType: ShiftType) => ({ ...shiftType })),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// A headcount limit is a non-negative integer or null
+const decodeLimit = (value: unknown): number | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value;
+  return undefined;
+};
+
+// Validate one staffing rule; returns null when it cannot be used
+const decodeStaffingRule = (raw: unknown): StaffingRule | null => {
+  if (!isRecord(raw)) return null;
+  const { id, shift, position, weekdays } = raw;
+  const min: number | null | undefined = decodeLimit(raw.min);
+  const max: number | null | undefined = decodeLimit(raw.max);
+  if (typeof id !== 'string' || typeof shift !== 'string' || (shift !== 'all' && !isShiftCodeText(shift))) return null;
+  if (position !== null && typeof position !== 'string') return null;
+  if (!Array.isArray(weekdays) || !weekdays.every(isWeekday)) return null;
+  if (min === undefined || max === undefined || (min !== null && max !== null && min > max)) return null;
+  return { id, shift: shift as RuleShift, position: position as string | null, weekdays: weekdays as number[], min, max };
+};
+
+const DATE_KEY_PATTERN: RegExp = /^\d{4}-\d{2}-\d{2}$/;
+
+const isWeekday = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+// Validate the closing rules of one branch; returns null when they cannot be used
+const decodeBranchClosures = (raw: unknown): BranchClosures | null => {
+  if (!isRecord(raw)) return null;
+  const { weekdays, dates } = raw;
+  if (weekdays !== null && !(Array.isArray(weekdays) && weekdays.every(isWeekday))) return null;
+  if (!Array.isArray(dates) || !dates.every((d: unknown) => typeof d === 'string' && DATE_KEY_PATTERN.test(d))) return null;
+  return { weekdays: weekdays as number[] | null, dates: dates as string[] };
+};
+
+// Validate one leave entitlement; returns null when it cannot be used
+const decodeLeaveEntitlement = (raw: unknown): LeaveEntitlement | null => {
+  if (!isRecord(raw) || !isRecord(raw.days)) return null;
+  const { id, employeeType, position } = raw;
+  if (typeof id !== 'string') return null;
+  if (employeeType !== null && employeeType !== 'full-time' && employeeType !== 'part-time') return null;
+  if (position !== null && typeof position !== 'string') return null;
+  const days: Partial<Record<LeaveKind, number | null>> = {};
+  for (const kind of LEAVE_KINDS) {
+    const limit: number | null | undefined = decodeLimit(raw.days[kind]);
+    if (limit === undefined) return null;
+    days[kind] = limit;
+  }
+  return { id, employeeType, position, days: days as Record<LeaveKind, number | null> };
+};
+
+// Validate one shift definition; returns null when it cannot be used
+const decodeShiftDefinition = (raw: unknown): ShiftDefinition | null => {
+  if (!isRecord(raw)) return null;
+  const { start, end, paidHours } = raw;
+  if (typeof start !== 'string' || !TIME_PATTERN.test(start) || typeof end !== 'string' || !TIME_PATTERN.test(end)) return null;
+  if (typeof paidHours !== 'number' || !Number.isFinite(paidHours) || paidHours < 0) return null;
+  return { start, end, paidHours };
+};
+
+// Validate one entry of a roster template ('' or a working shift or day off); returns undefined when it cannot be used
+const decodeTemplateEntry = (raw: unknown, branches: Branch[]): ShiftEntry | undefined => {
+  if (raw === '' || raw === 'หยุด') return raw;
+  if (typeof raw === 'string') return isShiftCodeText(raw) ? raw : undefined;
+  if (!isRecord(raw) || typeof raw.type !== 'string' || !isShiftCodeText(raw.type) || typeof raw.branch !== 'string') return undefined;
+  if (!branches.some((b: Branch) => b.id === raw.branch)) return undefined;
+  return { type: raw.type, branch: raw.branch };
+};
+
+// Validate one shift of the catalog; returns null when it cannot be used
+const decodeShiftType = (raw: unknown): ShiftType | null => {
+  if (!isRecord(raw)) return null;
+  const { code, label, color, countsTowardHeadcount } = raw;
+  if (typeof code !== 'string' || !isShiftCodeText(code) || typeof label !== 'string') return null;
+  if (typeof color !== 'string' || !COLOR_PATTERN.test(color) || typeof countsTowardHeadcount !== 'boolean') return null;
+  return { code, label, color, countsTowardHeadcount };
+};
+
+// Validate one roster template; returns null when it cannot be used
+const decodeRosterTemplate = (raw: unknown, branches: Branch[]): RosterTemplate | null => {
+  if (!isRecord(raw) || !isRecord(raw.shifts)) return null;
+  const { id, name, startDate, weeks } = raw;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof startDate !== 'string' || !DATE_KEY_PATTERN.test(startDate)) return null;
+  if (typeof weeks !== 'number' || !Number.isInteger(weeks) || weeks < 1) return null;
+  const shifts: Record<string, ShiftEntry[]> = {};
+  for (const [employeeId, rawEntries] of Object.entries(raw.shifts)) {
+    if (!Array.isArray(rawEntries) || rawEntries.length !== weeks * 7) return null;
+    const entries: (ShiftEntry | undefined)[] = rawEntries.map((entry: unknown) => decodeTemplateEntry(entry, branches));
+    if (entries.includes(undefined)) return null;
+    shifts[employeeId] = entries as ShiftEntry[];
+  }
+  return { id, name, startDate, weeks, shifts };
+};
+
+// Validate the branch list; returns null when it cannot be used
+const decodeBranches = (raw: unknown): Branch[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const branches: Branch[] = [];
+  for (const item of raw) {
+    if (!isRecord(item) || typeof item.id !== 'string' || !item.id || typeof item.name !== 'string' || typeof item.archived !== 'boolean') return null;
+    if (branches.some((b: Branch) => b.id === item.id)) return null;
+    branches.push({ id: item.id, name: item.name, archived: item.archived });
+  }
+  return branches;
+};
+
+// Decode the configuration document. Unusable parts are dropped (with a warning) rather than
+// rejecting the whole document, so one bad rule never locks the clinic out of its settings.
+export const decodeClinicConfig = (raw: unknown): { value: ClinicConfig; warnings: string[] } => {
+  const warnings: string[] = [];
+  const config: ClinicConfig = createDefaultClinicConfig();
+  if (!isRecord(raw)) {
+    warnings.push('เอกสารการตั้งค่าไม่ใช่ object ใช้ค่าเริ่มต้นแทน');
+    return { value: config, warnings };
+  }
+  // Version 1 had no closing rules; they simply start empty.
+  // Versions 1-2 had no branch list; the initial branches are used and name keys are translated to IDs.
+  // Versions 1-3 had no leave entitlements, versions 1-4 no shift times or pay rates, versions 1-5 no
+  // position catalog, versions 1-6 no roster templates; the defaults are used.
+  // Versions 1-7 had no shift catalog: their only shifts were 'เช้า' and 'บ่าย', which is the default catalog.
+  if (![1, 2, 3, 4, 5, 6, 7, CURRENT_CONFIG_VERSION].includes(raw.schemaVersion as number)) {
+    warnings.push(`ไม่รองรับ schemaVersion ${String(raw.schemaVersion)} ใช้ค่าเริ่มต้นแทน`);
+    return { value: config, warnings };
+  }
+
+  if ((raw.schemaVersion as number) >= 3) {
+    const branches: Branch[] | null = decodeBranches(raw.branches);
+    if (branches) {
+      config.branches = branches;
+    } else {
+      warnings.push('รายชื่อสาขาไม่ถูกต้อง ใช้สาขาเริ่มต้นแทน');
+    }
+  }
+
+  // Translate a key of staffingRules/branchClosures to a branch ID, dropping unknown branches
+  const resolveKey = (key: string): string | null => {
+    const branchId: string | null = resolveBranchId(config.branches, key);
+    if (branchId === null) warnings.push(`ข้ามการตั้งค่าของสาขาที่ไม่รู้จัก "${key}"`);
+    return branchId;
+  };
+
+  if (isRecord(raw.staffingRules)) {
+    Object.entries(raw.staffingRules).forEach(([key, rules]) => {
+      const branch: string | null = resolveKey(key);
+      if (branch === null) return;
+      if (!Array.isArray(rules)) {
+        warnings.push(`กฎของสาขา "${branch}" ไม่ใช่ array`);
+        return;
+      }
+      config.staffingRules[branch] = [];
+      rules.forEach((rawRule: unknown, index: number) => {
+        const rule: StaffingRule | null = decodeStaffingRule(rawRule);
+        if (rule) {
+          config.staffingRules[branch].push(rule);
+        } else {
+          warnings.push(`ข้ามกฎที่ไม่ถูกต้อง ${branch}[${index}]`);
+        }
+      });
+    });
+  }
+
+  if (isRecord(raw.branchClosures)) {
+    Object.entries(raw.branchClosures).forEach(([key, rawClosures]) => {
+      const branch: string | null = resolveKey(key);
+      if (branch === null) return;
+      const closures: BranchClosures | null = decodeBranchClosures(rawClosures);
+      if (closures) {
+        config.branchClosures[branch] = closures;
+      } else {
+        warnings.push(`ข้ามวันปิดของสาขา "${branch}" ที่ไม่ถูกต้อง`);
+      }
+    });
+  }
+
+  if (Array.isArray(raw.holidays)) {
+    raw.holidays.forEach((holiday: unknown, index: number) => {
+      if (isRecord(holiday) && typeof holiday.date === 'string' && DATE_KEY_PATTERN.test(holiday.date) && typeof holiday.name === 'string') {
+        config.holidays.push({ date: holiday.date, name: holiday.name });
+      } else {
+        warnings.push(`ข้ามวันหยุดที่ไม่ถูกต้อง holidays[${index}]`);
+      }
+    });
+  }
+
+  if ((raw.schemaVersion as number) >= 4 && Array.isArray(raw.leaveEntitlements)) {
+    config.leaveEntitlements = [];
+    raw.leaveEntitlements.forEach((rawEntitlement: unknown, index: number) => {
+      const entitlement: LeaveEntitlement | null = decodeLeaveEntitlement(rawEntitlement);
+      if (entitlement) {
+        config.leaveEntitlements.push(entitlement);
+      } else {
+        warnings.push(`ข้ามสิทธิ์วันลาที่ไม่ถูกต้อง leaveEntitlements[${index}]`);
+      }
+    });
+  }
+
+  if (raw.schemaVersion === CURRENT_CONFIG_VERSION && Array.isArray(raw.shiftCatalog)) {
+    const catalog: ShiftType[] = [];
+    raw.shiftCatalog.forEach((rawShift: unknown, index: number) => {
+      const shiftType: ShiftType | null = decodeShiftType(rawShift);
+      if (shiftType && !findShiftType(catalog, shiftType.code)) catalog.push(shiftType);
+      else warnings.push(`ข้ามกะที่ไม่ถูกต้อง shiftCatalog[${index}]`);
+    });
+    if (catalog.length > 0) config.shiftCatalog = catalog;
+  }
+  const shiftCodes: ShiftCode[] = getShiftCodes(config.shiftCatalog);
+
+  // Times of shifts no longer in the catalog are kept, so the months that still hold them keep their hours
+  if ((raw.schemaVersion as number) >= 5 && isRecord(raw.shiftDefinitions)) {
+    const { clinic, branches } = raw.shiftDefinitions;
+    const definedCodes: ShiftCode[] = isRecord(clinic) ? Object.keys(clinic).filter(isShiftCodeText) : [];
+    [...shiftCodes, ...definedCodes.filter((shift: ShiftCode) => !shiftCodes.includes(shift))].forEach((shift: ShiftCode) => {
+      const definition: ShiftDefinition | null = isRecord(clinic) ? decodeShiftDefinition(clinic[shift]) : null;
+      if (definition) config.shiftDefinitions.clinic[shift] = definition;
+      else warnings.push(`เวลากะ${shift}ไม่ถูกต้อง ใช้ค่าเริ่มต้นแทน`);
+    });
+    if (isRecord(branches)) {
+      Object.entries(branches).forEach(([key, rawShifts]) => {
+        const branch: string | null = resolveKey(key);
+        if (branch === null || !isRecord(rawShifts)) return;
+        Object.keys(rawShifts).filter(isShiftCodeText).forEach((shift: ShiftCode) => {
+          const definition: ShiftDefinition | null = decodeShiftDefinition(rawShifts[shift]);
+          if (definition) config.shiftDefinitions.branches[branch] = { ...config.shiftDefinitions.branches[branch], [shift]: definition };
+          else warnings.push(`ข้ามเวลากะ${shift}ของสาขา "${branch}" ที่ไม่ถูกต้อง`);
+        });
+      });
+    }
+  }
+
+  // Every shift of the catalog has clinic-wide times
+  shiftCodes.forEach((shift: ShiftCode) => {
+    config.shiftDefinitions.clinic[shift] = config.shiftDefinitions.clinic[shift] ?? { ...DEFAULT_NEW_SHIFT_DEFINITION };
+  });
+
+  if ((raw.schemaVersion as number) >= 5 && isRecord(raw.payRates)) {
+    Object.entries(raw.payRates).forEach(([position, rate]) => {
+      if (typeof rate === 'number' && Number.isFinite(rate) && rate >= 0) config.payRates[position] = rate;
+      else warnings.push(`ข้ามค่าจ้างของตำแหน่ง "${position}" ที่ไม่ถูกต้อง`);
+    });
+  }
+
+  if ((raw.schemaVersion as number) >= 6 && Array.isArray(raw.positions)) {
+    const positions: string[] = [];
+    raw.positions.forEach((position: unknown, index: number) => {
+      if (typeof position === 'string' && position.trim() && !positions.includes(position)) positions.push(position);
+      else warnings.push(`ข้ามตำแหน่งที่ไม่ถูกต้อง positions[${index}]`);
+    });
+    if (positions.length > 0) config.positions = positions;
+  }
+
+  if ((raw.schemaVersion as number) >= 7 && Array.isArray(raw.rosterTemplates)) {
+    raw.rosterTemplates.forEach((rawTemplate: unknown, index: number) => {
+      const template: RosterTemplate | null = decodeRosterTemplate(rawTemplate, config.branches);
+      if (template) config.rosterTemplates.push(template);
+      else warnings.push(`ข้ามแม่แบบตารางเวรที่ไม่ถูกต้อง rosterTemplates[${index}]`);
+    });
+  }
+  return { value: config, warnings };
+};
+
+// Build the stored document from the configuration
+export const encodeClinicConfig = (config: ClinicConfig): ClinicConfigDocumentV8 => ({
+  schemaVersion: CURRENT_CONFIG_VERSION,
+  branches: config.branches,
+  staffingRules: config.staffingRules,
+  branchClosures: config.branchClosures,
+  holidays: config.holidays,
+  leaveEntitlements: config.leaveEntitlements,
+  shiftDefinitions: config.shiftDefinitions,
+  payRates: config.payRates,
+  positions: config.positions,
+  rosterTemplates: config.rosterTemplates,
+  shiftCatalog: config.shiftCatalog,
+});
@@ -0,0 +1,62 @@
+// lib/closures.ts
+import { toDateKey } from './dates';
+import { isClinicDayOff } from './scheduleUtils';
+import { DAY_NAMES } from './constants';
+
+// --- Branch closing days ---
+// A branch is closed on a day when any of these apply:
+//   1. its weekly closing days (or the clinic-wide day off when the branch has none of its own)
+//   2. a one-off closing date of that branch
+//   3. a public holiday (applies to every branch)
+
+// Closing rules of one branch
+export interface BranchClosures {
+  weekdays: number[] | null; // Weekly closing days (0 = Sunday); null = follow the clinic-wide day off
+  dates: string[]; // One-off closing dates ('2025-06-15')
+}
+
+// A public holiday, closing every branch
+export interface Holiday {
+  date: string; // Date key ('2025-04-13')
+  name: string; // e.g. 'วันสงกรานต์'
+}
+
+// Everything needed to decide whether a branch is closed
+export interface ClosureSettings {
+  clinicDayOff: string; // Clinic-wide weekly day off (one of DAY_NAMES)
+  branchClosures: Record<string, BranchClosures>; // Branch ID -> closing rules (missing = clinic-wide day off only)
+  holidays: Holiday[];
+}
+
+// Closing rules of a branch, falling back to the clinic-wide day off
+export const getBranchClosures = (settings: ClosureSettings, branch: string): BranchClosures => {
+  return settings.branchClosures[branch] ?? { weekdays: null, dates: [] };
+};
+
+// Why a branch is closed on a day (shown to the user), or null when it is open
+export const getClosureReason = (settings: ClosureSettings, branch: string, year: number, month: number, day: number): string | null => {
+  const dateKey: string = toDateKey(year, month, day);
+  const holiday: Holiday | undefined = settings.holidays.find((h: Holiday) => h.date === dateKey);
+  if (holiday) return `วันหยุดนักขัตฤกษ์ (${holiday.name})`;
+
+  const closures: BranchClosures = getBranchClosures(settings, branch);
+  if (closures.dates.includes(dateKey)) return 'สาขาปิดเฉพาะวันนี้';
+
+  const weekday: number = new Date(year, month, day).getDay();
+  if (closures.weekdays === null) {
+    return isClinicDayOff(year, month, day, settings.clinicDayOff) ? `คลินิกปิดทำการในวัน${DAY_NAMES[weekday]}` : null;
+  }
+  return closures.weekdays.includes(weekday) ? `สาขาปิดทำการในวัน${DAY_NAMES[weekday]}` : null;
+};
+
+// Whether a branch is closed on a day
+export const isBranchClosed = (settings: ClosureSettings, branch: string, year: number, month: number, day: number): boolean => {
+  return getClosureReason(settings, branch, year, month, day) !== null;
+};
+
+// Merge imported holidays into a list; an imported holiday replaces one on the same date
+export const mergeHolidays = (current: Holiday[], imported: Holiday[]): Holiday[] => {
+  const byDate: Map<string, Holiday> = new Map(current.map((h: Holiday) => [h.date, h]));
+  imported.forEach((h: Holiday) => byDate.set(h.date, h));
+  return Array.from(byDate.values()).sort((a: Holiday, b: Holiday) => a.date.localeCompare(b.date));
+};
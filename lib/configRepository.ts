@@ -0,0 +1,53 @@
+// lib/configRepository.ts
+import { doc, getDoc, setDoc, serverTimestamp, type Firestore } from 'firebase/firestore';
+import { ClinicConfig, createDefaultClinicConfig, decodeClinicConfig, encodeClinicConfig } from './clinicConfig';
+
+// --- Persistence of the clinic-wide configuration ('config/clinic') ---
+
+// Anything that can load and save the clinic configuration
+export interface ConfigRepository {
+  loadConfig: () => Promise<ClinicConfig>; // Default configuration when nothing was saved yet
+  saveConfig: (config: ClinicConfig) => Promise<void>;
+}
+
+// Location of the configuration document
+export const CONFIG_COLLECTION = 'config';
+export const CLINIC_CONFIG_ID = 'clinic';
+
+// Decode a stored document, logging the parts that had to be dropped
+const decodeAndWarn = (raw: unknown): ClinicConfig => {
+  const { value, warnings } = decodeClinicConfig(raw);
+  if (warnings.length > 0) {
+    console.warn('Clinic configuration loaded with warnings', warnings);
+  }
+  return value;
+};
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreConfigRepository = (db: Firestore): ConfigRepository => ({
+  loadConfig: async (): Promise<ClinicConfig> => {
+    const snapshot = await getDoc(doc(db, CONFIG_COLLECTION, CLINIC_CONFIG_ID));
+    return snapshot.exists() ? decodeAndWarn(snapshot.data()) : createDefaultClinicConfig();
+  },
+
+  saveConfig: async (config: ClinicConfig): Promise<void> => {
+    await setDoc(doc(db, CONFIG_COLLECTION, CLINIC_CONFIG_ID), {
+      ...encodeClinicConfig(config),
+      updatedAt: serverTimestamp(),
+    });
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryConfigRepository = (initial?: unknown): ConfigRepository => {
+  let stored: string | null = initial === undefined ? null : JSON.stringify(initial);
+  return {
+    loadConfig: async (): Promise<ClinicConfig> => {
+      return stored === null ? createDefaultClinicConfig() : decodeAndWarn(JSON.parse(stored));
+    },
+
+    saveConfig: async (config: ClinicConfig): Promise<void> => {
+      stored = JSON.stringify(encodeClinicConfig(config));
+    },
+  };
+};
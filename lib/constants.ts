@@ -0,0 +1,31 @@
+// lib/constants.ts
+// --- Clinic-wide constants shared by the UI and the data layer ---
+
+// Initial branches for the clinic (9 branches as per prompt + new ones)
+export const INITIAL_BRANCHES: string[] = [
+  'บึงทับช้าง', 'บัวใหญ่', 'โนนสูง', 'ขามสะแกแสง', 'หนองไข่น้ำ',
+  'พนมวันท์', 'วังน้ำเขียว', 'เคหะ', 'โนนไทย', // Replaced 'อโศก' with 'โนนไทย'
+  'จักราช' // Added 'จักราช'
+];
+
+// Positions available in the clinic
+export const POSITIONS: string[] = ['แพทย์แผนไทย', 'ผู้ช่วยแพทย์', 'พนักงานนวด'];
+
+// Day names for clinic day off selection (index = Date#getDay), including 'ไม่มี'
+export const DAY_NAMES: string[] = ['อาทิตย์', 'จันทร์', 'อังคาร', 'พุธ', 'พฤหัสบดี', 'ศุกร์', 'เสาร์', 'ไม่มี'];
+
+// Value of clinicDayOff meaning the clinic has no weekly day off
+export const NO_DAY_OFF: string = 'ไม่มี';
+
+// Value of Employee.branch used for part-time staff
+export const PART_TIME_BRANCH: string = 'พาร์ทไทม์';
+
+// Default clinic-wide day off
+export const DEFAULT_CLINIC_DAY_OFF: string = 'อาทิตย์';
+
+// Target number of working staff per branch per open day
+export const STAFF_TARGET_MIN: number = 3;
+export const STAFF_TARGET_MAX: number = 4;
+
+// Short day names (index = Date#getDay), used where space is tight
+export const SHORT_DAY_NAMES: string[] = ['อา.', 'จ.', 'อ.', 'พ.', 'พฤ.', 'ศ.', 'ส.'];
@@ -0,0 +1,23 @@
+// lib/dates.ts
+// --- Helpers for building the string keys used by the schedule and by Firestore documents ---
+
+// Build a date key such as '2025-06-01' (month is 0-indexed, like Date#getMonth)
+export const toDateKey = (year: number, month: number, day: number): string => {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Build a month key such as '2025-06', used as the Firestore document ID for a month
+export const toMonthKey = (year: number, month: number): string => {
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+// Check whether a date key ('2025-06-01') belongs to a month key ('2025-06')
+export const isDateKeyInMonth = (dateKey: string, monthKey: string): boolean => {
+  return dateKey.startsWith(`${monthKey}-`);
+};
+
+// Parse a date key ('2025-06-01') into a local Date (new Date('2025-06-01') would be UTC midnight)
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
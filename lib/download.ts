@@ -0,0 +1,13 @@
+// lib/download.ts
+// --- Save a generated file from the browser ---
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url: string = URL.createObjectURL(blob);
+  const link: HTMLAnchorElement = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,147 @@
+// lib/employeeImport.ts
+import type { Branch, Employee } from './types';
+import { resolveBranchId, getActiveBranches } from './branches';
+import { PART_TIME_BRANCH } from './constants';
+import { createEmployeeId } from './employees';
+
+// --- Bulk import of employees from spreadsheet rows ---
+// Rows are mapped to Employee fields, checked, and compared with the current list before anything is applied.
+
+export type EmployeeField = 'name' | 'position' | 'type' | 'branch';
+
+export const EMPLOYEE_FIELDS: EmployeeField[] = ['name', 'position', 'type', 'branch'];
+
+export const EMPLOYEE_FIELD_LABELS: Record<EmployeeField, string> = {
+  name: 'ชื่อ-นามสกุล',
+  position: 'ตำแหน่ง',
+  type: 'ประเภท',
+  branch: 'สาขา',
+};
+
+// Column index of each field in the spreadsheet (null = not in the file)
+export type EmployeeColumnMapping = Record<EmployeeField, number | null>;
+
+// Header texts recognised for each field
+const HEADER_ALIASES: Record<EmployeeField, string[]> = {
+  name: ['name', 'ชื่อ', 'ชื่อ-นามสกุล', 'ชื่อ นามสกุล', 'พนักงาน'],
+  position: ['position', 'ตำแหน่ง'],
+  type: ['type', 'ประเภท', 'ประเภทพนักงาน'],
+  branch: ['branch', 'สาขา', 'สาขาประจำ'],
+};
+
+// Values recognised for the employee type
+const FULL_TIME_VALUES: string[] = ['full-time', 'fulltime', 'ประจำ', 'พนักงานประจำ', 'เต็มเวลา'];
+const PART_TIME_VALUES: string[] = ['part-time', 'parttime', 'พาร์ทไทม์', 'พาร์ตไทม์', 'ชั่วคราว'];
+
+// Guess the mapping from the header row
+export const guessEmployeeMapping = (header: string[]): EmployeeColumnMapping => {
+  const normalized: string[] = header.map((cell: string) => cell.trim().toLowerCase());
+  const mapping: EmployeeColumnMapping = { name: null, position: null, type: null, branch: null };
+  EMPLOYEE_FIELDS.forEach((field: EmployeeField) => {
+    const index: number = normalized.findIndex((cell: string) => HEADER_ALIASES[field].includes(cell));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+export type EmployeeImportStatus = 'new' | 'update' | 'unchanged' | 'error';
+
+// One spreadsheet row after checking
+export interface EmployeeImportRow {
+  rowNumber: number; // 1-based, as shown by the spreadsheet program
+  employee: Omit<Employee, 'id'> | null; // null when the row cannot be imported
+  existingId: string | null; // Employee with the same name already in the list
+  status: EmployeeImportStatus;
+  issues: string[];
+}
+
+const parseEmployeeType = (value: string): Employee['type'] | null => {
+  const normalized: string = value.trim().toLowerCase();
+  if (FULL_TIME_VALUES.includes(normalized)) return 'full-time';
+  if (PART_TIME_VALUES.includes(normalized)) return 'part-time';
+  return null;
+};
+
+// Check every data row (the header row is skipped) against the branches, the position catalog and the current employees
+export const previewEmployeeImport = (
+  rows: string[][],
+  mapping: EmployeeColumnMapping,
+  branches: Branch[],
+  positions: string[],
+  existing: Employee[],
+): EmployeeImportRow[] => {
+  const activeBranches: Branch[] = getActiveBranches(branches);
+  const existingByName: Map<string, Employee> = new Map(existing.map((e: Employee) => [e.name.trim(), e]));
+  const seenNames: Map<string, number> = new Map();
+  const cell = (row: string[], field: EmployeeField): string => {
+    const index: number | null = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  const result: EmployeeImportRow[] = [];
+  rows.slice(1).forEach((row: string[], index: number) => {
+    const rowNumber: number = index + 2;
+    if (row.every((value: string) => value.trim() === '')) return; // Blank line
+
+    const issues: string[] = [];
+    const name: string = cell(row, 'name');
+    const position: string = cell(row, 'position');
+    const branchText: string = cell(row, 'branch');
+    if (!name) issues.push('ไม่มีชื่อ');
+    if (!position) issues.push('ไม่มีตำแหน่ง');
+    else if (!positions.includes(position)) issues.push(`ไม่มีตำแหน่ง "${position}" ในรายการตำแหน่งงาน`);
+
+    // The type column is optional: 'พาร์ทไทม์' in the branch column also means part-time
+    let type: Employee['type'] | null = mapping.type === null ? 'full-time' : parseEmployeeType(cell(row, 'type'));
+    if (branchText === PART_TIME_BRANCH) type = 'part-time';
+    if (type === null) issues.push(`ประเภทไม่ถูกต้อง: "${cell(row, 'type')}"`);
+
+    let branch: string = PART_TIME_BRANCH;
+    if (type === 'full-time') {
+      const branchId: string | null = resolveBranchId(activeBranches, branchText);
+      if (branchId === null) {
+        issues.push(branchText ? `ไม่พบสาขา "${branchText}"` : 'ไม่มีสาขา');
+      } else {
+        branch = branchId;
+      }
+    }
+
+    if (name) {
+      const firstRow: number | undefined = seenNames.get(name);
+      if (firstRow !== undefined) issues.push(`ชื่อซ้ำกับแถว ${firstRow}`);
+      else seenNames.set(name, rowNumber);
+    }
+
+    const existingEmployee: Employee | undefined = existingByName.get(name);
+    if (issues.length > 0 || type === null) {
+      result.push({ rowNumber, employee: null, existingId: existingEmployee?.id ?? null, status: 'error', issues });
+      return;
+    }
+
+    const employee: Omit<Employee, 'id'> = { name, position, type, branch };
+    let status: EmployeeImportStatus = 'new';
+    if (existingEmployee) {
+      const isSame: boolean = existingEmployee.position === position && existingEmployee.type === type && existingEmployee.branch === branch;
+      status = isSame ? 'unchanged' : 'update';
+    }
+    result.push({ rowNumber, employee, existingId: existingEmployee?.id ?? null, status, issues });
+  });
+  return result;
+};
+
+// Apply the importable rows: new employees are appended, existing ones (same name) updated in place
+export const applyEmployeeImport = (existing: Employee[], rows: EmployeeImportRow[]): Employee[] => {
+  const employees: Employee[] = [...existing];
+  rows.forEach((row: EmployeeImportRow) => {
+    if (!row.employee || row.status === 'error' || row.status === 'unchanged') return;
+    if (row.existingId !== null) {
+      const index: number = employees.findIndex((e: Employee) => e.id === row.existingId);
+      const { availability, ...previous } = employees[index];
+      // Availability only belongs to part-timers
+      employees[index] = { ...previous, ...row.employee, ...(row.employee.type === 'part-time' && availability ? { availability } : {}) };
+    } else {
+      employees.push({ id: createEmployeeId(row.employee.type), ...row.employee });
+    }
+  });
+  return employees;
+};
@@ -0,0 +1,94 @@
+// lib/employees.ts
+import type { BranchTransfer, Employee } from './types';
+
+// --- Employee lifecycle: IDs, positions, employment window and home branch transfers ---
+// A month document keeps its own copy of the employees, so past months keep the branch and dates
+// they had; these helpers answer "where and whether someone works" for a given day.
+
+// A new employee ID ('emp-3f9a1c2b7d04', 'pte-...'). Random rather than counted, so an ID is never
+// handed out again after someone was deleted, whichever month the old shifts live in.
+export const createEmployeeId = (type: Employee['type']): string => {
+  const bytes: Uint8Array = new Uint8Array(6);
+  crypto.getRandomValues(bytes);
+  return `${type === 'full-time' ? 'emp' : 'pte'}-${Array.from(bytes, (byte: number) => byte.toString(16).padStart(2, '0')).join('')}`;
+};
+
+// First and last date keys of a month key ('2025-02' -> '2025-02-01', '2025-02-28')
+const getMonthBounds = (monthKey: string): { first: string; last: string } => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return { first: `${monthKey}-01`, last: `${monthKey}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}` };
+};
+
+// Whether the employee is employed on a day
+export const isEmployedOn = (employee: Employee, dateKey: string): boolean => {
+  return (employee.startDate === undefined || employee.startDate <= dateKey) && (employee.endDate === undefined || employee.endDate >= dateKey);
+};
+
+// Whether the employee is employed on at least one day of the month
+export const isEmployedInMonth = (employee: Employee, monthKey: string): boolean => {
+  const { first, last } = getMonthBounds(monthKey);
+  return (employee.startDate === undefined || employee.startDate <= last) && (employee.endDate === undefined || employee.endDate >= first);
+};
+
+// Home branch of a full-timer on a day (the latest transfer in effect, else `branch`)
+export const getHomeBranchOn = (employee: Employee, dateKey: string): string => {
+  let branch: string = employee.branch;
+  (employee.transfers ?? []).forEach((transfer: BranchTransfer) => {
+    if (transfer.date <= dateKey) branch = transfer.branch;
+  });
+  return branch;
+};
+
+// Every home branch a full-timer has during the month (one, or more when transferred mid-month)
+export const getHomeBranchesInMonth = (employee: Employee, monthKey: string): string[] => {
+  if (employee.type === 'part-time') return [];
+  const { first, last } = getMonthBounds(monthKey);
+  const branches: string[] = [getHomeBranchOn(employee, first)];
+  (employee.transfers ?? []).forEach((transfer: BranchTransfer) => {
+    if (transfer.date > first && transfer.date <= last && !branches.includes(transfer.branch)) branches.push(transfer.branch);
+  });
+  return branches;
+};
+
+// The employee as a new month starts: transfers in effect on its first day become the home branch
+export const settleTransfers = (employee: Employee, monthKey: string): Employee => {
+  if (!employee.transfers) return employee;
+  const { first } = getMonthBounds(monthKey);
+  const { transfers, ...rest } = employee;
+  const pending: BranchTransfer[] = transfers.filter((t: BranchTransfer) => t.date > first);
+  const settled: Employee = { ...rest, branch: getHomeBranchOn(employee, first) };
+  return pending.length > 0 ? { ...settled, transfers: pending } : settled;
+};
+
+// Add a transfer (replacing one on the same date), keeping the list ordered by date
+export const addTransfer = (employee: Employee, transfer: BranchTransfer): Employee => {
+  const others: BranchTransfer[] = (employee.transfers ?? []).filter((t: BranchTransfer) => t.date !== transfer.date);
+  return { ...employee, transfers: [...others, transfer].sort((a: BranchTransfer, b: BranchTransfer) => a.date.localeCompare(b.date)) };
+};
+
+// Remove the transfer on a date
+export const removeTransfer = (employee: Employee, date: string): Employee => {
+  const { transfers, ...rest } = employee;
+  const remaining: BranchTransfer[] = (transfers ?? []).filter((t: BranchTransfer) => t.date !== date);
+  return remaining.length > 0 ? { ...rest, transfers: remaining } : rest;
+};
+
+// Check the dates of an employee; returns an error message or null when they can be saved
+export const validateEmployment = (employee: Employee): string | null => {
+  if (employee.startDate !== undefined && employee.endDate !== undefined && employee.endDate < employee.startDate) {
+    return 'วันสิ้นสุดการจ้างต้องไม่ก่อนวันเริ่มงาน';
+  }
+  for (const transfer of employee.transfers ?? []) {
+    if (employee.type !== 'full-time') return 'พนักงานพาร์ทไทม์ไม่มีสาขาประจำให้ย้าย';
+    if (!isEmployedOn(employee, transfer.date)) return `วันที่ย้ายสาขา ${transfer.date} อยู่นอกช่วงการจ้าง`;
+  }
+  return null;
+};
+
+// Check a new position name for the catalog; returns an error message or null when it can be used
+export const validatePositionName = (positions: string[], name: string): string | null => {
+  const trimmed: string = name.trim();
+  if (!trimmed) return 'กรุณากรอกชื่อตำแหน่ง';
+  if (positions.includes(trimmed)) return `มีตำแหน่ง "${trimmed}" อยู่แล้ว`;
+  return null;
+};
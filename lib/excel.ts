@@ -0,0 +1,10 @@
+// lib/excel.ts
+// --- On-demand loading of exceljs, so it only weighs on the page when a spreadsheet is read or written ---
+
+export type ExcelJSModule = typeof import('exceljs');
+
+export const loadExcelJS = async (): Promise<ExcelJSModule> => {
+  const loaded = await import('exceljs');
+  // exceljs is CommonJS; depending on the bundler its exports arrive as the default export
+  return (loaded as unknown as { default?: ExcelJSModule }).default ?? loaded;
+};
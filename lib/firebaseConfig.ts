@@ -0,0 +1,73 @@
+// lib/firebaseConfig.ts
+import type { FirebaseOptions } from 'firebase/app';
+
+// --- Firebase settings read from NEXT_PUBLIC_* environment variables (see .env.example) ---
+
+// Ports of the local emulators, same as firebase.json
+export const FIRESTORE_EMULATOR_PORT: number = 8080;
+export const AUTH_EMULATOR_PORT: number = 9099;
+
+// Project used with the emulators when none is given; 'demo-' projects never reach production
+export const DEFAULT_EMULATOR_PROJECT_ID: string = 'demo-timetable-cvd';
+
+export interface FirebaseSettings {
+  options: FirebaseOptions;
+  emulatorHost: string | null; // Host of the local emulators, or null to use the real project
+}
+
+// The variables this module reads. Next.js only inlines NEXT_PUBLIC_* variables that are
+// written out in full, so firebase.ts passes each of them explicitly.
+export interface FirebaseEnv {
+  NEXT_PUBLIC_FIREBASE_API_KEY?: string;
+  NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN?: string;
+  NEXT_PUBLIC_FIREBASE_PROJECT_ID?: string;
+  NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET?: string;
+  NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID?: string;
+  NEXT_PUBLIC_FIREBASE_APP_ID?: string;
+  NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID?: string;
+  NEXT_PUBLIC_USE_FIREBASE_EMULATORS?: string; // 'true' to connect to the emulators
+  NEXT_PUBLIC_FIREBASE_EMULATOR_HOST?: string; // Defaults to 'localhost'
+}
+
+const REQUIRED_KEYS: (keyof FirebaseEnv)[] = [
+  'NEXT_PUBLIC_FIREBASE_API_KEY',
+  'NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN',
+  'NEXT_PUBLIC_FIREBASE_PROJECT_ID',
+  'NEXT_PUBLIC_FIREBASE_APP_ID',
+];
+
+// Validate the environment; throws with the names of every missing variable.
+// With the emulators nothing is required, since they accept any key.
+export const readFirebaseSettings = (env: FirebaseEnv): FirebaseSettings => {
+  const value = (key: keyof FirebaseEnv): string | undefined => env[key]?.trim() || undefined;
+
+  if (value('NEXT_PUBLIC_USE_FIREBASE_EMULATORS') === 'true') {
+    const projectId: string = value('NEXT_PUBLIC_FIREBASE_PROJECT_ID') ?? DEFAULT_EMULATOR_PROJECT_ID;
+    return {
+      options: {
+        apiKey: value('NEXT_PUBLIC_FIREBASE_API_KEY') ?? 'emulator',
+        authDomain: `${projectId}.firebaseapp.com`,
+        projectId,
+        appId: value('NEXT_PUBLIC_FIREBASE_APP_ID') ?? 'emulator',
+      },
+      emulatorHost: value('NEXT_PUBLIC_FIREBASE_EMULATOR_HOST') ?? 'localhost',
+    };
+  }
+
+  const missing: string[] = REQUIRED_KEYS.filter((key: keyof FirebaseEnv) => value(key) === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing Firebase configuration: ${missing.join(', ')}. Copy .env.example to .env.local and fill it in, or set NEXT_PUBLIC_USE_FIREBASE_EMULATORS=true.`);
+  }
+  return {
+    options: {
+      apiKey: value('NEXT_PUBLIC_FIREBASE_API_KEY'),
+      authDomain: value('NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN'),
+      projectId: value('NEXT_PUBLIC_FIREBASE_PROJECT_ID'),
+      storageBucket: value('NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET'),
+      messagingSenderId: value('NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID'),
+      appId: value('NEXT_PUBLIC_FIREBASE_APP_ID'),
+      measurementId: value('NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID'),
+    },
+    emulatorHost: null,
+  };
+};
@@ -0,0 +1,95 @@
+// lib/gridEditing.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BaseShiftString, Branch, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { ClosureSettings } from './closures';
+import { CellEdit, CellEditCheck, checkCellEdit, fillGridRange, fillGridRangeFrom, keepsOtherBranchBooking, pasteIntoGridRange } from './gridEditing';
+import { DEFAULT_SHIFT_CATALOG } from './shiftCatalog';
+
+const YEAR: number = 2025;
+const MONTH: number = 5; // June 2025, the 1st is a Sunday
+
+const branches: Branch[] = [
+  { id: 'branch-1', name: 'บึงทับช้าง', archived: false },
+  { id: 'branch-2', name: 'บัวใหญ่', archived: false },
+];
+const closures: ClosureSettings = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+const fullTimer: Employee = { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' };
+const partTimer: Employee = { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' };
+const employees: Employee[] = [fullTimer, partTimer];
+
+// p1 works at branch-2 on the 3rd, at branch-1 on the 4th
+const schedule: MonthlySchedule = {
+  '2025-06-03': { e1: 'เช้า', p1: { type: 'บ่าย', branch: 'branch-2' } },
+  '2025-06-04': { e1: 'เช้า', p1: { type: 'เช้า', branch: 'branch-1' } },
+};
+
+// What the branch-1 grid shows: a booking at another branch is an empty cell
+const shownAtBranch1 = (employeeId: string, day: number): BaseShiftString => {
+  const entry: ShiftEntry | undefined = schedule[`2025-06-0${day}`]?.[employeeId];
+  if (isWorkingShiftObject(entry)) return entry.branch === 'branch-1' ? entry.type : '';
+  return entry ?? '';
+};
+
+// The edits a branch-1 manager's bulk action would write, after the grid's checks
+const writtenAtBranch1 = (edits: CellEdit[]): CellEdit[] => edits.filter((edit: CellEdit) => {
+  const employee: Employee = employees.find((e: Employee) => e.id === edit.employeeId) as Employee;
+  const stored: ShiftEntry | undefined = schedule[`2025-06-0${edit.day}`]?.[edit.employeeId];
+  const cellBranch: string = employee.type === 'full-time' ? employee.branch : 'branch-1';
+  return !keepsOtherBranchBooking(employee, stored, edit.value, cellBranch, edits.length === 1);
+});
+
+describe('keepsOtherBranchBooking', () => {
+  const booking: ShiftEntry = { type: 'บ่าย', branch: 'branch-2' };
+
+  it('keeps a booking at another branch from being cleared or overwritten by a bulk status', () => {
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, '', 'branch-1', true), true);
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, '', 'branch-1', false), true);
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, 'หยุด', 'branch-1', false), true);
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, 'ลา', 'branch-1', false), true);
+  });
+
+  it('lets a status picked for the single cell replace the booking', () => {
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, 'ลา', 'branch-1', true), false);
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, 'ป่วย', 'branch-1', true), false);
+  });
+
+  it('leaves bookings at the viewed branch, other entries and full-timers to the usual checks', () => {
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, '', 'branch-2', false), false);
+    assert.equal(keepsOtherBranchBooking(partTimer, 'หยุด', '', 'branch-1', false), false);
+    assert.equal(keepsOtherBranchBooking(partTimer, undefined, 'ลา', 'branch-1', false), false);
+    assert.equal(keepsOtherBranchBooking(partTimer, booking, 'เช้า', 'branch-1', false), false); // Refused by checkCellEdit instead
+    assert.equal(keepsOtherBranchBooking(fullTimer, 'เช้า', '', 'branch-1', false), false);
+  });
+
+  it('passes over the other branch booking when a range is deleted, pasted into or filled', () => {
+    const range = { top: 0, bottom: 1, left: 2, right: 4 };
+    const rowIds: string[] = ['e1', 'p1'];
+
+    const deleted: CellEdit[] = writtenAtBranch1(fillGridRange(range, rowIds, ''));
+    assert.equal(deleted.some((edit: CellEdit) => edit.employeeId === 'p1' && edit.day === 3), false);
+    assert.equal(deleted.some((edit: CellEdit) => edit.employeeId === 'p1' && edit.day === 4), true); // Their booking here can be cleared
+
+    const pasted: CellEdit[] = writtenAtBranch1(pasteIntoGridRange('ลา\tลา\tลา\nหยุด\t\tหยุด', range, rowIds, 30, DEFAULT_SHIFT_CATALOG).edits);
+    assert.equal(pasted.some((edit: CellEdit) => edit.employeeId === 'p1' && edit.day === 3), false);
+
+    // Day 2 of p1 is empty, so filling right copies '' over the 3rd
+    const filled: CellEdit[] = writtenAtBranch1(fillGridRangeFrom(range, rowIds, 'right', shownAtBranch1));
+    assert.equal(filled.some((edit: CellEdit) => edit.employeeId === 'p1' && edit.day === 3), false);
+  });
+});
+
+describe('checkCellEdit', () => {
+  it('books a part-timer at the viewed branch and refuses a second branch on the same day', () => {
+    const booked: CellEditCheck = checkCellEdit(partTimer, 2, 'เช้า', 'branch-1', schedule, closures, branches, YEAR, MONTH);
+    assert.deepEqual(booked, { ok: true, entry: { type: 'เช้า', branch: 'branch-1' } });
+    const refused: CellEditCheck = checkCellEdit(partTimer, 3, 'เช้า', 'branch-1', schedule, closures, branches, YEAR, MONTH);
+    assert.equal(refused.ok, false);
+  });
+
+  it('accepts only ปิด on a closing day', () => {
+    assert.equal(checkCellEdit(fullTimer, 1, 'เช้า', 'branch-1', schedule, closures, branches, YEAR, MONTH).ok, false);
+    assert.deepEqual(checkCellEdit(fullTimer, 1, 'ปิด', 'branch-1', schedule, closures, branches, YEAR, MONTH), { ok: true, entry: 'ปิด' });
+  });
+});
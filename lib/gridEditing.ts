@@ -0,0 +1,162 @@
+// lib/gridEditing.ts
+import type { BaseShiftString, Branch, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { ClosureSettings, getClosureReason } from './closures';
+import { validatePartTimeAssignment } from './partTimeDispatch';
+import { parseShiftCode } from './rosterImport';
+import { ShiftType, isStatusShift } from './shiftCatalog';
+
+// --- Spreadsheet-style editing of the branch grid: selections, fills, copy/paste and the check every cell edit goes through ---
+// Rows are the employees shown in the grid (by index), columns the days of the month.
+
+// A value picked or typed into one cell
+export interface CellEdit {
+  employeeId: string;
+  day: number;
+  value: BaseShiftString;
+}
+
+export interface GridPosition {
+  row: number; // Index in the displayed employees
+  day: number; // Day of the month
+}
+
+// The cells between two corners, both included
+export interface GridRange {
+  top: number;
+  bottom: number;
+  left: number; // First day
+  right: number; // Last day
+}
+
+export const toGridRange = (anchor: GridPosition, focus: GridPosition): GridRange => ({
+  top: Math.min(anchor.row, focus.row),
+  bottom: Math.max(anchor.row, focus.row),
+  left: Math.min(anchor.day, focus.day),
+  right: Math.max(anchor.day, focus.day),
+});
+
+export const isInGridRange = (range: GridRange, row: number, day: number): boolean => {
+  return row >= range.top && row <= range.bottom && day >= range.left && day <= range.right;
+};
+
+// Move a position by a step, staying inside the grid
+export const moveGridPosition = (position: GridPosition, rowStep: number, dayStep: number, rowCount: number, daysInMonth: number): GridPosition => ({
+  row: Math.min(Math.max(position.row + rowStep, 0), rowCount - 1),
+  day: Math.min(Math.max(position.day + dayStep, 1), daysInMonth),
+});
+
+// The same value in every selected cell
+export const fillGridRange = (range: GridRange, rowIds: string[], value: BaseShiftString): CellEdit[] => {
+  const edits: CellEdit[] = [];
+  for (let row = range.top; row <= range.bottom; row++) {
+    for (let day = range.left; day <= range.right; day++) edits.push({ employeeId: rowIds[row], day, value });
+  }
+  return edits;
+};
+
+// Copy the first column of the range to the right (each row keeps its own value), or the first row down.
+// 'ปิด' is not copied: closing days come from the closure settings.
+export const fillGridRangeFrom = (
+  range: GridRange,
+  rowIds: string[],
+  direction: 'right' | 'down',
+  getValue: (employeeId: string, day: number) => BaseShiftString,
+): CellEdit[] => {
+  const edits: CellEdit[] = [];
+  for (let row = range.top; row <= range.bottom; row++) {
+    for (let day = range.left; day <= range.right; day++) {
+      if (direction === 'right' ? day === range.left : row === range.top) continue;
+      const value: BaseShiftString = direction === 'right' ? getValue(rowIds[row], range.left) : getValue(rowIds[range.top], day);
+      if (value === 'ปิด') continue;
+      edits.push({ employeeId: rowIds[row], day, value });
+    }
+  }
+  return edits;
+};
+
+// Tab-separated text of the range, one line per row (the format Excel copies and pastes)
+export const gridRangeToText = (range: GridRange, rowIds: string[], getValue: (employeeId: string, day: number) => BaseShiftString): string => {
+  const lines: string[] = [];
+  for (let row = range.top; row <= range.bottom; row++) {
+    const cells: string[] = [];
+    for (let day = range.left; day <= range.right; day++) cells.push(getValue(rowIds[row], day));
+    lines.push(cells.join('\t'));
+  }
+  return lines.join('\n');
+};
+
+// Edits for pasted text: the block starts at the top-left cell of the range and is cut at the edge of the grid.
+// A single pasted value fills the whole range, like a spreadsheet. Unknown codes are listed, not written, and 'ปิด' is skipped.
+export const pasteIntoGridRange = (
+  text: string,
+  range: GridRange,
+  rowIds: string[],
+  daysInMonth: number,
+  shiftCatalog: ShiftType[],
+): { edits: CellEdit[]; invalid: string[] } => {
+  const rows: string[][] = text.replace(/\r?\n$/, '').split(/\r?\n/).map((line: string) => line.split('\t'));
+  const edits: CellEdit[] = [];
+  const invalid: string[] = [];
+  if (rows.length === 1 && rows[0].length === 1) {
+    const value: BaseShiftString | undefined = parseShiftCode(rows[0][0], shiftCatalog);
+    if (value === undefined) return { edits, invalid: [rows[0][0]] };
+    if (value === 'ปิด') return { edits, invalid };
+    return { edits: fillGridRange(range, rowIds, value), invalid };
+  }
+  rows.forEach((cells: string[], rowOffset: number) => {
+    const row: number = range.top + rowOffset;
+    if (row >= rowIds.length) return;
+    cells.forEach((cell: string, dayOffset: number) => {
+      const day: number = range.left + dayOffset;
+      if (day > daysInMonth) return;
+      const value: BaseShiftString | undefined = parseShiftCode(cell, shiftCatalog);
+      if (value === undefined) invalid.push(cell);
+      else if (value !== 'ปิด') edits.push({ employeeId: rowIds[row], day, value });
+    });
+  });
+  return { edits, invalid };
+};
+
+// A part-timer booked at another branch shows an empty cell here. Clearing it, or a status written over a range
+// (Delete, paste, fill), passes over the cell so the other branch's booking is kept; only a status picked for
+// that one cell (e.g. 'ลา' or 'ป่วย') replaces it.
+export const keepsOtherBranchBooking = (
+  employee: Employee,
+  stored: ShiftEntry | undefined,
+  value: BaseShiftString,
+  cellBranch: string,
+  isSingleCell: boolean,
+): boolean => {
+  if (employee.type !== 'part-time' || !isWorkingShiftObject(stored) || stored.branch === cellBranch) return false;
+  return isStatusShift(value) && (value === '' || !isSingleCell);
+};
+
+// Outcome of checking one cell edit: the entry to write, or why it was refused
+export type CellEditCheck = { ok: true; entry: ShiftEntry } | { ok: false; title: string; message: string };
+
+// The rules of the grid for one cell: only 'ปิด' on a closing day, and part-timer shifts at the viewed branch
+// pass the same checks as the dispatch board. Permissions and the employment window are checked by the caller.
+export const checkCellEdit = (
+  employee: Employee,
+  day: number,
+  value: BaseShiftString,
+  cellBranch: string, // The full-timer's home branch of the day, or the branch being viewed for a part-timer
+  schedule: MonthlySchedule,
+  closures: ClosureSettings,
+  branches: Branch[],
+  year: number,
+  month: number, // 0-indexed
+): CellEditCheck => {
+  const closureReason: string | null = getClosureReason(closures, cellBranch, year, month, day);
+  if (closureReason !== null) {
+    return value === 'ปิด' ? { ok: true, entry: 'ปิด' } : { ok: false, title: 'วันหยุดคลินิก', message: `${closureReason} ไม่สามารถจัดเวรได้` };
+  }
+  if (employee.type === 'part-time' && !isStatusShift(value)) {
+    const assignmentError: string | null = validatePartTimeAssignment(employee, schedule, closures, branches, year, month, day, value, cellBranch);
+    if (assignmentError !== null) return { ok: false, title: 'ข้อจำกัดพนักงานพาร์ทไทม์', message: assignmentError };
+    return { ok: true, entry: { type: value, branch: cellBranch } };
+  }
+  // Non-working values of a part-timer are global and override a working shift at any branch
+  return { ok: true, entry: value };
+};
@@ -0,0 +1,54 @@
+// lib/icalendar.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Holiday } from './closures';
+import { parseICalendarHolidays } from './icalendar';
+
+// A calendar with one VEVENT per [DTSTART, DTEND, SUMMARY]
+const calendar = (events: [string, string | null, string][]): string => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  ...events.flatMap(([start, end, summary]) => [
+    'BEGIN:VEVENT',
+    `DTSTART${start.length === 8 ? ';VALUE=DATE' : ''}:${start}`,
+    ...(end === null ? [] : [`DTEND${end.length === 8 ? ';VALUE=DATE' : ''}:${end}`]),
+    `SUMMARY:${summary}`,
+    'END:VEVENT',
+  ]),
+  'END:VCALENDAR',
+].join('\r\n');
+
+const dates = (holidays: Holiday[]): string[] => holidays.map((h: Holiday) => h.date);
+
+describe('parseICalendarHolidays', () => {
+  it('reads all-day events with an exclusive end date', () => {
+    const holidays: Holiday[] = parseICalendarHolidays(calendar([['20250413', '20250416', 'วันสงกรานต์'], ['20250505', null, 'วันฉัตรมงคล']]));
+    assert.deepEqual(holidays, [
+      { date: '2025-04-13', name: 'วันสงกรานต์' },
+      { date: '2025-04-14', name: 'วันสงกรานต์' },
+      { date: '2025-04-15', name: 'วันสงกรานต์' },
+      { date: '2025-05-05', name: 'วันฉัตรมงคล' },
+    ]);
+  });
+
+  it('moves UTC date-times to the clinic day (UTC+7)', () => {
+    // Midnight to midnight in Bangkok, written in UTC
+    assert.deepEqual(dates(parseICalendarHolidays(calendar([['20250412T170000Z', '20250413T170000Z', 'วันสงกรานต์']]))), ['2025-04-13']);
+    // 16:59Z is still the same day in Bangkok (23:59)
+    assert.deepEqual(dates(parseICalendarHolidays(calendar([['20250412T165900Z', null, 'วันหยุด']]))), ['2025-04-12']);
+    // Across a month and a year boundary
+    assert.deepEqual(dates(parseICalendarHolidays(calendar([['20241231T180000Z', null, 'วันขึ้นปีใหม่']]))), ['2025-01-01']);
+  });
+
+  it('takes date-times without Z as clinic time', () => {
+    assert.deepEqual(dates(parseICalendarHolidays(calendar([['20250412T230000', null, 'วันหยุด']]))), ['2025-04-12']);
+  });
+
+  it('unfolds lines, unescapes summaries and skips events without a start', () => {
+    const text: string = [
+      'BEGIN:VEVENT', 'DTSTART;VALUE=DATE:20250728', 'SUMMARY:วันเฉลิมพระชนมพรรษา\\, ร.10', ' (วันหยุด)', 'END:VEVENT',
+      'BEGIN:VEVENT', 'SUMMARY:ไม่มีวัน', 'END:VEVENT',
+    ].join('\r\n');
+    assert.deepEqual(parseICalendarHolidays(text), [{ date: '2025-07-28', name: 'วันเฉลิมพระชนมพรรษา, ร.10(วันหยุด)' }]);
+  });
+});
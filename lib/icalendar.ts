@@ -0,0 +1,164 @@
+// lib/icalendar.ts
+import type { Holiday } from './closures';
+import { toDateKey } from './dates';
+
+// --- Minimal iCalendar (RFC 5545) support ---
+
+// Undo line folding: a line starting with a space or tab continues the previous one
+const unfoldLines = (text: string): string[] => {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+};
+
+// Undo text escaping in property values ('\,' '\;' '\n' '\\')
+const unescapeText = (value: string): string => {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1');
+};
+
+// Hours the clinic's time zone (CLINIC_TIME_ZONE below) is ahead of UTC; Thailand has no daylight saving time
+const CLINIC_UTC_OFFSET_HOURS: number = 7;
+
+// Parse a DTSTART/DTEND value into the local Date of the day it falls on: a date ('20250413'), a floating or
+// TZID date-time ('20250413T090000', taken as clinic time) or a UTC date-time ('20250412T170000Z', moved to clinic time)
+const parseICalendarDate = (value: string): Date | null => {
+  const match: RegExpMatchArray | null = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  if (match[7] !== 'Z') return new Date(year, month, day);
+  const clinicTime: Date = new Date(Date.UTC(year, month, day, Number(match[4]) + CLINIC_UTC_OFFSET_HOURS, Number(match[5]), Number(match[6])));
+  return new Date(clinicTime.getUTCFullYear(), clinicTime.getUTCMonth(), clinicTime.getUTCDate());
+};
+
+// Read the holidays of an .ics file. Each VEVENT becomes one holiday per day it covers
+// (DTEND is exclusive, as in all-day events exported by Google Calendar and others).
+export const parseICalendarHolidays = (text: string): Holiday[] => {
+  const holidays: Holiday[] = [];
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let summary: string = '';
+  let isInEvent: boolean = false;
+
+  unfoldLines(text).forEach((line: string) => {
+    const separator: number = line.indexOf(':');
+    if (separator < 0) return;
+    const name: string = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value: string = line.slice(separator + 1).trim();
+
+    if (name === 'BEGIN' && value === 'VEVENT') {
+      isInEvent = true;
+      start = null;
+      end = null;
+      summary = '';
+    } else if (name === 'END' && value === 'VEVENT' && isInEvent) {
+      isInEvent = false;
+      if (!start) return;
+      const first: Date = start;
+      const last: Date = end && end.getTime() > first.getTime() ? end : new Date(first.getFullYear(), first.getMonth(), first.getDate() + 1);
+      for (let day = new Date(first); day < last; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+        holidays.push({ date: toDateKey(day.getFullYear(), day.getMonth(), day.getDate()), name: summary || 'วันหยุด' });
+      }
+    } else if (isInEvent && name === 'DTSTART') {
+      start = parseICalendarDate(value);
+    } else if (isInEvent && name === 'DTEND') {
+      end = parseICalendarDate(value);
+    } else if (isInEvent && name === 'SUMMARY') {
+      summary = unescapeText(value);
+    }
+  });
+  return holidays;
+};
+
+// --- Writing calendars (the personal shift feeds) ---
+
+// Times are written in the clinic's time zone. Thailand has no daylight saving time, so one STANDARD rule describes it.
+export const CLINIC_TIME_ZONE: string = 'Asia/Bangkok';
+
+const TIME_ZONE_LINES: string[] = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CLINIC_TIME_ZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0700',
+  'TZOFFSETTO:+0700',
+  'TZNAME:ICT',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export interface ICalendarEvent {
+  uid: string; // Stays the same across updates, so calendar apps replace the event instead of adding another
+  summary: string;
+  location: string | null;
+  dateKey: string; // '2025-06-01'
+  start: string | null; // 'HH:MM', null for an all-day event
+  end: string | null; // 'HH:MM'; at or before start means the next day
+}
+
+// Escape text in property values
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+};
+
+// Fold lines longer than 75 octets (Thai characters take 3 octets each in UTF-8)
+const foldLine = (line: string): string => {
+  const encoder: TextEncoder = new TextEncoder();
+  const parts: string[] = [];
+  let part: string = '';
+  let octets: number = 0;
+  for (const char of line) {
+    const size: number = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) { // Continuation lines start with a space
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: Date): string => {
+  return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// '20250601T090000' in the clinic's time zone
+const formatLocalDateTime = (date: Date, time: string): string => `${formatDate(date)}T${time.replace(':', '')}00`;
+
+// '20250601T020000Z'
+const formatUtcDateTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// A complete .ics file with one VEVENT per event
+export const buildICalendar = (calendarName: string, events: ICalendarEvent[], stamp: Date): string => {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//timetable-cvd//Shifts//TH',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${CLINIC_TIME_ZONE}`,
+    ...TIME_ZONE_LINES,
+  ];
+
+  events.forEach((event: ICalendarEvent) => {
+    const [year, month, day] = event.dateKey.split('-').map(Number);
+    const date: Date = new Date(year, month - 1, day);
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtcDateTime(stamp)}`);
+    if (event.start !== null && event.end !== null) {
+      const endDate: Date = event.end <= event.start ? nextDay(date) : date;
+      lines.push(`DTSTART;TZID=${CLINIC_TIME_ZONE}:${formatLocalDateTime(date, event.start)}`);
+      lines.push(`DTEND;TZID=${CLINIC_TIME_ZONE}:${formatLocalDateTime(endDate, event.end)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(date)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(date))}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location !== null) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
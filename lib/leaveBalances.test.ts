@@ -0,0 +1,30 @@
+// lib/leaveBalances.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Employee, ShiftEntry } from './types';
+import { LeaveUsage, applyLeaveChange, checkLeaveEntitlement, countYearLeaveUsage, createDefaultLeaveEntitlements } from './leaveBalances';
+
+const employee: Employee = { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' };
+
+describe('leave usage within a bulk edit', () => {
+  it('counts each accepted cell before checking the next one', () => {
+    // 4 of the 6 days of ลา used; a range of 4 more goes past the entitlement on its third day
+    let usage: LeaveUsage | undefined = countYearLeaveUsage([{ '2025-03-03': { e1: 'ลา' }, '2025-03-04': { e1: 'ลา' }, '2025-03-05': { e1: 'ลา' }, '2025-03-06': { e1: 'ลา' } }], 2025).e1;
+    const warnings: (string | null)[] = [];
+    const range: (ShiftEntry | undefined)[] = ['เช้า', undefined, 'บ่าย', 'เช้า'];
+    range.forEach((previous: ShiftEntry | undefined) => {
+      warnings.push(checkLeaveEntitlement(employee, 'ลา', usage, createDefaultLeaveEntitlements()));
+      usage = applyLeaveChange(usage, previous, 'ลา');
+    });
+
+    assert.deepEqual(warnings.map((w: string | null) => w !== null), [false, false, true, true]);
+    assert.match(warnings[2] as string, /ไปแล้ว 6 วัน จากสิทธิ์ 6 วัน/);
+    assert.deepEqual(usage, { 'ลา': 8, 'ป่วย': 0, 'หยุด': 0 });
+  });
+
+  it('gives the day back when leave is replaced', () => {
+    const usage: LeaveUsage = applyLeaveChange({ 'ลา': 6, 'ป่วย': 1, 'หยุด': 0 }, 'ลา', 'ป่วย');
+    assert.deepEqual(usage, { 'ลา': 5, 'ป่วย': 2, 'หยุด': 0 });
+    assert.equal(checkLeaveEntitlement(employee, 'ลา', usage, createDefaultLeaveEntitlements()), null);
+  });
+});
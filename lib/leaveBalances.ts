@@ -0,0 +1,140 @@
+// lib/leaveBalances.ts
+import type { Branch, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { getBranchName } from './branches';
+import { PART_TIME_BRANCH } from './constants';
+import { csvField } from './rosterExport';
+
+// --- Yearly leave entitlements and the balances left, counted from the schedule ---
+// An entitlement applies to an employee type and/or position; the most specific one wins.
+
+// Schedule values that use up an entitlement
+export type LeaveKind = 'ลา' | 'ป่วย' | 'หยุด';
+
+export const LEAVE_KINDS: LeaveKind[] = ['ลา', 'ป่วย', 'หยุด'];
+
+export const LEAVE_KIND_LABELS: Record<LeaveKind, string> = {
+  'ลา': 'ลากิจ / พักร้อน',
+  'ป่วย': 'ลาป่วย',
+  'หยุด': 'วันหยุด',
+};
+
+// Days per year for each kind (null = not limited)
+export type LeaveDays = Record<LeaveKind, number | null>;
+
+export interface LeaveEntitlement {
+  id: string; // Stable ID so the editor can key rows
+  employeeType: Employee['type'] | null; // null = every type
+  position: string | null; // null = any position
+  days: LeaveDays;
+}
+
+// Days used in a year for each kind
+export type LeaveUsage = Record<LeaveKind, number>;
+
+export interface LeaveBalance {
+  kind: LeaveKind;
+  entitled: number | null;
+  used: number;
+  remaining: number | null; // Negative when more was taken than entitled
+}
+
+const UNLIMITED: LeaveDays = { 'ลา': null, 'ป่วย': null, 'หยุด': null };
+
+// Entitlements used before any were configured (sick leave of 30 days as in the labour law)
+export const createDefaultLeaveEntitlements = (): LeaveEntitlement[] => [
+  { id: 'default-full-time', employeeType: 'full-time', position: null, days: { 'ลา': 6, 'ป่วย': 30, 'หยุด': null } },
+];
+
+export const isLeaveKind = (value: unknown): value is LeaveKind => LEAVE_KINDS.includes(value as LeaveKind);
+
+const emptyUsage = (): LeaveUsage => ({ 'ลา': 0, 'ป่วย': 0, 'หยุด': 0 });
+
+// The entitlement of an employee: a rule naming both type and position beats one naming only one of them
+export const getLeaveEntitlement = (entitlements: LeaveEntitlement[], employee: Employee): LeaveDays => {
+  let best: LeaveEntitlement | null = null;
+  let bestScore: number = -1;
+  for (const entitlement of entitlements) {
+    if (entitlement.employeeType !== null && entitlement.employeeType !== employee.type) continue;
+    if (entitlement.position !== null && entitlement.position !== employee.position) continue;
+    const score: number = (entitlement.position !== null ? 2 : 0) + (entitlement.employeeType !== null ? 1 : 0);
+    if (score > bestScore) {
+      best = entitlement;
+      bestScore = score;
+    }
+  }
+  return best?.days ?? UNLIMITED;
+};
+
+// Leave days per employee in one year, counted over the given schedules (e.g. every stored month of the year)
+export const countYearLeaveUsage = (schedules: MonthlySchedule[], year: number): Record<string, LeaveUsage> => {
+  const usage: Record<string, LeaveUsage> = {};
+  schedules.forEach((schedule: MonthlySchedule) => {
+    Object.entries(schedule).forEach(([dateKey, dayShifts]) => {
+      if (!dateKey.startsWith(`${year}-`)) return;
+      Object.entries(dayShifts).forEach(([employeeId, entry]: [string, ShiftEntry]) => {
+        if (!isLeaveKind(entry)) return;
+        usage[employeeId] = usage[employeeId] ?? emptyUsage();
+        usage[employeeId][entry]++;
+      });
+    });
+  });
+  return usage;
+};
+
+// Usage after one cell changes from `previous` to `next`, for checking the cells of a bulk edit one after another
+export const applyLeaveChange = (usage: LeaveUsage | undefined, previous: ShiftEntry | undefined, next: ShiftEntry): LeaveUsage => {
+  const changed: LeaveUsage = { ...emptyUsage(), ...usage };
+  if (isLeaveKind(previous)) changed[previous]--;
+  if (isLeaveKind(next)) changed[next]++;
+  return changed;
+};
+
+// Balances of one employee
+export const getLeaveBalances = (employee: Employee, usage: LeaveUsage | undefined, entitlements: LeaveEntitlement[]): LeaveBalance[] => {
+  const days: LeaveDays = getLeaveEntitlement(entitlements, employee);
+  return LEAVE_KINDS.map((kind: LeaveKind) => {
+    const used: number = usage?.[kind] ?? 0;
+    const entitled: number | null = days[kind];
+    return { kind, entitled, used, remaining: entitled === null ? null : entitled - used };
+  });
+};
+
+// Warning when one more day of a kind would go beyond the entitlement, or null
+export const checkLeaveEntitlement = (
+  employee: Employee,
+  kind: LeaveKind,
+  usage: LeaveUsage | undefined,
+  entitlements: LeaveEntitlement[],
+): string | null => {
+  const entitled: number | null = getLeaveEntitlement(entitlements, employee)[kind];
+  const used: number = usage?.[kind] ?? 0;
+  if (entitled === null || used + 1 <= entitled) return null;
+  return `${employee.name} ใช้${LEAVE_KIND_LABELS[kind]}ไปแล้ว ${used} วัน จากสิทธิ์ ${entitled} วันต่อปี วันนี้จะเกินสิทธิ์`;
+};
+
+// Year-end summary for HR as CSV: one row per employee, grouped by branch (part-timers last)
+export const leaveSummaryToCsv = (
+  employees: Employee[],
+  usageByEmployee: Record<string, LeaveUsage>,
+  entitlements: LeaveEntitlement[],
+  branches: Branch[],
+  year: number,
+): string => {
+  const branchLabel = (employee: Employee): string => (employee.type === 'part-time' ? PART_TIME_BRANCH : getBranchName(branches, employee.branch));
+  const sorted: Employee[] = [...employees].sort((a: Employee, b: Employee) =>
+    Number(a.type === 'part-time') - Number(b.type === 'part-time') || branchLabel(a).localeCompare(branchLabel(b), 'th') || a.name.localeCompare(b.name, 'th')
+  );
+
+  const header: string[] = ['สาขา', 'ชื่อ', 'ตำแหน่ง', ...LEAVE_KINDS.flatMap((kind: LeaveKind) => [`${kind} (สิทธิ์)`, `${kind} (ใช้)`, `${kind} (คงเหลือ)`])];
+  const lines: string[][] = [[`สรุปวันลาประจำปี ${year}`], header];
+  sorted.forEach((employee: Employee) => {
+    const balances: LeaveBalance[] = getLeaveBalances(employee, usageByEmployee[employee.id], entitlements);
+    lines.push([
+      branchLabel(employee),
+      employee.name,
+      employee.position,
+      ...balances.flatMap((b: LeaveBalance) => [b.entitled === null ? '-' : String(b.entitled), String(b.used), b.remaining === null ? '-' : String(b.remaining)]),
+    ]);
+  });
+  return '\uFEFF' + lines.map((line: string[]) => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,73 @@
+// lib/leaveRepository.ts
+import { addDoc, collection, doc, getDocs, query, setDoc, where, type Firestore } from 'firebase/firestore';
+import { LeaveRequest, decodeLeaveRequest } from './leaveRequests';
+
+// --- Persistence of leave requests ('leaveRequests/{id}') ---
+
+export interface LeaveRepository {
+  listRequests: (employeeId: string | null) => Promise<LeaveRequest[]>; // null = every request (managers and admins)
+  createRequest: (request: Omit<LeaveRequest, 'id'>) => Promise<LeaveRequest>;
+  saveRequest: (request: LeaveRequest) => Promise<void>;
+}
+
+export const LEAVE_REQUESTS_COLLECTION = 'leaveRequests';
+
+// Fields stored in the document (the ID is the document ID)
+const encodeLeaveRequest = (request: Omit<LeaveRequest, 'id'> & { id?: string }): Omit<LeaveRequest, 'id'> => {
+  const { id: _id, ...fields } = request;
+  return fields;
+};
+
+// Newest first
+const byCreatedAtDesc = (a: LeaveRequest, b: LeaveRequest): number => b.createdAt.localeCompare(a.createdAt);
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreLeaveRepository = (db: Firestore): LeaveRepository => ({
+  listRequests: async (employeeId: string | null): Promise<LeaveRequest[]> => {
+    const requests = collection(db, LEAVE_REQUESTS_COLLECTION);
+    // Staff may only read their own requests, so they must ask for exactly those
+    const snapshot = await getDocs(employeeId === null ? requests : query(requests, where('employeeId', '==', employeeId)));
+    const result: LeaveRequest[] = [];
+    snapshot.forEach((requestDoc) => {
+      const request: LeaveRequest | null = decodeLeaveRequest(requestDoc.id, requestDoc.data());
+      if (request) result.push(request);
+      else console.warn(`Skipped invalid leave request ${requestDoc.id}`);
+    });
+    return result.sort(byCreatedAtDesc);
+  },
+
+  createRequest: async (request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest> => {
+    const created = await addDoc(collection(db, LEAVE_REQUESTS_COLLECTION), encodeLeaveRequest(request));
+    return { id: created.id, ...request };
+  },
+
+  saveRequest: async (request: LeaveRequest): Promise<void> => {
+    await setDoc(doc(db, LEAVE_REQUESTS_COLLECTION, request.id), encodeLeaveRequest(request));
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryLeaveRepository = (initial: LeaveRequest[] = []): LeaveRepository => {
+  const stored: Map<string, string> = new Map(initial.map((request: LeaveRequest) => [request.id, JSON.stringify(encodeLeaveRequest(request))]));
+  let nextId: number = stored.size + 1;
+  return {
+    listRequests: async (employeeId: string | null): Promise<LeaveRequest[]> => {
+      const result: LeaveRequest[] = [];
+      stored.forEach((raw: string, id: string) => {
+        const request: LeaveRequest | null = decodeLeaveRequest(id, JSON.parse(raw));
+        if (request && (employeeId === null || request.employeeId === employeeId)) result.push(request);
+      });
+      return result.sort(byCreatedAtDesc);
+    },
+
+    createRequest: async (request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest> => {
+      const id: string = `leave-${nextId++}`;
+      stored.set(id, JSON.stringify(encodeLeaveRequest(request)));
+      return { id, ...request };
+    },
+
+    saveRequest: async (request: LeaveRequest): Promise<void> => {
+      stored.set(request.id, JSON.stringify(encodeLeaveRequest(request)));
+    },
+  };
+};
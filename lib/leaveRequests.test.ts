@@ -0,0 +1,46 @@
+// lib/leaveRequests.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Employee, MonthlySchedule } from './types';
+import { ClosureSettings } from './closures';
+import { LeaveRequest, applyLeaveToSchedule, findLeaveDaysAtOtherBranches } from './leaveRequests';
+
+const closures: ClosureSettings = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+
+// Leave from Monday 2 to Thursday 5 June 2025
+const request: LeaveRequest = {
+  id: 'leave-1',
+  employeeId: 'e1',
+  requestedBy: 'uid-1',
+  type: 'ลา',
+  startDate: '2025-06-02',
+  endDate: '2025-06-05',
+  reason: 'ธุระส่วนตัว',
+  attachment: null,
+  status: 'approved',
+  createdAt: '2025-05-20T08:00:00.000Z',
+  decidedBy: 'uid-2',
+  decidedAt: '2025-05-21T08:00:00.000Z',
+  decisionNote: '',
+};
+
+describe('leave requests', () => {
+  it('writes leave only on days within the employment window', () => {
+    const leaving: Employee = { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time', endDate: '2025-06-03' };
+    const schedule: MonthlySchedule = { '2025-06-02': { e1: 'เช้า' } };
+    assert.deepEqual(applyLeaveToSchedule(schedule, request, leaving, closures, '2025-06'), {
+      '2025-06-02': { e1: 'ลา' },
+      '2025-06-03': { e1: 'ลา' },
+    });
+  });
+
+  it('lists the days a transferred full-timer belongs to another branch', () => {
+    const transferred: Employee = {
+      id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time',
+      transfers: [{ date: '2025-06-04', branch: 'branch-2' }],
+    };
+    assert.deepEqual(findLeaveDaysAtOtherBranches(request, transferred, 'branch-1'), ['2025-06-04', '2025-06-05']);
+    assert.deepEqual(findLeaveDaysAtOtherBranches(request, transferred, 'branch-2'), ['2025-06-02', '2025-06-03']);
+    assert.deepEqual(findLeaveDaysAtOtherBranches(request, { ...transferred, transfers: [] }, 'branch-1'), []);
+  });
+});
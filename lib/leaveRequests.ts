@@ -0,0 +1,180 @@
+// lib/leaveRequests.ts
+import type { Employee, MonthlySchedule } from './types';
+import { toDateKey, parseDateKey, isDateKeyInMonth } from './dates';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { BranchStaffingRules, StaffingViolation, evaluateBranchDay } from './staffingRules';
+import type { ShiftType } from './shiftCatalog';
+import { getWorkingBranch } from './scheduleUtils';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+import { LEAVE_KIND_LABELS } from './leaveBalances';
+
+// --- Leave requests: who asked for which days off, and whether a manager approved ---
+// An approved request writes its leave type into the schedule for every day it covers.
+
+// Leave types are the shift values written into the schedule
+export type LeaveType = 'ลา' | 'ป่วย';
+
+export const LEAVE_TYPES: LeaveType[] = ['ลา', 'ป่วย'];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  'ลา': LEAVE_KIND_LABELS['ลา'],
+  'ป่วย': LEAVE_KIND_LABELS['ป่วย'],
+};
+
+export type LeaveStatus = 'pending' | 'approved' | 'rejected';
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  pending: 'รออนุมัติ',
+  approved: 'อนุมัติแล้ว',
+  rejected: 'ไม่อนุมัติ',
+};
+
+// Medical certificate or similar, kept inline in the request document
+export interface LeaveAttachment {
+  name: string;
+  dataUrl: string;
+}
+
+// Firestore documents are limited to 1 MiB; base64 adds a third on top of the file size
+export const MAX_ATTACHMENT_BYTES: number = 512 * 1024;
+
+// Stored in 'leaveRequests/{id}'
+export interface LeaveRequest {
+  id: string;
+  employeeId: string;
+  requestedBy: string; // uid of the user who submitted it (the employee or their manager)
+  type: LeaveType;
+  startDate: string; // Date key, inclusive
+  endDate: string; // Date key, inclusive
+  reason: string;
+  attachment: LeaveAttachment | null; // Sick leave only
+  status: LeaveStatus;
+  createdAt: string; // ISO timestamp
+  decidedBy: string | null; // uid of the approver
+  decidedAt: string | null; // ISO timestamp
+  decisionNote: string;
+}
+
+// What the form submits; the rest is filled in when the request is stored
+export type LeaveRequestDraft = Pick<LeaveRequest, 'employeeId' | 'type' | 'startDate' | 'endDate' | 'reason' | 'attachment'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const decodeAttachment = (raw: unknown): LeaveAttachment | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || typeof raw.dataUrl !== 'string') return null;
+  return { name: raw.name, dataUrl: raw.dataUrl };
+};
+
+// Validate a stored request; null when it cannot be used
+export const decodeLeaveRequest = (id: string, raw: unknown): LeaveRequest | null => {
+  if (!isRecord(raw)) return null;
+  const { employeeId, requestedBy, type, startDate, endDate, reason, attachment, status, createdAt, decidedBy, decidedAt, decisionNote } = raw;
+  if (typeof employeeId !== 'string' || typeof requestedBy !== 'string') return null;
+  if (!LEAVE_TYPES.includes(type as LeaveType) || !isDateKey(startDate) || !isDateKey(endDate)) return null;
+  if (!Object.keys(LEAVE_STATUS_LABELS).includes(status as string)) return null;
+  return {
+    id,
+    employeeId,
+    requestedBy,
+    type: type as LeaveType,
+    startDate,
+    endDate,
+    reason: typeof reason === 'string' ? reason : '',
+    attachment: decodeAttachment(attachment),
+    status: status as LeaveStatus,
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+    decidedBy: typeof decidedBy === 'string' ? decidedBy : null,
+    decidedAt: typeof decidedAt === 'string' ? decidedAt : null,
+    decisionNote: typeof decisionNote === 'string' ? decisionNote : '',
+  };
+};
+
+// Problem with a draft, or null when it can be submitted
+export const validateLeaveDraft = (draft: LeaveRequestDraft): string | null => {
+  if (!draft.employeeId) return 'กรุณาเลือกพนักงาน';
+  if (!isDateKey(draft.startDate) || !isDateKey(draft.endDate)) return 'กรุณาระบุวันที่เริ่มและวันที่สิ้นสุด';
+  if (draft.endDate < draft.startDate) return 'วันที่สิ้นสุดต้องไม่ก่อนวันที่เริ่ม';
+  if (!draft.reason.trim()) return 'กรุณาระบุเหตุผลการลา';
+  if (draft.attachment !== null && draft.type !== 'ป่วย') return 'แนบไฟล์ได้เฉพาะการลาป่วย';
+  return null;
+};
+
+// Every date key from startDate to endDate, inclusive
+export const listLeaveDates = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const last: Date = parseDateKey(endDate);
+  for (let day = parseDateKey(startDate); day <= last; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    dates.push(toDateKey(day.getFullYear(), day.getMonth(), day.getDate()));
+  }
+  return dates;
+};
+
+// Month keys ('2025-06') a request touches, in order
+export const listLeaveMonths = (request: Pick<LeaveRequest, 'startDate' | 'endDate'>): string[] => {
+  return [...new Set(listLeaveDates(request.startDate, request.endDate).map((dateKey: string) => dateKey.slice(0, 7)))];
+};
+
+// Days of a request inside one month on which leave is written.
+// Days outside the employment window and closing days of a full-timer's branch are left alone; they are not working days anyway.
+const leaveDatesInMonth = (request: LeaveRequest, employee: Employee, closures: ClosureSettings, monthKey: string): string[] => {
+  return listLeaveDates(request.startDate, request.endDate).filter((dateKey: string) => {
+    if (!isDateKeyInMonth(dateKey, monthKey) || !isEmployedOn(employee, dateKey)) return false;
+    if (employee.type === 'part-time') return true;
+    const date: Date = parseDateKey(dateKey);
+    return !isBranchClosed(closures, getHomeBranchOn(employee, dateKey), date.getFullYear(), date.getMonth(), date.getDate());
+  });
+};
+
+// Days of a request on which a full-timer belongs to another branch than `branchId` (a transfer before or during
+// the leave). Their shifts on those days are stored with that branch, which a manager of `branchId` cannot write.
+export const findLeaveDaysAtOtherBranches = (request: LeaveRequest, employee: Employee, branchId: string): string[] => {
+  if (employee.type === 'part-time') return [];
+  return listLeaveDates(request.startDate, request.endDate).filter((dateKey: string) =>
+    isEmployedOn(employee, dateKey) && getHomeBranchOn(employee, dateKey) !== branchId
+  );
+};
+
+// Write an approved request into the schedule of one month
+export const applyLeaveToSchedule = (
+  schedule: MonthlySchedule,
+  request: LeaveRequest,
+  employee: Employee,
+  closures: ClosureSettings,
+  monthKey: string,
+): MonthlySchedule => {
+  const updated: MonthlySchedule = { ...schedule };
+  leaveDatesInMonth(request, employee, closures, monthKey).forEach((dateKey: string) => {
+    updated[dateKey] = { ...updated[dateKey], [employee.id]: request.type };
+  });
+  return updated;
+};
+
+// Staffing rules that approving the request would newly break (within one month):
+// for each day the employee was scheduled to work, the branch they would have worked at is checked
+export const findLeaveStaffingWarnings = (
+  request: LeaveRequest,
+  employee: Employee,
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  rules: BranchStaffingRules,
+  closures: ClosureSettings,
+  monthKey: string,
+  shiftCatalog: ShiftType[],
+): StaffingViolation[] => {
+  const withLeave: MonthlySchedule = applyLeaveToSchedule(schedule, request, employee, closures, monthKey);
+  const warnings: StaffingViolation[] = [];
+  leaveDatesInMonth(request, employee, closures, monthKey).forEach((dateKey: string) => {
+    const branch: string | null = getWorkingBranch(employee, schedule[dateKey]?.[employee.id], dateKey);
+    if (branch === null) return; // Not working that day, so nobody is missing
+    const date: Date = parseDateKey(dateKey);
+    const isUnder = (v: StaffingViolation): boolean => v.kind === 'under';
+    const before: StaffingViolation[] = evaluateBranchDay(employees, schedule, rules, branch, date.getFullYear(), date.getMonth(), date.getDate(), shiftCatalog).filter(isUnder);
+    const after: StaffingViolation[] = evaluateBranchDay(employees, withLeave, rules, branch, date.getFullYear(), date.getMonth(), date.getDate(), shiftCatalog).filter(isUnder);
+    warnings.push(...after.filter((v: StaffingViolation) => !before.some((b: StaffingViolation) => b.rule.id === v.rule.id)));
+  });
+  return warnings;
+};
@@ -0,0 +1,134 @@
+// lib/monthMerge.ts
+import type { Employee, MonthData, MonthlySchedule, RemovedEmployee, ShiftEntry } from './types';
+
+// --- Merging concurrent edits of one month, cell by cell ---
+// `base` is the version an editor started from, `local` what they have now and `remote` the latest
+// stored version. Only what changed between base and local is written on top of remote, so edits of
+// other users to other cells are kept. A cell changed on both sides keeps the remote value and is
+// reported as a conflict.
+
+export interface MergeConflict {
+  dateKey: string;
+  employeeId: string;
+  employeeName: string;
+  local: ShiftEntry | undefined; // Value the editor wanted
+  remote: ShiftEntry | undefined; // Value that was kept
+  reason: string | null; // null = changed by someone else; otherwise why the value was refused
+}
+
+export interface MergeResult {
+  data: MonthData;
+  conflicts: MergeConflict[];
+}
+
+// Check of a cell about to be written, against the remote month (null = allowed)
+export type CellValidator = (remote: MonthData, dateKey: string, employee: Employee, entry: ShiftEntry) => string | null;
+
+// '' and a missing entry both mean "no shift"
+const cellText = (entry: ShiftEntry | undefined): string => (entry === undefined || entry === '' ? '' : JSON.stringify(entry));
+
+// Apply the additions, removals and replacements between two lists (by key) to a third
+const mergeList = <T>(base: T[], local: T[], remote: T[], keyOf: (item: T) => string): T[] => {
+  const baseByKey: Map<string, string> = new Map(base.map((item: T) => [keyOf(item), JSON.stringify(item)]));
+  const localByKey: Map<string, T> = new Map(local.map((item: T) => [keyOf(item), item]));
+  const merged: T[] = [];
+  const mergedKeys: Set<string> = new Set();
+
+  remote.forEach((item: T) => {
+    const key: string = keyOf(item);
+    const localItem: T | undefined = localByKey.get(key);
+    if (baseByKey.has(key) && localItem === undefined) return; // Removed locally
+    const isChangedLocally: boolean = localItem !== undefined && baseByKey.get(key) !== JSON.stringify(localItem);
+    merged.push(isChangedLocally ? (localItem as T) : item);
+    mergedKeys.add(key);
+  });
+  local.forEach((item: T) => {
+    const key: string = keyOf(item);
+    if (!baseByKey.has(key) && !mergedKeys.has(key)) merged.push(item); // Added locally
+  });
+  return merged;
+};
+
+export const mergeMonthChanges = (base: MonthData, local: MonthData, remote: MonthData, validate: CellValidator | null = null): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+  const employees: Employee[] = mergeList(base.employees, local.employees, remote.employees, (e: Employee) => e.id);
+  const employeeIds: Set<string> = new Set(employees.map((e: Employee) => e.id));
+  const removedEmployees: RemovedEmployee[] = mergeList(base.removedEmployees, local.removedEmployees, remote.removedEmployees, (r: RemovedEmployee) => r.employee.id)
+    .filter((r: RemovedEmployee) => !employeeIds.has(r.employee.id));
+  const employeesById: Map<string, Employee> = new Map(employees.map((e: Employee) => [e.id, e]));
+
+  // Copy of the remote shifts, then the local cell changes on top
+  const schedule: MonthlySchedule = {};
+  Object.entries(remote.monthlySchedule).forEach(([dateKey, dayShifts]: [string, { [employeeId: string]: ShiftEntry }]) => {
+    schedule[dateKey] = { ...dayShifts };
+  });
+  const setCell = (dateKey: string, employeeId: string, entry: ShiftEntry | undefined): void => {
+    if (entry === undefined || entry === '') {
+      if (schedule[dateKey]) delete schedule[dateKey][employeeId];
+    } else {
+      schedule[dateKey] = { ...schedule[dateKey], [employeeId]: entry };
+    }
+  };
+
+  const dateKeys: Set<string> = new Set([...Object.keys(base.monthlySchedule), ...Object.keys(local.monthlySchedule)]);
+  dateKeys.forEach((dateKey: string) => {
+    const employeeIdsOfDay: Set<string> = new Set([...Object.keys(base.monthlySchedule[dateKey] ?? {}), ...Object.keys(local.monthlySchedule[dateKey] ?? {})]);
+    employeeIdsOfDay.forEach((employeeId: string) => {
+      const baseEntry: ShiftEntry | undefined = base.monthlySchedule[dateKey]?.[employeeId];
+      const localEntry: ShiftEntry | undefined = local.monthlySchedule[dateKey]?.[employeeId];
+      if (cellText(baseEntry) === cellText(localEntry)) return; // Not changed locally
+      const employee: Employee | undefined = employeesById.get(employeeId);
+      if (!employee) return; // Dropped below with the employee
+
+      const remoteEntry: ShiftEntry | undefined = remote.monthlySchedule[dateKey]?.[employeeId];
+      if (cellText(remoteEntry) === cellText(localEntry)) return; // Same change on both sides
+      if (cellText(remoteEntry) !== cellText(baseEntry)) {
+        conflicts.push({ dateKey, employeeId, employeeName: employee.name, local: localEntry, remote: remoteEntry, reason: null });
+        return;
+      }
+      const reason: string | null = validate && localEntry !== undefined && localEntry !== '' ? validate(remote, dateKey, employee, localEntry) : null;
+      if (reason !== null) {
+        conflicts.push({ dateKey, employeeId, employeeName: employee.name, local: localEntry, remote: remoteEntry, reason });
+        return;
+      }
+      setCell(dateKey, employeeId, localEntry);
+    });
+  });
+
+  // Keep only the shifts of employees that are still in the month
+  const monthlySchedule: MonthlySchedule = {};
+  Object.entries(schedule).forEach(([dateKey, dayShifts]: [string, { [employeeId: string]: ShiftEntry }]) => {
+    const kept: { [employeeId: string]: ShiftEntry } = {};
+    Object.entries(dayShifts).forEach(([employeeId, entry]: [string, ShiftEntry]) => {
+      if (employeeIds.has(employeeId)) kept[employeeId] = entry;
+    });
+    if (Object.keys(kept).length > 0) monthlySchedule[dateKey] = kept;
+  });
+
+  return {
+    data: {
+      employees,
+      monthlySchedule,
+      clinicDayOff: local.clinicDayOff !== base.clinicDayOff ? local.clinicDayOff : remote.clinicDayOff,
+      removedEmployees,
+    },
+    conflicts,
+  };
+};
+
+// Serialized month for comparisons. Object keys are sorted, so two versions with the same content
+// compare equal however they were built; list order (employees) still counts. Colleagues (only in an
+// employee's own copy) are never edited, so they are left out.
+export const monthSnapshot = ({ employees, monthlySchedule, clinicDayOff, removedEmployees }: MonthData): string => {
+  return documentSnapshot({ employees, monthlySchedule, clinicDayOff, removedEmployees });
+};
+
+// The same for any stored document (e.g. one of the documents a month is split into)
+export const documentSnapshot = (data: object): string => {
+  return JSON.stringify(data, (_key: string, value: unknown) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+    const sorted: Record<string, unknown> = {};
+    Object.keys(value).sort().forEach((key: string) => { sorted[key] = (value as Record<string, unknown>)[key]; });
+    return sorted;
+  });
+};
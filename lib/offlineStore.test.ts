@@ -0,0 +1,50 @@
+// lib/offlineStore.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, MonthData } from './types';
+import { createInitialBranches } from './branches';
+import { OfflineStore, PendingQueue, createInMemoryOfflineStore } from './offlineStore';
+
+const branches: Branch[] = createInitialBranches();
+
+const monthAt = (branch: string, shift: string): MonthData => ({
+  employees: [{ id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch, type: 'full-time' }],
+  monthlySchedule: { '2025-06-02': { e1: shift } },
+  clinicDayOff: 'อาทิตย์',
+  removedEmployees: [],
+});
+
+describe('offline sync queue', () => {
+  it('lists queued edits and removes them once stored', async () => {
+    const store: OfflineStore = createInMemoryOfflineStore();
+    await store.savePending({ monthKey: '2025-06', base: monthAt('branch-1', 'เช้า'), local: monthAt('branch-1', 'บ่าย'), queuedAt: '2025-06-01T03:00:00.000Z' });
+
+    const queue: PendingQueue = await store.listPending(branches);
+    assert.deepEqual(queue.unreadable, []);
+    assert.equal(queue.pending.length, 1);
+    assert.deepEqual(queue.pending[0].local.monthlySchedule, { '2025-06-02': { e1: 'บ่าย' } });
+    assert.deepEqual(await store.loadPending('2025-06', branches), queue.pending[0]);
+
+    await store.removePending('2025-06');
+    assert.deepEqual(await store.listPending(branches), { pending: [], unreadable: [] });
+  });
+
+  it('reports queued edits that no longer decode instead of dropping them', async () => {
+    const store: OfflineStore = createInMemoryOfflineStore();
+    await store.savePending({ monthKey: '2025-06', base: monthAt('branch-11', 'เช้า'), local: monthAt('branch-11', 'บ่าย'), queuedAt: '2025-06-01T03:00:00.000Z' });
+    await store.savePending({ monthKey: '2025-07', base: monthAt('branch-1', 'เช้า'), local: monthAt('branch-1', 'บ่าย'), queuedAt: '2025-07-01T03:00:00.000Z' });
+
+    // branch-11 is not among the clinic's branches any more
+    const queue: PendingQueue = await store.listPending(branches);
+    assert.deepEqual(queue.pending.map((edits) => edits.monthKey), ['2025-07']);
+    assert.deepEqual(queue.unreadable, [{ monthKey: '2025-06', queuedAt: '2025-06-01T03:00:00.000Z', errors: ['employees[0] (e1) ไม่พบสาขา "branch-11"'] }]);
+    assert.equal(await store.loadPending('2025-06', branches), null);
+
+    // Still queued, and readable again once the branch is known
+    const withBranch: Branch[] = [...branches, { id: 'branch-11', name: 'สาขาใหม่', archived: false }];
+    assert.equal((await store.listPending(withBranch)).pending.length, 2);
+
+    await store.removePending('2025-06');
+    assert.deepEqual((await store.listPending(branches)).unreadable, []);
+  });
+});
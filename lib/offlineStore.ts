@@ -0,0 +1,242 @@
+// lib/offlineStore.ts
+import type { Branch, MonthData } from './types';
+import { UserProfile, decodeUserProfile } from './roles';
+import { ClinicConfig, decodeClinicConfig, encodeClinicConfig } from './clinicConfig';
+import { DecodeResult, decodeMonthDocument, encodeMonthDocument } from './scheduleSchema';
+
+// --- Copy of the clinic's data kept in this browser (IndexedDB), so the timetable opens without a connection ---
+// Holds the last version of each month and of the configuration read from or written to the server, the
+// profiles signed in here, and the sync queue: edits of a month that could not be stored yet.
+// Documents are kept encoded (a month in its whole-month, version 2 form) and decoded like the server's, so schema upgrades apply to them too.
+
+// Edits of one month waiting to be stored. `base` is the server version they were made against, `local` the
+// month as edited; syncing writes only the cells changed between the two on top of the latest server version,
+// and a cell someone else changed in the meantime is reported as a conflict (see lib/monthMerge.ts).
+export interface PendingMonthEdits {
+  monthKey: string;
+  base: MonthData;
+  local: MonthData;
+  queuedAt: string; // ISO time of the latest queued edit
+}
+
+// A queued entry that no longer decodes (e.g. it refers to a branch that was deleted since). It cannot be
+// stored, but it stays in the queue until the user discards it, so the edits are never dropped unseen.
+export interface UnreadablePendingEdits {
+  monthKey: string;
+  queuedAt: string | null; // null when the entry itself is unreadable
+  errors: string[];
+}
+
+// The whole sync queue: the entries that can be stored and the ones that cannot
+export interface PendingQueue {
+  pending: PendingMonthEdits[];
+  unreadable: UnreadablePendingEdits[];
+}
+
+export interface OfflineStore {
+  loadMonth: (monthKey: string, branches: Branch[]) => Promise<MonthData | null>; // null when no copy is kept
+  saveMonth: (monthKey: string, data: MonthData) => Promise<void>;
+  loadConfig: () => Promise<ClinicConfig | null>;
+  saveConfig: (config: ClinicConfig) => Promise<void>;
+  loadUser: (uid: string) => Promise<UserProfile | null>;
+  saveUser: (user: UserProfile) => Promise<void>;
+  // Sync queue, one entry per month
+  listPending: (branches: Branch[]) => Promise<PendingQueue>;
+  loadPending: (monthKey: string, branches: Branch[]) => Promise<PendingMonthEdits | null>; // null also when unreadable (see listPending)
+  savePending: (edits: PendingMonthEdits) => Promise<void>;
+  removePending: (monthKey: string) => Promise<void>;
+}
+
+// Object stores of the database, each holding encoded documents under a string key
+type StoreName = 'months' | 'config' | 'users' | 'pending';
+const STORE_NAMES: StoreName[] = ['months', 'config', 'users', 'pending'];
+
+// Key-value storage the offline store is built on (IndexedDB in the browser, a Map in memory)
+interface KeyValueStorage {
+  get: (store: StoreName, key: string) => Promise<unknown>; // undefined when missing
+  getEntries: (store: StoreName) => Promise<[string, unknown][]>;
+  put: (store: StoreName, key: string, value: unknown) => Promise<void>;
+  remove: (store: StoreName, key: string) => Promise<void>;
+}
+
+export const OFFLINE_DATABASE_NAME = 'timetable-cvd';
+const OFFLINE_DATABASE_VERSION = 1;
+const CLINIC_CONFIG_KEY = 'clinic';
+
+interface StoredPendingEdits {
+  monthKey: string;
+  base: unknown;
+  local: unknown;
+  queuedAt: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Whether a failed request should be queued and retried: the browser is offline, or Firestore could not reach
+// the server ('unavailable', e.g. a Wi-Fi connection without internet). Other errors (permissions, ...) are final.
+export const isConnectionError = (error: unknown): boolean => {
+  return (typeof navigator !== 'undefined' && !navigator.onLine) || (isRecord(error) && error.code === 'unavailable');
+};
+
+// Decode a kept month; a copy that no longer decodes (e.g. a branch was deleted) is treated as missing
+const decodeStoredMonth = (raw: unknown, monthKey: string, branches: Branch[]): MonthData | null => {
+  const result: DecodeResult = decodeMonthDocument(raw, monthKey, branches);
+  if (!result.ok) {
+    console.warn(`Ignored the offline copy of ${monthKey}`, result.errors);
+    return null;
+  }
+  return result.value;
+};
+
+type PendingDecodeResult = { ok: true; value: PendingMonthEdits } | { ok: false; unreadable: UnreadablePendingEdits };
+
+// Decode a queue entry stored under `monthKey`
+const decodePending = (monthKey: string, raw: unknown, branches: Branch[]): PendingDecodeResult => {
+  if (!isRecord(raw) || raw.monthKey !== monthKey || typeof raw.queuedAt !== 'string') {
+    return { ok: false, unreadable: { monthKey, queuedAt: null, errors: ['รายการในคิวไม่ถูกต้อง'] } };
+  }
+  const base: DecodeResult = decodeMonthDocument(raw.base, monthKey, branches);
+  const local: DecodeResult = decodeMonthDocument(raw.local, monthKey, branches);
+  if (!base.ok || !local.ok) {
+    const errors: string[] = [...(base.ok ? [] : base.errors), ...(local.ok ? [] : local.errors)];
+    return { ok: false, unreadable: { monthKey, queuedAt: raw.queuedAt, errors: [...new Set(errors)] } };
+  }
+  return { ok: true, value: { monthKey, base: base.value, local: local.value, queuedAt: raw.queuedAt } };
+};
+
+const createOfflineStore = (storage: KeyValueStorage): OfflineStore => ({
+  loadMonth: async (monthKey: string, branches: Branch[]): Promise<MonthData | null> => {
+    const raw: unknown = await storage.get('months', monthKey);
+    return raw === undefined ? null : decodeStoredMonth(raw, monthKey, branches);
+  },
+
+  saveMonth: async (monthKey: string, data: MonthData): Promise<void> => {
+    await storage.put('months', monthKey, encodeMonthDocument(monthKey, data));
+  },
+
+  loadConfig: async (): Promise<ClinicConfig | null> => {
+    const raw: unknown = await storage.get('config', CLINIC_CONFIG_KEY);
+    return raw === undefined ? null : decodeClinicConfig(raw).value;
+  },
+
+  saveConfig: async (config: ClinicConfig): Promise<void> => {
+    await storage.put('config', CLINIC_CONFIG_KEY, encodeClinicConfig(config));
+  },
+
+  loadUser: async (uid: string): Promise<UserProfile | null> => {
+    const raw: unknown = await storage.get('users', uid);
+    return raw === undefined ? null : decodeUserProfile(uid, raw);
+  },
+
+  saveUser: async (user: UserProfile): Promise<void> => {
+    const { uid, ...fields } = user;
+    await storage.put('users', uid, fields);
+  },
+
+  listPending: async (branches: Branch[]): Promise<PendingQueue> => {
+    const queue: PendingQueue = { pending: [], unreadable: [] };
+    (await storage.getEntries('pending')).forEach(([monthKey, raw]: [string, unknown]) => {
+      const result: PendingDecodeResult = decodePending(monthKey, raw, branches);
+      if (result.ok) queue.pending.push(result.value);
+      else queue.unreadable.push(result.unreadable);
+    });
+    return queue;
+  },
+
+  loadPending: async (monthKey: string, branches: Branch[]): Promise<PendingMonthEdits | null> => {
+    const raw: unknown = await storage.get('pending', monthKey);
+    if (raw === undefined) return null;
+    const result: PendingDecodeResult = decodePending(monthKey, raw, branches);
+    return result.ok ? result.value : null;
+  },
+
+  savePending: async (edits: PendingMonthEdits): Promise<void> => {
+    const stored: StoredPendingEdits = {
+      monthKey: edits.monthKey,
+      base: encodeMonthDocument(edits.monthKey, edits.base),
+      local: encodeMonthDocument(edits.monthKey, edits.local),
+      queuedAt: edits.queuedAt,
+    };
+    await storage.put('pending', edits.monthKey, stored);
+  },
+
+  removePending: async (monthKey: string): Promise<void> => {
+    await storage.remove('pending', monthKey);
+  },
+});
+
+// Resolve an IndexedDB request as a promise
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Store backed by IndexedDB. The database is opened on first use, so creating the store never fails
+// (e.g. during server rendering); every call rejects when IndexedDB is not available.
+export const createIndexedDbOfflineStore = (databaseName: string = OFFLINE_DATABASE_NAME): OfflineStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (database === null) {
+      database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request: IDBOpenDBRequest = indexedDB.open(databaseName, OFFLINE_DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+          STORE_NAMES.forEach((name: StoreName) => {
+            if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      database.catch(() => { database = null; }); // Try again on the next call
+    }
+    return database;
+  };
+  const objectStore = async (store: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    return (await open()).transaction(store, mode).objectStore(store);
+  };
+
+  return createOfflineStore({
+    get: async (store: StoreName, key: string): Promise<unknown> => requestResult((await objectStore(store, 'readonly')).get(key)),
+    getEntries: async (store: StoreName): Promise<[string, unknown][]> => {
+      const entries: IDBObjectStore = await objectStore(store, 'readonly');
+      // Both requests run in the same transaction, so keys and values come in the same order
+      const [keys, values] = await Promise.all([requestResult(entries.getAllKeys()), requestResult(entries.getAll())]);
+      return keys.map((key: IDBValidKey, index: number): [string, unknown] => [String(key), values[index]]);
+    },
+    put: async (store: StoreName, key: string, value: unknown): Promise<void> => {
+      await requestResult((await objectStore(store, 'readwrite')).put(value, key));
+    },
+    remove: async (store: StoreName, key: string): Promise<void> => {
+      await requestResult((await objectStore(store, 'readwrite')).delete(key));
+    },
+  });
+};
+
+// Store kept in memory, for tests and for running the UI without IndexedDB
+export const createInMemoryOfflineStore = (): OfflineStore => {
+  // Values are stored serialized so callers can never mutate what was kept
+  const stores: Map<StoreName, Map<string, string>> = new Map(STORE_NAMES.map((name: StoreName) => [name, new Map()]));
+  const storeOf = (store: StoreName): Map<string, string> => stores.get(store) as Map<string, string>;
+
+  return createOfflineStore({
+    get: async (store: StoreName, key: string): Promise<unknown> => {
+      const raw: string | undefined = storeOf(store).get(key);
+      return raw === undefined ? undefined : JSON.parse(raw);
+    },
+    getEntries: async (store: StoreName): Promise<[string, unknown][]> => {
+      return [...storeOf(store).entries()].map(([key, raw]: [string, string]): [string, unknown] => [key, JSON.parse(raw)]);
+    },
+    put: async (store: StoreName, key: string, value: unknown): Promise<void> => {
+      storeOf(store).set(key, JSON.stringify(value));
+    },
+    remove: async (store: StoreName, key: string): Promise<void> => {
+      storeOf(store).delete(key);
+    },
+  });
+};
@@ -0,0 +1,41 @@
+// lib/partTimeDispatch.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, Employee } from './types';
+import { ClosureSettings } from './closures';
+import { DispatchSuggestion, StaffingGap, suggestPartTimers, validatePartTimeAssignment } from './partTimeDispatch';
+import { DEFAULT_SHIFT_CATALOG } from './shiftCatalog';
+
+const YEAR: number = 2025;
+const MONTH: number = 5; // June 2025, the 1st is a Sunday
+
+const branches: Branch[] = [{ id: 'branch-1', name: 'บึงทับช้าง', archived: false }];
+const closures: ClosureSettings = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+const leaving: Employee = { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time', endDate: '2025-06-10' };
+const joining: Employee = { id: 'p2', name: 'สมศรี', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time', startDate: '2025-06-10' };
+
+// One more masseur needed in the morning at branch-1 on a day
+const gapOn = (day: number): StaffingGap => ({
+  dateKey: `2025-06-${String(day).padStart(2, '0')}`,
+  day,
+  branch: 'branch-1',
+  rule: { id: 'r1', shift: 'เช้า', position: 'พนักงานนวด', weekdays: [], min: 1, max: null },
+  missing: 1,
+});
+
+describe('part-timer dispatch', () => {
+  it('refuses assignments outside the employment window', () => {
+    assert.match(validatePartTimeAssignment(leaving, {}, closures, branches, YEAR, MONTH, 11, 'เช้า', 'branch-1') ?? '', /ไม่ได้อยู่ในช่วงการจ้างในวันที่ 2025-06-11/);
+    assert.match(validatePartTimeAssignment(joining, {}, closures, branches, YEAR, MONTH, 9, 'เช้า', 'branch-1') ?? '', /ไม่ได้อยู่ในช่วงการจ้าง/);
+    assert.equal(validatePartTimeAssignment(leaving, {}, closures, branches, YEAR, MONTH, 10, 'เช้า', 'branch-1'), null);
+    assert.equal(validatePartTimeAssignment(joining, {}, closures, branches, YEAR, MONTH, 10, 'เช้า', 'branch-1'), null);
+  });
+
+  it('suggests only part-timers employed on the day of the gap', () => {
+    const suggested = (day: number): string[] => suggestPartTimers([leaving, joining], {}, closures, branches, YEAR, MONTH, gapOn(day), DEFAULT_SHIFT_CATALOG)
+      .map((suggestion: DispatchSuggestion) => suggestion.employee.id);
+    assert.deepEqual(suggested(9), ['p1']);
+    assert.deepEqual(suggested(10), ['p1', 'p2']);
+    assert.deepEqual(suggested(11), ['p2']);
+  });
+});
@@ -0,0 +1,140 @@
+// lib/partTimeDispatch.ts
+import type { Branch, Employee, PartTimeAvailability, ShiftCode, ShiftEntry, MonthlySchedule } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey, toMonthKey, isDateKeyInMonth } from './dates';
+import { getBranchName } from './branches';
+import { isEmployedOn } from './employees';
+import { ClosureSettings, getClosureReason } from './closures';
+import { BranchStaffingRules, StaffingRule, StaffingViolation, evaluateMonthStaffing } from './staffingRules';
+import { isWorkingEntry } from './scheduleUtils';
+import { ShiftType } from './shiftCatalog';
+
+// --- Part-timer availability and dispatch ---
+// Every part-timer assignment (grid, dispatch board, generator) goes through the checks in this module.
+
+// Whether a part-timer declared they can work a shift at a branch on a weekday
+export const isAvailableFor = (employee: Employee, weekday: number, branch: string, shift: ShiftCode): boolean => {
+  const availability: PartTimeAvailability | undefined = employee.availability;
+  if (!availability) return true;
+  if (availability.weekdays.length > 0 && !availability.weekdays.includes(weekday)) return false;
+  if (availability.branches.length > 0 && !availability.branches.includes(branch)) return false;
+  return availability.shifts.length === 0 || availability.shifts.includes(shift);
+};
+
+// The shifts among `shifts` a part-timer can work at a branch on a weekday, according to their declared availability
+export const getAvailableShifts = (employee: Employee, weekday: number, branch: string, shifts: ShiftCode[]): ShiftCode[] => {
+  return shifts.filter((shift: ShiftCode) => isAvailableFor(employee, weekday, branch, shift));
+};
+
+// Why a part-timer cannot work a shift at a branch on a day, or null when the assignment is allowed
+export const validatePartTimeAssignment = (
+  employee: Employee,
+  schedule: MonthlySchedule,
+  closures: ClosureSettings,
+  branches: Branch[],
+  year: number,
+  month: number,
+  day: number,
+  shift: ShiftCode,
+  branch: string,
+): string | null => {
+  if (employee.type !== 'part-time') {
+    return `${employee.name} ไม่ใช่พนักงานพาร์ทไทม์`;
+  }
+
+  const dateKey: string = toDateKey(year, month, day);
+  if (!isEmployedOn(employee, dateKey)) {
+    return `${employee.name} ไม่ได้อยู่ในช่วงการจ้างในวันที่ ${dateKey}`;
+  }
+
+  const closureReason: string | null = getClosureReason(closures, branch, year, month, day);
+  if (closureReason !== null) {
+    return `${closureReason} ไม่สามารถจัดเวรได้`;
+  }
+
+  // A part-timer works in only one branch per day
+  const entry: ShiftEntry | undefined = schedule[dateKey]?.[employee.id];
+  if (isWorkingShiftObject(entry) && entry.branch !== branch) {
+    return `พนักงานพาร์ทไทม์คนนี้ถูกจัดเวรในสาขา "${getBranchName(branches, entry.branch)}" อยู่แล้วในวันนี้ ไม่สามารถจัดเวรในสาขา "${getBranchName(branches, branch)}" ได้`;
+  }
+
+  if (!isAvailableFor(employee, new Date(year, month, day).getDay(), branch, shift)) {
+    return `${employee.name} ไม่ได้แจ้งว่าสะดวกทำงานกะ${shift}ที่สาขา "${getBranchName(branches, branch)}" ในวันนี้`;
+  }
+  return null;
+};
+
+// An unmet minimum that part-timers could fill
+export interface StaffingGap {
+  dateKey: string;
+  day: number;
+  branch: string;
+  rule: StaffingRule; // The rule whose minimum is not met
+  missing: number; // People still needed
+}
+
+// Every understaffed branch-day of a month, in date order
+export const findStaffingGaps = (
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  rules: BranchStaffingRules,
+  branches: string[],
+  year: number,
+  month: number,
+  closures: ClosureSettings,
+  shiftCatalog: ShiftType[],
+): StaffingGap[] => {
+  return evaluateMonthStaffing(employees, schedule, rules, branches, year, month, closures, shiftCatalog)
+    .filter((violation: StaffingViolation) => violation.kind === 'under' && violation.rule.min !== null)
+    .map((violation: StaffingViolation) => ({
+      dateKey: violation.dateKey,
+      day: violation.day,
+      branch: violation.branch,
+      rule: violation.rule,
+      missing: (violation.rule.min ?? 0) - violation.count,
+    }));
+};
+
+// A part-timer who could fill a gap, and on which shift
+export interface DispatchSuggestion {
+  employee: Employee;
+  shift: ShiftCode;
+  workedDays: number; // Working days already scheduled this month, used to spread the work
+}
+
+// Part-timers who are free on the day of a gap and able to fill it, least busy first
+export const suggestPartTimers = (
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  closures: ClosureSettings,
+  branches: Branch[],
+  year: number,
+  month: number,
+  gap: StaffingGap,
+  shiftCatalog: ShiftType[],
+): DispatchSuggestion[] => {
+  // A whole-day rule is filled by any shift that counts toward headcount
+  const ruleShifts: ShiftCode[] = gap.rule.shift === 'all'
+    ? shiftCatalog.filter((shiftType: ShiftType) => shiftType.countsTowardHeadcount).map((shiftType: ShiftType) => shiftType.code)
+    : [gap.rule.shift];
+  const monthKey: string = toMonthKey(year, month);
+  const suggestions: DispatchSuggestion[] = [];
+
+  employees.forEach((employee: Employee) => {
+    if (employee.type !== 'part-time') return;
+    if (gap.rule.position !== null && employee.position !== gap.rule.position) return;
+    if (schedule[gap.dateKey]?.[employee.id]) return; // Already has an entry today (working, off or on leave)
+
+    const shift: ShiftCode | undefined = ruleShifts.find((s: ShiftCode) =>
+      validatePartTimeAssignment(employee, schedule, closures, branches, year, month, gap.day, s, gap.branch) === null
+    );
+    if (!shift) return;
+
+    const workedDays: number = Object.keys(schedule).filter((dateKey: string) =>
+      isDateKeyInMonth(dateKey, monthKey) && isWorkingEntry(schedule[dateKey][employee.id])
+    ).length;
+    suggestions.push({ employee, shift, workedDays });
+  });
+
+  return suggestions.sort((a: DispatchSuggestion, b: DispatchSuggestion) => a.workedDays - b.workedDays);
+};
@@ -0,0 +1,116 @@
+// lib/payroll.ts
+import type { Branch, Employee, ShiftCode, ShiftEntry, MonthlySchedule } from './types';
+import { toDateKey } from './dates';
+import { getBranchName } from './branches';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { getWorkingBranch, getWorkingShiftType } from './scheduleUtils';
+import { ShiftDefinitions, getShiftDefinition } from './shiftTimes';
+import { csvField } from './rosterExport';
+
+// --- Monthly hours and pay per employee, for payroll ---
+// Hours come from the shift definitions of the branch worked at; part-timers are paid
+// their position's hourly rate, full-timers only get hours (their salary is not kept here).
+
+// Hourly rate (baht) of part-timers per position
+export type PayRates = Record<string, number>;
+
+export interface PayrollRow {
+  employee: Employee;
+  shiftsByBranch: Record<string, Record<ShiftCode, number>>; // Branch ID -> shift code -> shifts worked there
+  totalShifts: number;
+  totalHours: number;
+  leaveDays: number; // 'ลา'
+  sickDays: number; // 'ป่วย'
+  closedDaysWorked: number; // Shifts worked on a day the branch is closed
+  hourlyRate: number | null; // null for full-timers and positions without a rate
+  wage: number | null;
+}
+
+export interface PayrollInput {
+  year: number;
+  month: number; // 0-indexed
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  closures: ClosureSettings;
+  shiftDefinitions: ShiftDefinitions;
+  payRates: PayRates;
+}
+
+// Summary of one employee for the month
+const buildPayrollRow = (input: PayrollInput, employee: Employee): PayrollRow => {
+  const { year, month, schedule, closures, shiftDefinitions, payRates } = input;
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const row: PayrollRow = {
+    employee,
+    shiftsByBranch: {},
+    totalShifts: 0,
+    totalHours: 0,
+    leaveDays: 0,
+    sickDays: 0,
+    closedDaysWorked: 0,
+    hourlyRate: null,
+    wage: null,
+  };
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey: string = toDateKey(year, month, day);
+    const entry: ShiftEntry | undefined = schedule[dateKey]?.[employee.id];
+    if (entry === 'ลา') row.leaveDays++;
+    if (entry === 'ป่วย') row.sickDays++;
+    const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+    const shift: ShiftCode | null = getWorkingShiftType(entry);
+    if (branch === null || shift === null) continue;
+
+    row.shiftsByBranch[branch] = row.shiftsByBranch[branch] ?? {};
+    row.shiftsByBranch[branch][shift] = (row.shiftsByBranch[branch][shift] ?? 0) + 1;
+    row.totalShifts++;
+    row.totalHours += getShiftDefinition(shiftDefinitions, branch, shift).paidHours;
+    if (isBranchClosed(closures, branch, year, month, day)) row.closedDaysWorked++;
+  }
+
+  if (employee.type === 'part-time' && payRates[employee.position] !== undefined) {
+    row.hourlyRate = payRates[employee.position];
+    row.wage = row.totalHours * row.hourlyRate;
+  }
+  return row;
+};
+
+// Summary of every employee: full-timers first, then part-timers
+export const buildPayrollSummary = (input: PayrollInput): PayrollRow[] => [
+  ...input.employees.filter((e: Employee) => e.type === 'full-time'),
+  ...input.employees.filter((e: Employee) => e.type === 'part-time'),
+].map((employee: Employee) => buildPayrollRow(input, employee));
+
+// Text of the shifts per branch, e.g. 'บัวใหญ่ เช้า 3 บ่าย 1; โนนสูง เช้า 2'
+export const describeShiftsByBranch = (row: PayrollRow, branches: Branch[]): string => {
+  return Object.entries(row.shiftsByBranch)
+    .map(([branch, counts]: [string, Record<ShiftCode, number>]) => {
+      const parts: string[] = Object.entries(counts).map(([shift, count]: [ShiftCode, number]) => `${shift} ${count}`);
+      return `${getBranchName(branches, branch)} ${parts.join(' ')}`;
+    })
+    .join('; ');
+};
+
+// CSV for payroll, with a BOM so Excel opens the Thai text as UTF-8
+export const payrollToCsv = (rows: PayrollRow[], branches: Branch[], title: string): string => {
+  const lines: string[] = [
+    csvField(title),
+    ['ชื่อ', 'ตำแหน่ง', 'ประเภท', 'กะตามสาขา', 'จำนวนกะ', 'ชั่วโมงรวม', 'ลา', 'ป่วย', 'ทำงานวันปิด', 'ค่าจ้าง/ชม.', 'ค่าจ้างรวม'].map(csvField).join(','),
+  ];
+  rows.forEach((row: PayrollRow) => {
+    lines.push([
+      row.employee.name,
+      row.employee.position,
+      row.employee.type === 'part-time' ? 'พาร์ทไทม์' : 'ประจำ',
+      describeShiftsByBranch(row, branches),
+      row.totalShifts,
+      row.totalHours,
+      row.leaveDays,
+      row.sickDays,
+      row.closedDaysWorked,
+      row.hourlyRate ?? '',
+      row.wage ?? '',
+    ].map(csvField).join(','));
+  });
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,70 @@
+// lib/personalSchedule.ts
+import type { Branch, Employee, MonthData, ShiftCode, ShiftEntry } from './types';
+import { getBranchName } from './branches';
+import { isDateKeyInMonth } from './dates';
+import { LeaveKind, LEAVE_KIND_LABELS, isLeaveKind } from './leaveBalances';
+import { getWorkingBranch, getWorkingShiftType } from './scheduleUtils';
+import { ShiftDefinition, ShiftDefinitions, getShiftDefinition } from './shiftTimes';
+import { ICalendarEvent, buildICalendar } from './icalendar';
+
+// --- One employee's shifts and leave days, across branches and months ---
+// Used by the personal page and by the calendar feeds, which store these days so they can be served without signing in.
+
+export interface PersonalDay {
+  dateKey: string;
+  shift: ShiftCode | LeaveKind;
+  branch: string | null; // ID of the branch worked at (where a part-timer is dispatched); null on leave days
+  branchName: string | null; // Its display name when the day was built
+  start: string | null; // 'HH:MM' of working shifts at that branch
+  end: string | null;
+}
+
+// Working shifts and leave days of an employee in one month, by date
+export const buildPersonalDays = (employeeId: string, monthKey: string, data: MonthData, branches: Branch[], shiftDefinitions: ShiftDefinitions): PersonalDay[] => {
+  const employee: Employee | undefined = data.employees.find((e: Employee) => e.id === employeeId);
+  if (!employee) return [];
+  const days: PersonalDay[] = [];
+
+  Object.keys(data.monthlySchedule).filter((dateKey: string) => isDateKeyInMonth(dateKey, monthKey)).sort().forEach((dateKey: string) => {
+    const entry: ShiftEntry | undefined = data.monthlySchedule[dateKey][employeeId];
+    const shift: ShiftCode | null = getWorkingShiftType(entry);
+    const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+    if (shift !== null && branch !== null) {
+      const definition: ShiftDefinition = getShiftDefinition(shiftDefinitions, branch, shift);
+      days.push({ dateKey, shift, branch, branchName: getBranchName(branches, branch), start: definition.start, end: definition.end });
+    } else if (isLeaveKind(entry)) {
+      days.push({ dateKey, shift: entry, branch: null, branchName: null, start: null, end: null });
+    }
+  });
+  return days;
+};
+
+// Days of every given month from `fromDateKey` on
+export const buildPersonalSchedule = (employeeId: string, months: Record<string, MonthData>, branches: Branch[], shiftDefinitions: ShiftDefinitions, fromDateKey: string): PersonalDay[] => {
+  return Object.keys(months).sort().flatMap((monthKey: string) =>
+    buildPersonalDays(employeeId, monthKey, months[monthKey], branches, shiftDefinitions).filter((day: PersonalDay) => day.dateKey >= fromDateKey)
+  );
+};
+
+// The employee's record in the latest of the given months that has them
+export const findEmployeeInMonths = (employeeId: string, months: Record<string, MonthData>): Employee | null => {
+  const monthKeys: string[] = Object.keys(months).sort().reverse();
+  for (const monthKey of monthKeys) {
+    const employee: Employee | undefined = months[monthKey].employees.find((e: Employee) => e.id === employeeId);
+    if (employee) return employee;
+  }
+  return null;
+};
+
+// .ics file of the days (working shifts at their times, leave days as all-day events)
+export const personalDaysToICalendar = (employeeId: string, employeeName: string, days: PersonalDay[], stamp: Date): string => {
+  const events: ICalendarEvent[] = days.map((day: PersonalDay) => ({
+    uid: `${day.dateKey}-${employeeId}@timetable-cvd`, // One cell per employee and day
+    summary: isLeaveKind(day.shift) ? LEAVE_KIND_LABELS[day.shift] : `กะ${day.shift}`,
+    location: day.branchName,
+    dateKey: day.dateKey,
+    start: day.start,
+    end: day.end,
+  }));
+  return buildICalendar(`ตารางเวร ${employeeName}`, events, stamp);
+};
@@ -0,0 +1,39 @@
+// lib/presence.ts
+
+// --- Who is editing which month and branch right now ---
+// Each signed-in editor keeps one document ('presence/{uid}') up to date while the app is open.
+// Documents are not reliably removed when a tab is closed, so entries not refreshed recently are ignored.
+
+export interface PresenceEntry {
+  uid: string;
+  email: string;
+  monthKey: string; // Month being displayed
+  branch: string | null; // Branch being edited, null in the all-branch overview
+  updatedAt: string; // ISO timestamp of the last heartbeat
+}
+
+// How often an open app refreshes its entry, and when an entry counts as gone
+export const PRESENCE_HEARTBEAT_MS: number = 30 * 1000;
+export const PRESENCE_TIMEOUT_MS: number = 2 * 60 * 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Validate a stored entry; null when it cannot be used
+export const decodePresenceEntry = (uid: string, raw: unknown): PresenceEntry | null => {
+  if (!isRecord(raw)) return null;
+  const { email, monthKey, branch, updatedAt } = raw;
+  if (typeof email !== 'string' || typeof monthKey !== 'string' || typeof updatedAt !== 'string') return null;
+  if (branch !== null && typeof branch !== 'string') return null;
+  return { uid, email, monthKey, branch, updatedAt };
+};
+
+// Other users still active, optionally only those at one branch
+export const getActiveEditors = (entries: PresenceEntry[], currentUid: string, now: number, branch: string | null = null): PresenceEntry[] => {
+  return entries.filter((entry: PresenceEntry) =>
+    entry.uid !== currentUid
+    && now - new Date(entry.updatedAt).getTime() < PRESENCE_TIMEOUT_MS
+    && (branch === null || entry.branch === branch)
+  );
+};
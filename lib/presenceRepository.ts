@@ -0,0 +1,69 @@
+// lib/presenceRepository.ts
+import { collection, deleteDoc, doc, onSnapshot, query, setDoc, where, type Firestore } from 'firebase/firestore';
+import { PresenceEntry, decodePresenceEntry } from './presence';
+
+// --- Persistence of presence entries ('presence/{uid}') ---
+
+export interface PresenceRepository {
+  setPresence: (entry: PresenceEntry) => Promise<void>;
+  clearPresence: (uid: string) => Promise<void>;
+  // Calls onChange with every entry of the month now and after every change. Returns the unsubscribe function.
+  watchPresence: (monthKey: string, onChange: (entries: PresenceEntry[]) => void, onError: (error: unknown) => void) => () => void;
+}
+
+export const PRESENCE_COLLECTION = 'presence';
+
+// Fields stored in the document (the uid is the document ID)
+const encodePresenceEntry = (entry: PresenceEntry): Omit<PresenceEntry, 'uid'> => ({
+  email: entry.email,
+  monthKey: entry.monthKey,
+  branch: entry.branch,
+  updatedAt: entry.updatedAt,
+});
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestorePresenceRepository = (db: Firestore): PresenceRepository => ({
+  setPresence: async (entry: PresenceEntry): Promise<void> => {
+    await setDoc(doc(db, PRESENCE_COLLECTION, entry.uid), encodePresenceEntry(entry));
+  },
+
+  clearPresence: async (uid: string): Promise<void> => {
+    await deleteDoc(doc(db, PRESENCE_COLLECTION, uid));
+  },
+
+  watchPresence: (monthKey: string, onChange: (entries: PresenceEntry[]) => void, onError: (error: unknown) => void): (() => void) => {
+    return onSnapshot(query(collection(db, PRESENCE_COLLECTION), where('monthKey', '==', monthKey)), (snapshot) => {
+      const entries: PresenceEntry[] = [];
+      snapshot.forEach((entryDoc) => {
+        const entry: PresenceEntry | null = decodePresenceEntry(entryDoc.id, entryDoc.data());
+        if (entry) entries.push(entry);
+      });
+      onChange(entries);
+    }, onError);
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryPresenceRepository = (): PresenceRepository => {
+  const stored: Map<string, PresenceEntry> = new Map();
+  const watchers: Set<() => void> = new Set();
+  const notifyAll = (): void => watchers.forEach((notify: () => void) => notify());
+  return {
+    setPresence: async (entry: PresenceEntry): Promise<void> => {
+      stored.set(entry.uid, { ...entry });
+      notifyAll();
+    },
+
+    clearPresence: async (uid: string): Promise<void> => {
+      stored.delete(uid);
+      notifyAll();
+    },
+
+    watchPresence: (monthKey: string, onChange: (entries: PresenceEntry[]) => void): (() => void) => {
+      const notify = (): void => onChange([...stored.values()].filter((entry: PresenceEntry) => entry.monthKey === monthKey));
+      watchers.add(notify);
+      notify();
+      return () => { watchers.delete(notify); };
+    },
+  };
+};
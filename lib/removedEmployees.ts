@@ -0,0 +1,46 @@
+// lib/removedEmployees.ts
+import type { Employee, MonthData, MonthlySchedule, RemovedEmployee, ShiftEntry } from './types';
+
+// --- Soft-delete of employees ---
+// Removing an employee takes them and their shifts out of the month and keeps both in
+// `removedEmployees`, so restoring puts the same rows and shifts back.
+
+// Take an employee (and their shifts of the month) out of the month
+export const removeEmployee = (month: MonthData, employeeId: string, removedBy: string, removedAt: string): MonthData => {
+  const employee: Employee | undefined = month.employees.find((e: Employee) => e.id === employeeId);
+  if (!employee) return month;
+
+  const shifts: RemovedEmployee['shifts'] = {};
+  const monthlySchedule: MonthlySchedule = {};
+  Object.entries(month.monthlySchedule).forEach(([dateKey, dayShifts]: [string, { [employeeId: string]: ShiftEntry }]) => {
+    const { [employeeId]: entry, ...others } = dayShifts;
+    if (entry !== undefined && entry !== '') shifts[dateKey] = entry;
+    if (Object.keys(others).length > 0) monthlySchedule[dateKey] = others;
+  });
+
+  return {
+    ...month,
+    employees: month.employees.filter((e: Employee) => e.id !== employeeId),
+    monthlySchedule,
+    removedEmployees: [...month.removedEmployees, { employee, shifts, removedAt, removedBy }],
+  };
+};
+
+// Put a removed employee back with their shifts. Returns null when their ID is taken again
+// (e.g. by an imported employee), since the shifts could not be told apart.
+export const restoreEmployee = (month: MonthData, employeeId: string): MonthData | null => {
+  const removed: RemovedEmployee | undefined = month.removedEmployees.find((r: RemovedEmployee) => r.employee.id === employeeId);
+  if (!removed || month.employees.some((e: Employee) => e.id === employeeId)) return null;
+
+  const monthlySchedule: MonthlySchedule = { ...month.monthlySchedule };
+  Object.entries(removed.shifts).forEach(([dateKey, entry]: [string, ShiftEntry]) => {
+    monthlySchedule[dateKey] = { ...monthlySchedule[dateKey], [employeeId]: entry };
+  });
+
+  return {
+    ...month,
+    employees: [...month.employees, removed.employee],
+    monthlySchedule,
+    removedEmployees: month.removedEmployees.filter((r: RemovedEmployee) => r.employee.id !== employeeId),
+  };
+};
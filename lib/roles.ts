@@ -0,0 +1,115 @@
+// lib/roles.ts
+import type { Employee } from './types';
+
+// --- Signed-in users and what each role may do ---
+// The same rules are enforced by Firestore (see firestore.rules); the checks here only shape the UI.
+
+// admin: manages branches, employees and the clinic configuration, edits every schedule
+// manager: edits the schedule of one branch
+// staff: reads their own shifts
+export type Role = 'admin' | 'manager' | 'staff';
+
+export const ROLES: Role[] = ['admin', 'manager', 'staff'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'ผู้ดูแลระบบ',
+  manager: 'ผู้จัดการสาขา',
+  staff: 'พนักงาน',
+};
+
+// Profile stored in 'users/{uid}'
+export interface UserProfile {
+  uid: string;
+  email: string;
+  role: Role;
+  branchId: string | null; // Branch a manager is responsible for
+  employeeId: string | null; // Employee record of a staff member
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Validate a stored profile; null when it cannot be used (the user is then treated as not authorised)
+export const decodeUserProfile = (uid: string, raw: unknown): UserProfile | null => {
+  if (!isRecord(raw)) return null;
+  const { email, role, branchId, employeeId } = raw;
+  if (typeof email !== 'string' || !ROLES.includes(role as Role)) return null;
+  if (branchId !== null && branchId !== undefined && typeof branchId !== 'string') return null;
+  if (employeeId !== null && employeeId !== undefined && typeof employeeId !== 'string') return null;
+  return {
+    uid,
+    email,
+    role: role as Role,
+    branchId: (branchId as string | null | undefined) ?? null,
+    employeeId: (employeeId as string | null | undefined) ?? null,
+  };
+};
+
+// Profile written the first time someone signs in; an admin then assigns the real role
+export const createNewUserProfile = (uid: string, email: string): UserProfile => ({
+  uid,
+  email,
+  role: 'staff',
+  branchId: null,
+  employeeId: null,
+});
+
+// Branches, employees, clinic configuration and user roles
+export const canAdminister = (user: UserProfile): boolean => user.role === 'admin';
+
+// Shifts worked at a branch
+export const canEditBranchSchedule = (user: UserProfile, branchId: string): boolean => {
+  return user.role === 'admin' || (user.role === 'manager' && user.branchId === branchId);
+};
+
+// Which employees appear in the schedule for this user (staff only see themselves)
+export const canViewEmployee = (user: UserProfile, employee: Employee): boolean => {
+  return user.role !== 'staff' || user.employeeId === employee.id;
+};
+
+// Whose shifts a user loads: every shift of a month for editors, only their own for staff
+// (no one's while the staff account is not linked to an employee)
+export type ShiftReadScope = 'all' | { employeeId: string | null };
+
+export const getShiftReadScope = (user: UserProfile): ShiftReadScope => {
+  return user.role === 'staff' ? { employeeId: user.employeeId } : 'all';
+};
+
+// Approve or reject leave: managers decide for the full-timers of their branch,
+// part-timers work across branches and are left to admins
+export const canApproveLeave = (user: UserProfile, employee: Employee): boolean => {
+  if (user.role === 'admin') return true;
+  return user.role === 'manager' && employee.type === 'full-time' && employee.branch === user.branchId;
+};
+
+// Submit a leave request: for yourself, or for someone whose leave you could approve
+export const canRequestLeave = (user: UserProfile, employee: Employee): boolean => {
+  return user.employeeId === employee.id || canApproveLeave(user, employee);
+};
+
+// Open an employee's personal page: staff only their own, managers and admins anyone's
+export const canViewPersonalSchedule = (user: UserProfile, employeeId: string): boolean => {
+  return user.role !== 'staff' || user.employeeId === employeeId;
+};
+
+// Create or revoke the calendar link of an employee: the employee themselves, or an admin
+export const canManageCalendarFeed = (user: UserProfile, employeeId: string): boolean => {
+  return user.role === 'admin' || user.employeeId === employeeId;
+};
+
+// Propose a shift swap: for yourself, or for anyone as an admin
+export const canProposeShiftSwap = (user: UserProfile, employee: Employee): boolean => {
+  return user.role === 'admin' || user.employeeId === employee.id;
+};
+
+// Accept or decline a swap proposed to an employee: the employee themselves, or an admin
+export const canRespondToShiftSwap = (user: UserProfile, counterpartId: string): boolean => {
+  return user.role === 'admin' || user.employeeId === counterpartId;
+};
+
+// Approve or reject an accepted swap: managers only when every branch it touches is theirs
+export const canApproveShiftSwap = (user: UserProfile, branchIds: string[]): boolean => {
+  if (user.role === 'admin') return true;
+  return user.role === 'manager' && branchIds.every((branchId: string) => branchId === user.branchId);
+};
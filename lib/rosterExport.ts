@@ -0,0 +1,117 @@
+// lib/rosterExport.ts
+import type { Branch, Employee, BaseShiftString, ShiftEntry, MonthlySchedule } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey, isDateKeyInMonth, toMonthKey } from './dates';
+import { getBranchName } from './branches';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { countBranchStaff } from './staffingRules';
+import { SHORT_DAY_NAMES } from './constants';
+import { getHomeBranchOn, getHomeBranchesInMonth, isEmployedInMonth } from './employees';
+import type { ShiftType } from './shiftCatalog';
+
+// --- Roster of one branch for one month, as it is exported (CSV, Excel, print) ---
+// Built from the same rules as the on-screen grid, so every output shows the same values.
+
+export interface RosterRow {
+  employee: Employee;
+  label: string; // Name as printed, e.g. 'สมชาย ใจดี (แพทย์แผนไทย)'
+  shifts: BaseShiftString[]; // One value per day of the month
+}
+
+export interface BranchRoster {
+  branchId: string;
+  branchName: string;
+  title: string; // e.g. 'ตารางเวร สาขาบัวใหญ่ ตุลาคม 2569'
+  days: number[]; // 1..daysInMonth
+  weekdayLabels: string[]; // Short day name of each day
+  rows: RosterRow[];
+  staffCounts: (number | null)[]; // Working staff per day, null when the branch is closed
+  shiftCatalog: ShiftType[]; // Colours of the working shifts
+}
+
+export interface RosterInput {
+  year: number;
+  month: number; // 0-indexed
+  monthTitle: string; // Buddhist-era month title, as rendered by toLocaleDateString('th-TH')
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  branches: Branch[]; // Every branch, for names
+  closures: ClosureSettings;
+  shiftCatalog: ShiftType[]; // Only shifts that count toward headcount are in the staff counts
+}
+
+// Value shown for an employee at a branch on a day (part-timers only show shifts worked at this branch)
+const getRosterShift = (employee: Employee, entry: ShiftEntry | undefined, dateKey: string, branchId: string): BaseShiftString => {
+  if (isWorkingShiftObject(entry)) return entry.branch === branchId ? entry.type : '';
+  if (employee.type === 'full-time' && getHomeBranchOn(employee, dateKey) !== branchId) return ''; // Before or after a transfer
+  return entry ?? '';
+};
+
+// Build the roster of a branch: its full-timers, then the part-timers who work there this month
+export const buildBranchRoster = (input: RosterInput, branchId: string): BranchRoster => {
+  const { year, month, employees, schedule, closures } = input;
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const days: number[] = Array.from({ length: daysInMonth }, (_, i) => i + 1);
+  const monthKey: string = toMonthKey(year, month);
+
+  const worksHere = (employee: Employee): boolean => {
+    if (employee.type === 'full-time') return isEmployedInMonth(employee, monthKey) && getHomeBranchesInMonth(employee, monthKey).includes(branchId);
+    return Object.keys(schedule).some((dateKey: string) => {
+      const entry: ShiftEntry | undefined = schedule[dateKey][employee.id];
+      return isDateKeyInMonth(dateKey, monthKey) && isWorkingShiftObject(entry) && entry.branch === branchId;
+    });
+  };
+  const ordered: Employee[] = [
+    ...employees.filter((e: Employee) => e.type === 'full-time' && worksHere(e)),
+    ...employees.filter((e: Employee) => e.type === 'part-time' && worksHere(e)),
+  ];
+
+  const rows: RosterRow[] = ordered.map((employee: Employee) => ({
+    employee,
+    label: `${employee.name} (${employee.position}${employee.type === 'part-time' ? ', พาร์ทไทม์' : ''})`,
+    shifts: days.map((day: number) => {
+      if (isBranchClosed(closures, branchId, year, month, day)) return 'ปิด';
+      const dateKey: string = toDateKey(year, month, day);
+      return getRosterShift(employee, schedule[dateKey]?.[employee.id], dateKey, branchId);
+    }),
+  }));
+
+  const branchName: string = getBranchName(input.branches, branchId);
+  return {
+    branchId,
+    branchName,
+    title: `ตารางเวร สาขา${branchName} ${input.monthTitle}`,
+    days,
+    weekdayLabels: days.map((day: number) => SHORT_DAY_NAMES[new Date(year, month, day).getDay()]),
+    rows,
+    staffCounts: days.map((day: number) =>
+      isBranchClosed(closures, branchId, year, month, day) ? null : countBranchStaff(employees, schedule[toDateKey(year, month, day)], toDateKey(year, month, day), branchId, input.shiftCatalog)
+    ),
+    shiftCatalog: input.shiftCatalog,
+  };
+};
+
+// Label of the staff-count row, shared by every output
+export const STAFF_COUNT_LABEL: string = 'พนักงานทำงาน / วัน';
+
+// Quote a CSV field when needed
+export const csvField = (value: string | number): string => {
+  const text: string = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV of one or more rosters, one block per branch separated by an empty line.
+// Starts with a BOM so Excel opens the Thai text as UTF-8.
+export const rostersToCsv = (rosters: BranchRoster[]): string => {
+  const lines: string[] = [];
+  rosters.forEach((roster: BranchRoster, index: number) => {
+    if (index > 0) lines.push('');
+    lines.push(csvField(roster.title));
+    lines.push(['พนักงาน / วันที่', ...roster.days.map((day: number, i: number) => `${day} ${roster.weekdayLabels[i]}`)].map(csvField).join(','));
+    roster.rows.forEach((row: RosterRow) => {
+      lines.push([row.label, ...row.shifts].map(csvField).join(','));
+    });
+    lines.push([STAFF_COUNT_LABEL, ...roster.staffCounts.map((count: number | null) => (count === null ? 'ปิด' : count))].map(csvField).join(','));
+  });
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
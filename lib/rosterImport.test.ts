@@ -0,0 +1,48 @@
+// lib/rosterImport.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, Employee, MonthlySchedule } from './types';
+import { ClosureSettings } from './closures';
+import { RosterChange, RosterImportPreview, previewRosterImport } from './rosterImport';
+import { DEFAULT_SHIFT_CATALOG } from './shiftCatalog';
+
+const YEAR: number = 2025;
+const MONTH: number = 5; // June 2025, the 1st is a Sunday
+
+const branches: Branch[] = [
+  { id: 'branch-1', name: 'บึงทับช้าง', archived: false },
+  { id: 'branch-2', name: 'บัวใหญ่', archived: false },
+];
+const closures: ClosureSettings = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+// e1 moves to branch-2 on the 16th
+const fullTimer: Employee = {
+  id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time',
+  transfers: [{ date: '2025-06-16', branch: 'branch-2' }],
+};
+const partTimer: Employee = { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' };
+// p1 is booked at branch-2 on the 3rd
+const schedule: MonthlySchedule = { '2025-06-03': { p1: { type: 'บ่าย', branch: 'branch-2' } } };
+
+// A branch-1 grid with the given cells filled in ({ day: text })
+const gridRow = (label: string, cells: Record<number, string>): string[] => {
+  return [label, ...Array.from({ length: 30 }, (_: unknown, index: number) => cells[index + 1] ?? '')];
+};
+const header: string[] = ['พนักงาน', ...Array.from({ length: 30 }, (_: unknown, index: number) => String(index + 1))];
+const preview = (rows: string[][]): RosterImportPreview => {
+  return previewRosterImport([header, ...rows], YEAR, MONTH, 'branch-1', [fullTimer, partTimer], schedule, branches, closures, DEFAULT_SHIFT_CATALOG);
+};
+const changedDays = (result: RosterImportPreview): string[] => result.changes.map((change: RosterChange) => `${change.employeeId} ${change.dateKey}`);
+
+describe('roster import', () => {
+  it("skips a full-timer's days at another branch", () => {
+    const result: RosterImportPreview = preview([gridRow('สมชาย (แพทย์แผนไทย)', { 2: 'ช', 16: 'ช', 17: '' })]);
+    assert.deepEqual(changedDays(result), ['e1 2025-06-02']);
+    assert.deepEqual(result.issues, [{ rowNumber: 2, message: 'วันที่ 16: สมชาย สังกัดสาขาบัวใหญ่ในวันนี้ ข้ามช่องนี้' }]);
+  });
+
+  it("keeps a part-timer's booking at another branch", () => {
+    const result: RosterImportPreview = preview([gridRow('สมหญิง', { 3: 'หยุด', 4: 'ห', 5: 'ช' })]);
+    assert.deepEqual(changedDays(result), ['p1 2025-06-04', 'p1 2025-06-05']);
+    assert.deepEqual(result.issues, [{ rowNumber: 2, message: 'วันที่ 3: สมหญิง มีเวรที่สาขาบัวใหญ่อยู่แล้ว ข้ามช่องนี้' }]);
+  });
+});
@@ -0,0 +1,187 @@
+// lib/rosterImport.ts
+import type { Branch, Employee, BaseShiftString, ShiftEntry, MonthlySchedule } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey } from './dates';
+import { resolveBranchId, getActiveBranches, getBranchName } from './branches';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { STAFF_COUNT_LABEL } from './rosterExport';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+import { isSameEntry, isWorkingEntry } from './scheduleUtils';
+import { ShiftType, findShiftType, isStatusShift } from './shiftCatalog';
+
+// --- Import of a roster grid (employees in rows, days in columns) into MonthlySchedule entries ---
+// Accepts the layout written by the CSV/Excel export: a header row of day numbers, one row per employee.
+// Part-timer working cells are placed at the target branch unless the cell names another one ('เช้า@บัวใหญ่').
+// Cells that belong to another branch (a full-timer's days there, a part-timer's booking there) are skipped and reported.
+
+// Short forms accepted for the statuses and the default shifts (compared after trimming and lower-casing).
+// Any code or label of the shift catalog is accepted as well.
+const SHIFT_CODES: Record<string, BaseShiftString> = {
+  'เช้า': 'เช้า', 'ช': 'เช้า', 'm': 'เช้า',
+  'บ่าย': 'บ่าย', 'บ': 'บ่าย', 'a': 'บ่าย',
+  'หยุด': 'หยุด', 'ห': 'หยุด', 'off': 'หยุด',
+  'ลา': 'ลา', 'ล': 'ลา', 'l': 'ลา',
+  'ป่วย': 'ป่วย', 'ป': 'ป่วย', 's': 'ป่วย',
+  'ปิด': 'ปิด',
+  '': '', '-': '',
+};
+
+// Shift of a cell text or typed code ('ช', 'เช้า', 'M', 'กะดึก'), or undefined when it is not a shift of the catalog.
+// A single character that is no short form picks the only catalog shift starting with it ('ด' -> 'ดึก').
+export const parseShiftCode = (text: string, shiftCatalog: ShiftType[]): BaseShiftString | undefined => {
+  const trimmed: string = text.trim();
+  const named: ShiftType | undefined = shiftCatalog.find((shiftType: ShiftType) => shiftType.code === trimmed || shiftType.label === trimmed);
+  if (named) return named.code;
+  const shortForm: BaseShiftString | undefined = SHIFT_CODES[trimmed.toLowerCase()];
+  if (shortForm !== undefined) return isStatusShift(shortForm) || findShiftType(shiftCatalog, shortForm) ? shortForm : undefined;
+  const starting: ShiftType[] = trimmed.length === 1 ? shiftCatalog.filter((shiftType: ShiftType) => shiftType.code.startsWith(trimmed)) : [];
+  return starting.length === 1 ? starting[0].code : undefined;
+};
+
+// A change the import would make to one cell
+export interface RosterChange {
+  dateKey: string;
+  day: number;
+  employeeId: string;
+  previous: ShiftEntry | undefined;
+  next: ShiftEntry;
+}
+
+export interface RosterIssue {
+  rowNumber: number; // 1-based
+  message: string;
+}
+
+export interface RosterImportPreview {
+  changes: RosterChange[];
+  issues: RosterIssue[];
+  matchedEmployees: number;
+}
+
+// Day number of a header cell ('5', '5 จ.'), or null
+const parseDayHeader = (cell: string): number | null => {
+  const match: RegExpMatchArray | null = cell.trim().match(/^(\d{1,2})(\s|$)/);
+  return match ? Number(match[1]) : null;
+};
+
+// Name part of a row label ('สมชาย ใจดี (แพทย์แผนไทย)' -> 'สมชาย ใจดี')
+const parseEmployeeLabel = (cell: string): string => cell.replace(/\s*\(.*\)\s*$/, '').trim();
+
+// Compare the grid with the schedule of the month and list what would change
+export const previewRosterImport = (
+  rows: string[][],
+  year: number,
+  month: number, // 0-indexed
+  targetBranch: string, // Branch the grid belongs to
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  branches: Branch[],
+  closures: ClosureSettings,
+  shiftCatalog: ShiftType[],
+): RosterImportPreview => {
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const issues: RosterIssue[] = [];
+  const changes: RosterChange[] = [];
+
+  // The header is the first row whose cells (after the label column) are mostly day numbers
+  const headerIndex: number = rows.findIndex((row: string[]) =>
+    row.slice(1).filter((cell: string) => parseDayHeader(cell) !== null).length >= Math.min(daysInMonth, 28)
+  );
+  if (headerIndex === -1) {
+    return { changes, issues: [{ rowNumber: 1, message: 'ไม่พบแถวหัวตารางที่มีวันที่ 1-31' }], matchedEmployees: 0 };
+  }
+  const dayColumns: { column: number; day: number }[] = [];
+  rows[headerIndex].forEach((cell: string, column: number) => {
+    const day: number | null = column === 0 ? null : parseDayHeader(cell);
+    if (day !== null && day >= 1 && day <= daysInMonth) dayColumns.push({ column, day });
+  });
+
+  const activeBranches: Branch[] = getActiveBranches(branches);
+  const employeesByName: Map<string, Employee[]> = new Map();
+  employees.forEach((e: Employee) => employeesByName.set(e.name.trim(), [...(employeesByName.get(e.name.trim()) ?? []), e]));
+  let matchedEmployees: number = 0;
+
+  rows.slice(headerIndex + 1).forEach((row: string[], index: number) => {
+    const rowNumber: number = headerIndex + index + 2;
+    const label: string = (row[0] ?? '').trim();
+    if (!label || label === STAFF_COUNT_LABEL || parseDayHeader(label) !== null) return; // Blank, count or weekday rows
+
+    const matches: Employee[] = employeesByName.get(parseEmployeeLabel(label)) ?? [];
+    // Titles and weekday rows hold no shift codes; only rows that look like shifts are reported
+    const hasShiftCodes: boolean = dayColumns.some(({ column }) => (parseShiftCode((row[column] ?? '').split('@')[0], shiftCatalog) ?? '') !== '');
+    if (matches.length === 0 && !hasShiftCodes) return;
+    if (matches.length !== 1) {
+      issues.push({ rowNumber, message: matches.length === 0 ? `ไม่พบพนักงาน "${label}"` : `มีพนักงานชื่อ "${label}" มากกว่าหนึ่งคน` });
+      return;
+    }
+    const employee: Employee = matches[0];
+    matchedEmployees++;
+
+    dayColumns.forEach(({ column, day }: { column: number; day: number }) => {
+      const [shiftText, branchText] = (row[column] ?? '').split('@').map((part: string) => part.trim());
+      const shift: BaseShiftString | undefined = parseShiftCode(shiftText, shiftCatalog);
+      if (shift === undefined) {
+        issues.push({ rowNumber, message: `วันที่ ${day}: รหัสกะไม่ถูกต้อง "${row[column]}"` });
+        return;
+      }
+      if (shift === 'ปิด') return; // Closing days come from the closure settings, not from the grid
+
+      let next: ShiftEntry = shift;
+      if (employee.type === 'part-time' && isWorkingEntry(shift)) {
+        const branch: string | null = branchText ? resolveBranchId(activeBranches, branchText) : targetBranch;
+        if (branch === null) {
+          issues.push({ rowNumber, message: `วันที่ ${day}: ไม่พบสาขา "${branchText}"` });
+          return;
+        }
+        next = { type: shift, branch };
+      } else if (employee.type === 'part-time' && shift === '') {
+        return; // An empty cell of a part-timer only means they do not work at this branch
+      }
+
+      const dateKey: string = toDateKey(year, month, day);
+      const previous: ShiftEntry | undefined = schedule[dateKey]?.[employee.id];
+      // A full-timer's row covers only the days they belong to this branch (before or after a transfer they are another branch's)
+      const homeBranch: string | null = employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : null;
+      if (homeBranch !== null && homeBranch !== targetBranch) {
+        if (shift !== '') issues.push({ rowNumber, message: `วันที่ ${day}: ${employee.name} สังกัดสาขา${getBranchName(branches, homeBranch)}ในวันนี้ ข้ามช่องนี้` });
+        return;
+      }
+      // A status over a range never replaces a part-timer's booking at another branch (see keepsOtherBranchBooking in lib/gridEditing.ts)
+      if (employee.type === 'part-time' && isStatusShift(shift) && isWorkingShiftObject(previous) && previous.branch !== targetBranch) {
+        issues.push({ rowNumber, message: `วันที่ ${day}: ${employee.name} มีเวรที่สาขา${getBranchName(branches, previous.branch)}อยู่แล้ว ข้ามช่องนี้` });
+        return;
+      }
+      const workBranch: string = isWorkingShiftObject(next) ? next.branch : targetBranch;
+      if (isWorkingEntry(shift) && isBranchClosed(closures, workBranch, year, month, day)) {
+        issues.push({ rowNumber, message: `วันที่ ${day}: สาขา${getBranchName(branches, workBranch)}ปิด ข้ามช่องนี้` });
+        return;
+      }
+      if (shift !== '' && !isEmployedOn(employee, dateKey)) {
+        issues.push({ rowNumber, message: `วันที่ ${day}: ${employee.name} ไม่ได้อยู่ในช่วงการจ้าง ข้ามช่องนี้` });
+        return;
+      }
+
+      if (!isSameEntry(previous, next)) {
+        changes.push({ dateKey, day, employeeId: employee.id, previous, next });
+      }
+    });
+  });
+
+  return { changes, issues, matchedEmployees };
+};
+
+// Apply the changes of a preview to a schedule
+export const applyRosterImport = (schedule: MonthlySchedule, changes: RosterChange[]): MonthlySchedule => {
+  const updated: MonthlySchedule = { ...schedule };
+  changes.forEach((change: RosterChange) => {
+    updated[change.dateKey] = { ...updated[change.dateKey], [change.employeeId]: change.next };
+  });
+  return updated;
+};
+
+// Short text of a shift entry for a list of changes ('-', 'หยุด', 'เช้า@บัวใหญ่')
+export const describeRosterEntry = (entry: ShiftEntry | undefined, branches: Branch[]): string => {
+  if (entry === undefined || entry === '') return '-';
+  if (typeof entry === 'string') return entry;
+  return `${entry.type}@${getBranchName(branches, entry.branch)}`;
+};
@@ -0,0 +1,181 @@
+// lib/rosterTemplates.ts
+import type { Branch, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { parseDateKey, toDateKey, toMonthKey, isDateKeyInMonth } from './dates';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { validatePartTimeAssignment } from './partTimeDispatch';
+import { getWorkingBranch, isClinicDayOff, isSameEntry, isWorkingEntry } from './scheduleUtils';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+import type { RosterChange } from './rosterImport';
+
+// --- Rotation templates and copy-forward: fill a month from a repeating pattern or from the month before ---
+// Both produce a proposal (the entries they would write); `planRosterFill` compares it with the month,
+// leaving out leave, closing days and people not employed, and lists the cells that would change.
+
+// A repeating pattern of a few weeks, captured from a schedule
+export interface RosterTemplate {
+  id: string;
+  name: string;
+  startDate: string; // Monday on which week 1 begins; the pattern repeats every `weeks` weeks before and after it
+  weeks: number;
+  shifts: Record<string, ShiftEntry[]>; // Employee ID -> weeks * 7 entries from the start Monday ('' = no shift)
+}
+
+// 'overwrite' replaces whatever is in a cell (except leave), 'fillEmpty' only writes empty cells
+export type RosterFillMode = 'overwrite' | 'fillEmpty';
+
+export type RosterSkipReason = 'leave' | 'closed' | 'notEmployed' | 'unavailable' | 'filled';
+
+export const ROSTER_SKIP_REASON_LABELS: Record<RosterSkipReason, string> = {
+  leave: 'มีวันลาอยู่แล้ว',
+  closed: 'สาขาปิด',
+  notEmployed: 'นอกช่วงการจ้าง',
+  unavailable: 'พาร์ทไทม์ไม่สะดวก',
+  filled: 'มีเวรอยู่แล้ว',
+};
+
+export interface RosterFillPlan {
+  changes: RosterChange[];
+  skipped: Record<RosterSkipReason, number>; // Proposed cells left out, per reason
+}
+
+const DAY_MS: number = 24 * 60 * 60 * 1000;
+
+// Whole days from one date key to another (negative when `to` is earlier)
+const daysBetween = (from: string, to: string): number => Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+
+// Entries a template or a copy may carry: working shifts and days off. Leave and 'ปิด' belong to one month only.
+const isCopyableEntry = (entry: ShiftEntry | undefined): entry is ShiftEntry => {
+  return isWorkingEntry(entry) || entry === 'หยุด';
+};
+
+// Check the settings of a new template; returns an error message or null when it can be captured
+export const validateTemplateDraft = (name: string, startDate: string, weeks: number, monthKey: string): string | null => {
+  if (!name.trim()) return 'กรุณาตั้งชื่อแม่แบบ';
+  if (!isDateKeyInMonth(startDate, monthKey)) return 'วันเริ่มต้นต้องอยู่ในเดือนที่แสดงอยู่';
+  if (parseDateKey(startDate).getDay() !== 1) return 'วันเริ่มต้นต้องเป็นวันจันทร์';
+  if (!Number.isInteger(weeks) || weeks < 1) return 'จำนวนสัปดาห์ต้องเป็นจำนวนเต็มตั้งแต่ 1 ขึ้นไป';
+  const start: Date = parseDateKey(startDate);
+  const lastDay: Date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + weeks * 7 - 1);
+  if (toMonthKey(lastDay.getFullYear(), lastDay.getMonth()) !== monthKey) return `${weeks} สัปดาห์จากวันเริ่มต้นเกินเดือนที่แสดงอยู่`;
+  return null;
+};
+
+// Capture `weeks` weeks of the schedule from a Monday as a template. Employees without any shift in them are left out.
+export const createRosterTemplate = (
+  id: string,
+  name: string,
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  startDate: string,
+  weeks: number,
+): RosterTemplate => {
+  const start: Date = parseDateKey(startDate);
+  const shifts: Record<string, ShiftEntry[]> = {};
+  employees.forEach((employee: Employee) => {
+    const entries: ShiftEntry[] = [];
+    for (let offset = 0; offset < weeks * 7; offset++) {
+      const date: Date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+      const entry: ShiftEntry | undefined = schedule[toDateKey(date.getFullYear(), date.getMonth(), date.getDate())]?.[employee.id];
+      entries.push(isCopyableEntry(entry) ? entry : '');
+    }
+    if (entries.some((entry: ShiftEntry) => entry !== '')) shifts[employee.id] = entries;
+  });
+  return { id, name: name.trim(), startDate, weeks, shifts };
+};
+
+// What a template would write into a month: each day takes the entry of its place in the repeating pattern
+export const projectTemplate = (template: RosterTemplate, year: number, month: number): MonthlySchedule => {
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const length: number = template.weeks * 7;
+  const proposal: MonthlySchedule = {};
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey: string = toDateKey(year, month, day);
+    const index: number = ((daysBetween(template.startDate, dateKey) % length) + length) % length;
+    proposal[dateKey] = {};
+    Object.entries(template.shifts).forEach(([employeeId, entries]) => {
+      if (entries[index] !== undefined && entries[index] !== '') proposal[dateKey][employeeId] = entries[index];
+    });
+  }
+  return proposal;
+};
+
+// What copying the previous month would write, aligned by weekday: each day takes the day four weeks earlier,
+// or five weeks earlier for the last days, whose four-weeks-earlier day is still in this month
+export const projectPreviousMonth = (previous: MonthlySchedule, year: number, month: number): MonthlySchedule => {
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const previousMonthKey: string = toMonthKey(new Date(year, month - 1, 1).getFullYear(), new Date(year, month - 1, 1).getMonth());
+  const proposal: MonthlySchedule = {};
+  for (let day = 1; day <= daysInMonth; day++) {
+    let source: Date = new Date(year, month, day - 28);
+    if (source.getMonth() === month) source = new Date(year, month, day - 35);
+    const sourceKey: string = toDateKey(source.getFullYear(), source.getMonth(), source.getDate());
+    const dateKey: string = toDateKey(year, month, day);
+    proposal[dateKey] = {};
+    if (!isDateKeyInMonth(sourceKey, previousMonthKey)) continue;
+    Object.entries(previous[sourceKey] ?? {}).forEach(([employeeId, entry]) => {
+      if (isCopyableEntry(entry)) proposal[dateKey][employeeId] = entry;
+    });
+  }
+  return proposal;
+};
+
+// Compare a proposal with the month and list the cells it would change. Entries for employees no longer
+// in the month are ignored; a full-timer's part-timer entry keeps only its shift type, and the reverse is ignored.
+export const planRosterFill = (
+  proposal: MonthlySchedule,
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  closures: ClosureSettings,
+  branches: Branch[],
+  year: number,
+  month: number, // 0-indexed
+  mode: RosterFillMode,
+): RosterFillPlan => {
+  const changes: RosterChange[] = [];
+  const skipped: Record<RosterSkipReason, number> = { leave: 0, closed: 0, notEmployed: 0, unavailable: 0, filled: 0 };
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const dateKey: string = toDateKey(year, month, day);
+    employees.forEach((employee: Employee) => {
+      const proposed: ShiftEntry | undefined = proposal[dateKey]?.[employee.id];
+      if (proposed === undefined || proposed === '') return;
+      let next: ShiftEntry = proposed;
+      if (employee.type === 'full-time' && isWorkingShiftObject(proposed)) next = proposed.type;
+      if (employee.type === 'part-time' && typeof proposed === 'string' && isWorkingEntry(proposed)) return;
+
+      const previous: ShiftEntry | undefined = schedule[dateKey]?.[employee.id];
+      if (previous === 'ลา' || previous === 'ป่วย') {
+        skipped.leave++;
+        return;
+      }
+      if (!isEmployedOn(employee, dateKey)) {
+        skipped.notEmployed++;
+        return;
+      }
+      // Closing days of the branch the cell belongs to; a part-timer's day off belongs to no branch
+      const cellBranch: string | null = getWorkingBranch(employee, next, dateKey) ?? (employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : null);
+      if (cellBranch !== null ? isBranchClosed(closures, cellBranch, year, month, day) : isClinicDayOff(year, month, day, closures.clinicDayOff)) {
+        skipped.closed++;
+        return;
+      }
+      if (isWorkingShiftObject(next)) {
+        const { type, branch } = next;
+        const { [employee.id]: _cell, ...otherShifts } = schedule[dateKey] ?? {};
+        const isArchived: boolean = branches.find((b: Branch) => b.id === branch)?.archived ?? true;
+        if (isArchived || validatePartTimeAssignment(employee, { ...schedule, [dateKey]: otherShifts }, closures, branches, year, month, day, type, branch) !== null) {
+          skipped.unavailable++;
+          return;
+        }
+      }
+      if (isSameEntry(previous, next)) return;
+      if (mode === 'fillEmpty' && previous !== undefined && previous !== '') {
+        skipped.filled++;
+        return;
+      }
+      changes.push({ dateKey, day, employeeId: employee.id, previous, next });
+    });
+  }
+  return { changes, skipped };
+};
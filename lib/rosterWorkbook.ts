@@ -0,0 +1,67 @@
+// lib/rosterWorkbook.ts
+import type { Workbook, Worksheet, Cell } from 'exceljs';
+import type { BaseShiftString } from './types';
+import { BranchRoster, RosterRow, STAFF_COUNT_LABEL } from './rosterExport';
+import type { ShiftType } from './shiftCatalog';
+import { ShiftStyle, getShiftStyle } from './shiftStyles';
+import { ExcelJSModule, loadExcelJS } from './excel';
+
+// --- Excel (.xlsx) export of rosters: one worksheet per branch, coloured like the grid ---
+
+// Paper size code of A4 in the xlsx format
+const A4_PAPER_SIZE: number = 9;
+
+// exceljs wants colours as ARGB without '#'
+const toArgb = (hex: string): string => `FF${hex.replace('#', '').toUpperCase()}`;
+
+const styleShiftCell = (cell: Cell, shift: BaseShiftString, shiftCatalog: ShiftType[]): void => {
+  const style: ShiftStyle = getShiftStyle(shiftCatalog, shift);
+  cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: toArgb(style.fill) } };
+  cell.font = { color: { argb: toArgb(style.text) }, bold: style.bold };
+  cell.alignment = { horizontal: 'center' };
+};
+
+// Sheet names are limited to 31 characters and must be unique
+const toSheetName = (name: string, used: Set<string>): string => {
+  const base: string = name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 28) || 'สาขา';
+  let sheetName: string = base;
+  for (let i = 2; used.has(sheetName); i++) sheetName = `${base} ${i}`;
+  used.add(sheetName);
+  return sheetName;
+};
+
+const addRosterSheet = (workbook: Workbook, roster: BranchRoster, sheetName: string): void => {
+  const sheet: Worksheet = workbook.addWorksheet(sheetName, {
+    pageSetup: { paperSize: A4_PAPER_SIZE, orientation: 'landscape', fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+    views: [{ state: 'frozen', xSplit: 1, ySplit: 3 }],
+  });
+
+  sheet.addRow([roster.title]).font = { bold: true, size: 14 };
+  sheet.addRow(['วันที่', ...roster.days]).font = { bold: true };
+  sheet.addRow(['พนักงาน', ...roster.weekdayLabels]).font = { bold: true };
+
+  roster.rows.forEach((row: RosterRow) => {
+    const excelRow = sheet.addRow([row.label, ...row.shifts]);
+    row.shifts.forEach((shift: BaseShiftString, index: number) => styleShiftCell(excelRow.getCell(index + 2), shift, roster.shiftCatalog));
+  });
+
+  const countRow = sheet.addRow([STAFF_COUNT_LABEL, ...roster.staffCounts.map((count: number | null) => count ?? 'ปิด')]);
+  countRow.font = { bold: true };
+  roster.staffCounts.forEach((count: number | null, index: number) => {
+    if (count === null) styleShiftCell(countRow.getCell(index + 2), 'ปิด', roster.shiftCatalog);
+    else countRow.getCell(index + 2).alignment = { horizontal: 'center' };
+  });
+
+  sheet.getColumn(1).width = 34;
+  roster.days.forEach((_, index: number) => { sheet.getColumn(index + 2).width = 5; });
+};
+
+// Build the .xlsx file of the given rosters
+export const buildRosterWorkbook = async (rosters: BranchRoster[]): Promise<Blob> => {
+  const ExcelJS: ExcelJSModule = await loadExcelJS();
+  const workbook: Workbook = new ExcelJS.Workbook();
+  const usedNames: Set<string> = new Set();
+  rosters.forEach((roster: BranchRoster) => addRosterSheet(workbook, roster, toSheetName(roster.branchName, usedNames)));
+  const buffer: ArrayBuffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
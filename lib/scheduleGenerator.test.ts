@@ -0,0 +1,127 @@
+// lib/scheduleGenerator.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Employee, ShiftEntry, MonthlySchedule } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey } from './dates';
+import { ClosureSettings } from './closures';
+import { BranchStaffingRules } from './staffingRules';
+import { getWorkingBranch, isWorkingEntry } from './scheduleUtils';
+import { GeneratorInput, GeneratorResult, StaffingShortfall, generateMonthSchedule } from './scheduleGenerator';
+
+// June 2025 starts on a Sunday, the clinic day off: the 1st, 8th, 15th, 22nd and 29th are closed
+const YEAR: number = 2025;
+const MONTH: number = 5;
+const DAYS_IN_MONTH: number = 30;
+const SUNDAYS: number[] = [1, 8, 15, 22, 29];
+const OPEN_DAYS: number[] = Array.from({ length: DAYS_IN_MONTH }, (_, i: number) => i + 1).filter((day: number) => !SUNDAYS.includes(day));
+
+const closures: ClosureSettings = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+
+const fullTimer = (id: string, branch: string): Employee => ({ id, name: id, position: 'แพทย์แผนไทย', branch, type: 'full-time' });
+const partTimer = (id: string): Employee => ({ id, name: id, position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' });
+
+const generate = (input: Partial<GeneratorInput> & Pick<GeneratorInput, 'employees' | 'branches'>): GeneratorResult => {
+  return generateMonthSchedule({ year: YEAR, month: MONTH, schedule: {}, closures, ...input });
+};
+
+// People working at a branch on a day of the generated month
+const countWorking = (result: GeneratorResult, employees: Employee[], branch: string, day: number): number => {
+  const dateKey: string = toDateKey(YEAR, MONTH, day);
+  return employees.filter((e: Employee) => getWorkingBranch(e, result.schedule[dateKey]?.[e.id], dateKey) === branch).length;
+};
+
+describe('generateMonthSchedule', () => {
+  it('assigns no one on the clinic day off and keeps the cells already set there', () => {
+    const employees: Employee[] = [fullTimer('e1', 'branch-1'), fullTimer('e2', 'branch-1'), partTimer('p1')];
+    const sunday: string = toDateKey(YEAR, MONTH, SUNDAYS[1]);
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1'], schedule: { [sunday]: { e1: 'หยุด' } } });
+
+    SUNDAYS.forEach((day: number) => {
+      const dateKey: string = toDateKey(YEAR, MONTH, day);
+      employees.forEach((e: Employee) => assert.equal(isWorkingEntry(result.schedule[dateKey]?.[e.id]), false, `${dateKey}/${e.id}`));
+    });
+    assert.equal(result.schedule[sunday].e1, 'หยุด');
+    assert.equal(result.shortfalls.some((s: StaffingShortfall) => SUNDAYS.includes(Number(s.dateKey.slice(8)))), false);
+  });
+
+  it('keeps existing leave and sick entries', () => {
+    const employees: Employee[] = [fullTimer('e1', 'branch-1'), fullTimer('e2', 'branch-1'), partTimer('p1')];
+    const schedule: MonthlySchedule = {
+      [toDateKey(YEAR, MONTH, 2)]: { e1: 'ลา', p1: 'ป่วย' },
+      [toDateKey(YEAR, MONTH, 3)]: { e1: 'ลา', e2: 'ป่วย' },
+    };
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1'], schedule });
+
+    assert.deepEqual(result.schedule[toDateKey(YEAR, MONTH, 2)].e1, 'ลา');
+    assert.deepEqual(result.schedule[toDateKey(YEAR, MONTH, 2)].p1, 'ป่วย');
+    assert.deepEqual(result.schedule[toDateKey(YEAR, MONTH, 3)].e1, 'ลา');
+    assert.deepEqual(result.schedule[toDateKey(YEAR, MONTH, 3)].e2, 'ป่วย');
+    assert.deepEqual(schedule[toDateKey(YEAR, MONTH, 2)], { e1: 'ลา', p1: 'ป่วย' }); // Input not mutated
+  });
+
+  it('books a part-timer at no more than one branch per day and keeps an existing booking', () => {
+    const employees: Employee[] = [
+      fullTimer('a1', 'branch-1'), fullTimer('a2', 'branch-1'),
+      fullTimer('b1', 'branch-2'), fullTimer('b2', 'branch-2'),
+      partTimer('p1'),
+    ];
+    const booked: string = toDateKey(YEAR, MONTH, 2);
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1', 'branch-2'], schedule: { [booked]: { p1: { type: 'บ่าย', branch: 'branch-2' } } } });
+
+    assert.deepEqual(result.schedule[booked].p1, { type: 'บ่าย', branch: 'branch-2' });
+    OPEN_DAYS.forEach((day: number) => {
+      const atBranches: number = ['branch-1', 'branch-2']
+        .filter((branch: string) => countWorking(result, [employees[4]], branch, day) > 0).length;
+      assert.ok(atBranches <= 1, `day ${day}`);
+      // Both branches need a third person, so whichever one the part-timer did not go to is reported
+      const entry: ShiftEntry | undefined = result.schedule[toDateKey(YEAR, MONTH, day)]?.p1;
+      const shortOn: string[] = result.shortfalls
+        .filter((s: StaffingShortfall) => s.dateKey === toDateKey(YEAR, MONTH, day))
+        .map((s: StaffingShortfall) => s.branch);
+      if (isWorkingShiftObject(entry)) assert.equal(shortOn.includes(entry.branch), false, `day ${day}`);
+      assert.ok(shortOn.length >= 1, `day ${day}`);
+    });
+  });
+
+  it('stays within the maximum of a branch and reaches its minimum when enough people are available', () => {
+    const employees: Employee[] = ['e1', 'e2', 'e3', 'e4', 'e5', 'e6'].map((id: string) => fullTimer(id, 'branch-1'));
+    const staffingRules: BranchStaffingRules = {
+      'branch-1': [{ id: 'r1', shift: 'all', position: null, weekdays: [], min: 2, max: 3 }],
+    };
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1'], staffingRules });
+
+    OPEN_DAYS.forEach((day: number) => {
+      const count: number = countWorking(result, employees, 'branch-1', day);
+      assert.ok(count >= 2 && count <= 3, `day ${day}: ${count}`);
+      // Everyone not working got the day off
+      employees.forEach((e: Employee) => assert.ok(result.schedule[toDateKey(YEAR, MONTH, day)][e.id]));
+    });
+    assert.deepEqual(result.shortfalls, []);
+  });
+
+  it('reports every open day a branch cannot reach its minimum', () => {
+    const employees: Employee[] = [fullTimer('e1', 'branch-1')];
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1'] }); // Default target 3-4
+
+    assert.equal(result.shortfalls.length, OPEN_DAYS.length);
+    result.shortfalls.forEach((shortfall: StaffingShortfall) => {
+      const day: number = Number(shortfall.dateKey.slice(8));
+      assert.equal(shortfall.branch, 'branch-1');
+      assert.equal(shortfall.target, 3);
+      assert.equal(shortfall.count, countWorking(result, employees, 'branch-1', day));
+    });
+  });
+
+  it('gives a full-timer a day off after the longest allowed run of working days', () => {
+    const employees: Employee[] = [fullTimer('e1', 'branch-1')];
+    const result: GeneratorResult = generate({ employees, branches: ['branch-1'], closures: { ...closures, clinicDayOff: 'ไม่มี' } });
+
+    let run: number = 0;
+    for (let day = 1; day <= DAYS_IN_MONTH; day++) {
+      run = isWorkingEntry(result.schedule[toDateKey(YEAR, MONTH, day)]?.e1) ? run + 1 : 0;
+      assert.ok(run <= 6, `day ${day}`);
+    }
+    assert.equal(result.schedule[toDateKey(YEAR, MONTH, 7)].e1, 'หยุด');
+  });
+});
@@ -0,0 +1,198 @@
+// lib/scheduleGenerator.ts
+import type { Employee, ShiftCode, ShiftEntry, MonthlySchedule } from './types';
+import { toDateKey, parseDateKey } from './dates';
+import { BranchStaffingRules, getHeadcountTarget } from './staffingRules';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { isWorkingEntry, getWorkingBranch, getWorkingShiftType } from './scheduleUtils';
+import { getAvailableShifts } from './partTimeDispatch';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+import { DEFAULT_SHIFT_CATALOG, ShiftType, countsTowardHeadcount } from './shiftCatalog';
+
+// --- Automatic schedule generator ---
+// Pure module: takes the current month and returns a new schedule, never touches React state.
+// Only empty cells are filled, so 'ลา'/'ป่วย' and anything assigned by hand are kept as they are.
+// Days outside someone's employment are left empty. Only shifts that count toward headcount are handed out.
+
+// Longest run of working days before a full-timer or part-timer must get a day off
+export const MAX_CONSECUTIVE_WORK_DAYS: number = 6;
+
+export interface GeneratorInput {
+  year: number;
+  month: number; // 0-indexed, like Date#getMonth
+  employees: Employee[];
+  branches: string[];
+  schedule: MonthlySchedule; // Existing schedule (may include other months, used to look back across month boundaries)
+  closures: ClosureSettings; // Closed branch-days are never assigned
+  staffingRules?: BranchStaffingRules; // Whole-day headcount rules give each branch its min/max (default 3-4)
+  shiftCatalog?: ShiftType[]; // Shifts to hand out (default: เช้า and บ่าย)
+}
+
+// A branch/day that could not reach its minimum target
+export interface StaffingShortfall {
+  dateKey: string;
+  branch: string;
+  count: number; // Working staff after generation
+  target: number; // Minimum that was wanted
+}
+
+export interface GeneratorResult {
+  schedule: MonthlySchedule; // Full schedule (input schedule plus the generated cells)
+  assignedCount: number; // Number of cells filled by the generator
+  shortfalls: StaffingShortfall[];
+}
+
+// Date key of the day before a date key (works across month and year boundaries)
+const getPreviousDateKey = (dateKey: string): string => {
+  const date: Date = parseDateKey(dateKey);
+  const previous: Date = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+  return toDateKey(previous.getFullYear(), previous.getMonth(), previous.getDate());
+};
+
+// Number of consecutive working days an employee has right before a date
+const countConsecutiveWorkDaysBefore = (schedule: MonthlySchedule, employeeId: string, dateKey: string): number => {
+  let count: number = 0;
+  let cursor: string = getPreviousDateKey(dateKey);
+  while (count < MAX_CONSECUTIVE_WORK_DAYS && isWorkingEntry(schedule[cursor]?.[employeeId])) {
+    count++;
+    cursor = getPreviousDateKey(cursor);
+  }
+  return count;
+};
+
+// Generate shifts for every empty cell of the month
+export const generateMonthSchedule = (input: GeneratorInput): GeneratorResult => {
+  const { year, month, employees, closures } = input;
+  const staffingRules: BranchStaffingRules = input.staffingRules ?? {};
+  const shiftCatalog: ShiftType[] = input.shiftCatalog ?? DEFAULT_SHIFT_CATALOG;
+  const shifts: ShiftCode[] = shiftCatalog.filter((shiftType: ShiftType) => shiftType.countsTowardHeadcount).map((shiftType: ShiftType) => shiftType.code);
+  // Nothing to hand out when no shift staffs a branch
+  if (shifts.length === 0) return { schedule: { ...input.schedule }, assignedCount: 0, shortfalls: [] };
+
+  // Deep-copy the day records we may write to, so the input is never mutated
+  const schedule: MonthlySchedule = { ...input.schedule };
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const fullTimers: Employee[] = employees.filter((e: Employee) => e.type === 'full-time');
+  const partTimers: Employee[] = employees.filter((e: Employee) => e.type === 'part-time');
+
+  // Running counters used to spread the work fairly
+  const workedDays: Record<string, number> = {};
+  const shiftCounts: Record<string, Record<ShiftCode, number>> = {};
+  employees.forEach((e: Employee) => {
+    workedDays[e.id] = 0;
+    shiftCounts[e.id] = {};
+  });
+
+  let assignedCount: number = 0;
+  const shortfalls: StaffingShortfall[] = [];
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    // Closed branches take no one today; the grid shows 'ปิด' there
+    const branches: string[] = input.branches.filter((branch: string) => !isBranchClosed(closures, branch, year, month, day));
+    if (branches.length === 0) continue;
+
+    const dateKey: string = toDateKey(year, month, day);
+    const weekday: number = new Date(year, month, day).getDay();
+    const targets: Record<string, { min: number; max: number }> = {};
+    branches.forEach((branch: string) => {
+      targets[branch] = getHeadcountTarget(staffingRules, branch, weekday);
+    });
+    const dayShifts: { [employeeId: string]: ShiftEntry } = { ...(schedule[dateKey] ?? {}) };
+    const employedToday: Set<string> = new Set(employees.filter((e: Employee) => isEmployedOn(e, dateKey)).map((e: Employee) => e.id));
+    schedule[dateKey] = dayShifts;
+
+    // Empty cells of people employed today
+    const isEmpty = (employeeId: string): boolean => !dayShifts[employeeId] && employedToday.has(employeeId);
+
+    // Headcount per branch and per shift type for this day, starting from the cells that are already set
+    const headcount: Record<string, number> = {};
+    const shiftHeadcount: Record<string, Record<ShiftCode, number>> = {};
+    branches.forEach((branch: string) => {
+      headcount[branch] = 0;
+      shiftHeadcount[branch] = {};
+    });
+    const countAssignment = (employee: Employee): void => {
+      const entry: ShiftEntry | undefined = dayShifts[employee.id];
+      const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+      const shiftType: ShiftCode | null = getWorkingShiftType(entry);
+      if (branch === null || shiftType === null || headcount[branch] === undefined) return;
+      if (countsTowardHeadcount(shiftCatalog, shiftType)) headcount[branch]++;
+      shiftHeadcount[branch][shiftType] = (shiftHeadcount[branch][shiftType] ?? 0) + 1;
+      workedDays[employee.id]++;
+      shiftCounts[employee.id][shiftType] = (shiftCounts[employee.id][shiftType] ?? 0) + 1;
+    };
+    employees.forEach((employee: Employee) => {
+      if (!isEmpty(employee.id)) countAssignment(employee);
+    });
+
+    // Give the shift with the fewest people in the branch; on a tie, the one the employee worked least, then catalog order.
+    // Part-timers only get a shift they declared themselves available for.
+    const pickShiftType = (employee: Employee, branch: string): ShiftCode => {
+      const candidates: ShiftCode[] = employee.type === 'part-time' ? getAvailableShifts(employee, weekday, branch, shifts) : shifts;
+      const inBranch = (shift: ShiftCode): number => shiftHeadcount[branch][shift] ?? 0;
+      const byEmployee = (shift: ShiftCode): number => shiftCounts[employee.id][shift] ?? 0;
+      return candidates.reduce((best: ShiftCode, shift: ShiftCode) =>
+        (inBranch(shift) - inBranch(best) || byEmployee(shift) - byEmployee(best)) < 0 ? shift : best
+      );
+    };
+
+    // 1) Full-timers: work at their branch up to the maximum, rest when over the limit or when tired
+    branches.forEach((branch: string) => {
+      const candidates: Employee[] = fullTimers.filter((e: Employee) => getHomeBranchOn(e, dateKey) === branch && isEmpty(e.id));
+
+      // Those with the longest current run of working days get the day off first
+      const ordered: Employee[] = [...candidates].sort((a: Employee, b: Employee) =>
+        countConsecutiveWorkDaysBefore(schedule, a.id, dateKey) - countConsecutiveWorkDaysBefore(schedule, b.id, dateKey)
+        || workedDays[a.id] - workedDays[b.id]
+      );
+
+      ordered.forEach((employee: Employee) => {
+        const isTired: boolean = countConsecutiveWorkDaysBefore(schedule, employee.id, dateKey) >= MAX_CONSECUTIVE_WORK_DAYS;
+        if (isTired || headcount[branch] >= targets[branch].max) {
+          dayShifts[employee.id] = 'หยุด';
+        } else {
+          dayShifts[employee.id] = pickShiftType(employee, branch);
+          countAssignment(employee);
+        }
+        assignedCount++;
+      });
+    });
+
+    // 2) Part-timers: send them to the branches that are furthest below the minimum.
+    // A part-timer works in only one branch per day, so anyone with any entry today is skipped.
+    const availablePartTimers: Employee[] = partTimers.filter((e: Employee) =>
+      isEmpty(e.id) && countConsecutiveWorkDaysBefore(schedule, e.id, dateKey) < MAX_CONSECUTIVE_WORK_DAYS
+    );
+    const takeLeastWorkedPartTimer = (branch: string): Employee | undefined => {
+      availablePartTimers.sort((a: Employee, b: Employee) => workedDays[a.id] - workedDays[b.id]);
+      const index: number = availablePartTimers.findIndex((e: Employee) => getAvailableShifts(e, weekday, branch, shifts).length > 0);
+      return index === -1 ? undefined : availablePartTimers.splice(index, 1)[0];
+    };
+
+    // Branches no remaining part-timer can travel to are left with their shortfall
+    const unreachable: Set<string> = new Set();
+    let neediestBranch: string | undefined;
+    const findNeediestBranch = (): string | undefined => {
+      const understaffed: string[] = branches.filter((branch: string) => headcount[branch] < targets[branch].min && !unreachable.has(branch));
+      understaffed.sort((a: string, b: string) => headcount[a] - headcount[b]);
+      return understaffed[0];
+    };
+    while ((neediestBranch = findNeediestBranch()) !== undefined) {
+      const partTimer: Employee | undefined = takeLeastWorkedPartTimer(neediestBranch);
+      if (!partTimer) {
+        unreachable.add(neediestBranch);
+        continue;
+      }
+      dayShifts[partTimer.id] = { type: pickShiftType(partTimer, neediestBranch), branch: neediestBranch };
+      countAssignment(partTimer);
+      assignedCount++;
+    }
+
+    branches.forEach((branch: string) => {
+      if (headcount[branch] < targets[branch].min) {
+        shortfalls.push({ dateKey, branch, count: headcount[branch], target: targets[branch].min });
+      }
+    });
+  }
+
+  return { schedule, assignedCount, shortfalls };
+};
@@ -0,0 +1,97 @@
+// lib/scheduleRepository.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, MonthData } from './types';
+import { createInitialBranches } from './branches';
+import { LinkedDocumentUpdate, ScheduleRepository, createInMemoryScheduleRepository } from './scheduleRepository';
+
+const branches: Branch[] = createInitialBranches();
+
+// A month as it was stored before version 3, with every shift in the month document
+const legacyMonth = {
+  schemaVersion: 2,
+  month: '2025-06',
+  employees: [
+    { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' },
+    { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' },
+  ],
+  shifts: { '2025-06-02': { e1: 'เช้า', p1: { type: 'บ่าย', branch: 'branch-2' } } },
+  clinicDayOff: 'อาทิตย์',
+};
+
+describe('schedule repository', () => {
+  it('loads whole months for editors and only their own shifts for staff', async () => {
+    const repository: ScheduleRepository = createInMemoryScheduleRepository({ 'schedules/2025-06': legacyMonth });
+    const whole: MonthData | null = await repository.loadMonth('2025-06', branches, 'all');
+    assert.deepEqual(whole?.monthlySchedule, legacyMonth.shifts);
+    // The employees' copies are written by the first save
+    assert.equal(await repository.loadMonth('2025-06', branches, { employeeId: 'p1' }), null);
+
+    await repository.updateMonth('2025-06', branches, (stored: MonthData | null) => stored as MonthData);
+    assert.deepEqual(await repository.loadMonth('2025-06', branches, 'all'), whole);
+    const own: MonthData | null = await repository.loadMonth('2025-06', branches, { employeeId: 'p1' });
+    assert.deepEqual(own?.employees, [legacyMonth.employees[1]]);
+    assert.deepEqual(own?.colleagues, [{ id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย' }]);
+    assert.deepEqual(own?.monthlySchedule, { '2025-06-02': { p1: { type: 'บ่าย', branch: 'branch-2' } } });
+    assert.deepEqual(await repository.loadMonthsFrom('2025-01', branches, { employeeId: 'e1' }), {
+      '2025-06': {
+        ...whole,
+        employees: [legacyMonth.employees[0]],
+        monthlySchedule: { '2025-06-02': { e1: 'เช้า' } },
+        colleagues: [{ id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด' }],
+      },
+    });
+  });
+
+  it('loads nothing for a staff account not linked to an employee', async () => {
+    const repository: ScheduleRepository = createInMemoryScheduleRepository({ 'schedules/2025-06': legacyMonth });
+    await repository.updateMonth('2025-06', branches, (stored: MonthData | null) => stored as MonthData);
+    assert.equal(await repository.loadMonth('2025-06', branches, { employeeId: null }), null);
+    assert.deepEqual(await repository.loadMonthsBetween('2025-01', '2025-12', branches, { employeeId: null }), {});
+  });
+
+  it('writes a linked document with the month, and neither when the link refuses', async () => {
+    const repository: ScheduleRepository = createInMemoryScheduleRepository({
+      'schedules/2025-06': legacyMonth,
+      'shiftSwaps/swap-1': { status: 'accepted' },
+    });
+    const approve: LinkedDocumentUpdate = {
+      path: 'shiftSwaps/swap-1',
+      update: (stored: Record<string, unknown> | null): Record<string, unknown> => {
+        if (stored?.status !== 'accepted') throw new Error('already decided');
+        return { status: 'approved' };
+      },
+    };
+    const mark = (month: MonthData): MonthData => ({ ...month, monthlySchedule: { '2025-06-02': { ...month.monthlySchedule['2025-06-02'], e1: 'บ่าย' } } });
+    await repository.updateMonth('2025-06', branches, (stored: MonthData | null) => mark(stored as MonthData), approve);
+    const approved: MonthData | null = await repository.loadMonth('2025-06', branches, 'all');
+    assert.equal(approved?.monthlySchedule['2025-06-02'].e1, 'บ่าย');
+
+    // Approving again is refused before the month is touched
+    let isUpdated: boolean = false;
+    await assert.rejects(repository.updateMonth('2025-06', branches, (stored: MonthData | null) => {
+      isUpdated = true;
+      return { ...(stored as MonthData), monthlySchedule: {} };
+    }, approve), /already decided/);
+    assert.equal(isUpdated, false);
+    assert.deepEqual(await repository.loadMonth('2025-06', branches, 'all'), approved);
+  });
+
+  it('tells a staff member watching the month about changes to their shifts', async () => {
+    const repository: ScheduleRepository = createInMemoryScheduleRepository();
+    const seen: (MonthData | null)[] = [];
+    const errors: unknown[] = [];
+    const unsubscribe = repository.watchMonth('2025-06', branches, { employeeId: 'e1' }, (data: MonthData | null) => seen.push(data), (error: unknown) => errors.push(error));
+    const month: MonthData = {
+      employees: [{ id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' }],
+      monthlySchedule: { '2025-06-03': { e1: 'ลา' } },
+      clinicDayOff: 'อาทิตย์',
+      removedEmployees: [],
+    };
+    await repository.saveMonth('2025-06', branches, month);
+    unsubscribe();
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(seen, [null, { ...month, colleagues: [] }]);
+  });
+});
@@ -0,0 +1,361 @@
+// lib/scheduleRepository.ts
+import { collection, doc, documentId, getDoc, getDocs, onSnapshot, query, runTransaction, serverTimestamp, where, type CollectionReference, type DocumentReference, type DocumentSnapshot, type Firestore, type Query, type QuerySnapshot } from 'firebase/firestore';
+import type { Branch, MonthData } from './types';
+import type { ShiftReadScope } from './roles';
+import { decodeMonthDocument, decodeStaffMonthDocument, findMonthWrites, DecodeResult, MonthWrites, StoredShifts } from './scheduleSchema';
+
+// --- Persistence layer for monthly schedules ---
+// Each month is split over several documents, so firestore.rules can check branch and owner:
+//   schedules/2025-06                    employees, clinic day off and removed employees
+//   schedules/2025-06/shifts/branch-1                   the full-timers' cells at a branch; a manager writes only their own branch's
+//   schedules/2025-06/partTimeShifts/emp-2_2025-06-02   a part-timer's cell on one day, booked at one branch at most
+//   staffSchedules/emp-1/months/2025-06                 the month with only that employee and their full-time shifts
+// Staff read their copy and their own part-timer days, nothing else.
+// (see splitMonthDocument in lib/scheduleSchema.ts).
+// Several people edit at once: the displayed month is watched live, and edits are written with
+// `updateMonth`, which re-reads the stored month in a transaction so nothing written in between is lost.
+
+// Anything that can load and save a month (Firestore, emulator, in-memory for tests).
+// Loading needs the clinic's branch list to resolve the branch references in the documents, and the scope
+// of the reader: editors load whole months, staff the months with only their own shifts.
+export interface ScheduleRepository {
+  loadMonth: (monthKey: string, branches: Branch[], scope: ShiftReadScope) => Promise<MonthData | null>; // null when the month was never saved
+  loadMonthsFrom: (monthKey: string, branches: Branch[], scope: ShiftReadScope) => Promise<Record<string, MonthData>>; // Every saved month >= monthKey
+  loadMonthsBetween: (fromMonthKey: string, toMonthKey: string, branches: Branch[], scope: ShiftReadScope) => Promise<Record<string, MonthData>>; // Both ends included
+  saveMonth: (monthKey: string, branches: Branch[], data: MonthData) => Promise<void>;
+  // Calls onChange with the stored month now and after every change (null while never saved). Returns the unsubscribe function.
+  // Only versions confirmed by the server are passed on, so nothing is called while offline.
+  watchMonth: (monthKey: string, branches: Branch[], scope: ShiftReadScope, onChange: (data: MonthData | null) => void, onError: (error: unknown) => void) => () => void;
+  // Read-modify-write in a transaction: `update` gets the latest stored month (null if never saved) and may
+  // run more than once when someone else writes in between, so it must not have side effects. Resolves to what was written.
+  // Only the documents that changed are written, so a manager's save stays within what the rules let them write.
+  // A `linked` document is read and written in the same transaction, e.g. the shift swap an approval applies.
+  updateMonth: (monthKey: string, branches: Branch[], update: (stored: MonthData | null) => MonthData, linked?: LinkedDocumentUpdate) => Promise<MonthData>;
+}
+
+// A document outside the month that a save writes as well. `update` gets its stored fields (null when it does
+// not exist) before the month is updated and returns the fields to write; throwing cancels the whole save.
+export interface LinkedDocumentUpdate {
+  path: string; // e.g. 'shiftSwaps/swap-1'
+  update: (stored: Record<string, unknown> | null) => Record<string, unknown>;
+}
+
+// Name of the Firestore collection holding one document per month
+export const SCHEDULES_COLLECTION = 'schedules';
+// Subcollection of a month document holding its full-timers' shifts, one document per branch
+export const SHIFTS_COLLECTION = 'shifts';
+// Subcollection of a month document holding its part-timers' shifts, one document per part-timer and day
+export const PART_TIME_SHIFTS_COLLECTION = 'partTimeShifts';
+// Collection of every employee's copies ('staffSchedules/{employeeId}/months/{monthKey}')
+export const STAFF_SCHEDULES_COLLECTION = 'staffSchedules';
+export const STAFF_MONTHS_COLLECTION = 'months';
+
+// The decoded month, throwing when it cannot be used
+const unwrapOrThrow = (result: DecodeResult, monthKey: string): MonthData => {
+  if (!result.ok) {
+    throw new Error(`Invalid schedule document ${monthKey}: ${result.errors.join('; ')}`);
+  }
+  if (result.warnings.length > 0) {
+    console.warn(`Schedule document ${monthKey} loaded with warnings`, result.warnings);
+  }
+  return result.value;
+};
+
+// Decode a stored month, or an employee's copy with their part-timer days
+const decodeOrThrow = (raw: unknown, monthKey: string, branches: Branch[], shiftsDocuments: StoredShifts): MonthData => {
+  return unwrapOrThrow(decodeMonthDocument(raw, monthKey, branches, shiftsDocuments), monthKey);
+};
+const decodeStaffOrThrow = (raw: unknown, monthKey: string, branches: Branch[], partTimeShifts: Record<string, unknown>): MonthData => {
+  return unwrapOrThrow(decodeStaffMonthDocument(raw, monthKey, branches, partTimeShifts), monthKey);
+};
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreScheduleRepository = (db: Firestore): ScheduleRepository => {
+  const staffMonths = (employeeId: string): CollectionReference => collection(db, STAFF_SCHEDULES_COLLECTION, employeeId, STAFF_MONTHS_COLLECTION);
+  const shiftsCollection = (monthKey: string): CollectionReference => collection(db, SCHEDULES_COLLECTION, monthKey, SHIFTS_COLLECTION);
+  const partTimeShiftsCollection = (monthKey: string): CollectionReference => collection(db, SCHEDULES_COLLECTION, monthKey, PART_TIME_SHIFTS_COLLECTION);
+  const documentsData = (snapshots: DocumentSnapshot[]): Record<string, unknown> => {
+    const documents: Record<string, unknown> = {};
+    snapshots.forEach((snapshot: DocumentSnapshot) => {
+      if (snapshot.exists()) documents[snapshot.id] = snapshot.data();
+    });
+    return documents;
+  };
+
+  // Whole months: each month document with its shifts documents
+  const loadMonths = async (monthDocs: DocumentSnapshot[], branches: Branch[]): Promise<Record<string, MonthData>> => {
+    const months: Record<string, MonthData> = {};
+    await Promise.all(monthDocs.map(async (monthDoc: DocumentSnapshot): Promise<void> => {
+      const [shifts, partTimeShifts] = await Promise.all([getDocs(shiftsCollection(monthDoc.id)), getDocs(partTimeShiftsCollection(monthDoc.id))]);
+      months[monthDoc.id] = decodeOrThrow(monthDoc.data(), monthDoc.id, branches, { shifts: documentsData(shifts.docs), partTimeShifts: documentsData(partTimeShifts.docs) });
+    }));
+    return months;
+  };
+
+  // An employee's own part-timer days of a month, the only ones the rules let staff list
+  const ownPartTimeShifts = (monthKey: string, employeeId: string): Query => query(partTimeShiftsCollection(monthKey), where('employeeId', '==', employeeId));
+
+  // An employee's copies, each with their part-timer days of that month
+  const loadStaffMonths = async (snapshot: QuerySnapshot, employeeId: string, branches: Branch[]): Promise<Record<string, MonthData>> => {
+    const months: Record<string, MonthData> = {};
+    await Promise.all(snapshot.docs.map(async (monthDoc): Promise<void> => {
+      const days: QuerySnapshot = await getDocs(ownPartTimeShifts(monthDoc.id, employeeId));
+      months[monthDoc.id] = decodeStaffOrThrow(monthDoc.data(), monthDoc.id, branches, documentsData(days.docs));
+    }));
+    return months;
+  };
+
+  const updateMonth = async (monthKey: string, branches: Branch[], update: (stored: MonthData | null) => MonthData, linked?: LinkedDocumentUpdate): Promise<MonthData> => {
+    const monthRef = doc(db, SCHEDULES_COLLECTION, monthKey);
+    const linkedRef: DocumentReference | null = linked ? doc(db, linked.path) : null;
+    return runTransaction(db, async (transaction) => {
+      const linkedSnapshot: DocumentSnapshot | null = linkedRef ? await transaction.get(linkedRef) : null;
+      const linkedFields: Record<string, unknown> | null = linked && linkedSnapshot ? linked.update(linkedSnapshot.exists() ? linkedSnapshot.data() : null) : null;
+      // Every branch is read, so a save racing another one on any of them is retried
+      const snapshot = await transaction.get(monthRef);
+      const shifts: Record<string, unknown> = documentsData(await Promise.all(branches.map((branch: Branch) => transaction.get(doc(shiftsCollection(monthKey), branch.id)))));
+      // A transaction cannot run a query: the part-timers' days are listed first and then read in it one by one,
+      // and so is every day the save writes, so a day another branch booked in between is seen before writing it
+      const partTimeShifts: Record<string, unknown> = {};
+      const readDays: Set<string> = new Set();
+      const readPartTimeShifts = async (shiftIds: string[]): Promise<boolean> => {
+        shiftIds.forEach((shiftId: string) => readDays.add(shiftId));
+        const snapshots: DocumentSnapshot[] = await Promise.all(shiftIds.map((shiftId: string) => transaction.get(doc(partTimeShiftsCollection(monthKey), shiftId))));
+        Object.assign(partTimeShifts, documentsData(snapshots));
+        return snapshots.some((daySnapshot: DocumentSnapshot) => daySnapshot.exists());
+      };
+      await readPartTimeShifts((await getDocs(partTimeShiftsCollection(monthKey))).docs.map((dayDoc) => dayDoc.id));
+
+      const raw: Record<string, unknown> | null = snapshot.exists() ? snapshot.data() : null;
+      for (;;) {
+        const stored: MonthData | null = raw ? decodeOrThrow(raw, monthKey, branches, { shifts, partTimeShifts }) : null;
+        const updated: MonthData = update(stored);
+        const writes: MonthWrites = findMonthWrites(monthKey, raw && stored ? { schemaVersion: raw.schemaVersion, data: stored } : null, updated);
+        const unread: string[] = Object.keys(writes.partTimeShifts).filter((shiftId: string) => !readDays.has(shiftId));
+        if (unread.length > 0 && await readPartTimeShifts(unread)) continue; // Someone wrote one of them since the listing: decide again
+
+        if (writes.month) transaction.set(monthRef, { ...writes.month, updatedAt: serverTimestamp() });
+        Object.entries(writes.shifts).forEach(([branchId, document]) => {
+          transaction.set(doc(shiftsCollection(monthKey), branchId), { ...document, updatedAt: serverTimestamp() });
+        });
+        Object.entries(writes.partTimeShifts).forEach(([shiftId, document]) => {
+          const dayRef: DocumentReference = doc(partTimeShiftsCollection(monthKey), shiftId);
+          if (document) transaction.set(dayRef, { ...document, updatedAt: serverTimestamp() });
+          else transaction.delete(dayRef);
+        });
+        Object.entries(writes.staff).forEach(([employeeId, document]) => {
+          transaction.set(doc(staffMonths(employeeId), monthKey), { ...document, updatedAt: serverTimestamp() });
+        });
+        if (linkedRef && linkedFields) transaction.set(linkedRef, linkedFields);
+        return updated;
+      }
+    });
+  };
+
+  return {
+    loadMonth: async (monthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<MonthData | null> => {
+      if (scope !== 'all') {
+        if (scope.employeeId === null) return null;
+        const [snapshot, days] = await Promise.all([getDoc(doc(staffMonths(scope.employeeId), monthKey)), getDocs(ownPartTimeShifts(monthKey, scope.employeeId))]);
+        return snapshot.exists() ? decodeStaffOrThrow(snapshot.data(), monthKey, branches, documentsData(days.docs)) : null;
+      }
+      const snapshot = await getDoc(doc(db, SCHEDULES_COLLECTION, monthKey));
+      if (!snapshot.exists()) return null;
+      return (await loadMonths([snapshot], branches))[monthKey];
+    },
+
+    loadMonthsFrom: async (monthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<Record<string, MonthData>> => {
+      if (scope !== 'all') {
+        if (scope.employeeId === null) return {};
+        return loadStaffMonths(await getDocs(query(staffMonths(scope.employeeId), where(documentId(), '>=', monthKey))), scope.employeeId, branches);
+      }
+      const snapshot = await getDocs(query(collection(db, SCHEDULES_COLLECTION), where(documentId(), '>=', monthKey)));
+      return loadMonths(snapshot.docs, branches);
+    },
+
+    loadMonthsBetween: async (fromMonthKey: string, toMonthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<Record<string, MonthData>> => {
+      if (scope !== 'all') {
+        if (scope.employeeId === null) return {};
+        return loadStaffMonths(await getDocs(query(
+          staffMonths(scope.employeeId),
+          where(documentId(), '>=', fromMonthKey),
+          where(documentId(), '<=', toMonthKey),
+        )), scope.employeeId, branches);
+      }
+      const snapshot = await getDocs(query(
+        collection(db, SCHEDULES_COLLECTION),
+        where(documentId(), '>=', fromMonthKey),
+        where(documentId(), '<=', toMonthKey),
+      ));
+      return loadMonths(snapshot.docs, branches);
+    },
+
+    saveMonth: async (monthKey: string, branches: Branch[], data: MonthData): Promise<void> => {
+      await updateMonth(monthKey, branches, () => data);
+    },
+
+    watchMonth: (monthKey: string, branches: Branch[], scope: ShiftReadScope, onChange: (data: MonthData | null) => void, onError: (error: unknown) => void): (() => void) => {
+      if (scope !== 'all' && scope.employeeId === null) {
+        onChange(null);
+        return () => {};
+      }
+      const employeeId: string | null = scope === 'all' ? null : scope.employeeId;
+
+      // The month document (for staff their copy) and the shifts are watched apart; a version is passed on once all have answered
+      let monthSnapshot: DocumentSnapshot | null = null;
+      let shiftsSnapshot: QuerySnapshot | null = null; // Not watched for staff
+      let partTimeShiftsSnapshot: QuerySnapshot | null = null;
+      const notify = (): void => {
+        if (!monthSnapshot || !partTimeShiftsSnapshot) return;
+        try {
+          if (!monthSnapshot.exists()) {
+            onChange(null);
+          } else if (employeeId !== null) {
+            onChange(decodeStaffOrThrow(monthSnapshot.data(), monthKey, branches, documentsData(partTimeShiftsSnapshot.docs)));
+          } else if (shiftsSnapshot) {
+            onChange(decodeOrThrow(monthSnapshot.data(), monthKey, branches, { shifts: documentsData(shiftsSnapshot.docs), partTimeShifts: documentsData(partTimeShiftsSnapshot.docs) }));
+          }
+        } catch (error) {
+          onError(error);
+        }
+      };
+      // Offline, Firestore reports documents from its (empty) cache, which would read as a month never saved
+      const unsubscribes: (() => void)[] = [
+        onSnapshot(employeeId === null ? doc(db, SCHEDULES_COLLECTION, monthKey) : doc(staffMonths(employeeId), monthKey), (snapshot) => {
+          if (snapshot.metadata.fromCache) return;
+          monthSnapshot = snapshot;
+          notify();
+        }, onError),
+        onSnapshot(employeeId === null ? partTimeShiftsCollection(monthKey) : ownPartTimeShifts(monthKey, employeeId), (snapshot) => {
+          if (snapshot.metadata.fromCache) return;
+          partTimeShiftsSnapshot = snapshot;
+          notify();
+        }, onError),
+      ];
+      if (employeeId === null) {
+        unsubscribes.push(onSnapshot(shiftsCollection(monthKey), (snapshot) => {
+          if (snapshot.metadata.fromCache) return;
+          shiftsSnapshot = snapshot;
+          notify();
+        }, onError));
+      }
+      return () => unsubscribes.forEach((unsubscribe: () => void) => unsubscribe());
+    },
+
+    updateMonth,
+  };
+};
+
+// Repository kept in memory, for tests and for running the UI without Firebase.
+// `initial` holds documents by path, e.g. 'schedules/2025-06' or 'schedules/2025-06/shifts/branch-1'.
+export const createInMemoryScheduleRepository = (initial: Record<string, unknown> = {}): ScheduleRepository => {
+  // Documents are stored serialized so callers can never mutate what was "saved"
+  const store: Record<string, string> = {};
+  Object.entries(initial).forEach(([path, document]) => {
+    store[path] = JSON.stringify(document);
+  });
+  const watchers: Map<string, Set<() => void>> = new Map(); // By month key
+  const monthPath = (monthKey: string): string => `${SCHEDULES_COLLECTION}/${monthKey}`;
+  const shiftsPath = (monthKey: string, branchId: string): string => `${monthPath(monthKey)}/${SHIFTS_COLLECTION}/${branchId}`;
+  const partTimeShiftPath = (monthKey: string, shiftId: string): string => `${monthPath(monthKey)}/${PART_TIME_SHIFTS_COLLECTION}/${shiftId}`;
+  const staffPath = (employeeId: string, monthKey: string): string => `${STAFF_SCHEDULES_COLLECTION}/${employeeId}/${STAFF_MONTHS_COLLECTION}/${monthKey}`;
+
+  // Documents by ID directly under a collection path
+  const listDocuments = (collectionPath: string): Record<string, unknown> => {
+    const documents: Record<string, unknown> = {};
+    Object.keys(store).forEach((path: string) => {
+      const id: string = path.slice(collectionPath.length + 1);
+      if (path.startsWith(`${collectionPath}/`) && !id.includes('/')) documents[id] = JSON.parse(store[path]);
+    });
+    return documents;
+  };
+
+  const read = (monthKey: string, branches: Branch[], scope: ShiftReadScope): MonthData | null => {
+    if (scope !== 'all') {
+      const { employeeId } = scope;
+      const raw: string | undefined = employeeId === null ? undefined : store[staffPath(employeeId, monthKey)];
+      if (!raw) return null;
+      const days: Record<string, unknown> = listDocuments(`${monthPath(monthKey)}/${PART_TIME_SHIFTS_COLLECTION}`);
+      const ownDays: Record<string, unknown> = {};
+      Object.entries(days).forEach(([shiftId, day]) => {
+        if ((day as { employeeId?: unknown }).employeeId === employeeId) ownDays[shiftId] = day;
+      });
+      return decodeStaffOrThrow(JSON.parse(raw), monthKey, branches, ownDays);
+    }
+    const raw: string | undefined = store[monthPath(monthKey)];
+    return raw ? decodeOrThrow(JSON.parse(raw), monthKey, branches, {
+      shifts: listDocuments(`${monthPath(monthKey)}/${SHIFTS_COLLECTION}`),
+      partTimeShifts: listDocuments(`${monthPath(monthKey)}/${PART_TIME_SHIFTS_COLLECTION}`),
+    }) : null;
+  };
+
+  // Month keys that have a document in the scope
+  const listMonthKeys = (scope: ShiftReadScope): string[] => {
+    if (scope === 'all') return Object.keys(listDocuments(SCHEDULES_COLLECTION));
+    return scope.employeeId === null ? [] : Object.keys(listDocuments(`${STAFF_SCHEDULES_COLLECTION}/${scope.employeeId}/${STAFF_MONTHS_COLLECTION}`));
+  };
+
+  const loadMonths = (monthKeys: string[], branches: Branch[], scope: ShiftReadScope): Record<string, MonthData> => {
+    const months: Record<string, MonthData> = {};
+    monthKeys.forEach((monthKey: string) => {
+      months[monthKey] = read(monthKey, branches, scope) as MonthData;
+    });
+    return months;
+  };
+
+  const updateMonth = async (monthKey: string, branches: Branch[], update: (stored: MonthData | null) => MonthData, linked?: LinkedDocumentUpdate): Promise<MonthData> => {
+    const linkedFields: Record<string, unknown> | null = linked ? linked.update(store[linked.path] ? JSON.parse(store[linked.path]) : null) : null;
+    const raw: string | undefined = store[monthPath(monthKey)];
+    const stored: MonthData | null = read(monthKey, branches, 'all');
+    const updated: MonthData = update(stored);
+    const writes: MonthWrites = findMonthWrites(monthKey, raw && stored ? { schemaVersion: JSON.parse(raw).schemaVersion, data: stored } : null, updated);
+    if (writes.month) store[monthPath(monthKey)] = JSON.stringify(writes.month);
+    Object.entries(writes.shifts).forEach(([branchId, document]) => {
+      store[shiftsPath(monthKey, branchId)] = JSON.stringify(document);
+    });
+    Object.entries(writes.partTimeShifts).forEach(([shiftId, document]) => {
+      if (document) store[partTimeShiftPath(monthKey, shiftId)] = JSON.stringify(document);
+      else delete store[partTimeShiftPath(monthKey, shiftId)];
+    });
+    Object.entries(writes.staff).forEach(([employeeId, document]) => {
+      store[staffPath(employeeId, monthKey)] = JSON.stringify(document);
+    });
+    if (linked && linkedFields) store[linked.path] = JSON.stringify(linkedFields);
+    watchers.get(monthKey)?.forEach((notify: () => void) => notify());
+    return updated;
+  };
+
+  return {
+    loadMonth: async (monthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<MonthData | null> => {
+      return read(monthKey, branches, scope);
+    },
+
+    loadMonthsFrom: async (monthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<Record<string, MonthData>> => {
+      return loadMonths(listMonthKeys(scope).filter((key: string) => key >= monthKey), branches, scope);
+    },
+
+    loadMonthsBetween: async (fromMonthKey: string, toMonthKey: string, branches: Branch[], scope: ShiftReadScope): Promise<Record<string, MonthData>> => {
+      return loadMonths(listMonthKeys(scope).filter((key: string) => key >= fromMonthKey && key <= toMonthKey), branches, scope);
+    },
+
+    saveMonth: async (monthKey: string, branches: Branch[], data: MonthData): Promise<void> => {
+      await updateMonth(monthKey, branches, () => data);
+    },
+
+    watchMonth: (monthKey: string, branches: Branch[], scope: ShiftReadScope, onChange: (data: MonthData | null) => void, onError: (error: unknown) => void): (() => void) => {
+      const notify = (): void => {
+        try {
+          onChange(read(monthKey, branches, scope));
+        } catch (error) {
+          onError(error);
+        }
+      };
+      if (!watchers.has(monthKey)) watchers.set(monthKey, new Set());
+      watchers.get(monthKey)?.add(notify);
+      notify();
+      return () => { watchers.get(monthKey)?.delete(notify); };
+    },
+
+    updateMonth,
+  };
+};
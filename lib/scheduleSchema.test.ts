@@ -0,0 +1,302 @@
+// lib/scheduleSchema.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, Employee, MonthData } from './types';
+import { createInitialBranches } from './branches';
+import { CURRENT_SCHEMA_VERSION, DecodeResult, MonthWrites, StoredMonth, StoredShifts, decodeMonthDocument, decodeStaffMonthDocument, encodeMonthDocument, findMonthWrites, splitMonthDocument } from './scheduleSchema';
+
+const branches: Branch[] = createInitialBranches(); // branch-1 = 'บึงทับช้าง', branch-2 = 'บัวใหญ่', ...
+
+// Decode a document that must be accepted
+const decodeOk = (raw: unknown, monthKey: string, shiftsDocuments?: StoredShifts): Extract<DecodeResult, { ok: true }> => {
+  const result: DecodeResult = decodeMonthDocument(raw, monthKey, branches, shiftsDocuments);
+  assert.ok(result.ok, result.ok ? '' : result.errors.join('\n'));
+  return result;
+};
+
+// Decode a document that must be rejected, returning its errors
+const decodeErrors = (raw: unknown, monthKey: string): string[] => {
+  const result: DecodeResult = decodeMonthDocument(raw, monthKey, branches);
+  assert.equal(result.ok, false);
+  return result.ok ? [] : result.errors;
+};
+
+describe('decodeMonthDocument: legacy documents', () => {
+  it('migrates the unversioned { date, employees, schedule } format to date keys', () => {
+    const result = decodeOk({
+      date: '2025-06-01',
+      employees: [{ id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'บึงทับช้าง', type: 'full-time' }],
+      schedule: { e1: { '1': 'เช้า', '2025-06-15': 'บ่าย', '3': 'หยุด' } },
+    }, '2025-06');
+
+    assert.equal(result.migratedFrom, 0);
+    assert.equal(result.value.clinicDayOff, 'อาทิตย์');
+    assert.equal(result.value.employees[0].branch, 'branch-1');
+    assert.deepEqual(result.value.monthlySchedule, {
+      '2025-06-01': { e1: 'เช้า' },
+      '2025-06-03': { e1: 'หยุด' },
+      '2025-06-15': { e1: 'บ่าย' },
+    });
+    assert.deepEqual(result.value.removedEmployees, []);
+  });
+
+  it('migrates the unversioned { employees, monthlySchedule } format and keeps its clinic day off', () => {
+    const result = decodeOk({
+      employees: [{ id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' }],
+      monthlySchedule: { '2025-06-02': { p1: { type: 'เช้า', branch: 'บัวใหญ่' } } },
+      clinicDayOff: 'จันทร์',
+    }, '2025-06');
+
+    assert.equal(result.migratedFrom, 0);
+    assert.equal(result.value.clinicDayOff, 'จันทร์');
+    assert.deepEqual(result.value.monthlySchedule, { '2025-06-02': { p1: { type: 'เช้า', branch: 'branch-2' } } });
+  });
+
+  it('drops unreadable days of a legacy schedule with a warning', () => {
+    const result = decodeOk({
+      employees: [{ id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'บึงทับช้าง', type: 'full-time' }],
+      schedule: { e1: { 'วันแรก': 'เช้า', '2': 'เช้า' } },
+    }, '2025-06');
+
+    assert.deepEqual(result.value.monthlySchedule, { '2025-06-02': { e1: 'เช้า' } });
+    assert.equal(result.warnings.length, 1);
+  });
+});
+
+describe('decodeMonthDocument: malformed documents', () => {
+  it('rejects a value that is not an object', () => {
+    assert.deepEqual(decodeErrors(null, '2025-06'), ['เอกสารไม่ใช่ object']);
+    assert.deepEqual(decodeErrors(['2025-06'], '2025-06'), ['เอกสารไม่ใช่ object']);
+  });
+
+  it('rejects an unsupported schema version', () => {
+    assert.deepEqual(decodeErrors({ schemaVersion: 4, month: '2025-06' }, '2025-06'), ['ไม่รองรับ schemaVersion 4']);
+  });
+
+  it('lists every problem of a malformed version 2 document', () => {
+    const errors: string[] = decodeErrors({
+      schemaVersion: 2,
+      month: '2025-07',
+      employees: [
+        { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' },
+        { id: 'e1', name: 'ซ้ำ', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' },
+        { id: 'e2', name: 'ไม่มีสาขา', position: 'แพทย์แผนไทย', branch: 'ไม่มีสาขานี้', type: 'full-time' },
+        { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' },
+        'ไม่ใช่พนักงาน',
+      ],
+      shifts: { '2025-06-02': { e1: 42, p1: 'เช้า' } },
+      clinicDayOff: 'วันหยุด',
+    }, '2025-06');
+
+    assert.equal(errors.length, 7);
+    assert.match(errors[0], /^month "2025-07"/);
+    assert.match(errors[1], /^clinicDayOff ไม่ถูกต้อง/);
+    assert.match(errors[2], /id "e1" ซ้ำ/);
+    assert.match(errors[3], /ไม่พบสาขา "ไม่มีสาขานี้"/);
+    assert.match(errors[4], /ไม่ใช่ object/);
+    assert.match(errors[5], /^2025-06-02\/e1: ค่ากะไม่ถูกต้อง/);
+    assert.match(errors[6], /^2025-06-02\/p1: .*ไม่ระบุสาขา/);
+  });
+
+  it('rejects shifts and employees of the wrong shape', () => {
+    const errors: string[] = decodeErrors({ schemaVersion: 2, month: '2025-06', employees: {}, shifts: [], clinicDayOff: 'อาทิตย์' }, '2025-06');
+    assert.deepEqual(errors, ['employees ต้องเป็น array', 'shifts ต้องเป็น object']);
+  });
+});
+
+describe('decodeMonthDocument: branch references', () => {
+  it('resolves the branch names of a version 1 document to branch IDs', () => {
+    const result = decodeOk({
+      schemaVersion: 1,
+      month: '2025-06',
+      employees: [
+        { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'โนนสูง', type: 'full-time', transfers: [{ date: '2025-06-16', branch: 'จักราช' }] },
+        { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time', availability: { weekdays: [1], shifts: ['เช้า'], branches: ['เคหะ', 'ปิดไปแล้ว'] } },
+      ],
+      shifts: { '2025-06-02': { e1: 'เช้า', p1: { type: 'เช้า', branch: 'เคหะ' } } },
+      clinicDayOff: 'อาทิตย์',
+      branches: ['บึงทับช้าง'],
+    }, '2025-06');
+
+    assert.equal(result.migratedFrom, 1);
+    const [fullTimer, partTimer] = result.value.employees;
+    assert.equal(fullTimer.branch, 'branch-3');
+    assert.deepEqual(fullTimer.transfers, [{ date: '2025-06-16', branch: 'branch-10' }]);
+    assert.equal(partTimer.branch, 'พาร์ทไทม์');
+    assert.deepEqual(partTimer.availability?.branches, ['branch-8']);
+    assert.deepEqual(result.value.monthlySchedule['2025-06-02'].p1, { type: 'เช้า', branch: 'branch-8' });
+    assert.equal(result.warnings.length, 1); // The unknown availability branch
+  });
+
+  it('rejects a part-timer shift at an unknown branch', () => {
+    const errors: string[] = decodeErrors({
+      schemaVersion: 1,
+      month: '2025-06',
+      employees: [{ id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' }],
+      shifts: { '2025-06-02': { p1: { type: 'เช้า', branch: 'อโศก' } } },
+      clinicDayOff: 'อาทิตย์',
+    }, '2025-06');
+    assert.deepEqual(errors, ['2025-06-02/p1: ไม่พบสาขา "อโศก"']);
+  });
+});
+
+describe('encodeMonthDocument', () => {
+  const month: MonthData = {
+    employees: [
+      { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time', startDate: '2025-06-02', transfers: [{ date: '2025-06-16', branch: 'branch-2' }] },
+      { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time', availability: { weekdays: [1, 3], shifts: ['บ่าย'], branches: ['branch-2'] } },
+    ],
+    monthlySchedule: {
+      '2025-06-02': { e1: 'เช้า', p1: { type: 'บ่าย', branch: 'branch-2' } },
+      '2025-06-03': { e1: 'ลา', p1: 'ป่วย' },
+    },
+    clinicDayOff: 'อาทิตย์',
+    removedEmployees: [{
+      employee: { id: 'e9', name: 'ลาออก', position: 'ผู้ช่วยแพทย์', branch: 'branch-1', type: 'full-time' },
+      shifts: { '2025-06-02': 'บ่าย' },
+      removedAt: '2025-06-10T03:00:00.000Z',
+      removedBy: 'uid-1',
+    }],
+  };
+
+  it('round-trips through decodeMonthDocument unchanged', () => {
+    const result = decodeOk(JSON.parse(JSON.stringify(encodeMonthDocument('2025-06', month))), '2025-06');
+    assert.equal(result.migratedFrom, null);
+    assert.deepEqual(result.warnings, []);
+    assert.deepEqual(result.value, month);
+  });
+
+  it('writes only the dates of its own month and leaves out an empty removed list', () => {
+    const document = encodeMonthDocument('2025-06', {
+      ...month,
+      monthlySchedule: { ...month.monthlySchedule, '2025-07-01': { e1: 'เช้า' } },
+      removedEmployees: [],
+    });
+    assert.equal(document.schemaVersion, 2);
+    assert.equal(document.month, '2025-06');
+    assert.deepEqual(Object.keys(document.shifts), ['2025-06-02', '2025-06-03']);
+    assert.equal('removedEmployees' in document, false);
+  });
+});
+
+describe('version 3: a month split by branch and part-timer day', () => {
+  // e1 moves from branch-1 to branch-2 on the 16th; p1 is booked at branch-2 on the 2nd and sick on the 3rd
+  const month: MonthData = {
+    employees: [
+      { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time', transfers: [{ date: '2025-06-16', branch: 'branch-2' }] },
+      { id: 'e2', name: 'วิภา', position: 'แพทย์แผนไทย', branch: 'branch-2', type: 'full-time' },
+      { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' },
+    ],
+    monthlySchedule: {
+      '2025-06-02': { e1: 'เช้า', e2: 'บ่าย', p1: { type: 'บ่าย', branch: 'branch-2' } },
+      '2025-06-03': { e1: 'ลา', p1: 'ป่วย' },
+      '2025-06-16': { e1: 'เช้า' },
+    },
+    clinicDayOff: 'อาทิตย์',
+    removedEmployees: [],
+  };
+  const stored: StoredMonth = JSON.parse(JSON.stringify(splitMonthDocument('2025-06', month)));
+
+  it('stores each cell with its owner and round-trips through decodeMonthDocument', () => {
+    assert.equal(stored.month.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal('shifts' in stored.month, false);
+    assert.deepEqual(stored.month.employeeBranches, { e1: ['branch-1', 'branch-2'], e2: ['branch-2'] });
+    assert.deepEqual(stored.shifts['branch-1'].shifts, { '2025-06-02': { e1: 'เช้า' }, '2025-06-03': { e1: 'ลา' } });
+    assert.deepEqual(stored.shifts['branch-2'].shifts, { '2025-06-02': { e2: 'บ่าย' }, '2025-06-16': { e1: 'เช้า' } });
+    assert.deepEqual(stored.partTimeShifts, {
+      'p1_2025-06-02': { employeeId: 'p1', date: '2025-06-02', shift: { type: 'บ่าย', branch: 'branch-2' }, branch: 'branch-2' },
+      'p1_2025-06-03': { employeeId: 'p1', date: '2025-06-03', shift: 'ป่วย', branch: null },
+    });
+
+    const result = decodeOk(stored.month, '2025-06', stored);
+    assert.deepEqual(result.warnings, []);
+    assert.deepEqual(result.value, month);
+  });
+
+  it('gives every employee a copy with only themselves, their shifts and their colleagues\' names', () => {
+    const copy = decodeOk(stored.staff.e2, '2025-06');
+    assert.deepEqual(copy.value.employees, [month.employees[1]]);
+    assert.deepEqual(copy.value.monthlySchedule, { '2025-06-02': { e2: 'บ่าย' } });
+    assert.deepEqual(stored.staff.e2.colleagues, [
+      { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย' },
+      { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด' },
+    ]);
+  });
+
+  it('reads a part-timer\'s own days together with their copy', () => {
+    assert.deepEqual(stored.staff.p1.shifts, {});
+    const result: DecodeResult = decodeStaffMonthDocument(stored.staff.p1, '2025-06', branches, stored.partTimeShifts);
+    assert.ok(result.ok);
+    assert.deepEqual(result.value.employees, [month.employees[2]]);
+    assert.deepEqual(result.value.monthlySchedule, { '2025-06-02': { p1: { type: 'บ่าย', branch: 'branch-2' } }, '2025-06-03': { p1: 'ป่วย' } });
+    assert.equal(result.value.colleagues?.length, 2);
+  });
+
+  it('drops cells kept in a document that does not own them', () => {
+    const result = decodeOk(stored.month, '2025-06', {
+      shifts: {
+        'branch-2': { month: '2025-06', shifts: { '2025-06-02': { e1: 'หยุด' } } }, // e1 is still at branch-1 on the 2nd
+        'branch-1': { month: '2025-06', shifts: { '2025-06-02': { p1: { type: 'เช้า', branch: 'branch-1' } } } }, // Part-timers have their own documents
+      },
+      partTimeShifts: {
+        'e2_2025-06-02': { employeeId: 'e2', date: '2025-06-02', shift: 'หยุด', branch: null }, // Not a part-timer
+        'p1_2025-06-03': { employeeId: 'p1', date: '2025-06-03', shift: { type: 'เช้า', branch: 'branch-1' }, branch: 'branch-2' },
+      },
+    });
+    assert.deepEqual(result.value.monthlySchedule, {});
+    assert.equal(result.warnings.length, 4);
+  });
+
+  it('rejects a part-timer document stored under another day', () => {
+    const result: DecodeResult = decodeMonthDocument(stored.month, '2025-06', branches, {
+      shifts: {},
+      partTimeShifts: { 'p1_2025-06-02': { employeeId: 'p1', date: '2025-06-05', shift: 'หยุด', branch: null } },
+    });
+    assert.equal(result.ok, false);
+  });
+
+  it('writes only the documents an edit changed', () => {
+    const edited: MonthData = { ...month, monthlySchedule: { ...month.monthlySchedule, '2025-06-02': { ...month.monthlySchedule['2025-06-02'], e2: 'เช้า' } } };
+    const writes: MonthWrites = findMonthWrites('2025-06', { schemaVersion: CURRENT_SCHEMA_VERSION, data: month }, edited);
+    assert.equal(writes.month, null);
+    assert.deepEqual(Object.keys(writes.shifts), ['branch-2']);
+    assert.deepEqual(Object.keys(writes.staff), ['e2']);
+  });
+
+  it('deletes a part-timer\'s cleared day and empties a branch document whose last cell was cleared', () => {
+    const cleared: MonthData = { ...month, monthlySchedule: { '2025-06-02': { e1: 'เช้า', p1: { type: 'บ่าย', branch: 'branch-2' } } } };
+    const writes: MonthWrites = findMonthWrites('2025-06', { schemaVersion: CURRENT_SCHEMA_VERSION, data: month }, cleared);
+    assert.deepEqual(writes.partTimeShifts, { 'p1_2025-06-03': null });
+    assert.deepEqual(writes.shifts['branch-2'], { month: '2025-06', shifts: {} });
+    assert.deepEqual(Object.keys(writes.staff).sort(), ['e1', 'e2']);
+  });
+
+  it('moves a part-timer\'s booking to another branch by rewriting their day', () => {
+    const moved: MonthData = { ...month, monthlySchedule: { ...month.monthlySchedule, '2025-06-02': { e1: 'เช้า', e2: 'บ่าย', p1: { type: 'บ่าย', branch: 'branch-1' } } } };
+    const writes: MonthWrites = findMonthWrites('2025-06', { schemaVersion: CURRENT_SCHEMA_VERSION, data: month }, moved);
+    assert.deepEqual(writes.shifts, {});
+    assert.deepEqual(writes.partTimeShifts, { 'p1_2025-06-02': { employeeId: 'p1', date: '2025-06-02', shift: { type: 'บ่าย', branch: 'branch-1' }, branch: 'branch-1' } });
+    assert.deepEqual(writes.staff, {});
+  });
+
+  it('moves the cells of a changed transfer and rewrites only that employee\'s copy', () => {
+    const withoutTransfer: Employee = { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' };
+    const settled: MonthData = { ...month, employees: [withoutTransfer, ...month.employees.slice(1)] };
+    const writes: MonthWrites = findMonthWrites('2025-06', { schemaVersion: CURRENT_SCHEMA_VERSION, data: month }, settled);
+    assert.notEqual(writes.month, null);
+    assert.deepEqual(writes.shifts['branch-1'].shifts['2025-06-16'], { e1: 'เช้า' });
+    assert.equal(writes.shifts['branch-2'].shifts['2025-06-16'], undefined);
+    assert.deepEqual(writes.month?.employeeBranches.e1, ['branch-1']);
+    assert.deepEqual(Object.keys(writes.staff), ['e1']);
+  });
+
+  it('writes every document of a new month or one stored in an older version', () => {
+    [null, { schemaVersion: 2, data: month }].forEach((before) => {
+      const writes: MonthWrites = findMonthWrites('2025-06', before, month);
+      assert.notEqual(writes.month, null);
+      assert.deepEqual(Object.keys(writes.shifts).sort(), ['branch-1', 'branch-2']);
+      assert.deepEqual(Object.keys(writes.partTimeShifts).sort(), ['p1_2025-06-02', 'p1_2025-06-03']);
+      assert.deepEqual(Object.keys(writes.staff).sort(), ['e1', 'e2', 'p1']);
+    });
+  });
+});
@@ -0,0 +1,640 @@
+// lib/scheduleSchema.ts
+import type { Branch, BranchTransfer, Colleague, Employee, PartTimeAvailability, BaseShiftString, ShiftCode, ShiftEntry, MonthlySchedule, MonthData, RemovedEmployee } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey, isDateKeyInMonth } from './dates';
+import { DAY_NAMES, DEFAULT_CLINIC_DAY_OFF, PART_TIME_BRANCH } from './constants';
+import { resolveBranchId } from './branches';
+import { getHomeBranchOn, getHomeBranchesInMonth } from './employees';
+import { isShiftCodeText, isStatusShift } from './shiftCatalog';
+import { documentSnapshot } from './monthMerge';
+
+// --- Versioned Firestore document schema for one month ('schedules/2025-06') ---
+//
+// Version history:
+//   0 (legacy)  { date, employees, schedule: { [employeeId]: { [day]: shift } } }
+//               or { employees, monthlySchedule } written before the schema was versioned
+//   1           { schemaVersion: 1, month, employees, shifts, clinicDayOff, branches } - branches referenced by name
+//   2           { schemaVersion: 2, month, employees, shifts, clinicDayOff } - branches referenced by ID,
+//               the branch list itself lives in the clinic configuration.
+//               Part-timers may carry an optional `availability` (added later, older documents simply lack it).
+//               Soft-deleted employees are kept in an optional `removedEmployees` list together with their
+//               shifts (added later, older documents simply lack it; it is also left out while empty).
+//               Employees may carry optional `startDate`/`endDate` and full-timers `transfers` (added later).
+//               Working shifts are codes of the clinic's shift catalog (added later; 'เช้า'/'บ่าย' are the codes of
+//               the default catalog, so older documents need no change). Any code is accepted, so a month keeps
+//               the shifts it was planned with after they are removed from the catalog.
+//   3 (current) { schemaVersion: 3, month, employees, clinicDayOff, removedEmployees? } - the shifts moved out,
+//               so firestore.rules can check who writes and reads them (see lib/scheduleRepository.ts):
+//               'shifts/{branchId}' under the month holds the cells of the full-timers working at a branch,
+//               'partTimeShifts/{employeeId}_{dateKey}' the cell of one part-timer on one day (so a part-timer
+//               can never be at two branches on the same day), and every employee gets a copy of the month
+//               in the version 2 form holding only them, their full-time shifts and their colleagues' names.
+//               `employeeBranches` lists the branches each full-timer belongs to in the month, so the rules
+//               can tell which manager may write their copy. Staff read a part-timer's days themselves.
+//               The version 2 form of a whole month is also what this browser keeps offline (lib/offlineStore.ts).
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// A whole month in one document: how months were stored up to version 2, and each employee's own copy
+export interface MonthDocumentV2 {
+  schemaVersion: 2;
+  month: string; // Month key, same as the document ID (e.g. '2025-06')
+  employees: Employee[];
+  shifts: MonthlySchedule; // dateKey -> employeeId -> ShiftEntry, only dates of this month
+  clinicDayOff: string; // One of DAY_NAMES
+  removedEmployees?: RemovedEmployee[]; // Only written when someone was removed
+}
+
+// The month document as it is stored in Firestore
+export interface MonthDocumentV3 {
+  schemaVersion: 3;
+  month: string; // Month key, same as the document ID (e.g. '2025-06')
+  employees: Employee[];
+  employeeBranches: Record<string, string[]>; // Full-timer ID -> their home branches in the month; derived, never decoded
+  clinicDayOff: string; // One of DAY_NAMES
+  removedEmployees?: RemovedEmployee[]; // Only written when someone was removed
+}
+
+// An employee's copy of a month ('staffSchedules/emp-1/months/2025-06'): `employees` holds only them
+export interface StaffMonthDocument extends MonthDocumentV2 {
+  colleagues: Colleague[]; // Everyone else in the month
+}
+
+// The full-timers' shifts at one branch ('schedules/2025-06/shifts/branch-1')
+export interface ShiftsDocument {
+  month: string;
+  shifts: MonthlySchedule; // dateKey -> employeeId -> ShiftEntry, only cells of this branch
+}
+
+// One part-timer's cell on one day ('schedules/2025-06/partTimeShifts/emp-1_2025-06-02', see getPartTimeShiftId)
+export interface PartTimeShiftDocument {
+  employeeId: string;
+  date: string; // Date key
+  shift: ShiftEntry; // Never ''
+  branch: string | null; // Branch of a booking, null for a status; what firestore.rules check the writer against
+}
+
+// The documents a month is stored in
+export interface StoredMonth {
+  month: MonthDocumentV3;
+  shifts: Record<string, ShiftsDocument>; // By branch ID
+  partTimeShifts: Record<string, PartTimeShiftDocument>; // By document ID
+  staff: Record<string, StaffMonthDocument>; // By employee ID
+}
+
+// The documents a save writes; `month` is null when it is unchanged, a part-timer's day is null when it is deleted
+export type MonthWrites = Omit<StoredMonth, 'month' | 'partTimeShifts'> & {
+  month: MonthDocumentV3 | null;
+  partTimeShifts: Record<string, PartTimeShiftDocument | null>;
+};
+
+// The shifts documents of a version 3 month as they were read, by document ID
+export interface StoredShifts {
+  shifts: Record<string, unknown>;
+  partTimeShifts: Record<string, unknown>;
+}
+
+// Result of decoding: either the month (with non-fatal warnings) or the list of reasons it was rejected
+export type DecodeResult =
+  | { ok: true; value: MonthData; migratedFrom: number | null; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+const DATE_KEY_PATTERN: RegExp = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_NUMBER_PATTERN: RegExp = /^\d{1,2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Shift strings accepted in a document: a status or a working shift code
+const isBaseShiftString = (value: unknown): value is BaseShiftString => {
+  return typeof value === 'string' && (isStatusShift(value) || isShiftCodeText(value));
+};
+
+const isShiftCode = (value: unknown): value is ShiftCode => typeof value === 'string' && isShiftCodeText(value);
+
+// Number of days in a month key ('2025-02' -> 28)
+const getDaysInMonthKey = (monthKey: string): number => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return new Date(year, month, 0).getDate();
+};
+
+// Keep only the date keys of the given month, so a document never carries other months' shifts
+export const pickMonthSchedule = (schedule: MonthlySchedule, monthKey: string): MonthlySchedule => {
+  const picked: MonthlySchedule = {};
+  Object.keys(schedule).forEach((dateKey: string) => {
+    if (isDateKeyInMonth(dateKey, monthKey)) {
+      picked[dateKey] = schedule[dateKey];
+    }
+  });
+  return picked;
+};
+
+// Replace the date keys of one month with the given ones, keeping every other month as it is
+export const replaceMonthSchedule = (schedule: MonthlySchedule, monthSchedule: MonthlySchedule, monthKey: string): MonthlySchedule => {
+  const replaced: MonthlySchedule = {};
+  Object.keys(schedule).forEach((dateKey: string) => {
+    if (!isDateKeyInMonth(dateKey, monthKey)) replaced[dateKey] = schedule[dateKey];
+  });
+  return { ...replaced, ...monthSchedule };
+};
+
+// Build an encoded whole-month document from application state
+export const encodeMonthDocument = (monthKey: string, month: MonthData): MonthDocumentV2 => {
+  const document: MonthDocumentV2 = {
+    schemaVersion: 2,
+    month: monthKey,
+    employees: month.employees,
+    shifts: pickMonthSchedule(month.monthlySchedule, monthKey),
+    clinicDayOff: month.clinicDayOff,
+  };
+  // Left out while empty, so saving a month nobody was removed from keeps the document unchanged
+  if (month.removedEmployees.length > 0) document.removedEmployees = month.removedEmployees;
+  return document;
+};
+
+// ID of the document holding a part-timer's cell on one day
+export const getPartTimeShiftId = (employeeId: string, dateKey: string): string => `${employeeId}_${dateKey}`;
+
+// An employee's copy of a month, holding their own full-time shifts (none for a part-timer, or when they left the month)
+const encodeStaffMonthDocument = (monthKey: string, month: MonthData, employeeId: string, ownShifts: MonthlySchedule): StaffMonthDocument => {
+  const own: Employee[] = month.employees.filter((e: Employee) => e.id === employeeId);
+  return {
+    ...encodeMonthDocument(monthKey, { employees: own, monthlySchedule: ownShifts, clinicDayOff: month.clinicDayOff, removedEmployees: [] }),
+    colleagues: month.employees.filter((e: Employee) => e.id !== employeeId).map(({ id, name, position }: Employee) => ({ id, name, position })),
+  };
+};
+
+// Split a month into the documents it is stored in from version 3 on
+export const splitMonthDocument = (monthKey: string, month: MonthData): StoredMonth => {
+  const { employees, shifts, clinicDayOff, removedEmployees } = encodeMonthDocument(monthKey, month);
+  const employeeBranches: Record<string, string[]> = {};
+  employees.forEach((employee: Employee) => {
+    if (employee.type === 'full-time') employeeBranches[employee.id] = getHomeBranchesInMonth(employee, monthKey);
+  });
+  const header: MonthDocumentV3 = { schemaVersion: CURRENT_SCHEMA_VERSION, month: monthKey, employees, employeeBranches, clinicDayOff };
+  if (removedEmployees) header.removedEmployees = removedEmployees;
+
+  const ownShifts: Record<string, MonthlySchedule> = {};
+  const stored: StoredMonth = { month: header, shifts: {}, partTimeShifts: {}, staff: {} };
+  const employeesById: Map<string, Employee> = new Map(employees.map((e: Employee) => [e.id, e]));
+  Object.entries(shifts).forEach(([dateKey, dayShifts]) => {
+    Object.entries(dayShifts).forEach(([employeeId, entry]: [string, ShiftEntry]) => {
+      const employee: Employee | undefined = employeesById.get(employeeId);
+      if (!employee || entry === '') return; // Not kept by decoding either
+      if (employee.type === 'part-time') {
+        const branch: string | null = isWorkingShiftObject(entry) ? entry.branch : null;
+        stored.partTimeShifts[getPartTimeShiftId(employeeId, dateKey)] = { employeeId, date: dateKey, shift: entry, branch };
+        return;
+      }
+      const branchId: string = getHomeBranchOn(employee, dateKey);
+      if (!stored.shifts[branchId]) stored.shifts[branchId] = { month: monthKey, shifts: {} };
+      if (!stored.shifts[branchId].shifts[dateKey]) stored.shifts[branchId].shifts[dateKey] = {};
+      stored.shifts[branchId].shifts[dateKey][employeeId] = entry;
+      if (!ownShifts[employeeId]) ownShifts[employeeId] = {};
+      ownShifts[employeeId][dateKey] = { [employeeId]: entry };
+    });
+  });
+  employees.forEach((employee: Employee) => {
+    stored.staff[employee.id] = encodeStaffMonthDocument(monthKey, month, employee.id, ownShifts[employee.id] ?? {});
+  });
+  return stored;
+};
+
+// The documents a save has to write: those of `updated` that differ from the stored month, or all of them
+// when the month is new or still stored in an older version (the save converts it). A branch or employee
+// left without shifts gets an empty document and a part-timer's cleared day is deleted, so nothing stays behind.
+export const findMonthWrites = (monthKey: string, stored: { schemaVersion: unknown; data: MonthData } | null, updated: MonthData): MonthWrites => {
+  const after: StoredMonth = splitMonthDocument(monthKey, updated);
+  if (stored === null || stored.schemaVersion !== CURRENT_SCHEMA_VERSION) return after;
+  const before: StoredMonth = splitMonthDocument(monthKey, stored.data);
+
+  const isChanged = (previous: object | undefined, next: object): boolean => !previous || documentSnapshot(previous) !== documentSnapshot(next);
+  const writes: MonthWrites = { month: null, shifts: {}, partTimeShifts: {}, staff: {} };
+  if (isChanged(before.month, after.month)) writes.month = after.month;
+  new Set([...Object.keys(before.shifts), ...Object.keys(after.shifts)]).forEach((branchId: string) => {
+    const next: ShiftsDocument = after.shifts[branchId] ?? { month: monthKey, shifts: {} };
+    if (isChanged(before.shifts[branchId], next)) writes.shifts[branchId] = next;
+  });
+  new Set([...Object.keys(before.partTimeShifts), ...Object.keys(after.partTimeShifts)]).forEach((shiftId: string) => {
+    const next: PartTimeShiftDocument | undefined = after.partTimeShifts[shiftId];
+    if (!next) writes.partTimeShifts[shiftId] = null;
+    else if (isChanged(before.partTimeShifts[shiftId], next)) writes.partTimeShifts[shiftId] = next;
+  });
+  new Set([...Object.keys(before.staff), ...Object.keys(after.staff)]).forEach((employeeId: string) => {
+    const next: StaffMonthDocument = after.staff[employeeId] ?? encodeStaffMonthDocument(monthKey, updated, employeeId, {});
+    if (isChanged(before.staff[employeeId], next)) writes.staff[employeeId] = next;
+  });
+  return writes;
+};
+
+// Validate a part-timer's availability; a malformed value is dropped with a warning (the employee is then available everywhere)
+const decodeAvailability = (raw: unknown, branches: Branch[], where: string, warnings: string[]): PartTimeAvailability | undefined => {
+  const isNumberList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every((v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 6);
+  const isShiftList = (value: unknown): value is ShiftCode[] =>
+    Array.isArray(value) && value.every(isShiftCode);
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((v: unknown) => typeof v === 'string');
+
+  if (!isRecord(raw) || !isNumberList(raw.weekdays) || !isShiftList(raw.shifts) || !isStringList(raw.branches)) {
+    warnings.push(`${where}: ข้าม availability ที่อ่านไม่ได้`);
+    return undefined;
+  }
+  const branchIds: string[] = [];
+  raw.branches.forEach((ref: string) => {
+    const branchId: string | null = resolveBranchId(branches, ref);
+    if (branchId === null) {
+      warnings.push(`${where}: ข้ามสาขาที่ไม่รู้จัก "${ref}" ใน availability`);
+    } else {
+      branchIds.push(branchId);
+    }
+  });
+  return { weekdays: raw.weekdays, shifts: raw.shifts, branches: branchIds };
+};
+
+// Validate a full-timer's transfers; malformed ones are dropped with a warning
+const decodeTransfers = (raw: unknown, branches: Branch[], where: string, warnings: string[]): BranchTransfer[] => {
+  if (!Array.isArray(raw)) {
+    warnings.push(`${where}: ข้าม transfers ที่อ่านไม่ได้`);
+    return [];
+  }
+  const transfers: BranchTransfer[] = [];
+  raw.forEach((item: unknown) => {
+    const branchId: string | null = isRecord(item) && typeof item.branch === 'string' ? resolveBranchId(branches, item.branch) : null;
+    if (!isRecord(item) || typeof item.date !== 'string' || !DATE_KEY_PATTERN.test(item.date) || branchId === null) {
+      warnings.push(`${where}: ข้ามการย้ายสาขาที่อ่านไม่ได้ ${JSON.stringify(item)}`);
+      return;
+    }
+    transfers.push({ date: item.date, branch: branchId });
+  });
+  return transfers.sort((a: BranchTransfer, b: BranchTransfer) => a.date.localeCompare(b.date));
+};
+
+// Validate the employee list; every malformed entry is an error.
+// Employment dates and transfers were added later, so a malformed one is only dropped with a warning.
+// Home branches written by name (version 0/1) are translated to branch IDs.
+const decodeEmployees = (raw: unknown, branches: Branch[], errors: string[], warnings: string[]): Employee[] => {
+  if (!Array.isArray(raw)) {
+    errors.push('employees ต้องเป็น array');
+    return [];
+  }
+
+  const employees: Employee[] = [];
+  const seenIds: Set<string> = new Set();
+  raw.forEach((item: unknown, index: number) => {
+    if (!isRecord(item)) {
+      errors.push(`employees[${index}] ไม่ใช่ object`);
+      return;
+    }
+    const { id, name, position, branch, type } = item;
+    if (typeof id !== 'string' || !id) {
+      errors.push(`employees[${index}].id ไม่ถูกต้อง`);
+      return;
+    }
+    if (seenIds.has(id)) {
+      errors.push(`employees[${index}].id "${id}" ซ้ำ`);
+      return;
+    }
+    if (typeof name !== 'string' || typeof position !== 'string' || typeof branch !== 'string') {
+      errors.push(`employees[${index}] (${id}) ขาด name/position/branch`);
+      return;
+    }
+    if (type !== 'full-time' && type !== 'part-time') {
+      errors.push(`employees[${index}] (${id}) มี type ไม่ถูกต้อง: ${String(type)}`);
+      return;
+    }
+    let branchId: string = PART_TIME_BRANCH;
+    if (type === 'full-time') {
+      const resolved: string | null = resolveBranchId(branches, branch);
+      if (resolved === null) {
+        errors.push(`employees[${index}] (${id}) ไม่พบสาขา "${branch}"`);
+        return;
+      }
+      branchId = resolved;
+    }
+    seenIds.add(id);
+    const employee: Employee = { id, name, position, type, branch: branchId };
+    if (type === 'part-time' && item.availability !== undefined) {
+      const availability: PartTimeAvailability | undefined = decodeAvailability(item.availability, branches, `employees[${index}] (${id})`, warnings);
+      if (availability) employee.availability = availability;
+    }
+    (['startDate', 'endDate'] as const).forEach((field: 'startDate' | 'endDate') => {
+      const value: unknown = item[field];
+      if (value === undefined) return;
+      if (typeof value === 'string' && DATE_KEY_PATTERN.test(value)) employee[field] = value;
+      else warnings.push(`employees[${index}] (${id}): ข้าม ${field} ที่อ่านไม่ได้`);
+    });
+    if (type === 'full-time' && item.transfers !== undefined) {
+      const transfers: BranchTransfer[] = decodeTransfers(item.transfers, branches, `employees[${index}] (${id})`, warnings);
+      if (transfers.length > 0) employee.transfers = transfers;
+    }
+    employees.push(employee);
+  });
+  return employees;
+};
+
+// Validate a single shift entry for an employee.
+// Returns undefined (and records an error) when the value cannot be used.
+const decodeShiftEntry = (
+  raw: unknown,
+  employee: Employee,
+  branches: Branch[],
+  where: string,
+  errors: string[],
+  warnings: string[],
+): ShiftEntry | undefined => {
+  if (isBaseShiftString(raw)) {
+    if (employee.type === 'part-time' && !isStatusShift(raw)) {
+      // A working shift of a part-timer must say which branch they work at
+      errors.push(`${where}: กะ "${raw}" ของพนักงานพาร์ทไทม์ไม่ระบุสาขา`);
+      return undefined;
+    }
+    return raw;
+  }
+
+  if (isRecord(raw)) {
+    const { type, branch } = raw;
+    if (!isShiftCode(type) || typeof branch !== 'string') {
+      errors.push(`${where}: รูปแบบกะไม่ถูกต้อง ${JSON.stringify(raw)}`);
+      return undefined;
+    }
+    if (employee.type === 'full-time') {
+      // Full-timers always work at their own branch; keep only the shift type
+      warnings.push(`${where}: แปลงกะของพนักงานประจำจาก object เป็น "${type}"`);
+      return type;
+    }
+    const branchId: string | null = resolveBranchId(branches, branch);
+    if (branchId === null) {
+      errors.push(`${where}: ไม่พบสาขา "${branch}"`);
+      return undefined;
+    }
+    return { type, branch: branchId };
+  }
+
+  errors.push(`${where}: ค่ากะไม่ถูกต้อง ${JSON.stringify(raw)}`);
+  return undefined;
+};
+
+// Validate the per-day shifts; entries for unknown employees or other months are dropped with a warning
+const decodeShifts = (
+  raw: unknown,
+  monthKey: string,
+  employees: Employee[],
+  branches: Branch[],
+  errors: string[],
+  warnings: string[],
+): MonthlySchedule => {
+  const schedule: MonthlySchedule = {};
+  if (!isRecord(raw)) {
+    errors.push('shifts ต้องเป็น object');
+    return schedule;
+  }
+
+  const employeesById: Map<string, Employee> = new Map(employees.map((e: Employee) => [e.id, e]));
+  const daysInMonth: number = getDaysInMonthKey(monthKey);
+
+  Object.entries(raw).forEach(([dateKey, dayShifts]) => {
+    const day: number = Number(dateKey.slice(8));
+    if (!DATE_KEY_PATTERN.test(dateKey) || !isDateKeyInMonth(dateKey, monthKey) || day < 1 || day > daysInMonth) {
+      warnings.push(`ข้ามวันที่ "${dateKey}" ที่ไม่อยู่ในเดือน ${monthKey}`);
+      return;
+    }
+    if (!isRecord(dayShifts)) {
+      errors.push(`shifts["${dateKey}"] ต้องเป็น object`);
+      return;
+    }
+
+    Object.entries(dayShifts).forEach(([employeeId, rawShift]) => {
+      const employee: Employee | undefined = employeesById.get(employeeId);
+      if (!employee) {
+        warnings.push(`ข้ามกะของพนักงานที่ไม่รู้จัก "${employeeId}" วันที่ ${dateKey}`);
+        return;
+      }
+      const entry: ShiftEntry | undefined = decodeShiftEntry(rawShift, employee, branches, `${dateKey}/${employeeId}`, errors, warnings);
+      if (entry === undefined || entry === '') return;
+      if (!schedule[dateKey]) schedule[dateKey] = {};
+      schedule[dateKey][employeeId] = entry;
+    });
+  });
+  return schedule;
+};
+
+// Validate the soft-deleted employees. They are only kept for restoring, so a malformed entry
+// (or shift) is dropped with a warning instead of rejecting the whole month.
+const decodeRemovedEmployees = (
+  raw: unknown,
+  monthKey: string,
+  employees: Employee[],
+  branches: Branch[],
+  warnings: string[],
+): RemovedEmployee[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push('ข้าม removedEmployees ที่ไม่ใช่ array');
+    return [];
+  }
+
+  const seenIds: Set<string> = new Set(employees.map((e: Employee) => e.id));
+  const removed: RemovedEmployee[] = [];
+  raw.forEach((item: unknown, index: number) => {
+    const where: string = `removedEmployees[${index}]`;
+    const entryErrors: string[] = [];
+    const [employee] = isRecord(item) ? decodeEmployees([item.employee], branches, entryErrors, warnings) : [];
+    if (!isRecord(item) || !employee || typeof item.removedAt !== 'string' || typeof item.removedBy !== 'string' || !isRecord(item.shifts)) {
+      warnings.push(`${where}: ข้ามพนักงานที่ถูกลบซึ่งอ่านไม่ได้ ${entryErrors.join('; ')}`.trim());
+      return;
+    }
+    if (seenIds.has(employee.id)) {
+      warnings.push(`${where}: ข้าม "${employee.id}" ที่ซ้ำกับพนักงานคนอื่น`);
+      return;
+    }
+    seenIds.add(employee.id);
+
+    const shifts: RemovedEmployee['shifts'] = {};
+    Object.entries(item.shifts).forEach(([dateKey, rawShift]) => {
+      const shiftErrors: string[] = [];
+      const entry: ShiftEntry | undefined = isDateKeyInMonth(dateKey, monthKey)
+        ? decodeShiftEntry(rawShift, employee, branches, `${where}/${dateKey}`, shiftErrors, warnings)
+        : undefined;
+      if (entry === undefined) {
+        warnings.push(`${where}: ข้ามกะวันที่ ${dateKey} ${shiftErrors.join('; ')}`.trim());
+        return;
+      }
+      if (entry !== '') shifts[dateKey] = entry;
+    });
+    removed.push({ employee, shifts, removedAt: item.removedAt, removedBy: item.removedBy });
+  });
+  return removed;
+};
+
+// Put the shifts documents of a version 3 month together. A full-timer's cell is only taken from the document
+// of the branch they belong to that day, so a branch's document cannot place shifts at another branch, and a
+// part-timer's only from their own document of that day.
+const joinShiftsDocuments = (
+  documents: StoredShifts,
+  monthKey: string,
+  employees: Employee[],
+  branches: Branch[],
+  errors: string[],
+  warnings: string[],
+): MonthlySchedule => {
+  const schedule: MonthlySchedule = {};
+  const employeesById: Map<string, Employee> = new Map(employees.map((e: Employee) => [e.id, e]));
+  const put = (dateKey: string, employeeId: string, entry: ShiftEntry): void => {
+    if (!schedule[dateKey]) schedule[dateKey] = {};
+    schedule[dateKey][employeeId] = entry;
+  };
+
+  Object.keys(documents.shifts).sort().forEach((branchId: string) => {
+    const document: unknown = documents.shifts[branchId];
+    if (!isRecord(document)) {
+      errors.push(`shifts/${branchId} ไม่ใช่ object`);
+      return;
+    }
+    const shifts: MonthlySchedule = decodeShifts(document.shifts, monthKey, employees, branches, errors, warnings);
+    Object.entries(shifts).forEach(([dateKey, dayShifts]) => {
+      Object.entries(dayShifts).forEach(([employeeId, entry]: [string, ShiftEntry]) => {
+        const employee: Employee = employeesById.get(employeeId) as Employee; // decodeShifts keeps only known employees
+        if (employee.type !== 'full-time' || getHomeBranchOn(employee, dateKey) !== branchId) {
+          warnings.push(`shifts/${branchId}: ข้ามกะ ${dateKey}/${employeeId} ที่ไม่ได้อยู่ในความดูแลของเอกสารนี้`);
+          return;
+        }
+        put(dateKey, employeeId, entry);
+      });
+    });
+  });
+
+  Object.keys(documents.partTimeShifts).sort().forEach((shiftId: string) => {
+    const document: unknown = documents.partTimeShifts[shiftId];
+    if (!isRecord(document) || typeof document.employeeId !== 'string' || typeof document.date !== 'string'
+      || shiftId !== getPartTimeShiftId(document.employeeId, document.date)) {
+      errors.push(`partTimeShifts/${shiftId} อ่านไม่ได้`);
+      return;
+    }
+    const { employeeId, date } = document;
+    const entry: ShiftEntry | undefined = decodeShifts({ [date]: { [employeeId]: document.shift } }, monthKey, employees, branches, errors, warnings)[date]?.[employeeId];
+    if (entry === undefined) return;
+    if (employeesById.get(employeeId)?.type !== 'part-time') {
+      warnings.push(`partTimeShifts/${shiftId}: ข้ามกะของพนักงานที่ไม่ใช่พาร์ทไทม์`);
+      return;
+    }
+    if (document.branch !== (isWorkingShiftObject(entry) ? entry.branch : null)) {
+      warnings.push(`partTimeShifts/${shiftId}: ข้ามกะที่ branch ไม่ตรงกับกะ`);
+      return;
+    }
+    put(date, employeeId, entry);
+  });
+  return schedule;
+};
+
+// Convert a legacy (version 0) document into the fields of version 1
+const migrateLegacyDocument = (raw: Record<string, unknown>, monthKey: string, warnings: string[]): Record<string, unknown> => {
+  let shifts: unknown = raw.monthlySchedule;
+
+  if (isRecord(raw.schedule)) {
+    // Oldest format: employeeId -> day -> shift. The day is a day number ('1'..'31') or a full date key.
+    const [year, month] = monthKey.split('-').map(Number);
+    const converted: Record<string, Record<string, unknown>> = {};
+    Object.entries(raw.schedule).forEach(([employeeId, days]) => {
+      if (!isRecord(days)) {
+        warnings.push(`ข้ามกะของ "${employeeId}" ที่ไม่ใช่ object`);
+        return;
+      }
+      Object.entries(days).forEach(([day, shift]) => {
+        let dateKey: string;
+        if (DAY_NUMBER_PATTERN.test(day)) {
+          dateKey = toDateKey(year, month - 1, Number(day));
+        } else if (DATE_KEY_PATTERN.test(day)) {
+          dateKey = day;
+        } else {
+          warnings.push(`ข้ามวัน "${day}" ของ "${employeeId}" ที่อ่านไม่ได้`);
+          return;
+        }
+        if (!converted[dateKey]) converted[dateKey] = {};
+        converted[dateKey][employeeId] = shift;
+      });
+    });
+    shifts = converted;
+  }
+
+  return {
+    employees: raw.employees,
+    shifts: shifts ?? {},
+    clinicDayOff: raw.clinicDayOff ?? DEFAULT_CLINIC_DAY_OFF,
+  };
+};
+
+// Decode (and migrate if needed) a raw Firestore document for the given month.
+// `branches` is the clinic's branch list (including archived ones), used to resolve branch references.
+// The shifts of a version 3 document come from its shifts documents; older versions hold them inline.
+export const decodeMonthDocument = (raw: unknown, monthKey: string, branches: Branch[], shiftsDocuments: StoredShifts = { shifts: {}, partTimeShifts: {} }): DecodeResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { ok: false, errors: ['เอกสารไม่ใช่ object'] };
+  }
+
+  let fields: Record<string, unknown> = raw;
+  let migratedFrom: number | null = null;
+  if (raw.schemaVersion === undefined) {
+    fields = migrateLegacyDocument(raw, monthKey, warnings);
+    migratedFrom = 0;
+  } else if (raw.schemaVersion !== 1 && raw.schemaVersion !== 2 && raw.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    return { ok: false, errors: [`ไม่รองรับ schemaVersion ${String(raw.schemaVersion)}`] };
+  } else if (raw.month !== monthKey) {
+    errors.push(`month "${String(raw.month)}" ไม่ตรงกับเอกสาร ${monthKey}`);
+  }
+  if (raw.schemaVersion === 1) {
+    // Version 1 differs only in referring to branches by name, which the decoders below resolve
+    migratedFrom = 1;
+  }
+
+  // Clinic day off
+  let clinicDayOff: string = DEFAULT_CLINIC_DAY_OFF;
+  if (typeof fields.clinicDayOff === 'string' && DAY_NAMES.includes(fields.clinicDayOff)) {
+    clinicDayOff = fields.clinicDayOff;
+  } else {
+    errors.push(`clinicDayOff ไม่ถูกต้อง: ${String(fields.clinicDayOff)}`);
+  }
+
+  const employees: Employee[] = decodeEmployees(fields.employees, branches, errors, warnings);
+  const monthlySchedule: MonthlySchedule = raw.schemaVersion === CURRENT_SCHEMA_VERSION
+    ? joinShiftsDocuments(shiftsDocuments, monthKey, employees, branches, errors, warnings)
+    : decodeShifts(fields.shifts, monthKey, employees, branches, errors, warnings);
+  const removedEmployees: RemovedEmployee[] = decodeRemovedEmployees(fields.removedEmployees, monthKey, employees, branches, warnings);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, value: { employees, monthlySchedule, clinicDayOff, removedEmployees }, migratedFrom, warnings };
+};
+
+// Decode an employee's copy of a month together with their part-timer days, which staff read themselves
+// (see StaffMonthDocument). Colleagues that cannot be read are dropped with a warning.
+export const decodeStaffMonthDocument = (raw: unknown, monthKey: string, branches: Branch[], partTimeShifts: Record<string, unknown> = {}): DecodeResult => {
+  const result: DecodeResult = decodeMonthDocument(raw, monthKey, branches);
+  if (!result.ok) return result;
+  const errors: string[] = [];
+  const warnings: string[] = [...result.warnings];
+  const days: MonthlySchedule = joinShiftsDocuments({ shifts: {}, partTimeShifts }, monthKey, result.value.employees, branches, errors, warnings);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const monthlySchedule: MonthlySchedule = { ...result.value.monthlySchedule };
+  Object.entries(days).forEach(([dateKey, dayShifts]) => {
+    monthlySchedule[dateKey] = { ...monthlySchedule[dateKey], ...dayShifts };
+  });
+  const colleagues: Colleague[] = [];
+  const rawColleagues: unknown = isRecord(raw) ? raw.colleagues : undefined;
+  (Array.isArray(rawColleagues) ? rawColleagues : []).forEach((item: unknown, index: number) => {
+    if (isRecord(item) && typeof item.id === 'string' && typeof item.name === 'string' && typeof item.position === 'string') {
+      colleagues.push({ id: item.id, name: item.name, position: item.position });
+    } else {
+      warnings.push(`colleagues[${index}]: ข้ามเพื่อนร่วมงานที่อ่านไม่ได้`);
+    }
+  });
+  return { ...result, value: { ...result.value, monthlySchedule, colleagues }, warnings };
+};
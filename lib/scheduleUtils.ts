@@ -0,0 +1,40 @@
+// lib/scheduleUtils.ts
+import type { Employee, ShiftCode, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { DAY_NAMES, NO_DAY_OFF } from './constants';
+import { getHomeBranchOn } from './employees';
+import { isStatusShift } from './shiftCatalog';
+
+// --- Small helpers shared by the schedule grid and the pure schedule modules ---
+
+// Whether the given day falls on the clinic-wide day off (month is 0-indexed)
+export const isClinicDayOff = (year: number, month: number, day: number, clinicDayOff: string): boolean => {
+  if (clinicDayOff === NO_DAY_OFF) return false;
+  return DAY_NAMES[new Date(year, month, day).getDay()] === clinicDayOff;
+};
+
+// Whether a shift entry means the employee is working (a shift code rather than a status, or a part-timer's WorkingShiftObject)
+export const isWorkingEntry = (entry: ShiftEntry | undefined): boolean => {
+  return isWorkingShiftObject(entry) || (typeof entry === 'string' && !isStatusShift(entry));
+};
+
+// Whether two entries mean the same thing in a cell (a missing entry equals '')
+export const isSameEntry = (a: ShiftEntry | undefined, b: ShiftEntry | undefined): boolean => {
+  if (isWorkingShiftObject(a) && isWorkingShiftObject(b)) return a.type === b.type && a.branch === b.branch;
+  if (isWorkingShiftObject(a) || isWorkingShiftObject(b)) return false;
+  return (a ?? '') === (b ?? '');
+};
+
+// The branch an employee works at for the shift entry of a day, or null when the entry is not a working shift
+export const getWorkingBranch = (employee: Employee, entry: ShiftEntry | undefined, dateKey: string): string | null => {
+  if (isWorkingShiftObject(entry)) return entry.branch;
+  if (employee.type === 'full-time' && isWorkingEntry(entry)) return getHomeBranchOn(employee, dateKey);
+  return null;
+};
+
+// The shift code of a working entry, or null
+export const getWorkingShiftType = (entry: ShiftEntry | undefined): ShiftCode | null => {
+  if (isWorkingShiftObject(entry)) return entry.type;
+  if (typeof entry === 'string' && !isStatusShift(entry)) return entry;
+  return null;
+};
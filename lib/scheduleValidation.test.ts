@@ -0,0 +1,181 @@
+// lib/scheduleValidation.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Branch, Employee, MonthlySchedule, ShiftEntry } from './types';
+import { toDateKey } from './dates';
+import { createDefaultShiftDefinitions } from './shiftTimes';
+import { DEFAULT_SHIFT_CATALOG } from './shiftCatalog';
+import { DEFAULT_WORK_LIMITS, ScheduleViolation, ValidationInput, ViolationKind, validateMonthSchedule } from './scheduleValidation';
+
+// June 2025: the 1st is a Sunday, the 2nd a Monday
+const YEAR: number = 2025;
+const MONTH: number = 5;
+
+const branches: Branch[] = [
+  { id: 'branch-1', name: 'บึงทับช้าง', archived: false },
+  { id: 'branch-2', name: 'บัวใหญ่', archived: false },
+  { id: 'branch-3', name: 'อโศก', archived: true },
+];
+
+const fullTimer: Employee = { id: 'e1', name: 'สมชาย', position: 'แพทย์แผนไทย', branch: 'branch-1', type: 'full-time' };
+const partTimer: Employee = { id: 'p1', name: 'สมหญิง', position: 'พนักงานนวด', branch: 'พาร์ทไทม์', type: 'part-time' };
+
+// Shifts of one employee by day of June 2025
+const shiftsOf = (employeeId: string, days: Record<number, ShiftEntry>): MonthlySchedule => {
+  const schedule: MonthlySchedule = {};
+  Object.entries(days).forEach(([day, entry]) => {
+    schedule[toDateKey(YEAR, MONTH, Number(day))] = { [employeeId]: entry };
+  });
+  return schedule;
+};
+
+// Every day from `from` to `to` set to the same shift
+const everyDay = (from: number, to: number, entry: ShiftEntry): Record<number, ShiftEntry> => {
+  const days: Record<number, ShiftEntry> = {};
+  for (let day = from; day <= to; day++) days[day] = entry;
+  return days;
+};
+
+// No clinic day off and no staffing rules, so each test only triggers what it sets up
+const validate = (input: Partial<ValidationInput>): ScheduleViolation[] => validateMonthSchedule({
+  year: YEAR,
+  month: MONTH,
+  employees: [fullTimer],
+  schedule: {},
+  closures: { clinicDayOff: 'ไม่มี', branchClosures: {}, holidays: [] },
+  staffingRules: { 'branch-1': [], 'branch-2': [] },
+  shiftDefinitions: createDefaultShiftDefinitions(),
+  shiftCatalog: DEFAULT_SHIFT_CATALOG,
+  branches,
+  limits: DEFAULT_WORK_LIMITS,
+  ...input,
+});
+
+const ofKind = (violations: ScheduleViolation[], kind: ViolationKind): ScheduleViolation[] => {
+  return violations.filter((v: ScheduleViolation) => v.kind === kind);
+};
+
+describe('validateMonthSchedule', () => {
+  it('accepts a month with nothing wrong', () => {
+    assert.deepEqual(validate({ schedule: shiftsOf('e1', { 2: 'เช้า', 3: 'บ่าย', 4: 'หยุด', 5: 'ลา' }) }), []);
+  });
+
+  describe('notEmployed', () => {
+    const employee: Employee = { ...fullTimer, startDate: '2025-06-10', endDate: '2025-06-20' };
+
+    it('flags a shift before the start or after the end of employment', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({ employees: [employee], schedule: shiftsOf('e1', { 9: 'เช้า', 21: 'บ่าย' }) }), 'notEmployed');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => [v.day, v.employeeId, v.severity]), [[9, 'e1', 'error'], [21, 'e1', 'error']]);
+    });
+
+    it('accepts shifts inside employment and statuses outside it', () => {
+      assert.deepEqual(ofKind(validate({ employees: [employee], schedule: shiftsOf('e1', { 8: 'หยุด', 10: 'เช้า', 20: 'บ่าย' }) }), 'notEmployed'), []);
+    });
+  });
+
+  describe('closedDay', () => {
+    it('flags a shift on the clinic day off, a branch closing date and a holiday', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({
+        schedule: shiftsOf('e1', { 1: 'เช้า', 3: 'เช้า', 12: 'บ่าย' }),
+        closures: {
+          clinicDayOff: 'อาทิตย์',
+          branchClosures: { 'branch-1': { weekdays: null, dates: ['2025-06-12'] } },
+          holidays: [{ date: '2025-06-03', name: 'วันเฉลิมพระชนมพรรษา' }],
+        },
+      }), 'closedDay');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => [v.day, v.branch]), [[1, 'branch-1'], [3, 'branch-1'], [12, 'branch-1']]);
+    });
+
+    it('accepts shifts on open days and a day off on a closed day', () => {
+      const closures = { clinicDayOff: 'อาทิตย์', branchClosures: {}, holidays: [] };
+      assert.deepEqual(ofKind(validate({ schedule: shiftsOf('e1', { 1: 'หยุด', 2: 'เช้า' }), closures }), 'closedDay'), []);
+    });
+  });
+
+  describe('partTimeConflict', () => {
+    const mondaysOnly: Employee = { ...partTimer, availability: { weekdays: [1], shifts: ['เช้า'], branches: ['branch-1'] } };
+
+    it('flags a part-timer shift outside their availability, at an archived branch or without a branch', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({
+        employees: [mondaysOnly],
+        schedule: shiftsOf('p1', {
+          2: { type: 'บ่าย', branch: 'branch-1' }, // Wrong shift
+          3: { type: 'เช้า', branch: 'branch-1' }, // Wrong weekday
+          9: { type: 'เช้า', branch: 'branch-2' }, // Wrong branch
+          16: { type: 'เช้า', branch: 'branch-3' }, // Archived
+          23: 'เช้า', // No branch
+        }),
+      }), 'partTimeConflict');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => v.day), [2, 3, 9, 16, 23]);
+    });
+
+    it('accepts a part-timer shift they are available for', () => {
+      const violations: ScheduleViolation[] = validate({ employees: [mondaysOnly], schedule: shiftsOf('p1', { 2: { type: 'เช้า', branch: 'branch-1' }, 3: 'หยุด' }) });
+      assert.deepEqual(ofKind(violations, 'partTimeConflict'), []);
+    });
+  });
+
+  describe('staffing', () => {
+    const employees: Employee[] = ['e1', 'e2', 'e3', 'e4'].map((id: string) => ({ ...fullTimer, id, name: id }));
+    const mondayRule = { 'branch-1': [{ id: 'r1', shift: 'all' as const, position: null, weekdays: [1], min: 2, max: 3 }], 'branch-2': [] };
+    const working = (day: number, ids: string[]): MonthlySchedule => ({
+      [toDateKey(YEAR, MONTH, day)]: Object.fromEntries(ids.map((id: string) => [id, 'เช้า'])),
+    });
+
+    it('flags a branch below its minimum as an error and above its maximum as a warning', () => {
+      const schedule: MonthlySchedule = { ...working(2, ['e1']), ...working(9, ['e1', 'e2', 'e3', 'e4']) };
+      const violations: ScheduleViolation[] = ofKind(validate({ employees, schedule, staffingRules: mondayRule }), 'staffing');
+      const mondays: ScheduleViolation[] = violations.filter((v: ScheduleViolation) => v.day === 2 || v.day === 9);
+      assert.deepEqual(mondays.map((v: ScheduleViolation) => [v.day, v.branch, v.severity, v.staffing?.count]), [[2, 'branch-1', 'error', 1], [9, 'branch-1', 'warning', 4]]);
+      // Mondays nobody was scheduled on are short too; other days have no rule
+      assert.ok(violations.every((v: ScheduleViolation) => new Date(YEAR, MONTH, v.day).getDay() === 1));
+    });
+
+    it('accepts a headcount within the rule', () => {
+      const schedule: MonthlySchedule = {};
+      [2, 9, 16, 23, 30].forEach((day: number) => Object.assign(schedule, working(day, ['e1', 'e2'])));
+      assert.deepEqual(ofKind(validate({ employees, schedule, staffingRules: mondayRule }), 'staffing'), []);
+    });
+  });
+
+  describe('consecutiveDays', () => {
+    it('flags a run longer than the limit once, at its first day', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({ schedule: shiftsOf('e1', everyDay(3, 11, 'เช้า')) }), 'consecutiveDays');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => [v.day, v.severity]), [[3, 'warning']]);
+      assert.match(violations[0].message, /9 วัน/);
+    });
+
+    it('accepts a run of exactly the limit', () => {
+      assert.deepEqual(ofKind(validate({ schedule: shiftsOf('e1', { ...everyDay(3, 8, 'เช้า'), ...everyDay(10, 15, 'เช้า') }) }), 'consecutiveDays'), []);
+    });
+  });
+
+  describe('noRestDay', () => {
+    it('flags a Monday-to-Sunday week worked every day', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({ schedule: shiftsOf('e1', everyDay(9, 15, 'บ่าย')) }), 'noRestDay');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => v.day), [9]);
+    });
+
+    it('accepts seven days in a row that span two weeks', () => {
+      assert.deepEqual(ofKind(validate({ schedule: shiftsOf('e1', everyDay(5, 11, 'บ่าย')) }), 'noRestDay'), []);
+    });
+  });
+
+  describe('lateThenEarly', () => {
+    it('flags an afternoon shift followed by a morning shift, on the morning', () => {
+      const violations: ScheduleViolation[] = ofKind(validate({ schedule: shiftsOf('e1', { 2: 'บ่าย', 3: 'เช้า' }) }), 'lateThenEarly');
+      assert.deepEqual(violations.map((v: ScheduleViolation) => v.day), [3]);
+      assert.match(violations[0].message, /พัก 13 ชม\./);
+    });
+
+    it('accepts enough rest between shifts', () => {
+      assert.deepEqual(ofKind(validate({ schedule: shiftsOf('e1', { 2: 'เช้า', 3: 'บ่าย', 4: 'บ่าย', 5: 'หยุด', 6: 'เช้า' }) }), 'lateThenEarly'), []);
+    });
+
+    it('uses the shift times of the branch', () => {
+      const shiftDefinitions = createDefaultShiftDefinitions();
+      shiftDefinitions.branches['branch-1'] = { 'บ่าย': { start: '10:00', end: '18:00', paidHours: 8 } };
+      assert.deepEqual(ofKind(validate({ schedule: shiftsOf('e1', { 2: 'บ่าย', 3: 'เช้า' }), shiftDefinitions }), 'lateThenEarly'), []);
+    });
+  });
+});
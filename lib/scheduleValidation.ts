@@ -0,0 +1,201 @@
+// lib/scheduleValidation.ts
+import type { Branch, Employee, MonthlySchedule, ShiftCode, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { toDateKey } from './dates';
+import { getBranchName } from './branches';
+import { ClosureSettings, getClosureReason } from './closures';
+import { SHORT_DAY_NAMES } from './constants';
+import { BranchStaffingRules, StaffingViolation, describeStaffingRule, evaluateMonthStaffing } from './staffingRules';
+import { validatePartTimeAssignment } from './partTimeDispatch';
+import { getWorkingBranch, getWorkingShiftType, isWorkingEntry } from './scheduleUtils';
+import { ShiftDefinition, ShiftDefinitions, getShiftDefinition } from './shiftTimes';
+import type { ShiftType } from './shiftCatalog';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+
+// --- Every rule a month's schedule is checked against, in one place ---
+// Pure: takes the employees, the shifts and the clinic settings of one month and lists what is wrong.
+// Days before the first of the month are not known here, so runs of working days are counted within the month.
+
+export type ViolationKind = 'notEmployed' | 'closedDay' | 'partTimeConflict' | 'staffing' | 'consecutiveDays' | 'noRestDay' | 'lateThenEarly';
+
+export const VIOLATION_KINDS: ViolationKind[] = ['notEmployed', 'closedDay', 'partTimeConflict', 'staffing', 'consecutiveDays', 'noRestDay', 'lateThenEarly'];
+
+export const VIOLATION_KIND_LABELS: Record<ViolationKind, string> = {
+  notEmployed: 'เวรนอกช่วงการจ้าง',
+  closedDay: 'จัดเวรในวันปิด',
+  partTimeConflict: 'เวรพาร์ทไทม์ไม่ถูกต้อง',
+  staffing: 'จำนวนพนักงานไม่ตรงกฎ',
+  consecutiveDays: 'ทำงานติดต่อกันนานเกินไป',
+  noRestDay: 'ไม่มีวันหยุดในสัปดาห์',
+  lateThenEarly: 'พักระหว่างกะไม่พอ',
+};
+
+export interface ScheduleViolation {
+  kind: ViolationKind;
+  severity: 'error' | 'warning';
+  dateKey: string;
+  day: number; // Day of the month of the offending cell (first day of a run or week)
+  branch: string | null; // Branch whose grid shows the cell, null when unknown
+  employeeId: string | null; // Employee of the cell; null for staffing, which is about a whole branch-day
+  message: string; // Thai description shown to the user
+  staffing: StaffingViolation | null; // The rule result, for 'staffing'
+}
+
+// Limits on working time
+export interface WorkLimits {
+  maxConsecutiveDays: number; // Working days in a row allowed
+  minRestHours: number; // Hours off required between the end of a shift and the start of the next day's shift
+}
+
+// 14 hours of rest flags a default 'บ่าย' (until 20:00) followed by a 'เช้า' (from 09:00)
+export const DEFAULT_WORK_LIMITS: WorkLimits = { maxConsecutiveDays: 6, minRestHours: 14 };
+
+export interface ValidationInput {
+  year: number;
+  month: number; // 0-indexed
+  employees: Employee[];
+  schedule: MonthlySchedule;
+  closures: ClosureSettings;
+  staffingRules: BranchStaffingRules;
+  shiftDefinitions: ShiftDefinitions;
+  shiftCatalog: ShiftType[]; // Only shifts that count toward headcount are counted by whole-day rules
+  branches: Branch[]; // Every branch; staffing is checked for the active ones
+  limits: WorkLimits;
+}
+
+// Most serious first, then by day
+const SEVERITY_ORDER: Record<ScheduleViolation['severity'], number> = { error: 0, warning: 1 };
+
+// Branch whose grid shows an employee's cell
+const getCellBranch = (employee: Employee, entry: ShiftEntry | undefined, dateKey: string): string | null => {
+  return getWorkingBranch(employee, entry, dateKey) ?? (employee.type === 'full-time' ? getHomeBranchOn(employee, dateKey) : null);
+};
+
+const toMinutes = (time: string): number => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// Working shifts outside someone's employment or on a day the branch is closed, and part-timer shifts the dispatch checks would refuse.
+// A part-timer has one cell per day, so two branches can never both hold them; what can still be stored
+// is a shift outside their availability, at an archived branch, or without a branch.
+const checkCells = (input: ValidationInput, daysInMonth: number): ScheduleViolation[] => {
+  const { year, month, employees, schedule, closures, branches } = input;
+  const violations: ScheduleViolation[] = [];
+  employees.forEach((employee: Employee) => {
+    for (let day = 1; day <= daysInMonth; day++) {
+      const dateKey: string = toDateKey(year, month, day);
+      const entry: ShiftEntry | undefined = schedule[dateKey]?.[employee.id];
+      if (!isWorkingEntry(entry)) continue;
+      const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+      const base = { dateKey, day, branch, employeeId: employee.id, staffing: null };
+
+      if (!isEmployedOn(employee, dateKey)) {
+        violations.push({ ...base, kind: 'notEmployed', severity: 'error', message: `${employee.name} มีเวรนอกช่วงการจ้าง` });
+        continue;
+      }
+      if (branch === null) {
+        violations.push({ ...base, kind: 'partTimeConflict', severity: 'error', message: `${employee.name} มีเวรที่ไม่ได้ระบุสาขา` });
+        continue;
+      }
+      const closureReason: string | null = getClosureReason(closures, branch, year, month, day);
+      if (closureReason !== null) {
+        violations.push({ ...base, kind: 'closedDay', severity: 'error', message: `${employee.name} มีเวรที่สาขา "${getBranchName(branches, branch)}": ${closureReason}` });
+        continue;
+      }
+      if (employee.type !== 'part-time' || !isWorkingShiftObject(entry)) continue;
+      if (branches.find((b: Branch) => b.id === branch)?.archived) {
+        violations.push({ ...base, kind: 'partTimeConflict', severity: 'error', message: `${employee.name} มีเวรที่สาขา "${getBranchName(branches, branch)}" ซึ่งเลิกใช้งานแล้ว` });
+        continue;
+      }
+      const { [employee.id]: _cell, ...otherShifts } = schedule[dateKey];
+      const assignmentError: string | null = validatePartTimeAssignment(employee, { ...schedule, [dateKey]: otherShifts }, closures, branches, year, month, day, entry.type, branch);
+      if (assignmentError !== null) {
+        violations.push({ ...base, kind: 'partTimeConflict', severity: 'error', message: assignmentError });
+      }
+    }
+  });
+  return violations;
+};
+
+// Runs of working days longer than the limit, weeks (Monday to Sunday, inside the month) without a rest day,
+// and too little rest between a shift and the next day's shift
+const checkWorkingTime = (input: ValidationInput, daysInMonth: number): ScheduleViolation[] => {
+  const { year, month, employees, schedule, shiftDefinitions, limits } = input;
+  const violations: ScheduleViolation[] = [];
+  employees.forEach((employee: Employee) => {
+    const entryOn = (day: number): ShiftEntry | undefined => schedule[toDateKey(year, month, day)]?.[employee.id];
+    const violationOn = (day: number, kind: ViolationKind, message: string): ScheduleViolation => {
+      const dateKey: string = toDateKey(year, month, day);
+      return { kind, severity: 'warning', dateKey, day, branch: getCellBranch(employee, entryOn(day), dateKey), employeeId: employee.id, message, staffing: null };
+    };
+
+    // Consecutive working days, reported once per run at its first day
+    let runStart: number = 0;
+    for (let day = 1; day <= daysInMonth + 1; day++) {
+      if (day <= daysInMonth && isWorkingEntry(entryOn(day))) {
+        if (runStart === 0) runStart = day;
+        continue;
+      }
+      const runLength: number = runStart === 0 ? 0 : day - runStart;
+      if (runLength > limits.maxConsecutiveDays) {
+        violations.push(violationOn(runStart, 'consecutiveDays', `${employee.name} ทำงานติดต่อกัน ${runLength} วัน (วันที่ ${runStart}-${day - 1}) เกิน ${limits.maxConsecutiveDays} วัน`));
+      }
+      runStart = 0;
+    }
+
+    // Full weeks of the month in which every day is worked
+    for (let monday = 1; monday + 6 <= daysInMonth; monday++) {
+      if (new Date(year, month, monday).getDay() !== 1) continue;
+      let isEveryDayWorked: boolean = true;
+      for (let day = monday; day <= monday + 6; day++) {
+        if (!isWorkingEntry(entryOn(day))) isEveryDayWorked = false;
+      }
+      if (isEveryDayWorked) {
+        violations.push(violationOn(monday, 'noRestDay', `${employee.name} ไม่มีวันหยุดในสัปดาห์วันที่ ${monday}-${monday + 6}`));
+      }
+    }
+
+    // A shift ending too close to the start of the next day's shift (a shift ending at or before its start ends the next day)
+    for (let day = 1; day < daysInMonth; day++) {
+      const today: ShiftEntry | undefined = entryOn(day);
+      const tomorrow: ShiftEntry | undefined = entryOn(day + 1);
+      const lateShift: ShiftCode | null = getWorkingShiftType(today);
+      const earlyShift: ShiftCode | null = getWorkingShiftType(tomorrow);
+      const lateBranch: string | null = getWorkingBranch(employee, today, toDateKey(year, month, day));
+      const earlyBranch: string | null = getWorkingBranch(employee, tomorrow, toDateKey(year, month, day + 1));
+      if (lateShift === null || earlyShift === null || lateBranch === null || earlyBranch === null) continue;
+      const late: ShiftDefinition = getShiftDefinition(shiftDefinitions, lateBranch, lateShift);
+      const lateEnd: number = toMinutes(late.end) + (toMinutes(late.end) <= toMinutes(late.start) ? 24 * 60 : 0);
+      const restMinutes: number = 24 * 60 + toMinutes(getShiftDefinition(shiftDefinitions, earlyBranch, earlyShift).start) - lateEnd;
+      if (restMinutes >= limits.minRestHours * 60) continue;
+      violations.push(violationOn(day + 1, 'lateThenEarly', `${employee.name} ทำกะ${lateShift}วันที่ ${day} แล้วต่อกะ${earlyShift}วันที่ ${day + 1} (พัก ${Math.round(restMinutes / 6) / 10} ชม.)`));
+    }
+  });
+  return violations;
+};
+
+// Staffing rules not met by an open branch
+const checkStaffing = (input: ValidationInput): ScheduleViolation[] => {
+  const activeBranchIds: string[] = input.branches.filter((b: Branch) => !b.archived).map((b: Branch) => b.id);
+  return evaluateMonthStaffing(input.employees, input.schedule, input.staffingRules, activeBranchIds, input.year, input.month, input.closures, input.shiftCatalog)
+    .map((v: StaffingViolation): ScheduleViolation => ({
+      kind: 'staffing',
+      severity: v.kind === 'under' ? 'error' : 'warning',
+      dateKey: v.dateKey,
+      day: v.day,
+      branch: v.branch,
+      employeeId: null,
+      message: `${v.kind === 'under' ? 'ขาด' : 'เกิน'}: มี ${v.count} คน | กฎ ${describeStaffingRule(v.rule, SHORT_DAY_NAMES)}`,
+      staffing: v,
+    }));
+};
+
+// Every violation of the month, errors first, then by day
+export const validateMonthSchedule = (input: ValidationInput): ScheduleViolation[] => {
+  const daysInMonth: number = new Date(input.year, input.month + 1, 0).getDate();
+  return [...checkCells(input, daysInMonth), ...checkStaffing(input), ...checkWorkingTime(input, daysInMonth)]
+    .sort((a: ScheduleViolation, b: ScheduleViolation) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.day - b.day);
+};
+
+// Violations about one branch on one day (the grid's headcount alert)
+export const getBranchDayViolations = (violations: ScheduleViolation[], branch: string, day: number): ScheduleViolation[] => {
+  return violations.filter((v: ScheduleViolation) => v.kind === 'staffing' && v.branch === branch && v.day === day);
+};
@@ -0,0 +1,61 @@
+// lib/shiftCatalog.ts
+import type { ShiftCode, StatusShift } from './types';
+import type { ShiftDefinition } from './shiftTimes';
+
+// --- Shift catalog: the working shifts the clinic runs (code, label, colour, whether they count toward headcount) ---
+// Hours live in the shift definitions (lib/shiftTimes.ts), keyed by the same code.
+// The statuses ('หยุด', 'ลา', 'ป่วย', 'ปิด', '') are built in and never part of the catalog.
+
+export interface ShiftType {
+  code: ShiftCode; // Text stored in the schedule and shown in the cell ('เช้า', 'ดึก'); cannot be changed once created
+  label: string; // Longer name for lists and the legend ('กะเช้า')
+  color: string; // Cell background as '#RRGGBB'
+  countsTowardHeadcount: boolean; // false for shifts such as training, which do not staff the branch
+}
+
+export const STATUS_SHIFTS: StatusShift[] = ['หยุด', 'ลา', 'ป่วย', 'ปิด', ''];
+
+// Catalog used before any was configured: the two shifts the clinic started with
+export const DEFAULT_SHIFT_CATALOG: ShiftType[] = [
+  { code: 'เช้า', label: 'กะเช้า', color: '#DBEAFE', countsTowardHeadcount: true },
+  { code: 'บ่าย', label: 'กะบ่าย', color: '#DCFCE7', countsTowardHeadcount: true },
+];
+
+// Hours given to a new shift until they are edited
+export const DEFAULT_NEW_SHIFT_DEFINITION: ShiftDefinition = { start: '09:00', end: '17:00', paidHours: 8 };
+
+export const COLOR_PATTERN: RegExp = /^#[0-9A-Fa-f]{6}$/;
+
+// Longest code (in characters, Thai vowel and tone marks included), so it still fits in a grid cell
+export const MAX_SHIFT_CODE_LENGTH: number = 8;
+
+export const isStatusShift = (value: string): value is StatusShift => (STATUS_SHIFTS as string[]).includes(value);
+
+// Whether a text can be the code of a working shift; stored months accept any such code, in the catalog or not
+export const isShiftCodeText = (value: string): boolean => {
+  return value.length > 0 && value.length <= MAX_SHIFT_CODE_LENGTH && value.trim() === value && !isStatusShift(value) && value !== '-' && !/[@\t,]/.test(value);
+};
+
+export const findShiftType = (catalog: ShiftType[], code: string): ShiftType | undefined => {
+  return catalog.find((shiftType: ShiftType) => shiftType.code === code);
+};
+
+export const getShiftCodes = (catalog: ShiftType[]): ShiftCode[] => catalog.map((shiftType: ShiftType) => shiftType.code);
+
+// Whether a working shift staffs the branch. A code no longer in the catalog keeps counting, as it did when it was entered.
+export const countsTowardHeadcount = (catalog: ShiftType[], code: ShiftCode): boolean => {
+  return findShiftType(catalog, code)?.countsTowardHeadcount ?? true;
+};
+
+// Check a new shift for the catalog; returns an error message or null when it can be added
+export const validateShiftType = (catalog: ShiftType[], draft: ShiftType): string | null => {
+  const code: string = draft.code.trim();
+  if (!code) return 'กรุณาระบุรหัสกะ';
+  if (code.length > MAX_SHIFT_CODE_LENGTH) return `รหัสกะยาวได้ไม่เกิน ${MAX_SHIFT_CODE_LENGTH} ตัวอักษร`;
+  if (isStatusShift(code) || code === '-') return `"${code}" เป็นสถานะที่มีอยู่แล้ว ใช้เป็นรหัสกะไม่ได้`;
+  if (/[@\t,]/.test(code)) return 'รหัสกะต้องไม่มีเครื่องหมาย @ หรือจุลภาค';
+  if (findShiftType(catalog, code)) return `มีกะ "${code}" อยู่แล้ว`;
+  if (!draft.label.trim()) return 'กรุณาระบุชื่อกะ';
+  if (!COLOR_PATTERN.test(draft.color)) return 'สีต้องอยู่ในรูปแบบ #RRGGBB';
+  return null;
+};
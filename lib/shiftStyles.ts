@@ -0,0 +1,38 @@
+// lib/shiftStyles.ts
+import type { BaseShiftString, StatusShift } from './types';
+import { ShiftType, findShiftType, isStatusShift } from './shiftCatalog';
+
+// --- Colours of each shift value, shared by the grid, the print layout and the Excel export ---
+// Statuses have fixed colours; working shifts take the colour of their entry in the shift catalog.
+
+export interface ShiftStyle {
+  className: string; // Tailwind classes used on screen
+  fill: string; // Background as hex (same colour as the Tailwind class), for exports
+  text: string; // Text colour as hex
+  bold: boolean;
+}
+
+export const SHIFT_STYLES: Record<StatusShift, ShiftStyle> = {
+  'หยุด': { className: 'bg-gray-200 text-gray-700', fill: '#E5E7EB', text: '#374151', bold: false },
+  'ลา': { className: 'bg-yellow-200 text-yellow-800 font-semibold', fill: '#FEF08A', text: '#854D0E', bold: true },
+  'ป่วย': { className: 'bg-red-200 text-red-800 font-semibold', fill: '#FECACA', text: '#991B1B', bold: true },
+  'ปิด': { className: 'bg-purple-200 text-purple-800 font-semibold', fill: '#E9D5FF', text: '#6B21A8', bold: true }, // For clinic day off
+  '': { className: 'bg-white text-gray-700', fill: '#FFFFFF', text: '#374151', bold: false },
+};
+
+// Text of working shifts, readable on the light catalog colours
+const WORKING_SHIFT_TEXT: string = '#1F2937';
+
+// Background of a code that is no longer in the catalog
+const UNKNOWN_SHIFT_FILL: string = '#F3F4F6';
+
+// Style of any cell value. Working shifts have no Tailwind background class: screens apply `fill` as an inline style.
+export const getShiftStyle = (catalog: ShiftType[], shift: BaseShiftString): ShiftStyle => {
+  if (isStatusShift(shift)) return SHIFT_STYLES[shift];
+  return { className: 'text-gray-800', fill: findShiftType(catalog, shift)?.color ?? UNKNOWN_SHIFT_FILL, text: WORKING_SHIFT_TEXT, bold: false };
+};
+
+// Inline background for a value on screen: undefined for statuses, whose class already sets it
+export const getShiftBackground = (catalog: ShiftType[], shift: BaseShiftString): { backgroundColor: string } | undefined => {
+  return isStatusShift(shift) ? undefined : { backgroundColor: getShiftStyle(catalog, shift).fill };
+};
@@ -0,0 +1,94 @@
+// lib/shiftSwapRepository.ts
+import { addDoc, collection, doc, getDocs, query, setDoc, where, type Firestore } from 'firebase/firestore';
+import { ShiftSwap, decodeShiftSwap } from './shiftSwaps';
+import type { LinkedDocumentUpdate } from './scheduleRepository';
+
+// --- Persistence of shift swaps ('shiftSwaps/{id}') ---
+
+export interface ShiftSwapRepository {
+  listSwaps: (employeeId: string | null) => Promise<ShiftSwap[]>; // Swaps the employee is part of; null = every swap (managers and admins)
+  createSwap: (swap: Omit<ShiftSwap, 'id'>) => Promise<ShiftSwap>;
+  saveSwap: (swap: ShiftSwap) => Promise<void>;
+}
+
+export const SHIFT_SWAPS_COLLECTION = 'shiftSwaps';
+
+// Fields stored in the document (the ID is the document ID)
+const encodeShiftSwap = (swap: Omit<ShiftSwap, 'id'> & { id?: string }): Omit<ShiftSwap, 'id'> => {
+  const { id: _id, ...fields } = swap;
+  return fields;
+};
+
+// The decision on a swap, written in the same transaction as the month it changes (see ScheduleRepository.updateMonth).
+// Only a swap still waiting for a decision is decided, so approving it twice never swaps the cells back:
+// otherwise `onStale` gets the stored swap (null if deleted or invalid) and the whole save is cancelled.
+export const linkShiftSwapDecision = (decided: ShiftSwap, onStale: (stored: ShiftSwap | null) => void): LinkedDocumentUpdate => ({
+  path: `${SHIFT_SWAPS_COLLECTION}/${decided.id}`,
+  update: (stored: Record<string, unknown> | null): Record<string, unknown> => {
+    const current: ShiftSwap | null = stored ? decodeShiftSwap(decided.id, stored) : null;
+    if (current?.status !== 'accepted') {
+      onStale(current);
+      throw new Error(`Shift swap ${decided.id} is no longer waiting for a decision`);
+    }
+    return encodeShiftSwap(decided);
+  },
+});
+
+// Newest first
+const byCreatedAtDesc = (a: ShiftSwap, b: ShiftSwap): number => b.createdAt.localeCompare(a.createdAt);
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreShiftSwapRepository = (db: Firestore): ShiftSwapRepository => ({
+  listSwaps: async (employeeId: string | null): Promise<ShiftSwap[]> => {
+    const swaps = collection(db, SHIFT_SWAPS_COLLECTION);
+    // Staff may only read swaps they are part of, so they ask for each side separately
+    const snapshots = employeeId === null
+      ? [await getDocs(swaps)]
+      : await Promise.all([
+        getDocs(query(swaps, where('requesterId', '==', employeeId))),
+        getDocs(query(swaps, where('counterpartId', '==', employeeId))),
+      ]);
+    const result: Map<string, ShiftSwap> = new Map();
+    snapshots.forEach((snapshot) => snapshot.forEach((swapDoc) => {
+      const swap: ShiftSwap | null = decodeShiftSwap(swapDoc.id, swapDoc.data());
+      if (swap) result.set(swap.id, swap);
+      else console.warn(`Skipped invalid shift swap ${swapDoc.id}`);
+    }));
+    return [...result.values()].sort(byCreatedAtDesc);
+  },
+
+  createSwap: async (swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap> => {
+    const created = await addDoc(collection(db, SHIFT_SWAPS_COLLECTION), encodeShiftSwap(swap));
+    return { id: created.id, ...swap };
+  },
+
+  saveSwap: async (swap: ShiftSwap): Promise<void> => {
+    await setDoc(doc(db, SHIFT_SWAPS_COLLECTION, swap.id), encodeShiftSwap(swap));
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryShiftSwapRepository = (initial: ShiftSwap[] = []): ShiftSwapRepository => {
+  const stored: Map<string, string> = new Map(initial.map((swap: ShiftSwap) => [swap.id, JSON.stringify(encodeShiftSwap(swap))]));
+  let nextId: number = stored.size + 1;
+  return {
+    listSwaps: async (employeeId: string | null): Promise<ShiftSwap[]> => {
+      const result: ShiftSwap[] = [];
+      stored.forEach((raw: string, id: string) => {
+        const swap: ShiftSwap | null = decodeShiftSwap(id, JSON.parse(raw));
+        if (swap && (employeeId === null || swap.requesterId === employeeId || swap.counterpartId === employeeId)) result.push(swap);
+      });
+      return result.sort(byCreatedAtDesc);
+    },
+
+    createSwap: async (swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap> => {
+      const id: string = `swap-${nextId++}`;
+      stored.set(id, JSON.stringify(encodeShiftSwap(swap)));
+      return { id, ...swap };
+    },
+
+    saveSwap: async (swap: ShiftSwap): Promise<void> => {
+      stored.set(swap.id, JSON.stringify(encodeShiftSwap(swap)));
+    },
+  };
+};
@@ -0,0 +1,212 @@
+// lib/shiftSwaps.ts
+import type { Branch, Employee, MonthlySchedule, ShiftCode, ShiftEntry } from './types';
+import { isWorkingShiftObject } from './types';
+import { parseDateKey } from './dates';
+import { getBranchName } from './branches';
+import { ClosureSettings, getClosureReason } from './closures';
+import { SHORT_DAY_NAMES } from './constants';
+import { BranchStaffingRules, StaffingViolation, describeStaffingRule, evaluateBranchDay } from './staffingRules';
+import { validatePartTimeAssignment } from './partTimeDispatch';
+import { getWorkingBranch, getWorkingShiftType } from './scheduleUtils';
+import { getHomeBranchOn, isEmployedOn } from './employees';
+import type { ShiftType } from './shiftCatalog';
+
+// --- Shift swaps: two employees trade their cells on one or two days ---
+// The requester proposes, the counterpart accepts, and a manager approves. Approving exchanges the two
+// employees' cells on each date of the swap, in one write, so trading a 'เช้า' for a 'บ่าย' uses one date
+// and trading days uses two (each takes over the other's day).
+
+export type ShiftSwapStatus = 'proposed' | 'accepted' | 'declined' | 'cancelled' | 'approved' | 'rejected';
+
+export const SHIFT_SWAP_STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  proposed: 'รอเพื่อนตอบรับ',
+  accepted: 'รออนุมัติ',
+  declined: 'เพื่อนปฏิเสธ',
+  cancelled: 'ยกเลิกแล้ว',
+  approved: 'อนุมัติแล้ว',
+  rejected: 'ไม่อนุมัติ',
+};
+
+// Stored in 'shiftSwaps/{id}'
+export interface ShiftSwap {
+  id: string;
+  requesterId: string; // Employee who proposed the swap
+  requesterDate: string; // Date key of the requester's shift being given away
+  counterpartId: string; // Employee asked to swap
+  counterpartDate: string; // Date key of the counterpart's shift being taken; same month as requesterDate
+  reason: string;
+  requestedBy: string; // uid of the user who proposed it
+  status: ShiftSwapStatus;
+  createdAt: string; // ISO timestamp
+  respondedBy: string | null; // uid of the user who accepted or declined for the counterpart
+  respondedAt: string | null;
+  decidedBy: string | null; // uid of the approver
+  decidedAt: string | null;
+  decisionNote: string;
+}
+
+// What the form submits; the rest is filled in when the swap is stored
+export type ShiftSwapDraft = Pick<ShiftSwap, 'requesterId' | 'requesterDate' | 'counterpartId' | 'counterpartDate' | 'reason'>;
+
+export type ShiftSwapResult =
+  | { ok: true; schedule: MonthlySchedule }
+  | { ok: false; error: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isDateKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Validate a stored swap; null when it cannot be used
+export const decodeShiftSwap = (id: string, raw: unknown): ShiftSwap | null => {
+  if (!isRecord(raw)) return null;
+  const { requesterId, requesterDate, counterpartId, counterpartDate, reason, requestedBy, status, createdAt, respondedBy, respondedAt, decidedBy, decidedAt, decisionNote } = raw;
+  if (typeof requesterId !== 'string' || typeof counterpartId !== 'string' || typeof requestedBy !== 'string') return null;
+  if (!isDateKey(requesterDate) || !isDateKey(counterpartDate)) return null;
+  if (!Object.keys(SHIFT_SWAP_STATUS_LABELS).includes(status as string)) return null;
+  const optionalText = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+  return {
+    id,
+    requesterId,
+    requesterDate,
+    counterpartId,
+    counterpartDate,
+    reason: typeof reason === 'string' ? reason : '',
+    requestedBy,
+    status: status as ShiftSwapStatus,
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+    respondedBy: optionalText(respondedBy),
+    respondedAt: optionalText(respondedAt),
+    decidedBy: optionalText(decidedBy),
+    decidedAt: optionalText(decidedAt),
+    decisionNote: typeof decisionNote === 'string' ? decisionNote : '',
+  };
+};
+
+// Problem with a draft, or null when it can be submitted
+export const validateShiftSwapDraft = (draft: ShiftSwapDraft): string | null => {
+  if (!draft.requesterId || !draft.counterpartId) return 'กรุณาเลือกพนักงานที่จะแลกเวรด้วย';
+  if (draft.requesterId === draft.counterpartId) return 'ไม่สามารถแลกเวรกับตัวเองได้';
+  if (!isDateKey(draft.requesterDate) || !isDateKey(draft.counterpartDate)) return 'กรุณาระบุวันที่ของทั้งสองฝ่าย';
+  if (draft.requesterDate.slice(0, 7) !== draft.counterpartDate.slice(0, 7)) return 'วันที่แลกเวรต้องอยู่ในเดือนเดียวกัน';
+  return null;
+};
+
+// Month key ('2025-06') of the schedule a swap changes
+export const getShiftSwapMonth = (swap: Pick<ShiftSwap, 'requesterDate'>): string => swap.requesterDate.slice(0, 7);
+
+// Dates whose cells are exchanged
+const getSwapDates = (swap: ShiftSwapDraft): string[] => [...new Set([swap.requesterDate, swap.counterpartDate])];
+
+// Branches whose staffing a swap can change: the full-timers' own branches and wherever a part-timer works on those dates
+export const getShiftSwapBranches = (swap: ShiftSwapDraft, employees: Employee[], schedule: MonthlySchedule): string[] => {
+  const branches: Set<string> = new Set();
+  [swap.requesterId, swap.counterpartId].forEach((employeeId: string) => {
+    const employee: Employee | undefined = employees.find((e: Employee) => e.id === employeeId);
+    if (!employee) return;
+    getSwapDates(swap).forEach((dateKey: string) => {
+      if (employee.type === 'full-time') branches.add(getHomeBranchOn(employee, dateKey));
+      const branch: string | null = getWorkingBranch(employee, schedule[dateKey]?.[employeeId], dateKey);
+      if (branch !== null) branches.add(branch);
+    });
+  });
+  return [...branches];
+};
+
+// Short text of a cell, e.g. 'เช้า (บัวใหญ่)' or 'ว่าง'
+export const describeSwapEntry = (employee: Employee, entry: ShiftEntry | undefined, dateKey: string, branches: Branch[]): string => {
+  const shift: string | null = getWorkingShiftType(entry);
+  if (shift !== null) {
+    const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+    return branch !== null ? `${shift} (${getBranchName(branches, branch)})` : shift;
+  }
+  return entry === undefined || entry === '' ? 'ว่าง' : String(entry);
+};
+
+// A cell of `from` as it is written for `to`: full-timers only work at their own branch (the cell holds the
+// shift type), part-timers take the branch along. Leave and closed days cannot be traded.
+const handOver = (entry: ShiftEntry | undefined, from: Employee, to: Employee, dateKey: string, branches: Branch[]): { entry: ShiftEntry } | { error: string } => {
+  if (entry === undefined || entry === '' || entry === 'หยุด') return { entry: entry ?? '' };
+  const shift: ShiftCode | null = getWorkingShiftType(entry);
+  const branch: string | null = getWorkingBranch(from, entry, dateKey);
+  if (shift === null || branch === null) return { error: `${from.name} มี "${String(entry)}" ในวันที่ ${dateKey} ซึ่งไม่สามารถแลกได้ (แลกได้เฉพาะกะทำงานและวันหยุด)` };
+  if (!isEmployedOn(to, dateKey)) return { error: `${to.name} ไม่ได้อยู่ในช่วงการจ้างในวันที่ ${dateKey}` };
+  if (to.type === 'part-time') return { entry: { type: shift, branch } };
+  const toBranch: string = getHomeBranchOn(to, dateKey);
+  if (branch !== toBranch) {
+    return { error: `${to.name} เป็นพนักงานประจำสาขา "${getBranchName(branches, toBranch)}" ไม่สามารถรับเวรที่สาขา "${getBranchName(branches, branch)}" ได้` };
+  }
+  return { entry: shift };
+};
+
+// The schedule with the swap applied, or why it cannot be: the same checks as editing a cell by hand
+// (closing days, part-timer availability and one branch per day), plus no staffing rule may newly be broken.
+export const applyShiftSwap = (
+  swap: ShiftSwapDraft,
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  closures: ClosureSettings,
+  rules: BranchStaffingRules,
+  branches: Branch[],
+  shiftCatalog: ShiftType[],
+): ShiftSwapResult => {
+  const draftError: string | null = validateShiftSwapDraft(swap);
+  if (draftError !== null) return { ok: false, error: draftError };
+  const requester: Employee | undefined = employees.find((e: Employee) => e.id === swap.requesterId);
+  const counterpart: Employee | undefined = employees.find((e: Employee) => e.id === swap.counterpartId);
+  if (!requester || !counterpart) return { ok: false, error: 'ไม่พบพนักงานของการแลกเวรนี้ในตารางเวรเดือนนั้น' };
+
+  const updated: MonthlySchedule = { ...schedule };
+  let isChanged: boolean = false;
+  for (const dateKey of getSwapDates(swap)) {
+    const requesterEntry: ShiftEntry | undefined = schedule[dateKey]?.[requester.id];
+    const counterpartEntry: ShiftEntry | undefined = schedule[dateKey]?.[counterpart.id];
+    const toRequester = handOver(counterpartEntry, counterpart, requester, dateKey, branches);
+    if ('error' in toRequester) return { ok: false, error: toRequester.error };
+    const toCounterpart = handOver(requesterEntry, requester, counterpart, dateKey, branches);
+    if ('error' in toCounterpart) return { ok: false, error: toCounterpart.error };
+    updated[dateKey] = { ...updated[dateKey], [requester.id]: toRequester.entry, [counterpart.id]: toCounterpart.entry };
+    isChanged = isChanged || JSON.stringify(toRequester.entry) !== JSON.stringify(requesterEntry ?? '') || JSON.stringify(toCounterpart.entry) !== JSON.stringify(counterpartEntry ?? '');
+  }
+  if (!isChanged) return { ok: false, error: 'ทั้งสองฝ่ายมีเวรเหมือนกันในวันที่เลือก ไม่มีอะไรต้องแลก' };
+
+  // Every working shift someone receives must be allowed for them on that day
+  for (const dateKey of getSwapDates(swap)) {
+    const date: Date = parseDateKey(dateKey);
+    for (const employee of [requester, counterpart]) {
+      const entry: ShiftEntry = updated[dateKey][employee.id];
+      const shift: ShiftCode | null = getWorkingShiftType(entry);
+      const branch: string | null = getWorkingBranch(employee, entry, dateKey);
+      if (shift === null || branch === null) continue;
+      if (isWorkingShiftObject(entry)) {
+        const { [employee.id]: _cell, ...otherShifts } = updated[dateKey];
+        const assignmentError: string | null = validatePartTimeAssignment(
+          employee, { ...updated, [dateKey]: otherShifts }, closures, branches, date.getFullYear(), date.getMonth(), date.getDate(), shift, branch,
+        );
+        if (assignmentError !== null) return { ok: false, error: `${employee.name}: ${assignmentError}` };
+      } else {
+        const closureReason: string | null = getClosureReason(closures, branch, date.getFullYear(), date.getMonth(), date.getDate());
+        if (closureReason !== null) return { ok: false, error: `${employee.name}: ${closureReason} ไม่สามารถจัดเวรได้` };
+      }
+    }
+  }
+
+  // Staffing rules that hold now must still hold afterwards
+  const problems: string[] = [];
+  getSwapDates(swap).forEach((dateKey: string) => {
+    const date: Date = parseDateKey(dateKey);
+    getShiftSwapBranches(swap, employees, schedule).forEach((branch: string) => {
+      const evaluate = (s: MonthlySchedule): StaffingViolation[] => evaluateBranchDay(employees, s, rules, branch, date.getFullYear(), date.getMonth(), date.getDate(), shiftCatalog);
+      const before: StaffingViolation[] = evaluate(schedule);
+      evaluate(updated)
+        .filter((v: StaffingViolation) => !before.some((b: StaffingViolation) => b.rule.id === v.rule.id && b.kind === v.kind))
+        .forEach((v: StaffingViolation) => {
+          problems.push(`${getBranchName(branches, branch)} วันที่ ${dateKey}: ${describeStaffingRule(v.rule, SHORT_DAY_NAMES)} (จะ${v.kind === 'under' ? 'เหลือ' : 'มี'} ${v.count} คน)`);
+        });
+    });
+  });
+  if (problems.length > 0) return { ok: false, error: `การแลกเวรนี้ทำให้จำนวนพนักงานไม่ตรงตามเป้าหมาย: ${problems.join(', ')}` };
+
+  return { ok: true, schedule: updated };
+};
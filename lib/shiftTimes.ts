@@ -0,0 +1,55 @@
+// lib/shiftTimes.ts
+import type { ShiftCode } from './types';
+
+// --- Start/end times and paid hours of the working shifts ---
+// Keyed by the codes of the shift catalog. The clinic-wide definition applies unless a branch overrides a shift.
+
+export interface ShiftDefinition {
+  start: string; // 'HH:MM'
+  end: string; // 'HH:MM'
+  paidHours: number; // Hours paid for the shift (breaks excluded)
+}
+
+export interface ShiftDefinitions {
+  clinic: Record<ShiftCode, ShiftDefinition>;
+  branches: Record<string, Partial<Record<ShiftCode, ShiftDefinition>>>; // Branch ID -> overridden shifts
+}
+
+// Used for a code with no definition, e.g. a shift removed from the catalog that is still in an old month
+const FALLBACK_SHIFT_DEFINITION: ShiftDefinition = { start: '09:00', end: '17:00', paidHours: 8 };
+
+export const TIME_PATTERN: RegExp = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Definitions used before any were configured
+export const createDefaultShiftDefinitions = (): ShiftDefinitions => ({
+  clinic: {
+    'เช้า': { start: '09:00', end: '17:00', paidHours: 8 },
+    'บ่าย': { start: '12:00', end: '20:00', paidHours: 8 },
+  },
+  branches: {},
+});
+
+// Definition of a shift at a branch
+export const getShiftDefinition = (definitions: ShiftDefinitions, branch: string, shift: ShiftCode): ShiftDefinition => {
+  return definitions.branches[branch]?.[shift] ?? definitions.clinic[shift] ?? FALLBACK_SHIFT_DEFINITION;
+};
+
+// Hours between start and end (a shift ending at or before its start runs past midnight)
+export const getShiftSpan = (definition: ShiftDefinition): number => {
+  const toMinutes = (time: string): number => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+  const minutes: number = toMinutes(definition.end) - toMinutes(definition.start);
+  return (minutes <= 0 ? minutes + 24 * 60 : minutes) / 60;
+};
+
+// Short text such as '09:00-17:00 (8 ชม.)'
+export const describeShiftDefinition = (definition: ShiftDefinition): string => {
+  return `${definition.start}-${definition.end} (${definition.paidHours} ชม.)`;
+};
+
+// Problem with a definition, or null when it can be used
+export const validateShiftDefinition = (definition: ShiftDefinition): string | null => {
+  if (!TIME_PATTERN.test(definition.start) || !TIME_PATTERN.test(definition.end)) return 'เวลาต้องอยู่ในรูปแบบ HH:MM';
+  if (!Number.isFinite(definition.paidHours) || definition.paidHours < 0) return 'ชั่วโมงที่จ่ายต้องไม่ติดลบ';
+  if (definition.paidHours > getShiftSpan(definition)) return 'ชั่วโมงที่จ่ายมากกว่าช่วงเวลาของกะ';
+  return null;
+};
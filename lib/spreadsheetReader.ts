@@ -0,0 +1,73 @@
+// lib/spreadsheetReader.ts
+import type { Workbook, Worksheet, Row } from 'exceljs';
+import { ExcelJSModule, loadExcelJS } from './excel';
+
+// --- Read a CSV or XLSX file into rows of trimmed cell text ---
+
+// Parse CSV text (RFC 4180 quoting, optional BOM, CRLF or LF line breaks)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field: string = '';
+  let inQuotes: boolean = false;
+  const input: string = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char: string = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Rows of the first worksheet of an .xlsx file
+const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const ExcelJS: ExcelJSModule = await loadExcelJS();
+  const workbook: Workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet: Worksheet | undefined = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row: Row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(row.getCell(column).text.trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+};
+
+// Read a spreadsheet chosen by the user; throws on an unsupported file type
+export const readSpreadsheetFile = async (file: File): Promise<string[][]> => {
+  const name: string = file.name.toLowerCase();
+  if (name.endsWith('.csv')) return parseCsv(await file.text());
+  if (name.endsWith('.xlsx')) return readXlsxRows(await file.arrayBuffer());
+  throw new Error(`Unsupported file type: ${file.name}`);
+};
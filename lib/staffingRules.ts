@@ -0,0 +1,174 @@
+// lib/staffingRules.ts
+import type { Employee, ShiftCode, ShiftEntry, MonthlySchedule } from './types';
+import { toDateKey } from './dates';
+import { STAFF_TARGET_MIN, STAFF_TARGET_MAX } from './constants';
+import { ClosureSettings, isBranchClosed } from './closures';
+import { getWorkingBranch, getWorkingShiftType } from './scheduleUtils';
+import { ShiftType, countsTowardHeadcount } from './shiftCatalog';
+
+// --- Per-branch staffing rules ---
+// Each branch has a list of rules; a rule limits how many people work at the branch
+// on the matching days, optionally only for one shift type and/or one position.
+
+// Which shift a rule counts: 'all' counts everyone working a headcount shift that day, a code counts only that shift
+export type RuleShift = 'all' | ShiftCode;
+
+export interface StaffingRule {
+  id: string; // Stable ID so the editor can key rows
+  shift: RuleShift;
+  position: string | null; // null = any position
+  weekdays: number[]; // Days the rule applies to (0 = Sunday, like Date#getDay); empty = every day
+  min: number | null; // null = no minimum
+  max: number | null; // null = no maximum
+}
+
+// Rules of every branch, keyed by branch
+export type BranchStaffingRules = Record<string, StaffingRule[]>;
+
+// A rule that is not met on a day
+export interface StaffingViolation {
+  dateKey: string;
+  day: number;
+  branch: string;
+  rule: StaffingRule;
+  count: number; // People counted by the rule
+  kind: 'under' | 'over';
+}
+
+// Rule that reproduces the original fixed target (3-4 working staff per day)
+export const createDefaultStaffingRule = (): StaffingRule => ({
+  id: 'default',
+  shift: 'all',
+  position: null,
+  weekdays: [],
+  min: STAFF_TARGET_MIN,
+  max: STAFF_TARGET_MAX,
+});
+
+// Rules for a branch, falling back to the default target when none were configured
+export const getBranchRules = (rules: BranchStaffingRules, branch: string): StaffingRule[] => {
+  return rules[branch] ?? [createDefaultStaffingRule()];
+};
+
+// Whether a rule applies on a weekday
+export const ruleAppliesOn = (rule: StaffingRule, weekday: number): boolean => {
+  return rule.weekdays.length === 0 || rule.weekdays.includes(weekday);
+};
+
+// Count the people working at a branch on one day, filtered like a rule
+export const countBranchStaff = (
+  employees: Employee[],
+  dayShifts: { [employeeId: string]: ShiftEntry } | undefined,
+  dateKey: string,
+  branch: string,
+  shiftCatalog: ShiftType[],
+  filter: { shift: RuleShift; position: string | null } = { shift: 'all', position: null },
+): number => {
+  let count: number = 0;
+  employees.forEach((employee: Employee) => {
+    const entry: ShiftEntry | undefined = dayShifts?.[employee.id];
+    const shift: ShiftCode | null = getWorkingShiftType(entry);
+    if (shift === null || getWorkingBranch(employee, entry, dateKey) !== branch) return;
+    if (filter.shift === 'all' ? !countsTowardHeadcount(shiftCatalog, shift) : shift !== filter.shift) return;
+    if (filter.position !== null && employee.position !== filter.position) return;
+    count++;
+  });
+  return count;
+};
+
+// The people working at a branch on one day, by shift code
+export const listBranchStaff = (
+  employees: Employee[],
+  dayShifts: { [employeeId: string]: ShiftEntry } | undefined,
+  dateKey: string,
+  branch: string,
+): Record<ShiftCode, Employee[]> => {
+  const staff: Record<ShiftCode, Employee[]> = {};
+  employees.forEach((employee: Employee) => {
+    const entry: ShiftEntry | undefined = dayShifts?.[employee.id];
+    const shiftType: ShiftCode | null = getWorkingShiftType(entry);
+    if (shiftType === null || getWorkingBranch(employee, entry, dateKey) !== branch) return;
+    staff[shiftType] = [...(staff[shiftType] ?? []), employee];
+  });
+  return staff;
+};
+
+// Whole-day headcount target of a branch on a weekday, used by the schedule generator.
+// Combines every whole-day, any-position rule that applies.
+export const getHeadcountTarget = (rules: BranchStaffingRules, branch: string, weekday: number): { min: number; max: number } => {
+  let min: number = 0;
+  let max: number = Infinity;
+  getBranchRules(rules, branch).forEach((rule: StaffingRule) => {
+    if (rule.shift !== 'all' || rule.position !== null || !ruleAppliesOn(rule, weekday)) return;
+    if (rule.min !== null) min = Math.max(min, rule.min);
+    if (rule.max !== null) max = Math.min(max, rule.max);
+  });
+  return { min, max };
+};
+
+// Evaluate the rules of one branch on one day
+export const evaluateBranchDay = (
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  rules: BranchStaffingRules,
+  branch: string,
+  year: number,
+  month: number,
+  day: number,
+  shiftCatalog: ShiftType[],
+): StaffingViolation[] => {
+  const dateKey: string = toDateKey(year, month, day);
+  const weekday: number = new Date(year, month, day).getDay();
+  const violations: StaffingViolation[] = [];
+
+  getBranchRules(rules, branch).forEach((rule: StaffingRule) => {
+    if (!ruleAppliesOn(rule, weekday)) return;
+    const count: number = countBranchStaff(employees, schedule[dateKey], dateKey, branch, shiftCatalog, rule);
+    if (rule.min !== null && count < rule.min) {
+      violations.push({ dateKey, day, branch, rule, count, kind: 'under' });
+    } else if (rule.max !== null && count > rule.max) {
+      violations.push({ dateKey, day, branch, rule, count, kind: 'over' });
+    }
+  });
+  return violations;
+};
+
+// Evaluate every open branch-day of a month
+export const evaluateMonthStaffing = (
+  employees: Employee[],
+  schedule: MonthlySchedule,
+  rules: BranchStaffingRules,
+  branches: string[],
+  year: number,
+  month: number,
+  closures: ClosureSettings,
+  shiftCatalog: ShiftType[],
+): StaffingViolation[] => {
+  const daysInMonth: number = new Date(year, month + 1, 0).getDate();
+  const violations: StaffingViolation[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    branches.forEach((branch: string) => {
+      if (isBranchClosed(closures, branch, year, month, day)) return;
+      violations.push(...evaluateBranchDay(employees, schedule, rules, branch, year, month, day, shiftCatalog));
+    });
+  }
+  return violations;
+};
+
+// Short Thai description of a rule, e.g. "กะเช้า แพทย์แผนไทย อย่างน้อย 1 คน (ส., อา.)"
+export const describeStaffingRule = (rule: StaffingRule, shortDayNames: string[]): string => {
+  const parts: string[] = [];
+  parts.push(rule.shift === 'all' ? 'ทั้งวัน' : `กะ${rule.shift}`);
+  parts.push(rule.position ?? 'ทุกตำแหน่ง');
+  if (rule.min !== null && rule.max !== null) {
+    parts.push(`${rule.min}-${rule.max} คน`);
+  } else if (rule.min !== null) {
+    parts.push(`อย่างน้อย ${rule.min} คน`);
+  } else if (rule.max !== null) {
+    parts.push(`ไม่เกิน ${rule.max} คน`);
+  }
+  if (rule.weekdays.length > 0) {
+    parts.push(`(${rule.weekdays.map((d: number) => shortDayNames[d]).join(', ')})`);
+  }
+  return parts.join(' ');
+};
@@ -0,0 +1,89 @@
+// lib/types.ts
+// --- Shared type definitions for the timetable application ---
+
+// A clinic branch. Data refers to branches by their stable ID, never by display name.
+export interface Branch {
+  id: string; // Stable ID (e.g. 'branch-1')
+  name: string; // Display name (e.g. 'บึงทับช้าง'), can be renamed freely
+  archived: boolean; // Archived branches keep their history but take no new shifts
+}
+
+// Define the structure of an Employee object
+export interface Employee {
+  id: string; // Unique ID for the employee
+  name: string; // Employee's full name
+  position: string; // Employee's position (e.g., 'แพทย์แผนไทย', 'ผู้ช่วยแพทย์')
+  branch: string; // ID of the home branch at the start of the month (see `transfers`), or 'พาร์ทไทม์' for part-time staff
+  type: 'full-time' | 'part-time'; // Employee type: full-time or part-time
+  availability?: PartTimeAvailability; // Part-timers only; absent = available on any day, shift and branch
+  startDate?: string; // First day of employment ('2025-06-01'); absent = employed since before the schedule began
+  endDate?: string; // Last day of employment; absent = still employed
+  transfers?: BranchTransfer[]; // Full-timers only: home branch changes taking effect after `branch`, by date
+}
+
+// A full-timer moving to another home branch. From `date` on they work at `branch`.
+export interface BranchTransfer {
+  date: string; // Effective date ('2025-06-16')
+  branch: string; // ID of the new home branch
+}
+
+// When and where a part-timer has said they can work. An empty list means no restriction.
+export interface PartTimeAvailability {
+  weekdays: number[]; // 0 = Sunday, like Date#getDay
+  shifts: ShiftCode[];
+  branches: string[]; // IDs of the branches they can travel to
+}
+
+// Built-in values of a cell that are not working shifts, including empty string
+export type StatusShift = 'หยุด' | 'ลา' | 'ป่วย' | 'ปิด' | '';
+
+// Code of a working shift from the clinic's shift catalog (lib/shiftCatalog.ts), e.g. 'เช้า', 'บ่าย', 'ดึก'
+export type ShiftCode = string;
+
+// All possible string values for a shift: a status or a working shift code
+export type BaseShiftString = StatusShift | ShiftCode;
+
+// For part-time employees working a shift in a specific branch
+export interface WorkingShiftObject {
+  type: ShiftCode; // The type of shift
+  branch: string; // ID of the branch where the part-timer is working on this day
+}
+
+// A ShiftEntry can be a simple string (for full-time, or part-time non-working shifts)
+// OR it can be a WorkingShiftObject (for part-time working shifts)
+export type ShiftEntry = BaseShiftString | WorkingShiftObject;
+
+// Type guard to check if a ShiftEntry is a WorkingShiftObject
+// This helps TypeScript understand when it's an object vs a string
+export function isWorkingShiftObject(shift: ShiftEntry | undefined): shift is WorkingShiftObject {
+  return typeof shift === 'object' && shift !== null && 'type' in shift && 'branch' in shift;
+}
+
+// Define the structure of the monthly schedule
+// It's a record where keys are date strings (e.g., '2025-06-01')
+// And values are another record where keys are employee IDs and values are ShiftEntry
+export interface MonthlySchedule {
+  [dateKey: string]: {
+    [employeeId: Employee['id']]: ShiftEntry;
+  };
+}
+
+// An employee deleted from a month, kept with their shifts of that month so they can be restored
+export interface RemovedEmployee {
+  employee: Employee;
+  shifts: { [dateKey: string]: ShiftEntry }; // Their shifts of the month when they were removed
+  removedAt: string; // ISO timestamp
+  removedBy: string; // UID of the user who removed them
+}
+
+// Another employee as staff see them: enough to pick them for a shift swap
+export type Colleague = Pick<Employee, 'id' | 'name' | 'position'>;
+
+// The data of a single month as the application works with it (see lib/scheduleSchema.ts for the stored form)
+export interface MonthData {
+  employees: Employee[]; // Employees as they were when the month was saved
+  monthlySchedule: MonthlySchedule; // Only the date keys that belong to this month
+  clinicDayOff: string; // Clinic-wide day off (one of DAY_NAMES)
+  removedEmployees: RemovedEmployee[]; // Soft-deleted employees of this month
+  colleagues?: Colleague[]; // Only in an employee's own copy, which holds just them in `employees`
+}
@@ -0,0 +1,68 @@
+// lib/userRepository.ts
+import { collection, doc, getDoc, getDocs, setDoc, type Firestore } from 'firebase/firestore';
+import { UserProfile, decodeUserProfile } from './roles';
+
+// --- Persistence of user profiles and roles ('users/{uid}') ---
+
+export interface UserRepository {
+  loadUser: (uid: string) => Promise<UserProfile | null>; // null when the user has no (valid) profile
+  listUsers: () => Promise<UserProfile[]>; // Admin only
+  saveUser: (user: UserProfile) => Promise<void>;
+}
+
+export const USERS_COLLECTION = 'users';
+
+// Fields stored in the document (the uid is the document ID)
+const encodeUserProfile = (user: UserProfile): Omit<UserProfile, 'uid'> => ({
+  email: user.email,
+  role: user.role,
+  branchId: user.branchId,
+  employeeId: user.employeeId,
+});
+
+// Repository backed by Firestore (works the same against the Firestore emulator)
+export const createFirestoreUserRepository = (db: Firestore): UserRepository => ({
+  loadUser: async (uid: string): Promise<UserProfile | null> => {
+    const snapshot = await getDoc(doc(db, USERS_COLLECTION, uid));
+    return snapshot.exists() ? decodeUserProfile(uid, snapshot.data()) : null;
+  },
+
+  listUsers: async (): Promise<UserProfile[]> => {
+    const snapshot = await getDocs(collection(db, USERS_COLLECTION));
+    const users: UserProfile[] = [];
+    snapshot.forEach((userDoc) => {
+      const user: UserProfile | null = decodeUserProfile(userDoc.id, userDoc.data());
+      if (user) users.push(user);
+      else console.warn(`Skipped invalid user profile ${userDoc.id}`);
+    });
+    return users.sort((a: UserProfile, b: UserProfile) => a.email.localeCompare(b.email));
+  },
+
+  saveUser: async (user: UserProfile): Promise<void> => {
+    await setDoc(doc(db, USERS_COLLECTION, user.uid), encodeUserProfile(user));
+  },
+});
+
+// Repository kept in memory, for tests and for running the UI without Firebase
+export const createInMemoryUserRepository = (initial: UserProfile[] = []): UserRepository => {
+  const stored: Map<string, string> = new Map(initial.map((user: UserProfile) => [user.uid, JSON.stringify(encodeUserProfile(user))]));
+  return {
+    loadUser: async (uid: string): Promise<UserProfile | null> => {
+      const raw: string | undefined = stored.get(uid);
+      return raw === undefined ? null : decodeUserProfile(uid, JSON.parse(raw));
+    },
+
+    listUsers: async (): Promise<UserProfile[]> => {
+      const users: UserProfile[] = [];
+      stored.forEach((raw: string, uid: string) => {
+        const user: UserProfile | null = decodeUserProfile(uid, JSON.parse(raw));
+        if (user) users.push(user);
+      });
+      return users.sort((a: UserProfile, b: UserProfile) => a.email.localeCompare(b.email));
+    },
+
+    saveUser: async (user: UserProfile): Promise<void> => {
+      stored.set(user.uid, JSON.stringify(encodeUserProfile(user)));
+    },
+  };
+};
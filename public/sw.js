@@ -0,0 +1,59 @@
+// public/sw.js
+// Service worker: keeps the app shell (pages, scripts, styles) so the timetable opens without a connection.
+// The roster itself is not cached here; the page keeps its own copy in IndexedDB (lib/offlineStore.ts).
+// Only the app's pages and the built files are kept, each as it is fetched: other responses (the private
+// calendar feeds in particular) never reach the cache.
+
+const CACHE_NAME = 'timetable-cvd-v2'; // v1 also cached other responses; activating v2 deletes it
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg']; // Kept on install
+
+// Pages kept once opened: the timetable and the personal pages ('/employees/emp-1')
+const isAppPage = (pathname) => pathname === '/' || /^\/employees\/[^/]+\/?$/.test(pathname);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drop the caches of earlier versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Responses the server asked not to store (e.g. the calendar feeds) are never kept
+const isCacheable = (response) => response.ok && !/no-store/i.test(response.headers.get('Cache-Control') ?? '');
+
+// Fetch from the network and keep a copy of cacheable responses
+const fetchAndCache = (request) => fetch(request).then((response) => {
+  if (isCacheable(response)) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  // Firestore, Auth and anything else on another origin go straight to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Built files have hashed names and never change: cache first
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetchAndCache(request)));
+    return;
+  }
+  // The app shell and the pages: network first, so a deploy shows up at once; the kept copy when offline.
+  // Everything else ('/calendar/…', API routes, ...) is left to the browser.
+  if (!APP_SHELL.includes(url.pathname) && !(request.mode === 'navigate' && isAppPage(url.pathname))) return;
+  event.respondWith(
+    fetchAndCache(request).catch(() => caches.match(request, { ignoreSearch: true }).then((cached) => cached ?? Response.error()))
+  );
+});
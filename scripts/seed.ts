@@ -0,0 +1,151 @@
+// scripts/seed.ts
+// Loads a sample clinic into the local emulators (run `npm run seed` while `firebase emulators:start` is running).
+// Everything already in the emulators is wiped first, so the script can be run again at any time.
+// Writes go through the emulators' REST API as the "owner", which bypasses firestore.rules.
+import type { Branch, Employee, MonthData } from '../lib/types';
+import { AUTH_EMULATOR_PORT, FIRESTORE_EMULATOR_PORT, FirebaseSettings, readFirebaseSettings } from '../lib/firebaseConfig';
+import { createDefaultClinicConfig, encodeClinicConfig, ClinicConfig } from '../lib/clinicConfig';
+import { StoredMonth, splitMonthDocument } from '../lib/scheduleSchema';
+import { generateMonthSchedule } from '../lib/scheduleGenerator';
+import { toMonthKey } from '../lib/dates';
+import { DEFAULT_CLINIC_DAY_OFF, PART_TIME_BRANCH, POSITIONS } from '../lib/constants';
+import { UserProfile } from '../lib/roles';
+
+const settings: FirebaseSettings = readFirebaseSettings({ ...process.env, NEXT_PUBLIC_USE_FIREBASE_EMULATORS: 'true' });
+const host: string = settings.emulatorHost ?? 'localhost';
+const projectId: string = settings.options.projectId ?? '';
+const firestoreUrl: string = `http://${host}:${FIRESTORE_EMULATOR_PORT}`;
+const authUrl: string = `http://${host}:${AUTH_EMULATOR_PORT}`;
+
+// Password of every seeded account
+const SEED_PASSWORD: string = 'password';
+
+const FIRST_NAMES: string[] = [
+  'สมชาย', 'สมหญิง', 'วิภา', 'ประเสริฐ', 'นงลักษณ์', 'อนันต์', 'กัญญา', 'ธนพล', 'สุภาพร', 'วีระ',
+  'พรทิพย์', 'ชัยวัฒน์', 'รัตนา', 'สุริยา', 'จันทร์เพ็ญ', 'ปิยะ', 'อรุณี', 'เกรียงไกร', 'มาลี', 'ศักดิ์ชัย',
+  'ดวงใจ', 'ณัฐพล', 'ลำดวน', 'บุญมี', 'เพ็ญศรี', 'สมศักดิ์', 'อัมพร', 'ไพโรจน์', 'ทองใบ', 'สายสุนีย์',
+  'ประภา', 'วันชัย', 'จิราพร', 'สมบัติ', 'นิตยา', 'ยุทธนา',
+];
+const LAST_NAMES: string[] = ['ใจดี', 'ศรีสุข', 'บุญมา', 'แก้วกล้า', 'ทองดี', 'มั่นคง', 'สายบุญ', 'พรหมมา', 'ชัยมงคล', 'รุ่งเรือง'];
+
+// Firestore REST value encoding
+type FirestoreValue = Record<string, unknown>;
+const toFirestoreValue = (value: unknown): FirestoreValue => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  if (typeof value === 'string') return { stringValue: value };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFirestoreValue) } };
+  return { mapValue: { fields: toFirestoreFields(value as Record<string, unknown>) } };
+};
+const toFirestoreFields = (data: Record<string, unknown>): Record<string, FirestoreValue> => {
+  const fields: Record<string, FirestoreValue> = {};
+  Object.entries(data).forEach(([key, value]: [string, unknown]) => {
+    if (value !== undefined) fields[key] = toFirestoreValue(value);
+  });
+  return fields;
+};
+
+const request = async (url: string, init: RequestInit): Promise<unknown> => {
+  const response: Response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${init.method ?? 'GET'} ${url} failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+const writeDocument = async (path: string, data: object): Promise<void> => {
+  await request(`${firestoreUrl}/v1/projects/${projectId}/databases/(default)/documents/${path}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer owner' },
+    body: JSON.stringify({ fields: toFirestoreFields(data as Record<string, unknown>) }),
+  });
+};
+
+const createAccount = async (email: string): Promise<string> => {
+  const result = await request(`${authUrl}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=emulator`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: SEED_PASSWORD, returnSecureToken: true }),
+  }) as { localId: string };
+  return result.localId;
+};
+
+const clearEmulators = async (): Promise<void> => {
+  await request(`${firestoreUrl}/emulator/v1/projects/${projectId}/databases/(default)/documents`, { method: 'DELETE' });
+  await request(`${authUrl}/emulator/v1/projects/${projectId}/accounts`, { method: 'DELETE' });
+};
+
+// Three full-timers per branch (one of each position) and six part-timers
+const createSampleEmployees = (branches: Branch[]): Employee[] => {
+  const nameAt = (index: number): string => `${FIRST_NAMES[index % FIRST_NAMES.length]} ${LAST_NAMES[index % LAST_NAMES.length]}`;
+  const employees: Employee[] = [];
+  branches.forEach((branch: Branch) => {
+    POSITIONS.forEach((position: string) => {
+      employees.push({ id: `emp${employees.length + 1}`, name: nameAt(employees.length), position, branch: branch.id, type: 'full-time' });
+    });
+  });
+  for (let i = 0; i < 6; i++) {
+    const partTimer: Employee = { id: `pte${i + 1}`, name: nameAt(employees.length), position: POSITIONS[i % POSITIONS.length], branch: PART_TIME_BRANCH, type: 'part-time' };
+    if (i % 2 === 1) {
+      // Half of them have declared limits, so the dispatch board has something to respect
+      partTimer.availability = { weekdays: [1, 2, 3, 4, 5], shifts: [], branches: branches.slice(i, i + 3).map((b: Branch) => b.id) };
+    }
+    employees.push(partTimer);
+  }
+  return employees;
+};
+
+const seed = async (): Promise<void> => {
+  console.log(`Seeding project "${projectId}" on ${host} ...`);
+  await clearEmulators();
+
+  const config: ClinicConfig = createDefaultClinicConfig();
+  await writeDocument('config/clinic', encodeClinicConfig(config));
+
+  const today: Date = new Date();
+  const year: number = today.getFullYear();
+  const month: number = today.getMonth();
+  const monthKey: string = toMonthKey(year, month);
+  const employees: Employee[] = createSampleEmployees(config.branches);
+  const { schedule } = generateMonthSchedule({
+    year,
+    month,
+    employees,
+    branches: config.branches.map((b: Branch) => b.id),
+    schedule: {},
+    closures: { clinicDayOff: DEFAULT_CLINIC_DAY_OFF, branchClosures: config.branchClosures, holidays: config.holidays },
+    staffingRules: config.staffingRules,
+  });
+  const monthData: MonthData = { employees, monthlySchedule: schedule, clinicDayOff: DEFAULT_CLINIC_DAY_OFF, removedEmployees: [] };
+  // The month document, the shifts of each branch and part-timer day and every employee's own copy (see lib/scheduleRepository.ts)
+  const stored: StoredMonth = splitMonthDocument(monthKey, monthData);
+  await writeDocument(`schedules/${monthKey}`, stored.month);
+  for (const [branchId, document] of Object.entries(stored.shifts)) {
+    await writeDocument(`schedules/${monthKey}/shifts/${branchId}`, document);
+  }
+  for (const [shiftId, document] of Object.entries(stored.partTimeShifts)) {
+    await writeDocument(`schedules/${monthKey}/partTimeShifts/${shiftId}`, document);
+  }
+  for (const [employeeId, document] of Object.entries(stored.staff)) {
+    await writeDocument(`staffSchedules/${employeeId}/months/${monthKey}`, document);
+  }
+
+  const accounts: Omit<UserProfile, 'uid'>[] = [
+    { email: 'admin@example.com', role: 'admin', branchId: null, employeeId: null },
+    { email: 'manager@example.com', role: 'manager', branchId: config.branches[0].id, employeeId: null },
+    { email: 'staff@example.com', role: 'staff', branchId: null, employeeId: employees[0].id },
+  ];
+  for (const account of accounts) {
+    const uid: string = await createAccount(account.email);
+    await writeDocument(`users/${uid}`, account);
+  }
+
+  console.log(`Done: ${config.branches.length} branches, ${employees.length} employees, shifts for ${monthKey}.`);
+  console.log(`Sign in as ${accounts.map((a) => a.email).join(', ')} with password "${SEED_PASSWORD}".`);
+};
+
+seed().catch((error: unknown) => {
+  console.error('Seeding failed', error);
+  process.exit(1);
+});